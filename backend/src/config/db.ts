@@ -0,0 +1,145 @@
+import fs from "fs";
+import path from "path";
+import crypto from "crypto";
+
+// Every stored document carries a Mongo-style id and timestamps so the
+// front end can keep reading `_id`, `createdAt` and `updatedAt`.
+export interface BaseDocument {
+  _id: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type NewDocument<T extends BaseDocument> = Omit<
+  T,
+  "_id" | "createdAt" | "updatedAt"
+>;
+
+type Collections = Record<string, BaseDocument[]>;
+
+let dataFile = "";
+let collections: Collections = {};
+let inTransaction = false;
+
+const clone = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+// Write to a temp file and rename so a crash never leaves half a store
+const persist = () => {
+  if (!dataFile || inTransaction) return;
+  fs.mkdirSync(path.dirname(dataFile), { recursive: true });
+  const tmpFile = `${dataFile}.tmp`;
+  fs.writeFileSync(tmpFile, JSON.stringify(collections, null, 2));
+  fs.renameSync(tmpFile, dataFile);
+};
+
+export const connectDB = () => {
+  dataFile = path.resolve(process.env.DATA_FILE || "data/goldsmith.json");
+
+  try {
+    collections = fs.existsSync(dataFile)
+      ? JSON.parse(fs.readFileSync(dataFile, "utf8"))
+      : {};
+    console.log(`Data store loaded: ${dataFile}`);
+  } catch (error) {
+    console.error(`Error: ${(error as Error).message}`);
+    process.exit(1);
+  }
+};
+
+// Runs several writes as one: nothing reaches the data file until `work`
+// returns, and if it throws every collection is put back as it was. Nested
+// calls join the outer transaction.
+export const transaction = <T>(work: () => T): T => {
+  if (inTransaction) return work();
+
+  const snapshot = clone(collections);
+  inTransaction = true;
+  try {
+    const result = work();
+    inTransaction = false;
+    persist();
+    return result;
+  } catch (error) {
+    collections = snapshot;
+    throw error;
+  } finally {
+    inTransaction = false;
+  }
+};
+
+// 24 hex characters, the same shape as a MongoDB ObjectId
+export const objectId = () => crypto.randomBytes(12).toString("hex");
+
+export class Collection<T extends BaseDocument> {
+  constructor(private readonly name: string) {}
+
+  private get docs(): T[] {
+    if (!collections[this.name]) collections[this.name] = [];
+    return collections[this.name] as T[];
+  }
+
+  find(predicate: (doc: T) => boolean = () => true): T[] {
+    return clone(this.docs.filter(predicate));
+  }
+
+  findOne(predicate: (doc: T) => boolean): T | null {
+    const doc = this.docs.find(predicate);
+    return doc ? clone(doc) : null;
+  }
+
+  findById(id: string): T | null {
+    return this.findOne((doc) => doc._id === id);
+  }
+
+  count(predicate: (doc: T) => boolean = () => true): number {
+    return this.docs.filter(predicate).length;
+  }
+
+  create(data: NewDocument<T>): T {
+    const now = new Date().toISOString();
+    const doc = {
+      ...clone(data),
+      _id: objectId(),
+      createdAt: now,
+      updatedAt: now,
+    } as T;
+    this.docs.push(doc);
+    persist();
+    return clone(doc);
+  }
+
+  // Puts back a document exactly as it was stored, id and timestamps
+  // included, e.g. when it is restored from the trash
+  insert(doc: T): T {
+    if (this.docs.some((existing) => existing._id === doc._id)) {
+      throw new Error(`Document ${doc._id} already exists in ${this.name}`);
+    }
+    this.docs.push(clone(doc));
+    persist();
+    return clone(doc);
+  }
+
+  updateById(id: string, update: Partial<NewDocument<T>>): T | null {
+    const index = this.docs.findIndex((doc) => doc._id === id);
+    if (index === -1) return null;
+
+    const doc = {
+      ...this.docs[index],
+      ...clone(update),
+      _id: id,
+      updatedAt: new Date().toISOString(),
+    } as T;
+    this.docs[index] = doc;
+    persist();
+    return clone(doc);
+  }
+
+  deleteById(id: string): boolean {
+    const index = this.docs.findIndex((doc) => doc._id === id);
+    if (index === -1) return false;
+
+    this.docs.splice(index, 1);
+    persist();
+    return true;
+  }
+}
@@ -0,0 +1,67 @@
+// Who may do what. Reading is open to every logged in user; anything that
+// changes data needs one of these permissions.
+export const ROLES = ["owner", "accountant", "counter", "readonly"] as const;
+
+export type Role = (typeof ROLES)[number];
+
+export type Permission =
+  | "clients:create"
+  | "clients:edit"
+  | "clients:delete"
+  | "receipts:create"
+  | "receipts:edit"
+  | "receipts:delete"
+  | "receipts:reopen"
+  | "ledger:adjust"
+  | "payments:record"
+  | "payments:void"
+  | "rates:manage"
+  | "audit:view"
+  | "users:manage";
+
+const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  owner: [
+    "clients:create",
+    "clients:edit",
+    "clients:delete",
+    "receipts:create",
+    "receipts:edit",
+    "receipts:delete",
+    "receipts:reopen",
+    "ledger:adjust",
+    "payments:record",
+    "payments:void",
+    "rates:manage",
+    "audit:view",
+    "users:manage",
+  ],
+  accountant: [
+    "clients:create",
+    "clients:edit",
+    "receipts:create",
+    "receipts:edit",
+    "ledger:adjust",
+    "payments:record",
+    "payments:void",
+    "rates:manage",
+    "audit:view",
+  ],
+  // Counter staff write new receipts, which post to the client's ledger,
+  // and take payments over the counter
+  counter: [
+    "clients:create",
+    "clients:edit",
+    "receipts:create",
+    "payments:record",
+  ],
+  readonly: [],
+};
+
+export const isRole = (value: unknown): value is Role =>
+  ROLES.includes(value as Role);
+
+export const permissionsFor = (role: Role): Permission[] =>
+  ROLE_PERMISSIONS[role] || [];
+
+export const hasPermission = (role: Role, permission: Permission) =>
+  permissionsFor(role).includes(permission);
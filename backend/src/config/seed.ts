@@ -0,0 +1,137 @@
+import crypto from "crypto";
+import { transaction } from "./db";
+import { Users } from "../models/User";
+import { Clients } from "../models/Client";
+import { Receipts } from "../models/Receipt";
+import { AdminReceipts } from "../models/AdminReceipt";
+import { LedgerEntries } from "../models/LedgerEntry";
+import { hashPassword } from "../utils/passwords";
+import { sumGrams, toGrams, toNumber } from "../utils/numbers";
+import {
+  clientBalances,
+  postEntry,
+  receiptDate,
+  shopReceiptEffect,
+  syncReceiptEntries,
+  workReceiptEffect,
+} from "../utils/ledger";
+import { shopReceiptCharge, syncReceiptCharge } from "../utils/cashLedger";
+import { CashEntries } from "../models/CashEntry";
+
+// An empty store gets one owner account so somebody can log in and add the
+// rest. Without ADMIN_PASSWORD a random password is generated and printed once.
+export const seedAdminUser = async () => {
+  // Accounts created before roles existed had full access; keep it that way
+  Users.find((user) => !user.role).forEach((user) =>
+    Users.updateById(user._id, { role: "owner" })
+  );
+
+  if (Users.count() > 0) return;
+
+  const username = (process.env.ADMIN_USERNAME || "admin").toLowerCase();
+  const password =
+    process.env.ADMIN_PASSWORD || crypto.randomBytes(9).toString("base64url");
+
+  Users.create({
+    username,
+    name: "Administrator",
+    role: "owner",
+    passwordHash: await hashPassword(password),
+    active: true,
+  });
+
+  console.log(
+    process.env.ADMIN_PASSWORD
+      ? `Created user "${username}" from ADMIN_PASSWORD`
+      : `Created user "${username}" with password: ${password}`
+  );
+};
+
+// Stores written before the ledger existed only have `client.balance`. Each
+// old receipt is posted at its current effect and whatever is left of the
+// stored balance becomes an opening entry in gold, so editing an old receipt
+// later posts just the difference. Clients that already have entries are
+// skipped. Clients saved before balances were kept per metal get theirs
+// worked out from their entries.
+export const seedLedger = () => {
+  Clients.find(
+    (client) => !LedgerEntries.findOne((entry) => entry.clientId === client._id)
+  ).forEach((client) =>
+    transaction(() => {
+      const receipts = Receipts.find((r) => r.clientId === client._id);
+      const workReceipts = AdminReceipts.find((r) => r.clientId === client._id);
+      const posted =
+        sumGrams(receipts, shopReceiptEffect) +
+        sumGrams(workReceipts, workReceiptEffect);
+      const opening = toGrams(toNumber(client.balance) - posted);
+
+      if (opening !== 0) {
+        postEntry({
+          clientId: client._id,
+          date: client.createdAt,
+          amount: opening,
+          sourceType: "opening",
+          description: "Opening balance",
+        });
+      }
+      receipts.forEach((receipt) =>
+        syncReceiptEntries(
+          {
+            type: "receipt",
+            id: receipt._id,
+            voucherId: receipt.voucherId,
+            clientId: client._id,
+            metal: receipt.metalType,
+            date: receiptDate(receipt),
+          },
+          shopReceiptEffect(receipt)
+        )
+      );
+      workReceipts.forEach((receipt) =>
+        syncReceiptEntries(
+          {
+            type: "adminReceipt",
+            id: receipt._id,
+            voucherId: receipt.voucherId,
+            clientId: client._id,
+            metal: receipt.metalType,
+            date: receiptDate(receipt),
+          },
+          workReceiptEffect(receipt)
+        )
+      );
+    })
+  );
+
+  Clients.find((client) => !client.balances).forEach((client) =>
+    Clients.updateById(client._id, { balances: clientBalances(client._id) })
+  );
+};
+
+// Shop receipts saved before the cash balance existed charge their amount
+// once, dated when they were written
+export const seedCashLedger = () => {
+  const charged = new Set(
+    CashEntries.find((entry) => entry.sourceType === "receipt").map(
+      (entry) => entry.sourceId
+    )
+  );
+  const receipts = Receipts.find(
+    (receipt) => !charged.has(receipt._id) && shopReceiptCharge(receipt) !== 0
+  );
+  if (receipts.length === 0) return;
+
+  transaction(() =>
+    receipts.forEach((receipt) =>
+      syncReceiptCharge(
+        {
+          id: receipt._id,
+          voucherId: receipt.voucherId,
+          clientId: receipt.clientId,
+          date: receiptDate(receipt),
+        },
+        shopReceiptCharge(receipt)
+      )
+    )
+  );
+};
@@ -0,0 +1,35 @@
+// Voucher and bill numbering. Every series has its own prefix and restarts
+// at 0001 each financial year, e.g. SH-2026-27-0001.
+export type VoucherSeries =
+  | "shopReceipt"
+  | "workReceipt"
+  | "workBill"
+  | "clientBill"
+  | "payment";
+
+const DEFAULT_PREFIXES: Record<VoucherSeries, string> = {
+  shopReceipt: "SH",
+  workReceipt: "GA",
+  workBill: "WB",
+  clientBill: "SB",
+  payment: "PY",
+};
+
+const PREFIX_VARIABLES: Record<VoucherSeries, string> = {
+  shopReceipt: "SHOP_RECEIPT_PREFIX",
+  workReceipt: "WORK_RECEIPT_PREFIX",
+  workBill: "WORK_BILL_PREFIX",
+  clientBill: "CLIENT_BILL_PREFIX",
+  payment: "PAYMENT_PREFIX",
+};
+
+// Read when a number is issued rather than at import, so `.env` has loaded
+export const voucherPrefix = (series: VoucherSeries): string =>
+  process.env[PREFIX_VARIABLES[series]]?.trim() || DEFAULT_PREFIXES[series];
+
+// Month the financial year starts in (1-12); April unless FY_START_MONTH says
+// otherwise
+export const financialYearStartMonth = (): number => {
+  const month = parseInt(process.env.FY_START_MONTH || "", 10);
+  return month >= 1 && month <= 12 ? month : 4;
+};
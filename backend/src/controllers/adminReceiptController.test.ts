@@ -0,0 +1,85 @@
+import { describe, expect, it } from "vitest";
+import { AdminReceipt } from "../models/AdminReceipt";
+import { Clients } from "../models/Client";
+import { callHandler } from "../test/request";
+import { financialYear } from "../utils/voucherId";
+import { saveAdminReceipt } from "./adminReceiptController";
+
+const client = Clients.create({
+  shopName: "Shop",
+  clientName: "Client",
+  phoneNumber: "9999999999",
+  address: "Street",
+  active: true,
+  balances: {},
+});
+
+const saveGiven = (date: string) =>
+  callHandler<{ receipt: AdminReceipt }>(saveAdminReceipt, {
+    body: {
+      receipt: {
+        clientId: client._id,
+        given: {
+          date,
+          items: [
+            {
+              productName: "Bar",
+              pureWeight: 10,
+              purePercent: 91.6,
+              melting: 92,
+            },
+          ],
+        },
+      },
+    },
+  });
+
+describe("saveAdminReceipt", () => {
+  it("numbers a receipt in the financial year it is dated in", async () => {
+    const lastYear = new Date();
+    lastYear.setFullYear(lastYear.getFullYear() - 1);
+    const date = lastYear.toISOString();
+
+    const { status, body } = await saveGiven(date);
+
+    expect(status).toBe(201);
+    expect(body?.receipt.voucherId).toContain(
+      `-${financialYear(new Date(date))}-`
+    );
+    expect(body?.receipt.voucherId).not.toContain(`-${financialYear()}-`);
+  });
+
+  it("numbers a receipt dated today in the current year", async () => {
+    const { body } = await saveGiven(new Date().toISOString());
+
+    expect(body?.receipt.voucherId).toContain(`-${financialYear()}-`);
+  });
+
+  it("leaves blank rows out of the status, as the balance does", async () => {
+    const { body } = await callHandler<{ receipt: AdminReceipt }>(
+      saveAdminReceipt,
+      {
+        body: {
+          receipt: {
+            clientId: client._id,
+            given: {
+              items: [
+                {
+                  productName: "Bar",
+                  pureWeight: 10,
+                  purePercent: 100,
+                  melting: 100,
+                },
+              ],
+            },
+            received: {
+              items: [{ productName: "", finalOrnamentsWt: "" }],
+            },
+          },
+        },
+      }
+    );
+
+    expect(body?.receipt.status).toBe("incomplete");
+  });
+});
@@ -0,0 +1,564 @@
+import { Request, Response } from "express";
+import asyncHandler from "express-async-handler";
+import { transaction } from "../config/db";
+import { Client, Clients } from "../models/Client";
+import {
+  AdminReceipt,
+  AdminReceipts,
+  ManualCalculations,
+  WorkGiven,
+  WorkReceived,
+} from "../models/AdminReceipt";
+import { toGrams, toNumber } from "../utils/numbers";
+import { isValidDate } from "../utils/days";
+import { allocateVoucherId, peekVoucherId } from "../utils/voucherId";
+import { actorOf, AuditActor, recordAudit } from "../utils/audit";
+import { WorkBills } from "../models/WorkBill";
+import {
+  receiptDate,
+  syncReceiptEntries,
+  workReceiptEffect,
+} from "../utils/ledger";
+import { trashReceipt } from "../utils/trash";
+import { receiptRevisions, recordRevision } from "../utils/revisions";
+import {
+  cancelledFields,
+  finalizedFields,
+  reopenedFields,
+} from "../utils/receiptLock";
+import {
+  BALANCE_TAG,
+  hasFilledRows,
+  manualResult,
+  workGivenTotal,
+  workGivenTotals,
+  workReceivedAmounts,
+  workReceivedTotals,
+} from "../../../src/lib/receipt-calculations";
+import { metalOf } from "../../../src/lib/metal-balances";
+
+// Receipt fields as posted by the form; numbers may arrive as strings
+type ReceiptBody = Request["body"];
+
+const voucherIds = () =>
+  AdminReceipts.find().map((receipt) => receipt.voucherId);
+
+// Given and received dates are read with `new Date`, which would fail on
+// anything that is not a date
+const checkDates = (body: ReceiptBody, res: Response) => {
+  if (body.given?.date && !isValidDate(body.given.date)) {
+    res.status(400);
+    throw new Error("Given date is not a valid date");
+  }
+  if (body.received?.date && !isValidDate(body.received.date)) {
+    res.status(400);
+    throw new Error("Received date is not a valid date");
+  }
+};
+
+// Each lot's pure weight and each ornament's total are worked out here
+// whatever the form sent, and the totals added up from them; only the
+// balance row's total is entered by hand
+const normalizeGiven = (
+  given: Partial<WorkGiven> | undefined,
+  metal?: string
+): WorkGiven => {
+  const items = (given?.items || []).map((item) => ({
+    ...item,
+    productName: item.productName || "",
+    pureWeight: toGrams(item.pureWeight),
+    purePercent: toNumber(item.purePercent),
+    melting: toNumber(item.melting),
+    total:
+      item.tag === BALANCE_TAG
+        ? toGrams(item.total)
+        : workGivenTotal(item, metal),
+  }));
+  return {
+    date: given?.date ? new Date(given.date).toISOString() : "",
+    items,
+    ...workGivenTotals(items, metal),
+  };
+};
+
+const normalizeReceived = (
+  received: Partial<WorkReceived> | undefined,
+  metal?: string
+): WorkReceived => {
+  const items = (received?.items || []).map((item) => {
+    const { subTotal, total } = workReceivedAmounts(item, metal);
+    return {
+      ...item,
+      productName: item.productName || "",
+      finalOrnamentsWt: toGrams(item.finalOrnamentsWt),
+      stoneWeight: toGrams(item.stoneWeight),
+      makingChargePercent: toNumber(item.makingChargePercent),
+      subTotal,
+      total,
+    };
+  });
+  return {
+    date: received?.date ? new Date(received.date).toISOString() : "",
+    items,
+    ...workReceivedTotals(items),
+  };
+};
+
+// The totals come from the receipt itself and the result is worked out again
+// here, so only the operation is taken from the form
+const normalizeManualCalculations = (
+  given: WorkGiven,
+  received: WorkReceived,
+  operation = "subtract-given-received"
+): ManualCalculations => ({
+  givenTotal: given.total,
+  receivedTotal: received.total,
+  operation,
+  result: manualResult(given.total, received.total, operation),
+});
+
+const deriveStatus = (
+  given: WorkGiven,
+  received: WorkReceived
+): AdminReceipt["status"] => {
+  const hasGiven = hasFilledRows(given.items);
+  const hasReceived = hasFilledRows(received.items);
+  if (hasGiven && hasReceived) return "complete";
+  if (hasGiven || hasReceived) return "incomplete";
+  return "empty";
+};
+
+const postToLedger = (
+  receipt: AdminReceipt,
+  effect: number,
+  userId?: string
+) =>
+  syncReceiptEntries(
+    {
+      type: "adminReceipt",
+      id: receipt._id,
+      voucherId: receipt.voucherId,
+      clientId: receipt.clientId,
+      metal: receipt.metalType,
+      status: receipt.status,
+      date: receiptDate(receipt),
+    },
+    effect,
+    userId
+  );
+
+// The receipt and its ledger entry are written together or not at all
+const insertAdminReceipt = (
+  body: ReceiptBody,
+  client: Client,
+  actor: AuditActor = {}
+): AdminReceipt =>
+  transaction(() => {
+    const metalType = metalOf(body.metalType);
+    const given = normalizeGiven(body.given, metalType);
+    const received = normalizeReceived(body.received, metalType);
+
+    // Numbered here, never by the form, so the series stays gap-free. The
+    // financial year is the one the metal was given in.
+    const voucherId = allocateVoucherId(
+      "workReceipt",
+      voucherIds(),
+      given.date || undefined
+    );
+
+    const receipt = AdminReceipts.create({
+      clientId: client._id,
+      clientName: body.clientName || client.clientName,
+      voucherId,
+      metalType,
+      status: deriveStatus(given, received),
+      given,
+      received,
+      manualCalculations: normalizeManualCalculations(
+        given,
+        received,
+        body.manualCalculations?.operation
+      ),
+    });
+    recordAudit(
+      {
+        entityType: "adminReceipt",
+        entityId: receipt._id,
+        label: receipt.voucherId,
+        action: "create",
+        after: receipt,
+      },
+      actor
+    );
+    const effect = workReceiptEffect(receipt);
+    recordRevision("adminReceipt", receipt, effect, actor);
+    postToLedger(receipt, effect, actor.userId);
+    return receipt;
+  });
+
+const reviseAdminReceipt = (
+  receipt: AdminReceipt,
+  body: ReceiptBody,
+  actor: AuditActor = {}
+): AdminReceipt =>
+  transaction(() => {
+    // Sides kept from before are worked out again too, in case the metal
+    // changed
+    const metalType = body.metalType
+      ? metalOf(body.metalType)
+      : receipt.metalType;
+    const given = normalizeGiven(body.given || receipt.given, metalType);
+    const received = normalizeReceived(
+      body.received || receipt.received,
+      metalType
+    );
+
+    const updatedReceipt = AdminReceipts.updateById(receipt._id, {
+      clientName: body.clientName || receipt.clientName,
+      metalType,
+      status: deriveStatus(given, received),
+      given,
+      received,
+      manualCalculations: normalizeManualCalculations(
+        given,
+        received,
+        body.manualCalculations?.operation ||
+          receipt.manualCalculations?.operation
+      ),
+    })!;
+    recordAudit(
+      {
+        entityType: "adminReceipt",
+        entityId: receipt._id,
+        label: receipt.voucherId,
+        action: "update",
+        before: receipt,
+        after: updatedReceipt,
+      },
+      actor
+    );
+    const effect = workReceiptEffect(updatedReceipt);
+    recordRevision("adminReceipt", updatedReceipt, effect, actor, {
+      receipt,
+      balanceEffect: workReceiptEffect(receipt),
+    });
+    postToLedger(updatedReceipt, effect, actor.userId);
+    return updatedReceipt;
+  });
+
+const byNewest = (a: AdminReceipt, b: AdminReceipt) =>
+  b.createdAt.localeCompare(a.createdAt);
+
+// @desc    Get all Work Receipts, optionally for one client
+// @route   GET /api/admin-receipts?clientId=
+// @access  Private
+export const getAdminReceipts = asyncHandler(async (req, res) => {
+  const clientId = req.query.clientId as string | undefined;
+  const receipts = AdminReceipts.find(
+    (receipt) => !clientId || receipt.clientId === clientId
+  ).sort(byNewest);
+  res.json(receipts);
+});
+
+// @desc    Search Work Receipts by voucher ID, client name or status
+// @route   GET /api/admin-receipts/search
+// @access  Private
+export const searchAdminReceipts = asyncHandler(async (req, res) => {
+  const query = String(req.query.query || "").toLowerCase();
+  const status = req.query.status as string | undefined;
+  const receipts = AdminReceipts.find(
+    (receipt) =>
+      (!query ||
+        receipt.voucherId?.toLowerCase().includes(query) ||
+        receipt.clientName?.toLowerCase().includes(query)) &&
+      (!status || receipt.status === status)
+  ).sort(byNewest);
+  res.json(receipts);
+});
+
+// @desc    Get Work Receipt by ID
+// @route   GET /api/admin-receipts/:id
+// @access  Private
+export const getAdminReceiptById = asyncHandler(async (req, res) => {
+  const receipt = AdminReceipts.findById(req.params.id);
+
+  if (receipt) {
+    res.json(receipt);
+  } else {
+    res.status(404);
+    throw new Error("Work Receipt not found");
+  }
+});
+
+// @desc    Saved versions of a Work Receipt, oldest first
+// @route   GET /api/admin-receipts/:id/revisions
+// @access  Private
+export const getAdminReceiptRevisions = asyncHandler(async (req, res) => {
+  const receipt = AdminReceipts.findById(req.params.id);
+
+  if (!receipt) {
+    res.status(404);
+    throw new Error("Work Receipt not found");
+  }
+
+  res.json(receiptRevisions("adminReceipt", receipt._id));
+});
+
+// @desc    Create new Work Receipt
+// @route   POST /api/admin-receipts
+// @access  Private (receipts:create)
+export const createAdminReceipt = asyncHandler(async (req, res) => {
+  const client = Clients.findById(req.body.clientId);
+  if (!client) {
+    res.status(404);
+    throw new Error("Client not found");
+  }
+  checkDates(req.body, res);
+
+  const receipt = insertAdminReceipt(req.body, client, actorOf(req));
+  res.status(201).json(receipt);
+});
+
+// @desc    Update Work Receipt
+// @route   PUT /api/admin-receipts/:id
+// @access  Private (receipts:edit)
+export const updateAdminReceipt = asyncHandler(async (req, res) => {
+  const receipt = AdminReceipts.findById(req.params.id);
+
+  if (!receipt) {
+    res.status(404);
+    throw new Error("Work Receipt not found");
+  }
+  if (receipt.isFinalized) {
+    res.status(400);
+    throw new Error("Work Receipt is finalized; reopen it to make changes");
+  }
+  if (receipt.status === "cancelled") {
+    res.status(400);
+    throw new Error("Cancelled Work Receipts cannot be changed");
+  }
+  checkDates(req.body, res);
+
+  const updatedReceipt = reviseAdminReceipt(receipt, req.body, actorOf(req));
+  res.json(updatedReceipt);
+});
+
+// @desc    Create (no id) or update a Work Receipt and return the client's
+//          new balance with it
+// @route   POST /api/admin-receipts/save
+// @access  Private (receipts:create without id, receipts:edit with id)
+export const saveAdminReceipt = asyncHandler(async (req, res) => {
+  const { id, receipt: input = {} } = req.body;
+  checkDates(input, res);
+  let receipt: AdminReceipt;
+
+  if (id) {
+    const existing = AdminReceipts.findById(id);
+    if (!existing) {
+      res.status(404);
+      throw new Error("Work Receipt not found");
+    }
+    if (existing.isFinalized) {
+      res.status(400);
+      throw new Error("Work Receipt is finalized; reopen it to make changes");
+    }
+    if (existing.status === "cancelled") {
+      res.status(400);
+      throw new Error("Cancelled Work Receipts cannot be changed");
+    }
+    receipt = reviseAdminReceipt(existing, input, actorOf(req));
+  } else {
+    const client = Clients.findById(input.clientId);
+    if (!client) {
+      res.status(404);
+      throw new Error("Client not found");
+    }
+    receipt = insertAdminReceipt(input, client, actorOf(req));
+  }
+
+  res.status(id ? 200 : 201).json({
+    success: true,
+    receipt,
+    client: Clients.findById(receipt.clientId),
+  });
+});
+
+// @desc    Move a Work Receipt to the trash, reversing its balance effect
+//          until it is restored
+// @route   DELETE /api/admin-receipts/:id
+// @access  Private (receipts:delete)
+export const deleteAdminReceipt = asyncHandler(async (req, res) => {
+  const receipt = AdminReceipts.findById(req.params.id);
+
+  if (!receipt) {
+    res.status(404);
+    throw new Error("Work Receipt not found");
+  }
+  if (receipt.isFinalized) {
+    res.status(400);
+    throw new Error("Work Receipt is finalized; reopen it to make changes");
+  }
+  const bill = WorkBills.findOne(
+    (bill) => bill.receiptId === receipt._id && bill.status === "issued"
+  );
+  if (bill) {
+    res.status(409);
+    throw new Error(
+      `Work Receipt ${receipt.voucherId} is billed as ${bill.billNumber}; void the bill first`
+    );
+  }
+
+  const actor = actorOf(req);
+  transaction(() => trashReceipt("adminReceipt", receipt, actor));
+  res.json({ message: "Work Receipt moved to the trash" });
+});
+
+// @desc    Cancel a Work Receipt: it keeps its voucher number, its balance
+//          effect is reversed and it can no longer change; needs a reason
+// @route   POST /api/admin-receipts/:id/cancel
+// @access  Private (receipts:delete)
+export const cancelAdminReceipt = asyncHandler(async (req, res) => {
+  const receipt = AdminReceipts.findById(req.params.id);
+  const actor = actorOf(req);
+
+  if (!receipt) {
+    res.status(404);
+    throw new Error("Work Receipt not found");
+  }
+  if (receipt.status === "cancelled") {
+    res.status(400);
+    throw new Error("Work Receipt is already cancelled");
+  }
+  if (receipt.isFinalized) {
+    res.status(400);
+    throw new Error("Work Receipt is finalized; reopen it to make changes");
+  }
+  if (!actor.reason) {
+    res.status(400);
+    throw new Error("A reason is required to cancel a Work Receipt");
+  }
+  const bill = WorkBills.findOne(
+    (bill) => bill.receiptId === receipt._id && bill.status === "issued"
+  );
+  if (bill) {
+    res.status(409);
+    throw new Error(
+      `Work Receipt ${receipt.voucherId} is billed as ${bill.billNumber}; void the bill first`
+    );
+  }
+
+  const updatedReceipt = transaction(() => {
+    const cancelled = AdminReceipts.updateById(receipt._id, {
+      ...cancelledFields(actor),
+      status: "cancelled",
+    })!;
+    recordAudit(
+      {
+        entityType: "adminReceipt",
+        entityId: receipt._id,
+        label: receipt.voucherId,
+        action: "update",
+        before: receipt,
+        after: cancelled,
+      },
+      actor
+    );
+    recordRevision("adminReceipt", cancelled, 0, actor, {
+      receipt,
+      balanceEffect: workReceiptEffect(receipt),
+    });
+    postToLedger(cancelled, 0, actor.userId);
+    return cancelled;
+  });
+  res.json(updatedReceipt);
+});
+
+// @desc    Finalize a complete Work Receipt: it can no longer be edited or
+//          deleted, so its ledger entry stays as posted
+// @route   POST /api/admin-receipts/:id/finalize
+// @access  Private (receipts:edit)
+export const finalizeAdminReceipt = asyncHandler(async (req, res) => {
+  const receipt = AdminReceipts.findById(req.params.id);
+
+  if (!receipt) {
+    res.status(404);
+    throw new Error("Work Receipt not found");
+  }
+  if (receipt.isFinalized) {
+    res.status(400);
+    throw new Error("Work Receipt is already finalized");
+  }
+  if (receipt.status !== "complete") {
+    res.status(400);
+    throw new Error("Only complete Work Receipts can be finalized");
+  }
+
+  const actor = actorOf(req);
+  const updatedReceipt = transaction(() => {
+    const finalized = AdminReceipts.updateById(
+      receipt._id,
+      finalizedFields(actor)
+    )!;
+    recordAudit(
+      {
+        entityType: "adminReceipt",
+        entityId: receipt._id,
+        label: receipt.voucherId,
+        action: "update",
+        before: receipt,
+        after: finalized,
+      },
+      actor
+    );
+    return finalized;
+  });
+  res.json(updatedReceipt);
+});
+
+// @desc    Reopen a finalized Work Receipt for changes; needs a reason
+// @route   POST /api/admin-receipts/:id/reopen
+// @access  Private (receipts:reopen)
+export const reopenAdminReceipt = asyncHandler(async (req, res) => {
+  const receipt = AdminReceipts.findById(req.params.id);
+  const actor = actorOf(req);
+
+  if (!receipt) {
+    res.status(404);
+    throw new Error("Work Receipt not found");
+  }
+  if (!receipt.isFinalized) {
+    res.status(400);
+    throw new Error("Work Receipt is not finalized");
+  }
+  if (!actor.reason) {
+    res.status(400);
+    throw new Error("A reason is required to reopen a Work Receipt");
+  }
+
+  const updatedReceipt = transaction(() => {
+    const reopened = AdminReceipts.updateById(
+      receipt._id,
+      reopenedFields(actor)
+    )!;
+    recordAudit(
+      {
+        entityType: "adminReceipt",
+        entityId: receipt._id,
+        label: receipt.voucherId,
+        action: "update",
+        before: receipt,
+        after: reopened,
+      },
+      actor
+    );
+    return reopened;
+  });
+  res.json(updatedReceipt);
+});
+
+// @desc    The voucher the next saved Work Receipt will get (not reserved)
+// @route   GET /api/admin-receipts/generate-voucher-id
+// @access  Private
+export const getAdminVoucherId = asyncHandler(async (req, res) => {
+  res.json({ voucherId: peekVoucherId("workReceipt", voucherIds()) });
+});
@@ -0,0 +1,345 @@
+import { Request, Response } from "express";
+import asyncHandler from "express-async-handler";
+import { Clients } from "../models/Client";
+import { Receipts } from "../models/Receipt";
+import { AdminReceipts } from "../models/AdminReceipt";
+import { AuditEntries } from "../models/AuditEntry";
+import { activityOf } from "../utils/activity";
+import { round } from "../utils/numbers";
+import { ratesInEffect } from "../utils/rates";
+import { dayOf, isValidDay } from "../utils/days";
+import {
+  addDays,
+  addMonths,
+  isInRange,
+  monthsBetween,
+  PERIODS,
+  rangeUnit,
+  resolvePeriod,
+  spanDays,
+} from "../utils/periods";
+import {
+  ActivityFeed,
+  ActivityItem,
+  ActivityType,
+  DashboardPeriod,
+  DashboardStats,
+  DateRange,
+  emptyTally,
+  MetalTypeDistribution,
+  MonthlyWeight,
+  PeriodRange,
+  PeriodTrend,
+  ReceiptKind,
+  ReceiptTally,
+  SalesByDate,
+  StatValue,
+  tallyReceipt,
+  Trend,
+  YearlyComparison,
+} from "../../../src/lib/analytics";
+import { metalOf, sumByMetal } from "../../../src/lib/metal-balances";
+import { valueBalances } from "../../../src/lib/metal-rates";
+import { formatRupees } from "../../../src/lib/payments";
+
+// Cancelled receipts keep their voucher but no longer count as work done
+const isActive = (receipt: { status: string }) =>
+  receipt.status !== "cancelled";
+
+// A receipt as the analytics count it (see lib/analytics)
+interface ProcessedReceipt {
+  kind: ReceiptKind;
+  // yyyy-MM-dd it counts on
+  day: string;
+  metal: string;
+  weight: number;
+}
+
+const processedReceipts = (): ProcessedReceipt[] => [
+  ...Receipts.find(isActive).map((receipt) => ({
+    kind: "shop" as const,
+    day: dayOf(receipt.issueDate || receipt.createdAt),
+    metal: metalOf(receipt.metalType),
+    weight: receipt.totals?.grossWt || 0,
+  })),
+  ...AdminReceipts.find(isActive).map((receipt) => ({
+    kind: "work" as const,
+    day: dayOf(receipt.given?.date || receipt.createdAt),
+    metal: metalOf(receipt.metalType),
+    weight: receipt.received?.totalOrnamentsWt || 0,
+  })),
+];
+
+// Tallies receipts into groups, in the order the groups first appear
+const tallyBy = <K extends string | number>(
+  receipts: ProcessedReceipt[],
+  key: (receipt: ProcessedReceipt) => K
+) => {
+  const groups = new Map<K, ReceiptTally>();
+  receipts.forEach((receipt) => {
+    const tally = groups.get(key(receipt)) || emptyTally();
+    tallyReceipt(tally, receipt.kind, receipt.weight);
+    groups.set(key(receipt), tally);
+  });
+  return [...groups.entries()];
+};
+
+// Percentage change of a value against what it was before
+const valueTrend = (current: number, previous: number): Trend => {
+  if (previous === 0) {
+    return { value: current > 0 ? 100 : 0, isPositive: true };
+  }
+  const change = ((current - previous) / previous) * 100;
+  return { value: Math.abs(Math.round(change)), isPositive: change >= 0 };
+};
+
+// How many of the dates fall in the period, against the stretch before it
+const periodCount = (dates: string[], period: PeriodRange): StatValue => {
+  const count = (range: DateRange) =>
+    dates.filter((date) => isInRange(date, range)).length;
+  const current = count(period);
+  return { value: current, trend: valueTrend(current, count(period.previous)) };
+};
+
+// The period asked for in `?period=&from=&to=`, this month when not given
+const periodOf = (req: Request, res: Response): PeriodRange => {
+  const period = String(req.query.period || "this-month") as DashboardPeriod;
+  if (!PERIODS.includes(period)) {
+    res.status(400);
+    throw new Error(`Period must be one of ${PERIODS.join(", ")}`);
+  }
+  if (period !== "custom") return resolvePeriod(period);
+
+  const from = String(req.query.from || "");
+  const to = String(req.query.to || "");
+  if (!isValidDay(from) || !isValidDay(to)) {
+    res.status(400);
+    throw new Error("A custom period needs from and to as yyyy-MM-dd");
+  }
+  if (from > to) {
+    res.status(400);
+    throw new Error("From must not be after to");
+  }
+  return resolvePeriod(period, { from, to });
+};
+
+// Metal the clients owe the shop, per metal. Balances the shop owes a
+// client are not netted against them.
+const outstandingMetal = () =>
+  sumByMetal(
+    Clients.find().flatMap((client) =>
+      Object.entries(client.balances || {}).filter(([, grams]) => grams > 0)
+    ),
+    ([metal]) => metal,
+    ([, grams]) => grams
+  );
+
+// @desc    Headline stats for a period
+// @route   GET /api/analytics/dashboard?period=&from=&to=
+// @access  Private
+export const getDashboardStats = asyncHandler(async (req, res) => {
+  const period = periodOf(req, res);
+  const processed = processedReceipts();
+
+  // Counted the way the charts count them, so counts and weight agree
+  const tallyIn = (range: DateRange) => {
+    const tally = emptyTally();
+    processed
+      .filter((receipt) => isInRange(receipt.day, range))
+      .forEach((receipt) => tallyReceipt(tally, receipt.kind, receipt.weight));
+    return tally;
+  };
+  const current = tallyIn(period);
+  const previous = tallyIn(period.previous);
+  const countOf = (kind: ReceiptKind): StatValue => ({
+    value: current[kind].count,
+    trend: valueTrend(current[kind].count, previous[kind].count),
+  });
+
+  // The same balances at the rates at the end of the period and at the end
+  // of the one before, so the trend shows what the rates did to them
+  const outstanding = outstandingMetal();
+  const outstandingValue = valueBalances(outstanding, ratesInEffect(period.to));
+  const previousValue = valueBalances(
+    outstanding,
+    ratesInEffect(period.previous.to)
+  );
+
+  const dashboard: DashboardStats = {
+    period,
+    stats: {
+      totalClients: periodCount(
+        Clients.find().map((client) => client.createdAt),
+        period
+      ),
+      totalReceipts: countOf("shop"),
+      adminReceipts: countOf("work"),
+      totalWeight: {
+        value: `${round(current.totalWeight, 2)} g`,
+        trend: valueTrend(current.totalWeight, previous.totalWeight),
+      },
+      outstandingValue: {
+        value: formatRupees(outstandingValue.total),
+        trend: valueTrend(outstandingValue.total, previousValue.total),
+        unpriced: outstandingValue.unpriced,
+      },
+    },
+  };
+  res.json(dashboard);
+});
+
+// @desc    Receipt count and weight per day, or per month for long periods,
+//          through a period and the stretch before it side by side. Point
+//          `index` is the day (or month) from the start of each range.
+// @route   GET /api/analytics/trend?period=&from=&to=
+// @access  Private
+export const getPeriodTrend = asyncHandler(async (req, res) => {
+  const period = periodOf(req, res);
+  const unit = rangeUnit(period);
+  const offset = (range: DateRange, day: string) =>
+    unit === "day"
+      ? spanDays({ from: range.from, to: day }) - 1
+      : monthsBetween(range.from, day);
+  const length = (range: DateRange) => offset(range, range.to) + 1;
+  const labelOf = (range: DateRange, index: number) =>
+    index >= length(range)
+      ? undefined
+      : unit === "day"
+        ? addDays(range.from, index)
+        : addMonths(range.from, index).slice(0, 7);
+
+  const points = Array.from(
+    { length: Math.max(length(period), length(period.previous)) },
+    (_, index) => ({
+      index,
+      label: labelOf(period, index),
+      previousLabel: labelOf(period.previous, index),
+      current: emptyTally(),
+      previous: emptyTally(),
+    })
+  );
+
+  const processed = processedReceipts();
+  const add = (range: DateRange, side: "current" | "previous") =>
+    processed
+      .filter((receipt) => isInRange(receipt.day, range))
+      .forEach((receipt) =>
+        tallyReceipt(
+          points[offset(range, receipt.day)][side],
+          receipt.kind,
+          receipt.weight
+        )
+      );
+  add(period, "current");
+  add(period.previous, "previous");
+
+  const trend: PeriodTrend = { unit, ...period, points };
+  res.json(trend);
+});
+
+// @desc    Receipt count and weight per day
+// @route   GET /api/analytics/sales?startDate=&endDate=
+// @access  Private
+export const getSalesByDate = asyncHandler(async (req, res) => {
+  const range: DateRange = {
+    from: req.query.startDate ? dayOf(String(req.query.startDate)) : "",
+    to: dayOf(req.query.endDate ? String(req.query.endDate) : undefined),
+  };
+
+  const sales: SalesByDate[] = tallyBy(
+    processedReceipts().filter((receipt) => isInRange(receipt.day, range)),
+    (receipt) => receipt.day
+  )
+    .map(([date, tally]) => ({ date, ...tally }))
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  res.json(sales);
+});
+
+// @desc    Receipt count and weight per metal type, over all time or a
+//          period
+// @route   GET /api/analytics/metal-types?period=&from=&to=
+// @access  Private
+export const getMetalTypeDistribution = asyncHandler(async (req, res) => {
+  const period = req.query.period ? periodOf(req, res) : undefined;
+
+  const distribution: MetalTypeDistribution[] = tallyBy(
+    processedReceipts().filter(
+      (receipt) => !period || isInRange(receipt.day, period)
+    ),
+    (receipt) => receipt.metal
+  ).map(([type, tally]) => ({ type, ...tally }));
+
+  res.json(distribution);
+});
+
+// @desc    Monthly weight processed this year against last year
+// @route   GET /api/analytics/yearly-comparison
+// @access  Private
+export const getYearlyComparison = asyncHandler(async (req, res) => {
+  const year = new Date().getFullYear();
+  const processed = processedReceipts();
+
+  const monthly = (targetYear: number): MonthlyWeight[] =>
+    tallyBy(
+      processed.filter((receipt) => receipt.day.startsWith(`${targetYear}-`)),
+      (receipt) => Number(receipt.day.slice(5, 7))
+    )
+      .map(([month, tally]) => ({ month, ...tally }))
+      .sort((a, b) => a.month - b.month);
+
+  const comparison: YearlyComparison = {
+    currentYear: monthly(year),
+    previousYear: monthly(year - 1),
+  };
+  res.json(comparison);
+});
+
+const ACTIVITY_TYPES: ActivityType[] = [
+  "receipt-created",
+  "receipt-edited",
+  "receipt-cancelled",
+  "receipt-finalized",
+  "receipt-reopened",
+  "payment",
+  "client-created",
+];
+
+// @desc    Recent receipts created, edited, cancelled, finalized and
+//          reopened, payments and new clients, from the audit log
+// @route   GET /api/analytics/activity?type=&userId=&limit=
+// @access  Private
+export const getActivity = asyncHandler(async (req, res) => {
+  const type = req.query.type as ActivityType | undefined;
+  const userId = req.query.userId as string | undefined;
+  if (type && !ACTIVITY_TYPES.includes(type)) {
+    res.status(400);
+    throw new Error(`Type must be one of ${ACTIVITY_TYPES.join(", ")}`);
+  }
+  const limit = Math.min(
+    Math.max(parseInt(String(req.query.limit), 10) || 10, 1),
+    50
+  );
+
+  const activity = AuditEntries.find()
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+    .map(activityOf)
+    .filter((item): item is ActivityItem => item !== null);
+
+  const users = new Map<string, string>();
+  activity.forEach((item) => {
+    if (item.userId) users.set(item.userId, item.userName || "Unknown user");
+  });
+
+  const feed: ActivityFeed = {
+    success: true,
+    data: activity
+      .filter(
+        (item) =>
+          (!type || item.type === type) && (!userId || item.userId === userId)
+      )
+      .slice(0, limit),
+    users: [...users].map(([id, userName]) => ({ userId: id, userName })),
+  };
+  res.json(feed);
+});
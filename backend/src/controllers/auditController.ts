@@ -0,0 +1,42 @@
+import asyncHandler from "express-async-handler";
+import { AuditEntries, AuditEntry } from "../models/AuditEntry";
+import { paginate } from "../utils/pagination";
+
+// @desc    Audit log, newest first, filtered and paginated
+// @route   GET /api/audit?query=&entityType=&entityId=&action=&userId=&startDate=&endDate=&page=&limit=
+// @access  Private (audit:view)
+export const getAuditEntries = asyncHandler(async (req, res) => {
+  const query = String(req.query.query || "").toLowerCase();
+  const entityType = req.query.entityType as
+    | AuditEntry["entityType"]
+    | undefined;
+  const entityId = req.query.entityId as string | undefined;
+  const action = req.query.action as AuditEntry["action"] | undefined;
+  const userId = req.query.userId as string | undefined;
+  const from = req.query.startDate
+    ? new Date(String(req.query.startDate)).toISOString()
+    : "";
+  let to = "";
+  if (req.query.endDate) {
+    // Include the whole of the end day
+    const end = new Date(String(req.query.endDate));
+    end.setHours(23, 59, 59, 999);
+    to = end.toISOString();
+  }
+
+  const entries = AuditEntries.find(
+    (entry) =>
+      (!query ||
+        entry.label.toLowerCase().includes(query) ||
+        !!entry.userName?.toLowerCase().includes(query) ||
+        !!entry.reason?.toLowerCase().includes(query)) &&
+      (!entityType || entry.entityType === entityType) &&
+      (!entityId || entry.entityId === entityId) &&
+      (!action || entry.action === action) &&
+      (!userId || entry.userId === userId) &&
+      (!from || entry.createdAt >= from) &&
+      (!to || entry.createdAt <= to)
+  ).sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+  res.json({ success: true, ...paginate(entries, req.query, 20) });
+});
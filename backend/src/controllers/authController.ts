@@ -0,0 +1,106 @@
+import asyncHandler from "express-async-handler";
+import { Sessions } from "../models/Session";
+import { Users, toPublicUser } from "../models/User";
+import {
+  MIN_PASSWORD_LENGTH,
+  checkPassword,
+  hashPassword,
+} from "../utils/passwords";
+import { sessionLengthMs, signToken } from "../utils/tokens";
+
+const pruneExpiredSessions = () => {
+  const now = Date.now();
+  Sessions.find(
+    (session) => new Date(session.expiresAt).getTime() <= now
+  ).forEach((session) => Sessions.deleteById(session._id));
+};
+
+// @desc    Log in and start a session
+// @route   POST /api/auth/login
+// @access  Public
+export const login = asyncHandler(async (req, res) => {
+  const username = String(req.body.username || "").trim().toLowerCase();
+  const password = String(req.body.password || "");
+
+  const user = Users.findOne((u) => u.username === username);
+  // Same message either way so the form does not reveal which usernames exist
+  if (
+    !user ||
+    !user.active ||
+    !(await checkPassword(password, user.passwordHash))
+  ) {
+    res.status(401);
+    throw new Error("Invalid username or password");
+  }
+
+  pruneExpiredSessions();
+
+  const expiresAt = new Date(Date.now() + sessionLengthMs());
+  const session = Sessions.create({
+    userId: user._id,
+    expiresAt: expiresAt.toISOString(),
+    userAgent: req.headers["user-agent"],
+  });
+  const updatedUser = Users.updateById(user._id, {
+    lastLoginAt: new Date().toISOString(),
+  });
+
+  res.json({
+    token: signToken(user._id, session._id, expiresAt),
+    expiresAt: session.expiresAt,
+    user: toPublicUser(updatedUser || user),
+  });
+});
+
+// @desc    End the current session
+// @route   POST /api/auth/logout
+// @access  Private
+export const logout = asyncHandler(async (req, res) => {
+  if (req.sessionId) {
+    Sessions.updateById(req.sessionId, { revokedAt: new Date().toISOString() });
+  }
+  res.json({ message: "Logged out" });
+});
+
+// @desc    Get the logged in user
+// @route   GET /api/auth/me
+// @access  Private
+export const getMe = asyncHandler(async (req, res) => {
+  const session = req.sessionId ? Sessions.findById(req.sessionId) : null;
+  res.json({ user: req.user, expiresAt: session?.expiresAt });
+});
+
+// @desc    Change the logged in user's password and end their other sessions
+// @route   PUT /api/auth/password
+// @access  Private
+export const changePassword = asyncHandler(async (req, res) => {
+  const { currentPassword, newPassword } = req.body;
+  const user = Users.findById(req.user!._id);
+
+  if (
+    !user ||
+    !(await checkPassword(String(currentPassword || ""), user.passwordHash))
+  ) {
+    res.status(400);
+    throw new Error("Current password is incorrect");
+  }
+  if (!newPassword || String(newPassword).length < MIN_PASSWORD_LENGTH) {
+    res.status(400);
+    throw new Error(
+      `New password must be at least ${MIN_PASSWORD_LENGTH} characters`
+    );
+  }
+
+  Users.updateById(user._id, {
+    passwordHash: await hashPassword(String(newPassword)),
+  });
+  const now = new Date().toISOString();
+  Sessions.find(
+    (session) =>
+      session.userId === user._id &&
+      session._id !== req.sessionId &&
+      !session.revokedAt
+  ).forEach((session) => Sessions.updateById(session._id, { revokedAt: now }));
+
+  res.json({ message: "Password updated" });
+});
@@ -0,0 +1,174 @@
+import asyncHandler from "express-async-handler";
+import { transaction } from "../config/db";
+import { GivenItem, Receipts } from "../models/Receipt";
+import { ClientBill, ClientBillLine, ClientBills } from "../models/ClientBill";
+import { shopReceiptEffect } from "../utils/ledger";
+import { BALANCE_TAG } from "../../../src/lib/receipt-calculations";
+import {
+  round,
+  sumBy,
+  sumGrams,
+  toGrams,
+  toNumber,
+} from "../utils/numbers";
+import { paginate } from "../utils/pagination";
+import { allocateVoucherId } from "../utils/voucherId";
+import { isValidDate } from "../utils/days";
+import { actorOf, recordAudit } from "../utils/audit";
+
+const billNumbers = () => ClientBills.find().map((bill) => bill.billNumber);
+
+const toBillLine = (item: GivenItem): ClientBillLine => ({
+  itemName: item.itemName,
+  grossWt: toGrams(item.grossWt),
+  stoneWt: toGrams(item.stoneWt),
+  netWt: toGrams(item.netWt),
+  meltingTouch: toNumber(item.meltingTouch),
+  finalWt: toGrams(item.finalWt),
+  stoneAmt: round(toNumber(item.stoneAmt), 2),
+});
+
+// @desc    Client Bills, newest first, filtered and paginated
+// @route   GET /api/client-bills?query=&status=&clientId=&page=&limit=
+// @access  Private
+export const getClientBills = asyncHandler(async (req, res) => {
+  const query = String(req.query.query || "").toLowerCase();
+  const status = req.query.status as ClientBill["status"] | undefined;
+  const clientId = req.query.clientId as string | undefined;
+
+  const bills = ClientBills.find(
+    (bill) =>
+      (!query ||
+        bill.billNumber.toLowerCase().includes(query) ||
+        bill.voucherId?.toLowerCase().includes(query) ||
+        bill.clientName?.toLowerCase().includes(query) ||
+        bill.shopName?.toLowerCase().includes(query)) &&
+      (!status || bill.status === status) &&
+      (!clientId || bill.clientId === clientId)
+  ).sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+  res.json({ success: true, ...paginate(bills, req.query) });
+});
+
+// @desc    Get Client Bill by ID
+// @route   GET /api/client-bills/:id
+// @access  Private
+export const getClientBillById = asyncHandler(async (req, res) => {
+  const bill = ClientBills.findById(req.params.id);
+
+  if (bill) {
+    res.json({ success: true, data: bill });
+  } else {
+    res.status(404);
+    throw new Error("Client Bill not found");
+  }
+});
+
+// @desc    Bill a completed shop receipt
+// @route   POST /api/client-bills
+// @access  Private (receipts:create)
+export const createClientBill = asyncHandler(async (req, res) => {
+  const receipt = Receipts.findById(req.body.receiptId);
+
+  if (!receipt) {
+    res.status(404);
+    throw new Error("Receipt not found");
+  }
+  if (receipt.status !== "complete") {
+    res.status(400);
+    throw new Error("Only completed receipts can be billed");
+  }
+  const existing = ClientBills.findOne(
+    (bill) => bill.receiptId === receipt._id && bill.status === "issued"
+  );
+  if (existing) {
+    res.status(409);
+    throw new Error(
+      `Receipt ${receipt.voucherId} is already billed as ${existing.billNumber}`
+    );
+  }
+
+  const lines = (receipt.givenItems || [])
+    .filter((item) => item.tag !== BALANCE_TAG)
+    .map(toBillLine);
+  const totals = {
+    grossWt: sumGrams(lines, (line) => line.grossWt),
+    stoneWt: sumGrams(lines, (line) => line.stoneWt),
+    netWt: sumGrams(lines, (line) => line.netWt),
+    finalWt: sumGrams(lines, (line) => line.finalWt),
+    stoneAmt: round(sumBy(lines, (line) => line.stoneAmt), 2),
+  };
+
+  if (req.body.billDate && !isValidDate(req.body.billDate)) {
+    res.status(400);
+    throw new Error("Bill date is not a valid date");
+  }
+  const billDate = req.body.billDate
+    ? new Date(req.body.billDate).toISOString()
+    : new Date().toISOString();
+
+  // The number is taken in the same write as the bill, so it is never lost
+  const bill = transaction(() =>
+    ClientBills.create({
+      billNumber: allocateVoucherId("clientBill", billNumbers(), billDate),
+      billDate,
+      receiptId: receipt._id,
+      voucherId: receipt.voucherId,
+      clientId: receipt.clientId,
+      clientName: receipt.clientInfo?.clientName,
+      shopName: receipt.clientInfo?.shopName,
+      phoneNumber: receipt.clientInfo?.phoneNumber,
+      metalType: receipt.metalType,
+      lines,
+      totals,
+      receivedFinalWt: sumGrams(receipt.receivedItems, (item) => item.finalWt),
+      balance: shopReceiptEffect(receipt),
+      status: "issued",
+      createdBy: req.user?._id,
+    })
+  );
+
+  res.status(201).json({ success: true, data: bill });
+});
+
+// @desc    Void a Client Bill, keeping its number on record
+// @route   POST /api/client-bills/:id/void
+// @access  Private (receipts:edit)
+export const voidClientBill = asyncHandler(async (req, res) => {
+  const bill = ClientBills.findById(req.params.id);
+  const reason = String(req.body.reason || "").trim();
+
+  if (!bill) {
+    res.status(404);
+    throw new Error("Client Bill not found");
+  }
+  if (bill.status === "void") {
+    res.status(400);
+    throw new Error("Client Bill is already void");
+  }
+  if (!reason) {
+    res.status(400);
+    throw new Error("A reason is required to void a bill");
+  }
+
+  const updatedBill = transaction(() => {
+    const voided = ClientBills.updateById(bill._id, {
+      status: "void",
+      voidedAt: new Date().toISOString(),
+      voidReason: reason,
+    })!;
+    recordAudit(
+      {
+        entityType: "clientBill",
+        entityId: bill._id,
+        label: bill.billNumber,
+        action: "update",
+        before: bill,
+        after: voided,
+      },
+      actorOf(req)
+    );
+    return voided;
+  });
+  res.json({ success: true, data: updatedBill });
+});
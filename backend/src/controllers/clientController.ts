@@ -0,0 +1,423 @@
+import asyncHandler from "express-async-handler";
+import { Client, Clients } from "../models/Client";
+import { Receipts } from "../models/Receipt";
+import { AdminReceipts } from "../models/AdminReceipt";
+import { ClientBills } from "../models/ClientBill";
+import { WorkBills } from "../models/WorkBill";
+import { hasPermission } from "../config/roles";
+import { toNumber } from "../utils/numbers";
+import { transaction } from "../config/db";
+import { clientBalances, clientLedger, postEntry } from "../utils/ledger";
+import {
+  formatBalances,
+  hasBalance,
+  metalOf,
+} from "../../../src/lib/metal-balances";
+import { actorOf, recordAudit } from "../utils/audit";
+import { moveToTrash, trashReceipt } from "../utils/trash";
+import { clientCashBalance, clientCashLedger } from "../utils/cashLedger";
+import { clientStatement } from "../utils/statement";
+import { dayOf, isValidDate, isValidDay } from "../utils/days";
+import { Payments } from "../models/Payment";
+
+// A receipt that deleting its client would take to the trash as well
+interface DependentReceipt {
+  _id: string;
+  type: "receipt" | "adminReceipt";
+  voucherId: string;
+  status: string;
+  isFinalized: boolean;
+  // Number of the receipt's issued bill, if any
+  billNumber?: string;
+}
+
+// What deleting a client affects: its receipts and balance, and whatever
+// keeps the receipts from going to the trash with it. Payments are never
+// deleted, so a client with recorded payments stays until they are voided.
+const deletionImpact = (client: Client) => {
+  const receipts: DependentReceipt[] = [
+    ...Receipts.find((receipt) => receipt.clientId === client._id).map(
+      (receipt) => ({
+        _id: receipt._id,
+        type: "receipt" as const,
+        voucherId: receipt.voucherId,
+        status: receipt.status,
+        isFinalized: !!receipt.isFinalized,
+        billNumber: ClientBills.findOne(
+          (bill) => bill.receiptId === receipt._id && bill.status === "issued"
+        )?.billNumber,
+      })
+    ),
+    ...AdminReceipts.find((receipt) => receipt.clientId === client._id).map(
+      (receipt) => ({
+        _id: receipt._id,
+        type: "adminReceipt" as const,
+        voucherId: receipt.voucherId,
+        status: receipt.status,
+        isFinalized: !!receipt.isFinalized,
+        billNumber: WorkBills.findOne(
+          (bill) => bill.receiptId === receipt._id && bill.status === "issued"
+        )?.billNumber,
+      })
+    ),
+  ];
+  const blockers = receipts.flatMap((receipt) => {
+    if (receipt.isFinalized) {
+      return [`${receipt.voucherId} is finalized; reopen it first`];
+    }
+    if (receipt.billNumber) {
+      return [
+        `${receipt.voucherId} is billed as ${receipt.billNumber}; void the bill first`,
+      ];
+    }
+    return [];
+  });
+  const payments = Payments.count(
+    (payment) =>
+      payment.clientId === client._id && payment.status === "recorded"
+  );
+  if (payments > 0) {
+    blockers.push(
+      `${payments} recorded payment${payments === 1 ? "" : "s"}; void ${
+        payments === 1 ? "it" : "them"
+      } first`
+    );
+  }
+
+  return {
+    balances: client.balances ?? {},
+    receipts,
+    blockers,
+    requiresCascade: receipts.length > 0 || hasBalance(client.balances),
+  };
+};
+
+// @desc    Get all clients
+// @route   GET /api/clients
+// @access  Private
+export const getClients = asyncHandler(async (req, res) => {
+  const clients = Clients.find().sort((a, b) =>
+    b.createdAt.localeCompare(a.createdAt)
+  );
+  res.json({ clients });
+});
+
+// @desc    Search clients by shop name, client name or phone number
+// @route   GET /api/clients/search?query=
+// @access  Private
+export const searchClients = asyncHandler(async (req, res) => {
+  const query = String(req.query.query || "").toLowerCase();
+  const clients = Clients.find(
+    (client) =>
+      client.shopName?.toLowerCase().includes(query) ||
+      client.clientName?.toLowerCase().includes(query) ||
+      client.phoneNumber?.includes(query)
+  );
+  res.json(clients);
+});
+
+// @desc    Get client by ID
+// @route   GET /api/clients/:id
+// @access  Private
+export const getClientById = asyncHandler(async (req, res) => {
+  const client = Clients.findById(req.params.id);
+
+  if (client) {
+    res.json(client);
+  } else {
+    res.status(404);
+    throw new Error("Client not found");
+  }
+});
+
+// @desc    Create new client
+// @route   POST /api/clients
+// @access  Private (clients:create)
+export const createClient = asyncHandler(async (req, res) => {
+  const { shopName, clientName, phoneNumber, address, email } = req.body;
+
+  if (!clientName || !phoneNumber) {
+    res.status(400);
+    throw new Error("Client name and phone number are required");
+  }
+
+  const client = transaction(() => {
+    const created = Clients.create({
+      shopName: shopName || "",
+      clientName,
+      phoneNumber,
+      address: address || "",
+      email: email || undefined,
+      active: true,
+      balances: {},
+    });
+    recordAudit(
+      {
+        entityType: "client",
+        entityId: created._id,
+        label: created.clientName,
+        action: "create",
+        after: created,
+      },
+      actorOf(req)
+    );
+    return created;
+  });
+
+  res.status(201).json(client);
+});
+
+// @desc    Update client
+// @route   PUT /api/clients/:id
+// @access  Private (clients:edit)
+export const updateClient = asyncHandler(async (req, res) => {
+  const { shopName, clientName, phoneNumber, address, email, active } =
+    req.body;
+
+  const client = Clients.findById(req.params.id);
+
+  if (!client) {
+    res.status(404);
+    throw new Error("Client not found");
+  }
+
+  const update: Parameters<typeof Clients.updateById>[1] = {
+    shopName: shopName ?? client.shopName,
+    clientName: clientName || client.clientName,
+    phoneNumber: phoneNumber || client.phoneNumber,
+    address: address ?? client.address,
+    email: email ?? client.email,
+    active: active ?? client.active,
+  };
+
+  // Overwriting the balance would lose whatever was posted in between
+  if (req.body.balance !== undefined || req.body.balances !== undefined) {
+    res.status(400);
+    throw new Error("Balances change only through ledger entries");
+  }
+
+  const updatedClient = transaction(() => {
+    const updated = Clients.updateById(client._id, update)!;
+    recordAudit(
+      {
+        entityType: "client",
+        entityId: client._id,
+        label: updated.clientName,
+        action: "update",
+        before: client,
+        after: updated,
+      },
+      actorOf(req)
+    );
+    return updated;
+  });
+  res.json(updatedClient);
+});
+
+// @desc    Ledger entries and balance per metal for a client
+// @route   GET /api/clients/:id/ledger
+// @access  Private
+export const getClientLedger = asyncHandler(async (req, res) => {
+  const client = Clients.findById(req.params.id);
+
+  if (!client) {
+    res.status(404);
+    throw new Error("Client not found");
+  }
+
+  res.json({
+    balances: clientBalances(client._id),
+    entries: clientLedger(client._id),
+  });
+});
+
+// @desc    Cash entries and cash balance for a client
+// @route   GET /api/clients/:id/cash-ledger
+// @access  Private
+export const getClientCashLedger = asyncHandler(async (req, res) => {
+  const client = Clients.findById(req.params.id);
+
+  if (!client) {
+    res.status(404);
+    throw new Error("Client not found");
+  }
+
+  res.json({
+    cashBalance: clientCashBalance(client._id),
+    entries: clientCashLedger(client._id),
+  });
+});
+
+// @desc    Statement of account: opening balance, every entry with the
+//          running balance and closing balance, per metal and for cash.
+//          Defaults to the month so far.
+// @route   GET /api/clients/:id/statement?from=&to=
+// @access  Private
+export const getClientStatement = asyncHandler(async (req, res) => {
+  const client = Clients.findById(req.params.id);
+  const to = String(req.query.to || dayOf());
+  const from = String(req.query.from || `${to.slice(0, 8)}01`);
+
+  if (!client) {
+    res.status(404);
+    throw new Error("Client not found");
+  }
+  if (!isValidDay(from) || !isValidDay(to)) {
+    res.status(400);
+    throw new Error("Dates must be given as yyyy-MM-dd");
+  }
+  if (from > to) {
+    res.status(400);
+    throw new Error("The start date is after the end date");
+  }
+
+  res.json({
+    client: {
+      _id: client._id,
+      clientName: client.clientName,
+      shopName: client.shopName,
+      phoneNumber: client.phoneNumber,
+      address: client.address,
+    },
+    from,
+    to,
+    sections: clientStatement(client._id, from, to),
+  });
+});
+
+// @desc    Post an opening balance or manual adjustment to one metal
+// @route   POST /api/clients/:id/ledger
+// @access  Private (ledger:adjust)
+export const postLedgerAdjustment = asyncHandler(async (req, res) => {
+  const client = Clients.findById(req.params.id);
+
+  if (!client) {
+    res.status(404);
+    throw new Error("Client not found");
+  }
+
+  const amount = toNumber(req.body.amount);
+  const description = String(req.body.description || "").trim();
+  const sourceType = req.body.type === "opening" ? "opening" : "adjustment";
+
+  if (amount === 0 || !description) {
+    res.status(400);
+    throw new Error("An amount and a description are required");
+  }
+  if (req.body.date && !isValidDate(req.body.date)) {
+    res.status(400);
+    throw new Error("Date is not a valid date");
+  }
+
+  const entry = postEntry({
+    clientId: client._id,
+    date: req.body.date ? new Date(req.body.date).toISOString() : undefined,
+    amount,
+    metal: metalOf(req.body.metal),
+    sourceType,
+    description,
+    createdBy: req.user?._id,
+  });
+
+  res.status(201).json({ entry, balances: clientBalances(client._id) });
+});
+
+// @desc    What deleting a client would affect
+// @route   GET /api/clients/:id/deletion-impact
+// @access  Private
+export const getClientDeletionImpact = asyncHandler(async (req, res) => {
+  const client = Clients.findById(req.params.id);
+
+  if (!client) {
+    res.status(404);
+    throw new Error("Client not found");
+  }
+  res.json(deletionImpact(client));
+});
+
+// @desc    Move a client to the trash. A client with receipts or a balance
+//          is only deleted with `cascade=true`, which takes its receipts to
+//          the trash too, reversing their balance effects
+// @route   DELETE /api/clients/:id?cascade=
+// @access  Private (clients:delete; receipts:delete to take receipts along)
+export const deleteClient = asyncHandler(async (req, res) => {
+  const client = Clients.findById(req.params.id);
+
+  if (!client) {
+    res.status(404);
+    throw new Error("Client not found");
+  }
+
+  const impact = deletionImpact(client);
+  if (impact.requiresCascade && req.query.cascade !== "true") {
+    const count = impact.receipts.length;
+    const history = [
+      count > 0 ? `${count} receipt${count === 1 ? "" : "s"}` : "",
+      hasBalance(client.balances)
+        ? `a balance of ${formatBalances(client.balances)}`
+        : "",
+    ]
+      .filter(Boolean)
+      .join(" and ");
+    res.status(409);
+    throw new Error(
+      `${client.clientName} has ${history}; confirm the cascade to move them to the trash with the client`
+    );
+  }
+  if (
+    impact.receipts.length > 0 &&
+    (!req.user || !hasPermission(req.user.role, "receipts:delete"))
+  ) {
+    res.status(403);
+    throw new Error(
+      "You do not have permission to delete this client's receipts"
+    );
+  }
+  if (impact.blockers.length > 0) {
+    res.status(409);
+    throw new Error(impact.blockers.join("; "));
+  }
+
+  const actor = actorOf(req);
+  transaction(() => {
+    impact.receipts.forEach(({ _id, type }) => {
+      const receipt =
+        type === "receipt"
+          ? Receipts.findById(_id)
+          : AdminReceipts.findById(_id);
+      if (receipt) trashReceipt(type, receipt, actor, true);
+    });
+
+    // Taken again: trashing the receipts moved the balance
+    const archived = Clients.findById(client._id) || client;
+    Clients.deleteById(client._id);
+    moveToTrash(
+      {
+        entityType: "client",
+        entityId: client._id,
+        label: client.clientName,
+        clientId: client._id,
+        document: archived,
+      },
+      actor
+    );
+    recordAudit(
+      {
+        entityType: "client",
+        entityId: client._id,
+        label: client.clientName,
+        action: "delete",
+        before: archived,
+      },
+      actor
+    );
+  });
+
+  const count = impact.receipts.length;
+  res.json({
+    message:
+      count > 0
+        ? `Client and ${count} receipt${count === 1 ? "" : "s"} moved to the trash`
+        : "Client moved to the trash",
+  });
+});
@@ -0,0 +1,40 @@
+import { describe, expect, it } from "vitest";
+import { Clients } from "../models/Client";
+import { Payments } from "../models/Payment";
+import { callHandler } from "../test/request";
+import { recordPayment } from "./paymentController";
+
+const client = Clients.create({
+  shopName: "Shop",
+  clientName: "Client",
+  phoneNumber: "9999999999",
+  address: "Street",
+  active: true,
+  balances: {},
+});
+
+describe("recordPayment", () => {
+  it("turns away allocations that are not a list", async () => {
+    const { status, error } = await callHandler(recordPayment, {
+      body: {
+        clientId: client._id,
+        amount: 500,
+        method: "cash",
+        allocations: { receiptId: "receipt", amount: 500 },
+      },
+    });
+
+    expect(status).toBe(400);
+    expect(error?.message).toMatch(/list/);
+    expect(Payments.count()).toBe(0);
+  });
+
+  it("keeps a payment without allocations on account", async () => {
+    const { status } = await callHandler(recordPayment, {
+      body: { clientId: client._id, amount: 500, method: "cash" },
+    });
+
+    expect(status).toBe(201);
+    expect(Payments.count()).toBe(1);
+  });
+});
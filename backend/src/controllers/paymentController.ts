@@ -0,0 +1,271 @@
+import asyncHandler from "express-async-handler";
+import { transaction } from "../config/db";
+import { Clients } from "../models/Client";
+import { Receipts } from "../models/Receipt";
+import { Payment, PaymentAllocation, Payments } from "../models/Payment";
+import { actorOf, recordAudit } from "../utils/audit";
+import {
+  clientCashBalance,
+  postCashEntry,
+  receiptAmountPaid,
+  refreshPaymentStatus,
+} from "../utils/cashLedger";
+import { paginate } from "../utils/pagination";
+import { allocateVoucherId } from "../utils/voucherId";
+import { isValidDate } from "../utils/days";
+import {
+  formatRupees,
+  isPaymentMethod,
+  PAYMENT_METHOD_LABELS,
+  receiptAmountDue,
+  sumRupees,
+  toPaise,
+  toRupees,
+} from "../../../src/lib/payments";
+
+const paymentNumbers = () =>
+  Payments.find().map((payment) => payment.paymentNumber);
+
+// A client's shop receipts that still have something left to pay, oldest
+// first
+const outstandingReceipts = (clientId: string) =>
+  Receipts.find(
+    (receipt) =>
+      receipt.clientId === clientId && receipt.status !== "cancelled"
+  )
+    .map((receipt) => {
+      const amountDue = receiptAmountDue(receipt.totals);
+      const amountPaid = receiptAmountPaid(receipt._id);
+      return {
+        _id: receipt._id,
+        voucherId: receipt.voucherId,
+        issueDate: receipt.issueDate,
+        amountDue,
+        amountPaid,
+        outstanding: toRupees(amountDue - amountPaid),
+      };
+    })
+    .filter((receipt) => receipt.outstanding > 0)
+    .sort((a, b) => a.issueDate.localeCompare(b.issueDate));
+
+// @desc    Payments, newest first, filtered and paginated
+// @route   GET /api/payments?query=&clientId=&status=&page=&limit=
+// @access  Private
+export const getPayments = asyncHandler(async (req, res) => {
+  const query = String(req.query.query || "").toLowerCase();
+  const clientId = req.query.clientId as string | undefined;
+  const status = req.query.status as Payment["status"] | undefined;
+
+  const payments = Payments.find(
+    (payment) =>
+      (!query ||
+        payment.paymentNumber.toLowerCase().includes(query) ||
+        payment.clientName.toLowerCase().includes(query) ||
+        payment.reference?.toLowerCase().includes(query) ||
+        payment.allocations.some((allocation) =>
+          allocation.voucherId.toLowerCase().includes(query)
+        )) &&
+      (!clientId || payment.clientId === clientId) &&
+      (!status || payment.status === status)
+  ).sort(
+    (a, b) =>
+      b.date.localeCompare(a.date) || b.createdAt.localeCompare(a.createdAt)
+  );
+
+  res.json({ success: true, ...paginate(payments, req.query, 20) });
+});
+
+// @desc    A client's shop receipts with an amount still to pay
+// @route   GET /api/payments/outstanding?clientId=
+// @access  Private
+export const getOutstandingReceipts = asyncHandler(async (req, res) => {
+  const client = Clients.findById(String(req.query.clientId || ""));
+
+  if (!client) {
+    res.status(404);
+    throw new Error("Client not found");
+  }
+  res.json({ success: true, data: outstandingReceipts(client._id) });
+});
+
+// @desc    Record money received from a client, optionally applied to some
+//          of its shop receipts; the rest stays on account as a credit
+// @route   POST /api/payments
+// @access  Private (payments:record)
+export const recordPayment = asyncHandler(async (req, res) => {
+  const client = Clients.findById(req.body.clientId);
+  const amount = toRupees(req.body.amount);
+  const method = req.body.method;
+
+  if (!client) {
+    res.status(404);
+    throw new Error("Client not found");
+  }
+  if (amount <= 0) {
+    res.status(400);
+    throw new Error("The amount must be more than zero");
+  }
+  if (!isPaymentMethod(method)) {
+    res.status(400);
+    throw new Error(
+      `Method must be one of ${Object.keys(PAYMENT_METHOD_LABELS).join(", ")}`
+    );
+  }
+
+  const requestedAllocations = req.body.allocations ?? [];
+  if (!Array.isArray(requestedAllocations)) {
+    res.status(400);
+    throw new Error("Allocations must be a list of receipts and amounts");
+  }
+
+  const outstanding = new Map(
+    outstandingReceipts(client._id).map((receipt) => [receipt._id, receipt])
+  );
+  const allocations: PaymentAllocation[] = [];
+  for (const requested of requestedAllocations) {
+    const allocated = toRupees(requested?.amount);
+    if (allocated === 0) continue;
+
+    const receipt = outstanding.get(requested.receiptId);
+    if (!receipt || allocations.some((a) => a.receiptId === receipt._id)) {
+      res.status(400);
+      throw new Error(
+        "Payments can only be applied once to each of the client's unpaid receipts"
+      );
+    }
+    if (allocated < 0 || toPaise(allocated) > toPaise(receipt.outstanding)) {
+      res.status(400);
+      throw new Error(
+        `Only ${formatRupees(receipt.outstanding)} is outstanding on ${
+          receipt.voucherId
+        }`
+      );
+    }
+    allocations.push({
+      receiptId: receipt._id,
+      voucherId: receipt.voucherId,
+      amount: allocated,
+    });
+  }
+  if (toPaise(sumRupees(allocations, (a) => a.amount)) > toPaise(amount)) {
+    res.status(400);
+    throw new Error("More is applied to receipts than the payment amount");
+  }
+
+  if (req.body.date && !isValidDate(req.body.date)) {
+    res.status(400);
+    throw new Error("Date is not a valid date");
+  }
+
+  const actor = actorOf(req);
+  const date = req.body.date
+    ? new Date(req.body.date).toISOString()
+    : new Date().toISOString();
+
+  // The number, the payment, its cash entry and the receipts' statuses are
+  // written together
+  const payment = transaction(() => {
+    const created = Payments.create({
+      paymentNumber: allocateVoucherId("payment", paymentNumbers(), date),
+      clientId: client._id,
+      clientName: client.clientName,
+      date,
+      amount,
+      method,
+      reference: String(req.body.reference || "").trim() || undefined,
+      note: String(req.body.note || "").trim() || undefined,
+      allocations,
+      status: "recorded",
+      createdBy: actor.userId,
+    });
+    recordAudit(
+      {
+        entityType: "payment",
+        entityId: created._id,
+        label: created.paymentNumber,
+        action: "create",
+        after: created,
+      },
+      actor
+    );
+    postCashEntry({
+      clientId: client._id,
+      date,
+      amount: -amount,
+      sourceType: "payment",
+      sourceId: created._id,
+      voucherId: created.paymentNumber,
+      description: `Payment ${created.paymentNumber} (${PAYMENT_METHOD_LABELS[method]})`,
+      createdBy: actor.userId,
+    });
+    allocations.forEach((allocation) =>
+      refreshPaymentStatus(allocation.receiptId)
+    );
+    return created;
+  });
+
+  res
+    .status(201)
+    .json({ payment, cashBalance: clientCashBalance(client._id) });
+});
+
+// @desc    Void a payment: its number stays on record, the amount is debited
+//          back to the client and its receipts are unpaid again; needs a
+//          reason
+// @route   POST /api/payments/:id/void
+// @access  Private (payments:void)
+export const voidPayment = asyncHandler(async (req, res) => {
+  const payment = Payments.findById(req.params.id);
+  const actor = actorOf(req);
+
+  if (!payment) {
+    res.status(404);
+    throw new Error("Payment not found");
+  }
+  if (payment.status === "void") {
+    res.status(400);
+    throw new Error("Payment is already void");
+  }
+  if (!actor.reason) {
+    res.status(400);
+    throw new Error("A reason is required to void a payment");
+  }
+
+  const updatedPayment = transaction(() => {
+    const voided = Payments.updateById(payment._id, {
+      status: "void",
+      voidedAt: new Date().toISOString(),
+      voidedBy: actor.userId,
+      voidReason: actor.reason,
+    })!;
+    recordAudit(
+      {
+        entityType: "payment",
+        entityId: payment._id,
+        label: payment.paymentNumber,
+        action: "update",
+        before: payment,
+        after: voided,
+      },
+      actor
+    );
+    postCashEntry({
+      clientId: payment.clientId,
+      amount: payment.amount,
+      sourceType: "payment",
+      sourceId: payment._id,
+      voucherId: payment.paymentNumber,
+      description: `Payment ${payment.paymentNumber} voided`,
+      createdBy: actor.userId,
+    });
+    payment.allocations.forEach((allocation) =>
+      refreshPaymentStatus(allocation.receiptId)
+    );
+    return voided;
+  });
+
+  res.json({
+    payment: updatedPayment,
+    cashBalance: clientCashBalance(payment.clientId),
+  });
+});
@@ -0,0 +1,129 @@
+import asyncHandler from "express-async-handler";
+import { transaction } from "../config/db";
+import { MetalRate, MetalRates } from "../models/MetalRate";
+import { actorOf, recordAudit } from "../utils/audit";
+import { dayOf, isValidDay } from "../utils/days";
+import { ratesInEffect } from "../utils/rates";
+import {
+  formatQuote,
+  isValidPurity,
+  rateKey,
+  RATE_METALS,
+} from "../../../src/lib/metal-rates";
+import { metalOf } from "../../../src/lib/metal-balances";
+import {
+  NumericInput,
+  toNumber,
+} from "../../../src/lib/receipt-calculations";
+import { toRupees } from "../../../src/lib/payments";
+
+// @desc    Rate history, oldest first, for the history chart and table
+// @route   GET /api/rates?metal=&from=&to=
+// @access  Private
+export const getRates = asyncHandler(async (req, res) => {
+  const metal = String(req.query.metal || "").toLowerCase();
+  const from = String(req.query.from || "");
+  const to = String(req.query.to || "");
+
+  const rates = MetalRates.find(
+    (rate) =>
+      (!metal || rate.metal.toLowerCase() === metal) &&
+      (!from || rate.date >= from) &&
+      (!to || rate.date <= to)
+  ).sort(
+    (a, b) =>
+      a.date.localeCompare(b.date) || a.createdAt.localeCompare(b.createdAt)
+  );
+
+  res.json({ success: true, data: rates });
+});
+
+// @desc    The rate in effect for each metal and purity on a day
+// @route   GET /api/rates/current?date=
+// @access  Private
+export const getCurrentRates = asyncHandler(async (req, res) => {
+  const date = req.query.date ? String(req.query.date) : undefined;
+
+  if (date && Number.isNaN(new Date(date).getTime())) {
+    res.status(400);
+    throw new Error("Date is not valid");
+  }
+  res.json({
+    success: true,
+    data: { date: dayOf(date), rates: ratesInEffect(date) },
+  });
+});
+
+// @desc    Enter the day's rates; each one is added to the history
+// @route   POST /api/rates
+// @access  Private (rates:manage)
+export const setRates = asyncHandler(async (req, res) => {
+  const date = String(req.body.date || dayOf());
+  const entries: {
+    metal?: string;
+    purity?: NumericInput;
+    rate?: NumericInput;
+  }[] = req.body.rates || [];
+
+  if (!isValidDay(date)) {
+    res.status(400);
+    throw new Error("Date must be given as yyyy-MM-dd");
+  }
+  if (date > dayOf()) {
+    res.status(400);
+    throw new Error("Rates cannot be entered for a future date");
+  }
+  if (!Array.isArray(entries) || entries.length === 0) {
+    res.status(400);
+    throw new Error("Enter at least one rate");
+  }
+
+  const quotes: Pick<MetalRate, "metal" | "purity" | "rate">[] = [];
+  for (const entry of entries) {
+    const metal = metalOf(entry.metal);
+    const purity = toNumber(entry.purity);
+    const rate = toRupees(entry.rate);
+
+    if (!RATE_METALS.includes(metal)) {
+      res.status(400);
+      throw new Error(`Metal must be one of ${RATE_METALS.join(", ")}`);
+    }
+    if (!isValidPurity(purity)) {
+      res.status(400);
+      throw new Error("Purity must be more than 0 and at most 100");
+    }
+    if (rate <= 0) {
+      res.status(400);
+      throw new Error(`The ${metal} ${purity}% rate must be more than zero`);
+    }
+    if (quotes.some((quote) => rateKey(quote) === rateKey({ metal, purity }))) {
+      res.status(400);
+      throw new Error(`${metal} ${purity}% is entered more than once`);
+    }
+    quotes.push({ metal, purity, rate });
+  }
+
+  const actor = actorOf(req);
+  const created = transaction(() =>
+    quotes.map((quote) => {
+      const rate = MetalRates.create({
+        ...quote,
+        date,
+        createdBy: actor.userId,
+      });
+      recordAudit(
+        {
+          entityType: "rate",
+          entityId: rate._id,
+          label: `${formatQuote(rate)} on ${date}`,
+          action: "create",
+          after: rate,
+        },
+        actor
+      );
+      return rate;
+    })
+  );
+
+  res.status(201).json({ success: true, data: created });
+});
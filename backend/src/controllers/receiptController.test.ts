@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+import { Clients } from "../models/Client";
+import { Receipt, Receipts } from "../models/Receipt";
+import { callHandler } from "../test/request";
+import { recordPayment } from "./paymentController";
+import { saveReceipt } from "./receiptController";
+
+const client = Clients.create({
+  shopName: "Shop",
+  clientName: "Client",
+  phoneNumber: "9999999999",
+  address: "Street",
+  active: true,
+  balances: {},
+});
+
+const givenItems = (stoneAmt: number) => [
+  { itemName: "Ring", grossWt: 10, stoneWt: 0, meltingTouch: 92, stoneAmt },
+];
+
+const save = (stoneAmt: number, id?: string) =>
+  callHandler<{ receipt: Receipt }>(saveReceipt, {
+    body: {
+      id,
+      receipt: { clientId: client._id, givenItems: givenItems(stoneAmt) },
+    },
+  });
+
+describe("saveReceipt", () => {
+  it("does not revise a receipt below what has been paid on it", async () => {
+    const { body } = await save(1000);
+    const receiptId = body!.receipt._id;
+    await callHandler(recordPayment, {
+      body: {
+        clientId: client._id,
+        amount: 600,
+        method: "cash",
+        allocations: [{ receiptId, amount: 600 }],
+      },
+    });
+
+    const below = await save(500, receiptId);
+    expect(below.status).toBe(400);
+    expect(Receipts.findById(receiptId)?.totals.stoneAmt).toBe(1000);
+
+    const above = await save(700, receiptId);
+    expect(above.status).toBe(200);
+    expect(above.body?.receipt.paymentStatus).toBe("Partial");
+  });
+});
@@ -0,0 +1,593 @@
+import { Request, Response } from "express";
+import asyncHandler from "express-async-handler";
+import { transaction } from "../config/db";
+import { Client, Clients } from "../models/Client";
+import {
+  GivenItem,
+  Receipt,
+  ReceiptTotals,
+  ReceivedItem,
+  Receipts,
+} from "../models/Receipt";
+import { round, toGrams, toNumber } from "../utils/numbers";
+import { isValidDate } from "../utils/days";
+import { allocateVoucherId, peekVoucherId } from "../utils/voucherId";
+import { actorOf, AuditActor, recordAudit } from "../utils/audit";
+import { ClientBills } from "../models/ClientBill";
+import {
+  receiptDate,
+  shopReceiptEffect,
+  syncReceiptEntries,
+} from "../utils/ledger";
+import { trashReceipt } from "../utils/trash";
+import { receiptRevisions, recordRevision } from "../utils/revisions";
+import {
+  cancelledFields,
+  finalizedFields,
+  reopenedFields,
+} from "../utils/receiptLock";
+import {
+  receiptAmountPaid,
+  shopReceiptCharge,
+  syncReceiptCharge,
+} from "../utils/cashLedger";
+import {
+  BALANCE_TAG,
+  shopGivenTotals,
+  shopGivenWeights,
+  shopReceivedFinalWt,
+} from "../../../src/lib/receipt-calculations";
+import {
+  formatRupees,
+  paymentStatusFor,
+  receiptAmountDue,
+  toPaise,
+} from "../../../src/lib/payments";
+
+// Receipt fields as posted by the form; numbers may arrive as strings
+type ReceiptBody = Request["body"];
+
+const voucherIds = () => Receipts.find().map((receipt) => receipt.voucherId);
+
+// The issue date is kept as sent, so one that does not read as a date is
+// turned away
+const checkIssueDate = (body: ReceiptBody, res: Response) => {
+  if (body.issueDate && !isValidDate(body.issueDate)) {
+    res.status(400);
+    throw new Error("Issue date is not a valid date");
+  }
+};
+
+// Net and final weights are worked out here from the gross, stones and
+// touch, whatever the form sent; only the balance row's are entered by hand
+const normalizeGivenItems = (
+  items: Partial<GivenItem>[] = [],
+  metal?: string
+): GivenItem[] =>
+  items.map((item) => {
+    const tag = item.tag || "";
+    const weights =
+      tag === BALANCE_TAG
+        ? { netWt: toGrams(item.netWt), finalWt: toGrams(item.finalWt) }
+        : shopGivenWeights(item, metal);
+    return {
+      ...item,
+      itemName: item.itemName || "",
+      tag,
+      grossWt: toGrams(item.grossWt),
+      stoneWt: toGrams(item.stoneWt),
+      meltingTouch: toNumber(item.meltingTouch),
+      netWt: weights.netWt,
+      finalWt: weights.finalWt,
+      stoneAmt: toNumber(item.stoneAmt),
+    };
+  });
+
+const normalizeReceivedItems = (
+  items: Partial<ReceivedItem>[] = [],
+  metal?: string
+): ReceivedItem[] =>
+  items.map((item) => ({
+    ...item,
+    receivedGold: toGrams(item.receivedGold),
+    melting: toNumber(item.melting),
+    finalWt: shopReceivedFinalWt(item, metal),
+  }));
+
+// Weight totals come back exact to the milligram
+const calculateTotals = (items: GivenItem[]): ReceiptTotals => {
+  const totals = shopGivenTotals(items);
+  return {
+    ...totals,
+    stoneAmt: round(totals.stoneAmt),
+    totalInvoiceAmount: round(totals.totalInvoiceAmount),
+  };
+};
+
+// Posts the metal effect to the ledger and the charge to the cash balance
+const postToLedger = (receipt: Receipt, effect: number, userId?: string) => {
+  const source = {
+    id: receipt._id,
+    voucherId: receipt.voucherId,
+    clientId: receipt.clientId,
+    status: receipt.status,
+    date: receiptDate(receipt),
+  };
+  syncReceiptEntries(
+    { ...source, type: "receipt", metal: receipt.metalType },
+    effect,
+    userId
+  );
+  syncReceiptCharge(source, shopReceiptCharge(receipt), userId);
+};
+
+// Payments stay applied to a receipt until they are voided, so a receipt
+// that has any cannot be cancelled or deleted
+const paidMessage = (receipt: Receipt) => {
+  const paid = receiptAmountPaid(receipt._id);
+  return paid > 0
+    ? `Receipt ${receipt.voucherId} has ${formatRupees(
+        paid
+      )} paid against it; void the payments first`
+    : undefined;
+};
+
+const deriveStatus = (
+  requested: Receipt["status"] | undefined,
+  receivedItems: ReceivedItem[]
+): Receipt["status"] => {
+  // Receipts are only cancelled through the cancel endpoint
+  if (requested && requested !== "cancelled") return requested;
+  return receivedItems.some((item) => item.finalWt > 0)
+    ? "complete"
+    : "incomplete";
+};
+
+// The receipt and its ledger entry are written together or not at all
+const insertReceipt = (
+  body: ReceiptBody,
+  client: Client,
+  actor: AuditActor = {}
+): Receipt =>
+  transaction(() => {
+    const metalType = body.metalType || "Gold";
+    const givenItems = normalizeGivenItems(
+      body.givenItems || body.items,
+      metalType
+    );
+    const receivedItems = normalizeReceivedItems(body.receivedItems, metalType);
+    const receiptStatus = deriveStatus(body.status, receivedItems);
+
+    // Numbered here, never by the form, so the series stays gap-free
+    const issueDate = body.issueDate || new Date().toISOString();
+    const voucherId = allocateVoucherId("shopReceipt", voucherIds(), issueDate);
+
+    const receipt = Receipts.create({
+      clientId: client._id,
+      clientInfo: {
+        clientName: body.clientInfo?.clientName || client.clientName,
+        shopName: body.clientInfo?.shopName || client.shopName,
+        phoneNumber: body.clientInfo?.phoneNumber || client.phoneNumber,
+        address: body.clientInfo?.address || client.address,
+      },
+      metalType,
+      issueDate,
+      voucherId,
+      givenItems,
+      receivedItems,
+      totals: calculateTotals(givenItems),
+      previousBalance: toNumber(body.previousBalance),
+      paymentStatus: "Pending",
+      amountPaid: 0,
+      isCompleted: receiptStatus === "complete",
+      status: receiptStatus,
+    });
+    recordAudit(
+      {
+        entityType: "receipt",
+        entityId: receipt._id,
+        label: receipt.voucherId,
+        action: "create",
+        after: receipt,
+      },
+      actor
+    );
+    const effect = shopReceiptEffect(receipt);
+    recordRevision("receipt", receipt, effect, actor);
+    postToLedger(receipt, effect, actor.userId);
+    return receipt;
+  });
+
+const reviseReceipt = (
+  receipt: Receipt,
+  body: ReceiptBody,
+  res: Response,
+  actor: AuditActor = {}
+): Receipt =>
+  transaction(() => {
+    // Rows kept from before are worked out again too, in case the metal
+    // changed
+    const metalType = body.metalType || receipt.metalType;
+    const givenItems = normalizeGivenItems(
+      body.givenItems || receipt.givenItems,
+      metalType
+    );
+    const receivedItems = normalizeReceivedItems(
+      body.receivedItems || receipt.receivedItems,
+      metalType
+    );
+    const receiptStatus = deriveStatus(body.status, receivedItems);
+    const totals = calculateTotals(givenItems);
+
+    // Payments stay applied as recorded, so the receipt cannot come to less
+    // than has been paid against it
+    const amountDue = receiptAmountDue(totals);
+    if (toPaise(amountDue) < toPaise(receipt.amountPaid)) {
+      res.status(400);
+      throw new Error(
+        `Receipt ${receipt.voucherId} has ${formatRupees(
+          receipt.amountPaid
+        )} paid against it; it cannot be revised to ${formatRupees(amountDue)}`
+      );
+    }
+
+    const updatedReceipt = Receipts.updateById(receipt._id, {
+      clientInfo: { ...receipt.clientInfo, ...body.clientInfo },
+      metalType,
+      issueDate: body.issueDate || receipt.issueDate,
+      givenItems,
+      receivedItems,
+      totals,
+      paymentStatus: paymentStatusFor(amountDue, receipt.amountPaid),
+      isCompleted: receiptStatus === "complete",
+      status: receiptStatus,
+    })!;
+    recordAudit(
+      {
+        entityType: "receipt",
+        entityId: receipt._id,
+        label: receipt.voucherId,
+        action: "update",
+        before: receipt,
+        after: updatedReceipt,
+      },
+      actor
+    );
+    const effect = shopReceiptEffect(updatedReceipt);
+    recordRevision("receipt", updatedReceipt, effect, actor, {
+      receipt,
+      balanceEffect: shopReceiptEffect(receipt),
+    });
+    postToLedger(updatedReceipt, effect, actor.userId);
+    return updatedReceipt;
+  });
+
+// @desc    Get all receipts
+// @route   GET /api/receipts
+// @access  Private
+export const getReceipts = asyncHandler(async (req, res) => {
+  const receipts = Receipts.find().sort((a, b) =>
+    b.createdAt.localeCompare(a.createdAt)
+  );
+  res.json({ success: true, count: receipts.length, data: receipts });
+});
+
+// @desc    Search receipts by voucher ID, client or shop name
+// @route   GET /api/receipts/search?query=
+// @access  Private
+export const searchReceipts = asyncHandler(async (req, res) => {
+  const query = String(req.query.query || "").toLowerCase();
+  const receipts = Receipts.find(
+    (receipt) =>
+      receipt.voucherId?.toLowerCase().includes(query) ||
+      receipt.clientInfo?.clientName?.toLowerCase().includes(query) ||
+      receipt.clientInfo?.shopName?.toLowerCase().includes(query)
+  );
+  res.json({ success: true, count: receipts.length, data: receipts });
+});
+
+// @desc    Get receipt by ID
+// @route   GET /api/receipts/:id
+// @access  Private
+export const getReceiptById = asyncHandler(async (req, res) => {
+  const receipt = Receipts.findById(req.params.id);
+
+  if (receipt) {
+    res.json({ success: true, data: receipt });
+  } else {
+    res.status(404);
+    throw new Error("Receipt not found");
+  }
+});
+
+// @desc    Saved versions of a receipt, oldest first
+// @route   GET /api/receipts/:id/revisions
+// @access  Private
+export const getReceiptRevisions = asyncHandler(async (req, res) => {
+  const receipt = Receipts.findById(req.params.id);
+
+  if (!receipt) {
+    res.status(404);
+    throw new Error("Receipt not found");
+  }
+
+  const revisions = receiptRevisions("receipt", receipt._id);
+  res.json({ success: true, count: revisions.length, data: revisions });
+});
+
+// @desc    Get receipts by client ID
+// @route   GET /api/receipts/client/:clientId
+// @access  Private
+export const getReceiptsByClientId = asyncHandler(async (req, res) => {
+  const receipts = Receipts.find(
+    (receipt) => receipt.clientId === req.params.clientId
+  ).sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  res.json({ success: true, count: receipts.length, data: receipts });
+});
+
+// @desc    Create new receipt
+// @route   POST /api/receipts
+// @access  Private (receipts:create)
+export const createReceipt = asyncHandler(async (req, res) => {
+  const client = Clients.findById(req.body.clientId);
+  if (!client) {
+    res.status(404);
+    throw new Error("Client not found");
+  }
+  checkIssueDate(req.body, res);
+
+  const receipt = insertReceipt(req.body, client, actorOf(req));
+  res.status(201).json({ success: true, data: receipt });
+});
+
+// @desc    Update receipt
+// @route   PUT /api/receipts/:id
+// @access  Private (receipts:edit)
+export const updateReceipt = asyncHandler(async (req, res) => {
+  const receipt = Receipts.findById(req.params.id);
+
+  if (!receipt) {
+    res.status(404);
+    throw new Error("Receipt not found");
+  }
+  if (receipt.isFinalized) {
+    res.status(400);
+    throw new Error("Receipt is finalized; reopen it to make changes");
+  }
+  if (receipt.status === "cancelled") {
+    res.status(400);
+    throw new Error("Cancelled receipts cannot be changed");
+  }
+  checkIssueDate(req.body, res);
+
+  const updatedReceipt = reviseReceipt(receipt, req.body, res, actorOf(req));
+  res.json({ success: true, data: updatedReceipt });
+});
+
+// @desc    Create (no id) or update a receipt and return the client's new
+//          balance with it
+// @route   POST /api/receipts/save
+// @access  Private (receipts:create without id, receipts:edit with id)
+export const saveReceipt = asyncHandler(async (req, res) => {
+  const { id, receipt: input = {} } = req.body;
+  checkIssueDate(input, res);
+  let receipt: Receipt;
+
+  if (id) {
+    const existing = Receipts.findById(id);
+    if (!existing) {
+      res.status(404);
+      throw new Error("Receipt not found");
+    }
+    if (existing.isFinalized) {
+      res.status(400);
+      throw new Error("Receipt is finalized; reopen it to make changes");
+    }
+    if (existing.status === "cancelled") {
+      res.status(400);
+      throw new Error("Cancelled receipts cannot be changed");
+    }
+    receipt = reviseReceipt(existing, input, res, actorOf(req));
+  } else {
+    const client = Clients.findById(input.clientId);
+    if (!client) {
+      res.status(404);
+      throw new Error("Client not found");
+    }
+    receipt = insertReceipt(input, client, actorOf(req));
+  }
+
+  res.status(id ? 200 : 201).json({
+    success: true,
+    receipt,
+    client: Clients.findById(receipt.clientId),
+  });
+});
+
+// @desc    Move a receipt to the trash, reversing its balance effect until
+//          it is restored
+// @route   DELETE /api/receipts/:id
+// @access  Private (receipts:delete)
+export const deleteReceipt = asyncHandler(async (req, res) => {
+  const receipt = Receipts.findById(req.params.id);
+
+  if (!receipt) {
+    res.status(404);
+    throw new Error("Receipt not found");
+  }
+  if (receipt.isFinalized) {
+    res.status(400);
+    throw new Error("Receipt is finalized; reopen it to make changes");
+  }
+  const bill = ClientBills.findOne(
+    (bill) => bill.receiptId === receipt._id && bill.status === "issued"
+  );
+  if (bill) {
+    res.status(409);
+    throw new Error(
+      `Receipt ${receipt.voucherId} is billed as ${bill.billNumber}; void the bill first`
+    );
+  }
+  const paid = paidMessage(receipt);
+  if (paid) {
+    res.status(409);
+    throw new Error(paid);
+  }
+
+  const actor = actorOf(req);
+  transaction(() => trashReceipt("receipt", receipt, actor));
+  res.json({ success: true, message: "Receipt moved to the trash" });
+});
+
+// @desc    Cancel a receipt: it keeps its voucher number, its balance effect
+//          is reversed and it can no longer change; needs a reason
+// @route   POST /api/receipts/:id/cancel
+// @access  Private (receipts:delete)
+export const cancelReceipt = asyncHandler(async (req, res) => {
+  const receipt = Receipts.findById(req.params.id);
+  const actor = actorOf(req);
+
+  if (!receipt) {
+    res.status(404);
+    throw new Error("Receipt not found");
+  }
+  if (receipt.status === "cancelled") {
+    res.status(400);
+    throw new Error("Receipt is already cancelled");
+  }
+  if (receipt.isFinalized) {
+    res.status(400);
+    throw new Error("Receipt is finalized; reopen it to make changes");
+  }
+  if (!actor.reason) {
+    res.status(400);
+    throw new Error("A reason is required to cancel a receipt");
+  }
+  const bill = ClientBills.findOne(
+    (bill) => bill.receiptId === receipt._id && bill.status === "issued"
+  );
+  if (bill) {
+    res.status(409);
+    throw new Error(
+      `Receipt ${receipt.voucherId} is billed as ${bill.billNumber}; void the bill first`
+    );
+  }
+  const paid = paidMessage(receipt);
+  if (paid) {
+    res.status(409);
+    throw new Error(paid);
+  }
+
+  const updatedReceipt = transaction(() => {
+    const cancelled = Receipts.updateById(receipt._id, {
+      ...cancelledFields(actor),
+      status: "cancelled",
+      isCompleted: false,
+    })!;
+    recordAudit(
+      {
+        entityType: "receipt",
+        entityId: receipt._id,
+        label: receipt.voucherId,
+        action: "update",
+        before: receipt,
+        after: cancelled,
+      },
+      actor
+    );
+    recordRevision("receipt", cancelled, 0, actor, {
+      receipt,
+      balanceEffect: shopReceiptEffect(receipt),
+    });
+    postToLedger(cancelled, 0, actor.userId);
+    return cancelled;
+  });
+  res.json({ success: true, data: updatedReceipt });
+});
+
+// @desc    Finalize a complete receipt: it can no longer be edited or
+//          deleted, so its ledger entry stays as posted
+// @route   POST /api/receipts/:id/finalize
+// @access  Private (receipts:edit)
+export const finalizeReceipt = asyncHandler(async (req, res) => {
+  const receipt = Receipts.findById(req.params.id);
+
+  if (!receipt) {
+    res.status(404);
+    throw new Error("Receipt not found");
+  }
+  if (receipt.isFinalized) {
+    res.status(400);
+    throw new Error("Receipt is already finalized");
+  }
+  if (receipt.status !== "complete") {
+    res.status(400);
+    throw new Error("Only complete receipts can be finalized");
+  }
+
+  const actor = actorOf(req);
+  const updatedReceipt = transaction(() => {
+    const finalized = Receipts.updateById(
+      receipt._id,
+      finalizedFields(actor)
+    )!;
+    recordAudit(
+      {
+        entityType: "receipt",
+        entityId: receipt._id,
+        label: receipt.voucherId,
+        action: "update",
+        before: receipt,
+        after: finalized,
+      },
+      actor
+    );
+    return finalized;
+  });
+  res.json({ success: true, data: updatedReceipt });
+});
+
+// @desc    Reopen a finalized receipt for changes; needs a reason
+// @route   POST /api/receipts/:id/reopen
+// @access  Private (receipts:reopen)
+export const reopenReceipt = asyncHandler(async (req, res) => {
+  const receipt = Receipts.findById(req.params.id);
+  const actor = actorOf(req);
+
+  if (!receipt) {
+    res.status(404);
+    throw new Error("Receipt not found");
+  }
+  if (!receipt.isFinalized) {
+    res.status(400);
+    throw new Error("Receipt is not finalized");
+  }
+  if (!actor.reason) {
+    res.status(400);
+    throw new Error("A reason is required to reopen a receipt");
+  }
+
+  const updatedReceipt = transaction(() => {
+    const reopened = Receipts.updateById(receipt._id, reopenedFields(actor))!;
+    recordAudit(
+      {
+        entityType: "receipt",
+        entityId: receipt._id,
+        label: receipt.voucherId,
+        action: "update",
+        before: receipt,
+        after: reopened,
+      },
+      actor
+    );
+    return reopened;
+  });
+  res.json({ success: true, data: updatedReceipt });
+});
+
+// @desc    The voucher the next saved receipt will get (not reserved)
+// @route   GET /api/receipts/generate-voucher-id
+// @access  Private
+export const getVoucherId = asyncHandler(async (req, res) => {
+  res.json({ voucherId: peekVoucherId("shopReceipt", voucherIds()) });
+});
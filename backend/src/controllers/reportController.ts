@@ -0,0 +1,42 @@
+import asyncHandler from "express-async-handler";
+import { ageingReport, AgeingRow } from "../utils/ageing";
+import { dayOf, isValidDay } from "../utils/days";
+import { sumGrams } from "../utils/numbers";
+import { AGEING_BUCKETS } from "../../../src/lib/ageing";
+
+// Per metal, since grams of different metals are never added together
+const ageingTotals = (rows: AgeingRow[]) => {
+  const byMetal: Record<string, AgeingRow[]> = {};
+  rows.forEach((row) => (byMetal[row.metal] ||= []).push(row));
+  return Object.entries(byMetal).map(([metal, metalRows]) => ({
+    metal,
+    balance: sumGrams(metalRows, (row) => row.balance),
+    buckets: Object.fromEntries(
+      AGEING_BUCKETS.map(({ key }) => [
+        key,
+        sumGrams(metalRows, (row) => row.buckets[key]),
+      ])
+    ),
+  }));
+};
+
+// @desc    What each client owes per metal, split into 0-30, 31-60, 61-90
+//          and 90+ days by the dates of the unsettled receipts; longest
+//          owed first
+// @route   GET /api/reports/ageing?metal=&asOf=
+// @access  Private
+export const getAgeingReport = asyncHandler(async (req, res) => {
+  const asOf = String(req.query.asOf || dayOf());
+  const metal = req.query.metal ? String(req.query.metal) : undefined;
+
+  if (!isValidDay(asOf)) {
+    res.status(400);
+    throw new Error("Date must be given as yyyy-MM-dd");
+  }
+
+  const rows = ageingReport(asOf, metal).sort(
+    (a, b) => b.ageDays - a.ageDays || b.balance - a.balance
+  );
+
+  res.json({ success: true, asOf, rows, totals: ageingTotals(rows) });
+});
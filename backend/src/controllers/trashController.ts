@@ -0,0 +1,175 @@
+import asyncHandler from "express-async-handler";
+import { transaction } from "../config/db";
+import { hasPermission, Permission } from "../config/roles";
+import { AdminReceipt, AdminReceipts } from "../models/AdminReceipt";
+import { Client, Clients } from "../models/Client";
+import { Receipt, Receipts } from "../models/Receipt";
+import { TrashEntityType, TrashItem, TrashItems } from "../models/TrashItem";
+import { actorOf, AuditActor, recordAudit } from "../utils/audit";
+import {
+  receiptDate,
+  shopReceiptEffect,
+  syncReceiptEntries,
+  workReceiptEffect,
+} from "../utils/ledger";
+import { shopReceiptCharge, syncReceiptCharge } from "../utils/cashLedger";
+import { paginate } from "../utils/pagination";
+import { purgeExpiredTrash, trashRetentionDays } from "../utils/trash";
+
+// Whoever may delete a kind of record may also bring it back
+const RESTORE_PERMISSIONS: Record<TrashEntityType, Permission> = {
+  client: "clients:delete",
+  receipt: "receipts:delete",
+  adminReceipt: "receipts:delete",
+};
+
+// Puts the document back and, for a receipt, posts its balance effect and
+// charge again
+const restoreDocument = (item: TrashItem, userId?: string) => {
+  switch (item.entityType) {
+    case "client":
+      return Clients.insert(item.document as Client);
+    case "receipt": {
+      const receipt = Receipts.insert(item.document as Receipt);
+      syncReceiptEntries(
+        {
+          type: "receipt",
+          id: receipt._id,
+          voucherId: receipt.voucherId,
+          clientId: receipt.clientId,
+          metal: receipt.metalType,
+          status: receipt.status,
+          note: "restored",
+          date: receiptDate(receipt),
+        },
+        shopReceiptEffect(receipt),
+        userId
+      );
+      syncReceiptCharge(
+        {
+          id: receipt._id,
+          voucherId: receipt.voucherId,
+          clientId: receipt.clientId,
+          status: receipt.status,
+          note: "restored",
+          date: receiptDate(receipt),
+        },
+        shopReceiptCharge(receipt),
+        userId
+      );
+      return receipt;
+    }
+    case "adminReceipt": {
+      const receipt = AdminReceipts.insert(item.document as AdminReceipt);
+      syncReceiptEntries(
+        {
+          type: "adminReceipt",
+          id: receipt._id,
+          voucherId: receipt.voucherId,
+          clientId: receipt.clientId,
+          metal: receipt.metalType,
+          status: receipt.status,
+          note: "restored",
+          date: receiptDate(receipt),
+        },
+        workReceiptEffect(receipt),
+        userId
+      );
+      return receipt;
+    }
+  }
+};
+
+// Takes the item out of the trash and records the restore
+const restoreItem = (item: TrashItem, actor: AuditActor) => {
+  TrashItems.deleteById(item._id);
+  const document = restoreDocument(item, actor.userId);
+  recordAudit(
+    {
+      entityType: item.entityType,
+      entityId: item.entityId,
+      label: item.label,
+      action: "restore",
+      after: document,
+    },
+    actor
+  );
+  return document;
+};
+
+// @desc    Deleted clients and receipts, newest first; anything past the
+//          retention period is purged first
+// @route   GET /api/trash?query=&entityType=&page=&limit=
+// @access  Private
+export const getTrash = asyncHandler(async (req, res) => {
+  purgeExpiredTrash();
+
+  const query = String(req.query.query || "").toLowerCase();
+  const entityType = req.query.entityType as TrashEntityType | undefined;
+
+  const items = TrashItems.find(
+    (item) =>
+      (!query ||
+        item.label.toLowerCase().includes(query) ||
+        !!item.deletedByName?.toLowerCase().includes(query) ||
+        !!item.reason?.toLowerCase().includes(query)) &&
+      (!entityType || item.entityType === entityType)
+  ).sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+  res.json({
+    success: true,
+    retentionDays: trashRetentionDays(),
+    ...paginate(items, req.query, 20),
+  });
+});
+
+// @desc    Restore a deleted client or receipt as it was; a client brings
+//          back the receipts that were deleted with it
+// @route   POST /api/trash/:id/restore
+// @access  Private (clients:delete for clients, receipts:delete for receipts)
+export const restoreTrashItem = asyncHandler(async (req, res) => {
+  const item = TrashItems.findById(req.params.id);
+
+  if (!item) {
+    res.status(404);
+    throw new Error("Item not found in the trash");
+  }
+  if (
+    !req.user ||
+    !hasPermission(req.user.role, RESTORE_PERMISSIONS[item.entityType])
+  ) {
+    res.status(403);
+    throw new Error("You do not have permission to do this");
+  }
+  if (item.entityType !== "client" && !Clients.findById(item.clientId)) {
+    res.status(400);
+    throw new Error(
+      `The client of ${item.label} is not on record; restore the client first`
+    );
+  }
+
+  // Receipts that went to the trash with the client come back with it
+  const companions =
+    item.entityType === "client"
+      ? TrashItems.find(
+          (other) => !!other.withClient && other.clientId === item.entityId
+        )
+      : [];
+  if (
+    companions.length > 0 &&
+    !hasPermission(req.user.role, RESTORE_PERMISSIONS.receipt)
+  ) {
+    res.status(403);
+    throw new Error(
+      "You do not have permission to restore this client's receipts"
+    );
+  }
+
+  const actor = actorOf(req);
+  const restored = transaction(() => {
+    const document = restoreItem(item, actor);
+    companions.forEach((companion) => restoreItem(companion, actor));
+    return document;
+  });
+  res.json({ success: true, data: restored });
+});
@@ -0,0 +1,18 @@
+import { describe, expect, it } from "vitest";
+import { Users } from "../models/User";
+import { callHandler } from "../test/request";
+import { createUser } from "./userController";
+
+describe("createUser", () => {
+  it("creates a username once when two requests race for it", async () => {
+    const body = { username: "clerk", password: "secret123", role: "readonly" };
+
+    const results = await Promise.all([
+      callHandler(createUser, { body }),
+      callHandler(createUser, { body }),
+    ]);
+
+    expect(results.map((result) => result.status).sort()).toEqual([201, 400]);
+    expect(Users.find((user) => user.username === "clerk")).toHaveLength(1);
+  });
+});
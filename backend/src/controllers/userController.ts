@@ -0,0 +1,123 @@
+import asyncHandler from "express-async-handler";
+import { transaction } from "../config/db";
+import { ROLES, isRole } from "../config/roles";
+import { Sessions } from "../models/Session";
+import { User, Users, toPublicUser } from "../models/User";
+import { MIN_PASSWORD_LENGTH, hashPassword } from "../utils/passwords";
+
+const revokeSessions = (userId: string) => {
+  const now = new Date().toISOString();
+  Sessions.find(
+    (session) => session.userId === userId && !session.revokedAt
+  ).forEach((session) => Sessions.updateById(session._id, { revokedAt: now }));
+};
+
+const isValidPassword = (password: unknown) =>
+  !!password && String(password).length >= MIN_PASSWORD_LENGTH;
+
+const PASSWORD_RULE = `Password must be at least ${MIN_PASSWORD_LENGTH} characters`;
+
+const ROLE_RULE = `Role must be one of: ${ROLES.join(", ")}`;
+
+// Nobody may demote or disable the last active owner, or users could no
+// longer be managed at all
+const removesLastOwner = (user: User, role: unknown, active: unknown) => {
+  const staysOwner =
+    (role ?? user.role) === "owner" && (active ?? user.active);
+  if (user.role !== "owner" || !user.active || staysOwner) return false;
+  return !Users.findOne(
+    (other) => other._id !== user._id && other.role === "owner" && other.active
+  );
+};
+
+// @desc    Get all users
+// @route   GET /api/users
+// @access  Private (users:manage)
+export const getUsers = asyncHandler(async (req, res) => {
+  const users = Users.find()
+    .sort((a, b) => a.username.localeCompare(b.username))
+    .map(toPublicUser);
+  res.json(users);
+});
+
+// @desc    Create a user
+// @route   POST /api/users
+// @access  Private (users:manage)
+export const createUser = asyncHandler(async (req, res) => {
+  const username = String(req.body.username || "").trim().toLowerCase();
+  const { name, password, role = "readonly" } = req.body;
+
+  if (!username) {
+    res.status(400);
+    throw new Error("Username is required");
+  }
+  if (!isValidPassword(password)) {
+    res.status(400);
+    throw new Error(PASSWORD_RULE);
+  }
+  if (!isRole(role)) {
+    res.status(400);
+    throw new Error(ROLE_RULE);
+  }
+
+  // Hashed before the name is checked: another request may take it while
+  // this one waits, so the check and the insert go together
+  const passwordHash = await hashPassword(String(password));
+  const user = transaction(() => {
+    if (Users.findOne((existing) => existing.username === username)) {
+      res.status(400);
+      throw new Error("Username is already taken");
+    }
+    return Users.create({
+      username,
+      name: name || username,
+      role,
+      passwordHash,
+      active: true,
+    });
+  });
+
+  res.status(201).json(toPublicUser(user));
+});
+
+// @desc    Update a user's name, role, status or password
+// @route   PUT /api/users/:id
+// @access  Private (users:manage)
+export const updateUser = asyncHandler(async (req, res) => {
+  const user = Users.findById(req.params.id);
+
+  if (!user) {
+    res.status(404);
+    throw new Error("User not found");
+  }
+
+  const { name, role, active, password } = req.body;
+  if (password !== undefined && !isValidPassword(password)) {
+    res.status(400);
+    throw new Error(PASSWORD_RULE);
+  }
+  if (role !== undefined && !isRole(role)) {
+    res.status(400);
+    throw new Error(ROLE_RULE);
+  }
+  if (removesLastOwner(user, role, active)) {
+    res.status(400);
+    throw new Error("At least one active owner is required");
+  }
+
+  const updatedUser = Users.updateById(user._id, {
+    name: name ?? user.name,
+    role: role ?? user.role,
+    active: active ?? user.active,
+    ...(password !== undefined && {
+      passwordHash: await hashPassword(String(password)),
+    }),
+  });
+
+  // A reset password or a disabled account should not keep old logins alive
+  if (password !== undefined || active === false) {
+    revokeSessions(user._id);
+  }
+
+  res.json(toPublicUser(updatedUser!));
+});
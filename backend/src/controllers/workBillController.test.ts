@@ -0,0 +1,108 @@
+import { describe, expect, it } from "vitest";
+import { AdminReceipts } from "../models/AdminReceipt";
+import { AuditEntries } from "../models/AuditEntry";
+import { WorkBill } from "../models/WorkBill";
+import { callHandler } from "../test/request";
+import { createWorkBill, voidWorkBill } from "./workBillController";
+
+const completeReceipt = (metalType: string) =>
+  AdminReceipts.create({
+    clientId: "client",
+    clientName: "Client",
+    voucherId: `GA-${metalType}`,
+    metalType,
+    status: "complete",
+    given: {
+      date: "2026-10-01T00:00:00.000Z",
+      items: [],
+      totalPureWeight: 0,
+      total: 20,
+    },
+    received: {
+      date: "2026-10-02T00:00:00.000Z",
+      items: [
+        {
+          productName: "Chain",
+          finalOrnamentsWt: 10.003,
+          stoneWeight: 0,
+          makingChargePercent: 50,
+          subTotal: 10.003,
+          total: 15.003,
+        },
+      ],
+      totalOrnamentsWt: 10.003,
+      totalStoneWeight: 0,
+      totalSubTotal: 10.003,
+      total: 15.003,
+    },
+    manualCalculations: {
+      givenTotal: 20,
+      receivedTotal: 15.003,
+      operation: "subtract-given-received",
+      result: 4.997,
+    },
+  });
+
+describe("createWorkBill", () => {
+  it("rounds a silver receipt's making charge the way the receipt does", async () => {
+    const receipt = completeReceipt("Silver");
+
+    const { status, body } = await callHandler<{ data: WorkBill }>(
+      createWorkBill,
+      { body: { receiptId: receipt._id } }
+    );
+
+    expect(status).toBe(201);
+    expect(body?.data.lines[0]).toMatchObject({
+      netWeight: 10.003,
+      makingCharge: 5,
+      total: 15.003,
+    });
+    expect(body?.data.totals.total).toBe(receipt.received.total);
+  });
+
+  it("rounds gold to the milligram", async () => {
+    const receipt = completeReceipt("Gold");
+
+    const { body } = await callHandler<{ data: WorkBill }>(createWorkBill, {
+      body: { receiptId: receipt._id },
+    });
+
+    expect(body?.data.lines[0]).toMatchObject({
+      makingCharge: 5.002,
+      total: 15.005,
+    });
+  });
+});
+
+describe("voidWorkBill", () => {
+  it("keeps the bill and records the void with its reason", async () => {
+    const receipt = completeReceipt("Gold");
+    const created = await callHandler<{ data: WorkBill }>(createWorkBill, {
+      body: { receiptId: receipt._id },
+    });
+    const bill = created.body!.data;
+
+    const { status, body } = await callHandler<{ data: WorkBill }>(
+      voidWorkBill,
+      { params: { id: bill._id }, body: { reason: "Wrong client" } }
+    );
+
+    expect(status).toBe(200);
+    expect(body?.data).toMatchObject({
+      billNumber: bill.billNumber,
+      status: "void",
+      voidReason: "Wrong client",
+    });
+    const entry = AuditEntries.findOne(
+      (audit) => audit.entityType === "workBill" && audit.entityId === bill._id
+    );
+    expect(entry).toMatchObject({
+      action: "update",
+      label: bill.billNumber,
+      reason: "Wrong client",
+      before: { status: "issued" },
+      after: { status: "void" },
+    });
+  });
+});
@@ -0,0 +1,169 @@
+import asyncHandler from "express-async-handler";
+import { transaction } from "../config/db";
+import { AdminReceipts, WorkReceivedItem } from "../models/AdminReceipt";
+import { WorkBill, WorkBillLine, WorkBills } from "../models/WorkBill";
+import { sumGrams, toGrams, toNumber } from "../utils/numbers";
+import { paginate } from "../utils/pagination";
+import { allocateVoucherId } from "../utils/voucherId";
+import { isValidDate } from "../utils/days";
+import { actorOf, recordAudit } from "../utils/audit";
+import { workReceivedAmounts } from "../../../src/lib/receipt-calculations";
+
+const billNumbers = () => WorkBills.find().map((bill) => bill.billNumber);
+
+// Rounded by the receipt's metal, so the bill matches the receipt
+const toBillLine = (item: WorkReceivedItem, metal?: string): WorkBillLine => {
+  const { subTotal, makingCharge, total } = workReceivedAmounts(item, metal);
+
+  return {
+    productName: item.productName,
+    ornamentsWt: toGrams(item.finalOrnamentsWt),
+    stoneWeight: toGrams(item.stoneWeight),
+    netWeight: subTotal,
+    makingChargePercent: toNumber(item.makingChargePercent),
+    makingCharge,
+    total,
+  };
+};
+
+// @desc    Work Bills, newest first, filtered and paginated
+// @route   GET /api/work-bills?query=&status=&clientId=&page=&limit=
+// @access  Private
+export const getWorkBills = asyncHandler(async (req, res) => {
+  const query = String(req.query.query || "").toLowerCase();
+  const status = req.query.status as WorkBill["status"] | undefined;
+  const clientId = req.query.clientId as string | undefined;
+
+  const bills = WorkBills.find(
+    (bill) =>
+      (!query ||
+        bill.billNumber.toLowerCase().includes(query) ||
+        bill.voucherId?.toLowerCase().includes(query) ||
+        bill.clientName?.toLowerCase().includes(query)) &&
+      (!status || bill.status === status) &&
+      (!clientId || bill.clientId === clientId)
+  ).sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+  res.json({ success: true, ...paginate(bills, req.query) });
+});
+
+// @desc    Get Work Bill by ID
+// @route   GET /api/work-bills/:id
+// @access  Private
+export const getWorkBillById = asyncHandler(async (req, res) => {
+  const bill = WorkBills.findById(req.params.id);
+
+  if (bill) {
+    res.json({ success: true, data: bill });
+  } else {
+    res.status(404);
+    throw new Error("Work Bill not found");
+  }
+});
+
+// @desc    Bill a completed work receipt
+// @route   POST /api/work-bills
+// @access  Private (receipts:create)
+export const createWorkBill = asyncHandler(async (req, res) => {
+  const receipt = AdminReceipts.findById(req.body.receiptId);
+
+  if (!receipt) {
+    res.status(404);
+    throw new Error("Work Receipt not found");
+  }
+  if (receipt.status !== "complete") {
+    res.status(400);
+    throw new Error("Only completed Work Receipts can be billed");
+  }
+  const existing = WorkBills.findOne(
+    (bill) => bill.receiptId === receipt._id && bill.status === "issued"
+  );
+  if (existing) {
+    res.status(409);
+    throw new Error(
+      `Work Receipt ${receipt.voucherId} is already billed as ${existing.billNumber}`
+    );
+  }
+
+  const lines = receipt.received.items.map((item) =>
+    toBillLine(item, receipt.metalType)
+  );
+  const totals = {
+    ornamentsWt: sumGrams(lines, (line) => line.ornamentsWt),
+    stoneWeight: sumGrams(lines, (line) => line.stoneWeight),
+    netWeight: sumGrams(lines, (line) => line.netWeight),
+    makingCharge: sumGrams(lines, (line) => line.makingCharge),
+    total: sumGrams(lines, (line) => line.total),
+  };
+  const givenTotal = toGrams(receipt.given.total);
+
+  if (req.body.billDate && !isValidDate(req.body.billDate)) {
+    res.status(400);
+    throw new Error("Bill date is not a valid date");
+  }
+  const billDate = req.body.billDate
+    ? new Date(req.body.billDate).toISOString()
+    : new Date().toISOString();
+
+  // The number is taken in the same write as the bill, so it is never lost
+  const bill = transaction(() =>
+    WorkBills.create({
+      billNumber: allocateVoucherId("workBill", billNumbers(), billDate),
+      billDate,
+      receiptId: receipt._id,
+      voucherId: receipt.voucherId,
+      clientId: receipt.clientId,
+      clientName: receipt.clientName,
+      givenTotal,
+      lines,
+      totals,
+      balance: toGrams(givenTotal - totals.total),
+      status: "issued",
+      createdBy: req.user?._id,
+    })
+  );
+
+  res.status(201).json({ success: true, data: bill });
+});
+
+// @desc    Void a Work Bill, keeping its number on record
+// @route   POST /api/work-bills/:id/void
+// @access  Private (receipts:edit)
+export const voidWorkBill = asyncHandler(async (req, res) => {
+  const bill = WorkBills.findById(req.params.id);
+  const reason = String(req.body.reason || "").trim();
+
+  if (!bill) {
+    res.status(404);
+    throw new Error("Work Bill not found");
+  }
+  if (bill.status === "void") {
+    res.status(400);
+    throw new Error("Work Bill is already void");
+  }
+  if (!reason) {
+    res.status(400);
+    throw new Error("A reason is required to void a bill");
+  }
+
+  const updatedBill = transaction(() => {
+    const voided = WorkBills.updateById(bill._id, {
+      status: "void",
+      voidedAt: new Date().toISOString(),
+      voidReason: reason,
+    })!;
+    recordAudit(
+      {
+        entityType: "workBill",
+        entityId: bill._id,
+        label: bill.billNumber,
+        action: "update",
+        before: bill,
+        after: voided,
+      },
+      actorOf(req)
+    );
+    return voided;
+  });
+  res.json({ success: true, data: updatedBill });
+});
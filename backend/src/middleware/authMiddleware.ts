@@ -0,0 +1,57 @@
+import { NextFunction, Request, Response } from "express";
+import asyncHandler from "express-async-handler";
+import { Permission, hasPermission } from "../config/roles";
+import { Sessions } from "../models/Session";
+import { Users, toPublicUser } from "../models/User";
+import { verifyToken } from "../utils/tokens";
+
+// Rejects the request unless it carries a bearer token for a live session
+// of an active user
+export const protect = asyncHandler(async (req, res, next) => {
+  const header = req.headers.authorization || "";
+  const token = header.startsWith("Bearer ") ? header.slice(7) : "";
+
+  const claims = token ? verifyToken(token) : null;
+  if (!claims) {
+    res.status(401);
+    throw new Error("Not authorized, please log in");
+  }
+
+  const session = Sessions.findById(claims.sessionId);
+  if (
+    !session ||
+    session.userId !== claims.userId ||
+    session.revokedAt ||
+    new Date(session.expiresAt).getTime() <= Date.now()
+  ) {
+    res.status(401);
+    throw new Error("Session expired, please log in again");
+  }
+
+  const user = Users.findById(claims.userId);
+  if (!user || !user.active) {
+    res.status(401);
+    throw new Error("Account is disabled");
+  }
+
+  req.user = toPublicUser(user);
+  req.sessionId = session._id;
+  next();
+});
+
+// Use after `protect`: rejects users whose role lacks the permission
+export const authorize =
+  (permission: Permission) =>
+  (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user || !hasPermission(req.user.role, permission)) {
+      res.status(403);
+      return next(new Error("You do not have permission to do this"));
+    }
+    next();
+  };
+
+// For endpoints that create without an `id` in the body and update with one
+export const authorizeSave =
+  (create: Permission, edit: Permission) =>
+  (req: Request, res: Response, next: NextFunction) =>
+    authorize(req.body?.id ? edit : create)(req, res, next);
@@ -0,0 +1,66 @@
+import { BaseDocument, Collection } from "../config/db";
+import { ReceiptCancellation, ReceiptLock } from "./Receipt";
+
+export interface WorkGivenItem {
+  id?: string;
+  productName: string;
+  pureWeight: string | number;
+  purePercent: string | number;
+  melting: string | number;
+  total: number;
+  tag?: string;
+  date?: string;
+}
+
+export interface WorkReceivedItem {
+  id?: string;
+  productName: string;
+  finalOrnamentsWt: string | number;
+  stoneWeight: string | number;
+  makingChargePercent: string | number;
+  subTotal: number;
+  total: number;
+  mc?: string | number;
+  date?: string;
+}
+
+export interface WorkGiven {
+  date: string;
+  items: WorkGivenItem[];
+  totalPureWeight: number;
+  total: number;
+}
+
+export interface WorkReceived {
+  date: string;
+  items: WorkReceivedItem[];
+  totalOrnamentsWt: number;
+  totalStoneWeight: number;
+  totalSubTotal: number;
+  total: number;
+}
+
+export interface ManualCalculations {
+  givenTotal: number;
+  receivedTotal: number;
+  operation: string;
+  result: number;
+}
+
+// Work receipts are what the UI calls "admin receipts"
+export interface AdminReceipt
+  extends BaseDocument,
+    ReceiptLock,
+    ReceiptCancellation {
+  clientId: string;
+  clientName: string;
+  voucherId: string;
+  // Metal the receipt posts to; gold when not given
+  metalType?: string;
+  status: "complete" | "incomplete" | "empty" | "cancelled";
+  given: WorkGiven;
+  received: WorkReceived;
+  manualCalculations: ManualCalculations;
+}
+
+export const AdminReceipts = new Collection<AdminReceipt>("adminReceipts");
@@ -0,0 +1,40 @@
+import { BaseDocument, Collection } from "../config/db";
+
+export type AuditEntityType =
+  | "client"
+  | "receipt"
+  | "adminReceipt"
+  | "balance"
+  | "payment"
+  | "rate"
+  | "workBill"
+  | "clientBill";
+
+// A delete moves the record to the trash; it is restored from there or
+// purged once its retention runs out
+export type AuditAction = "create" | "update" | "delete" | "restore" | "purge";
+
+export interface AuditChange {
+  field: string;
+  before?: unknown;
+  after?: unknown;
+}
+
+// One write to a client, a receipt or a client's balance. Entries are only
+// ever added; `before`/`after` are the whole document on either side.
+export interface AuditEntry extends BaseDocument {
+  entityType: AuditEntityType;
+  entityId: string;
+  // Voucher or client name, so the log reads well after the entity is gone
+  label: string;
+  action: AuditAction;
+  userId?: string;
+  userName?: string;
+  reason?: string;
+  before?: Record<string, unknown>;
+  after?: Record<string, unknown>;
+  // Top-level fields that differ between `before` and `after`
+  changes: AuditChange[];
+}
+
+export const AuditEntries = new Collection<AuditEntry>("auditEntries");
@@ -0,0 +1,22 @@
+import { BaseDocument, Collection } from "../config/db";
+
+// Shop receipts charge the client; payments (and voiding them) credit and
+// debit it back
+export type CashSource = "receipt" | "payment";
+
+// The money side of a client's account, kept like the metal ledger: entries
+// are never edited or deleted, and the cash balance is their sum.
+export interface CashEntry extends BaseDocument {
+  clientId: string;
+  date: string;
+  // Rupees; positive is a debit (the client owes more), negative a credit
+  amount: number;
+  sourceType: CashSource;
+  sourceId: string;
+  // Voucher of the receipt or number of the payment
+  voucherId: string;
+  description: string;
+  createdBy?: string;
+}
+
+export const CashEntries = new Collection<CashEntry>("cashEntries");
@@ -0,0 +1,30 @@
+import { BaseDocument, Collection } from "../config/db";
+import { MetalBalances } from "../../../src/lib/metal-balances";
+
+export interface BalanceHistoryEntry {
+  date: string;
+  amount: number;
+  description?: string;
+}
+
+export interface Client extends BaseDocument {
+  shopName: string;
+  clientName: string;
+  phoneNumber: string;
+  address: string;
+  email?: string;
+  active: boolean;
+  // Total of the client's ledger entries per metal; only utils/ledger.ts
+  // writes it
+  balances: MetalBalances;
+  // Rupees owed, the total of the client's cash entries; only
+  // utils/cashLedger.ts writes it
+  cashBalance?: number;
+  // The single balance of stores from before the ledger existed; only read
+  // when the ledger is first built
+  balance?: number;
+  // Balance snapshots saved before the ledger existed
+  balanceHistory?: BalanceHistoryEntry[];
+}
+
+export const Clients = new Collection<Client>("clients");
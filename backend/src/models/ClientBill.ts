@@ -0,0 +1,45 @@
+import { BaseDocument, Collection } from "../config/db";
+
+// One given item on the bill; weights in grams, stone amount in rupees
+export interface ClientBillLine {
+  itemName: string;
+  grossWt: number;
+  stoneWt: number;
+  netWt: number;
+  meltingTouch: number;
+  finalWt: number;
+  stoneAmt: number;
+}
+
+export interface ClientBillTotals {
+  grossWt: number;
+  stoneWt: number;
+  netWt: number;
+  finalWt: number;
+  stoneAmt: number;
+}
+
+// Generated from a completed shop receipt, the same way Work Bills come
+// from work receipts: the figures are copied and a void bill keeps its number.
+export interface ClientBill extends BaseDocument {
+  billNumber: string;
+  billDate: string;
+  receiptId: string;
+  voucherId: string;
+  clientId: string;
+  clientName: string;
+  shopName: string;
+  phoneNumber?: string;
+  metalType: string;
+  lines: ClientBillLine[];
+  totals: ClientBillTotals;
+  receivedFinalWt: number;
+  // Final weight billed less the metal received
+  balance: number;
+  status: "issued" | "void";
+  voidedAt?: string;
+  voidReason?: string;
+  createdBy?: string;
+}
+
+export const ClientBills = new Collection<ClientBill>("clientBills");
@@ -0,0 +1,24 @@
+import { BaseDocument, Collection } from "../config/db";
+
+// What caused an entry. Receipts post their own entries; the other two are
+// typed in by staff.
+export type LedgerSource = "receipt" | "adminReceipt" | "opening" | "adjustment";
+
+// Entries are never edited or deleted. A changed or removed receipt posts a
+// correcting entry, so the balance is always the sum of the history.
+export interface LedgerEntry extends BaseDocument {
+  clientId: string;
+  date: string;
+  // Grams of metal; positive is a debit (the client owes more), negative a credit
+  amount: number;
+  // Gold, Silver, ...; entries from before balances were kept per metal have
+  // none and count as gold
+  metal?: string;
+  sourceType: LedgerSource;
+  sourceId?: string;
+  voucherId?: string;
+  description: string;
+  createdBy?: string;
+}
+
+export const LedgerEntries = new Collection<LedgerEntry>("ledgerEntries");
@@ -0,0 +1,11 @@
+import { BaseDocument, Collection } from "../config/db";
+import { RateQuote } from "../../../src/lib/metal-rates";
+
+// One rate entered on the daily rate form. Rates are never edited or
+// deleted: a correction is a new entry for the same day, and the newest
+// entry for a metal, purity and day is the one that counts.
+export interface MetalRate extends BaseDocument, RateQuote {
+  createdBy?: string;
+}
+
+export const MetalRates = new Collection<MetalRate>("metalRates");
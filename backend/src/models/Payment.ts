@@ -0,0 +1,33 @@
+import { BaseDocument, Collection } from "../config/db";
+import { PaymentMethod } from "../../../src/lib/payments";
+
+// Part of a payment applied to one of the client's shop receipts
+export interface PaymentAllocation {
+  receiptId: string;
+  voucherId: string;
+  amount: number;
+}
+
+// Money received from a client. Whatever is not applied to a receipt stays
+// on the client's account as a credit. A payment is never edited or
+// deleted; voiding it keeps the number used and debits the amount back.
+export interface Payment extends BaseDocument {
+  paymentNumber: string;
+  clientId: string;
+  clientName: string;
+  date: string;
+  // Rupees
+  amount: number;
+  method: PaymentMethod;
+  // UPI transaction id, cheque or bank reference
+  reference?: string;
+  note?: string;
+  allocations: PaymentAllocation[];
+  status: "recorded" | "void";
+  voidedAt?: string;
+  voidedBy?: string;
+  voidReason?: string;
+  createdBy?: string;
+}
+
+export const Payments = new Collection<Payment>("payments");
@@ -0,0 +1,79 @@
+import { BaseDocument, Collection } from "../config/db";
+import { PaymentStatus } from "../../../src/lib/payments";
+
+export interface GivenItem {
+  itemName: string;
+  tag?: string;
+  grossWt: number;
+  stoneWt: number;
+  meltingTouch: number;
+  netWt: number;
+  finalWt: number;
+  stoneAmt: number;
+  totalInvoiceAmount?: number;
+  date?: string;
+}
+
+export interface ReceivedItem {
+  receivedGold: number;
+  melting: number;
+  finalWt: number;
+  date?: string;
+}
+
+export interface ReceiptTotals {
+  grossWt: number;
+  stoneWt: number;
+  netWt: number;
+  finalWt: number;
+  stoneAmt: number;
+  totalInvoiceAmount: number;
+}
+
+// A finalized receipt cannot be edited or deleted, so the entry it posted to
+// the client's ledger stays as it is, until someone with receipts:reopen
+// reopens it with a reason. User fields hold user ids.
+export interface ReceiptLock {
+  isFinalized?: boolean;
+  finalizedAt?: string;
+  finalizedBy?: string;
+  reopenedAt?: string;
+  reopenedBy?: string;
+  reopenReason?: string;
+}
+
+// Set when a receipt is cancelled. It stays on record under its voucher
+// number, moves nothing on the client's balance and can no longer change.
+export interface ReceiptCancellation {
+  cancelledAt?: string;
+  cancelledBy?: string;
+  cancelReason?: string;
+}
+
+export interface Receipt
+  extends BaseDocument,
+    ReceiptLock,
+    ReceiptCancellation {
+  clientId: string;
+  clientInfo: {
+    clientName: string;
+    shopName: string;
+    phoneNumber: string;
+    address?: string;
+  };
+  metalType: string;
+  issueDate: string;
+  voucherId: string;
+  givenItems: GivenItem[];
+  receivedItems: ReceivedItem[];
+  totals: ReceiptTotals;
+  previousBalance: number;
+  // Worked out from the payments applied to the receipt, never posted by
+  // the form; only utils/cashLedger.ts writes these
+  paymentStatus: PaymentStatus;
+  amountPaid?: number;
+  isCompleted: boolean;
+  status: "incomplete" | "complete" | "cancelled";
+}
+
+export const Receipts = new Collection<Receipt>("receipts");
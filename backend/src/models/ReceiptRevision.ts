@@ -0,0 +1,23 @@
+import { BaseDocument, Collection } from "../config/db";
+import { AdminReceipt } from "./AdminReceipt";
+import { Receipt } from "./Receipt";
+
+export type RevisionReceiptType = "receipt" | "adminReceipt";
+
+// One saved state of a shop or work receipt. Version 1 is the receipt as
+// created and every save that changes it adds the next version.
+export interface ReceiptRevision extends BaseDocument {
+  receiptType: RevisionReceiptType;
+  receiptId: string;
+  version: number;
+  snapshot: Receipt | AdminReceipt;
+  // What this version posts to the client's ledger, in grams
+  balanceEffect: number;
+  userId?: string;
+  userName?: string;
+  reason?: string;
+}
+
+export const ReceiptRevisions = new Collection<ReceiptRevision>(
+  "receiptRevisions"
+);
@@ -0,0 +1,12 @@
+import { BaseDocument, Collection } from "../config/db";
+
+// One row per login. Tokens carry the session id so a logout (or a
+// deactivated user) invalidates them before they expire.
+export interface Session extends BaseDocument {
+  userId: string;
+  expiresAt: string;
+  revokedAt?: string;
+  userAgent?: string;
+}
+
+export const Sessions = new Collection<Session>("sessions");
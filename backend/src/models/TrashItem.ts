@@ -0,0 +1,26 @@
+import { BaseDocument, Collection } from "../config/db";
+import { AdminReceipt } from "./AdminReceipt";
+import { Client } from "./Client";
+import { Receipt } from "./Receipt";
+
+export type TrashEntityType = "client" | "receipt" | "adminReceipt";
+
+// A deleted client or receipt, kept whole so it can be put back as it was
+// until `purgeAt`
+export interface TrashItem extends BaseDocument {
+  entityType: TrashEntityType;
+  entityId: string;
+  // Voucher or client name
+  label: string;
+  // The receipt's client, or the client itself
+  clientId: string;
+  document: Client | Receipt | AdminReceipt;
+  deletedBy?: string;
+  deletedByName?: string;
+  reason?: string;
+  // A receipt that went with its client; restoring the client brings it back
+  withClient?: boolean;
+  purgeAt: string;
+}
+
+export const TrashItems = new Collection<TrashItem>("trash");
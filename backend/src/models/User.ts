@@ -0,0 +1,24 @@
+import { BaseDocument, Collection } from "../config/db";
+import { Permission, Role, permissionsFor } from "../config/roles";
+
+export interface User extends BaseDocument {
+  username: string;
+  name: string;
+  role: Role;
+  passwordHash: string;
+  active: boolean;
+  lastLoginAt?: string;
+}
+
+// What the API sends back for a user: never the password hash, plus the
+// permissions of their role so the UI can hide what they cannot do
+export type PublicUser = Omit<User, "passwordHash"> & {
+  permissions: Permission[];
+};
+
+export const toPublicUser = ({ passwordHash, ...user }: User): PublicUser => ({
+  ...user,
+  permissions: permissionsFor(user.role),
+});
+
+export const Users = new Collection<User>("users");
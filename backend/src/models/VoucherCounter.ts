@@ -0,0 +1,17 @@
+import { BaseDocument, Collection } from "../config/db";
+import { VoucherSeries } from "../config/vouchers";
+
+// Last number issued in one series for one financial year. It only moves
+// inside the transaction that saves the numbered document, so a save that
+// fails hands its number back.
+export interface VoucherCounter extends BaseDocument {
+  series: VoucherSeries;
+  prefix: string;
+  // "2026-27", or "2026" when the financial year is the calendar year
+  financialYear: string;
+  lastNumber: number;
+}
+
+export const VoucherCounters = new Collection<VoucherCounter>(
+  "voucherCounters"
+);
@@ -0,0 +1,43 @@
+import { BaseDocument, Collection } from "../config/db";
+
+// One received ornament on the bill, in grams
+export interface WorkBillLine {
+  productName: string;
+  ornamentsWt: number;
+  stoneWeight: number;
+  netWeight: number;
+  makingChargePercent: number;
+  makingCharge: number;
+  total: number;
+}
+
+export interface WorkBillTotals {
+  ornamentsWt: number;
+  stoneWeight: number;
+  netWeight: number;
+  makingCharge: number;
+  total: number;
+}
+
+// A bill is generated from a completed work receipt and copies its figures,
+// so later edits to the receipt do not change a bill already handed out.
+// Bills are never deleted; voiding keeps the number used.
+export interface WorkBill extends BaseDocument {
+  billNumber: string;
+  billDate: string;
+  receiptId: string;
+  voucherId: string;
+  clientId: string;
+  clientName: string;
+  givenTotal: number;
+  lines: WorkBillLine[];
+  totals: WorkBillTotals;
+  // Given pure metal less the billed total
+  balance: number;
+  status: "issued" | "void";
+  voidedAt?: string;
+  voidReason?: string;
+  createdBy?: string;
+}
+
+export const WorkBills = new Collection<WorkBill>("workBills");
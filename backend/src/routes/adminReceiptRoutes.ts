@@ -0,0 +1,45 @@
+import express from "express";
+import {
+  getAdminReceipts,
+  searchAdminReceipts,
+  getAdminReceiptById,
+  getAdminReceiptRevisions,
+  createAdminReceipt,
+  updateAdminReceipt,
+  saveAdminReceipt,
+  deleteAdminReceipt,
+  cancelAdminReceipt,
+  finalizeAdminReceipt,
+  reopenAdminReceipt,
+  getAdminVoucherId,
+} from "../controllers/adminReceiptController";
+import { authorize, authorizeSave } from "../middleware/authMiddleware";
+
+const router = express.Router();
+
+router
+  .route("/")
+  .get(getAdminReceipts)
+  .post(authorize("receipts:create"), createAdminReceipt);
+router.route("/generate-voucher-id").get(getAdminVoucherId);
+router
+  .route("/save")
+  .post(authorizeSave("receipts:create", "receipts:edit"), saveAdminReceipt);
+router.route("/search").get(searchAdminReceipts);
+router.route("/:id/revisions").get(getAdminReceiptRevisions);
+router
+  .route("/:id/cancel")
+  .post(authorize("receipts:delete"), cancelAdminReceipt);
+router
+  .route("/:id/finalize")
+  .post(authorize("receipts:edit"), finalizeAdminReceipt);
+router
+  .route("/:id/reopen")
+  .post(authorize("receipts:reopen"), reopenAdminReceipt);
+router
+  .route("/:id")
+  .get(getAdminReceiptById)
+  .put(authorize("receipts:edit"), updateAdminReceipt)
+  .delete(authorize("receipts:delete"), deleteAdminReceipt);
+
+export default router;
@@ -0,0 +1,21 @@
+import express from "express";
+import {
+  getDashboardStats,
+  getSalesByDate,
+  getMetalTypeDistribution,
+  getYearlyComparison,
+  getPeriodTrend,
+  getActivity,
+} from "../controllers/analyticsController";
+import { authorize } from "../middleware/authMiddleware";
+
+const router = express.Router();
+
+router.route("/dashboard").get(getDashboardStats);
+router.route("/sales").get(getSalesByDate);
+router.route("/metal-types").get(getMetalTypeDistribution);
+router.route("/yearly-comparison").get(getYearlyComparison);
+router.route("/trend").get(getPeriodTrend);
+router.route("/activity").get(authorize("audit:view"), getActivity);
+
+export default router;
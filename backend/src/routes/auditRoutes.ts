@@ -0,0 +1,8 @@
+import express from "express";
+import { getAuditEntries } from "../controllers/auditController";
+
+const router = express.Router();
+
+router.route("/").get(getAuditEntries);
+
+export default router;
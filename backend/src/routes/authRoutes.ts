@@ -0,0 +1,17 @@
+import express from "express";
+import {
+  login,
+  logout,
+  getMe,
+  changePassword,
+} from "../controllers/authController";
+import { protect } from "../middleware/authMiddleware";
+
+const router = express.Router();
+
+router.post("/login", login);
+router.post("/logout", protect, logout);
+router.get("/me", protect, getMe);
+router.put("/password", protect, changePassword);
+
+export default router;
@@ -0,0 +1,19 @@
+import express from "express";
+import {
+  getClientBills,
+  getClientBillById,
+  createClientBill,
+  voidClientBill,
+} from "../controllers/clientBillController";
+import { authorize } from "../middleware/authMiddleware";
+
+const router = express.Router();
+
+router
+  .route("/")
+  .get(getClientBills)
+  .post(authorize("receipts:create"), createClientBill);
+router.route("/:id").get(getClientBillById);
+router.route("/:id/void").post(authorize("receipts:edit"), voidClientBill);
+
+export default router;
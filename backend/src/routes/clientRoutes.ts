@@ -0,0 +1,37 @@
+import express from "express";
+import {
+  getClients,
+  searchClients,
+  getClientById,
+  createClient,
+  updateClient,
+  deleteClient,
+  getClientDeletionImpact,
+  getClientLedger,
+  getClientCashLedger,
+  getClientStatement,
+  postLedgerAdjustment,
+} from "../controllers/clientController";
+import { authorize } from "../middleware/authMiddleware";
+
+const router = express.Router();
+
+router
+  .route("/")
+  .get(getClients)
+  .post(authorize("clients:create"), createClient);
+router.route("/search").get(searchClients);
+router
+  .route("/:id")
+  .get(getClientById)
+  .put(authorize("clients:edit"), updateClient)
+  .delete(authorize("clients:delete"), deleteClient);
+router.route("/:id/deletion-impact").get(getClientDeletionImpact);
+router
+  .route("/:id/ledger")
+  .get(getClientLedger)
+  .post(authorize("ledger:adjust"), postLedgerAdjustment);
+router.route("/:id/cash-ledger").get(getClientCashLedger);
+router.route("/:id/statement").get(getClientStatement);
+
+export default router;
@@ -0,0 +1,19 @@
+import express from "express";
+import {
+  getPayments,
+  getOutstandingReceipts,
+  recordPayment,
+  voidPayment,
+} from "../controllers/paymentController";
+import { authorize } from "../middleware/authMiddleware";
+
+const router = express.Router();
+
+router
+  .route("/")
+  .get(getPayments)
+  .post(authorize("payments:record"), recordPayment);
+router.route("/outstanding").get(getOutstandingReceipts);
+router.route("/:id/void").post(authorize("payments:void"), voidPayment);
+
+export default router;
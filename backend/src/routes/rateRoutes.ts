@@ -0,0 +1,14 @@
+import express from "express";
+import {
+  getCurrentRates,
+  getRates,
+  setRates,
+} from "../controllers/rateController";
+import { authorize } from "../middleware/authMiddleware";
+
+const router = express.Router();
+
+router.route("/").get(getRates).post(authorize("rates:manage"), setRates);
+router.route("/current").get(getCurrentRates);
+
+export default router;
@@ -0,0 +1,41 @@
+import express from "express";
+import {
+  getReceipts,
+  searchReceipts,
+  getReceiptById,
+  getReceiptRevisions,
+  getReceiptsByClientId,
+  createReceipt,
+  updateReceipt,
+  saveReceipt,
+  deleteReceipt,
+  cancelReceipt,
+  finalizeReceipt,
+  reopenReceipt,
+  getVoucherId,
+} from "../controllers/receiptController";
+import { authorize, authorizeSave } from "../middleware/authMiddleware";
+
+const router = express.Router();
+
+router
+  .route("/")
+  .get(getReceipts)
+  .post(authorize("receipts:create"), createReceipt);
+router.route("/generate-voucher-id").get(getVoucherId);
+router
+  .route("/save")
+  .post(authorizeSave("receipts:create", "receipts:edit"), saveReceipt);
+router.route("/search").get(searchReceipts);
+router.route("/client/:clientId").get(getReceiptsByClientId);
+router.route("/:id/revisions").get(getReceiptRevisions);
+router.route("/:id/cancel").post(authorize("receipts:delete"), cancelReceipt);
+router.route("/:id/finalize").post(authorize("receipts:edit"), finalizeReceipt);
+router.route("/:id/reopen").post(authorize("receipts:reopen"), reopenReceipt);
+router
+  .route("/:id")
+  .get(getReceiptById)
+  .put(authorize("receipts:edit"), updateReceipt)
+  .delete(authorize("receipts:delete"), deleteReceipt);
+
+export default router;
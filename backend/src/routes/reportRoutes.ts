@@ -0,0 +1,8 @@
+import express from "express";
+import { getAgeingReport } from "../controllers/reportController";
+
+const router = express.Router();
+
+router.route("/ageing").get(getAgeingReport);
+
+export default router;
@@ -0,0 +1,9 @@
+import express from "express";
+import { getTrash, restoreTrashItem } from "../controllers/trashController";
+
+const router = express.Router();
+
+router.route("/").get(getTrash);
+router.route("/:id/restore").post(restoreTrashItem);
+
+export default router;
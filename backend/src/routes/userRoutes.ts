@@ -0,0 +1,13 @@
+import express from "express";
+import {
+  getUsers,
+  createUser,
+  updateUser,
+} from "../controllers/userController";
+
+const router = express.Router();
+
+router.route("/").get(getUsers).post(createUser);
+router.route("/:id").put(updateUser);
+
+export default router;
@@ -0,0 +1,19 @@
+import express from "express";
+import {
+  getWorkBills,
+  getWorkBillById,
+  createWorkBill,
+  voidWorkBill,
+} from "../controllers/workBillController";
+import { authorize } from "../middleware/authMiddleware";
+
+const router = express.Router();
+
+router
+  .route("/")
+  .get(getWorkBills)
+  .post(authorize("receipts:create"), createWorkBill);
+router.route("/:id").get(getWorkBillById);
+router.route("/:id/void").post(authorize("receipts:edit"), voidWorkBill);
+
+export default router;
@@ -0,0 +1,75 @@
+import express from "express";
+import dotenv from "dotenv";
+import cors from "cors";
+import morgan from "morgan";
+import { connectDB } from "./config/db";
+import { seedAdminUser, seedCashLedger, seedLedger } from "./config/seed";
+import { notFound, errorHandler } from "./middleware/errorMiddleware";
+import { authorize, protect } from "./middleware/authMiddleware";
+import authRoutes from "./routes/authRoutes";
+import userRoutes from "./routes/userRoutes";
+import clientRoutes from "./routes/clientRoutes";
+import receiptRoutes from "./routes/receiptRoutes";
+import adminReceiptRoutes from "./routes/adminReceiptRoutes";
+import workBillRoutes from "./routes/workBillRoutes";
+import clientBillRoutes from "./routes/clientBillRoutes";
+import analyticsRoutes from "./routes/analyticsRoutes";
+import auditRoutes from "./routes/auditRoutes";
+import trashRoutes from "./routes/trashRoutes";
+import paymentRoutes from "./routes/paymentRoutes";
+import rateRoutes from "./routes/rateRoutes";
+import reportRoutes from "./routes/reportRoutes";
+import { purgeExpiredTrash } from "./utils/trash";
+
+// Load environment variables
+dotenv.config();
+
+// Load the JSON data store
+connectDB();
+seedLedger();
+seedCashLedger();
+purgeExpiredTrash();
+
+const app = express();
+
+// Middleware
+app.use(express.json());
+app.use(cors());
+
+// Logging in development
+if (process.env.NODE_ENV === "development") {
+  app.use(morgan("dev"));
+}
+
+// Routes
+app.use("/api/auth", authRoutes);
+
+// Everything below requires a logged in user
+app.use("/api/users", protect, authorize("users:manage"), userRoutes);
+app.use("/api/clients", protect, clientRoutes);
+app.use("/api/receipts", protect, receiptRoutes);
+app.use("/api/admin-receipts", protect, adminReceiptRoutes);
+app.use("/api/work-bills", protect, workBillRoutes);
+app.use("/api/client-bills", protect, clientBillRoutes);
+app.use("/api/analytics", protect, analyticsRoutes);
+app.use("/api/audit", protect, authorize("audit:view"), auditRoutes);
+app.use("/api/trash", protect, trashRoutes);
+app.use("/api/payments", protect, paymentRoutes);
+app.use("/api/rates", protect, rateRoutes);
+app.use("/api/reports", protect, reportRoutes);
+
+// Error Middleware
+app.use(notFound);
+app.use(errorHandler);
+
+// Start server once the first user exists; like a store that cannot be
+// loaded, failing to create it stops the process
+const PORT = process.env.PORT || 5000;
+seedAdminUser()
+  .then(() =>
+    app.listen(PORT, () => console.log(`Server running on port ${PORT}`))
+  )
+  .catch((error: Error) => {
+    console.error(`Error: ${error.message}`);
+    process.exit(1);
+  });
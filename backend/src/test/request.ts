@@ -0,0 +1,35 @@
+import { Request, RequestHandler, Response } from "express";
+
+export interface HandlerResult<T = unknown> {
+  status: number;
+  body?: T;
+  error?: Error;
+}
+
+// Runs a controller the way Express would, without a server: the data store
+// stays in memory because tests never call connectDB
+export const callHandler = async <T = unknown>(
+  handler: RequestHandler,
+  req: Partial<Request> = {}
+): Promise<HandlerResult<T>> => {
+  const result: HandlerResult<T> = { status: 200 };
+  const res = {
+    status(code: number) {
+      result.status = code;
+      return res;
+    },
+    json(body: T) {
+      result.body = body;
+      return res;
+    },
+  };
+
+  await handler(
+    { body: {}, params: {}, query: {}, ...req } as Request,
+    res as unknown as Response,
+    (error?: unknown) => {
+      result.error = error as Error;
+    }
+  );
+  return result;
+};
@@ -0,0 +1,9 @@
+import { PublicUser } from "../models/User";
+
+declare module "express-serve-static-core" {
+  interface Request {
+    // Set by the `protect` middleware
+    user?: PublicUser;
+    sessionId?: string;
+  }
+}
@@ -0,0 +1,96 @@
+import { AuditEntry } from "../models/AuditEntry";
+import { Clients } from "../models/Client";
+import { ActivityItem, ActivityType } from "../../../src/lib/analytics";
+
+const RECEIPT_NAMES = {
+  receipt: "Shop receipt",
+  adminReceipt: "Work receipt",
+} as const;
+
+const typeOf = (entry: AuditEntry): ActivityType | null => {
+  switch (entry.entityType) {
+    case "receipt":
+    case "adminReceipt":
+      if (entry.action === "create") return "receipt-created";
+      if (entry.action !== "update") return null;
+      if (
+        entry.after?.status === "cancelled" &&
+        entry.before?.status !== "cancelled"
+      ) {
+        return "receipt-cancelled";
+      }
+      // Finalizing and reopening only lock and unlock the receipt
+      if (!!entry.after?.isFinalized !== !!entry.before?.isFinalized) {
+        return entry.after?.isFinalized
+          ? "receipt-finalized"
+          : "receipt-reopened";
+      }
+      return "receipt-edited";
+    case "payment":
+      return entry.action === "create" || entry.action === "update"
+        ? "payment"
+        : null;
+    case "client":
+      return entry.action === "create" ? "client-created" : null;
+    default:
+      return null;
+  }
+};
+
+const summaryOf = (entry: AuditEntry, type: ActivityType) => {
+  switch (type) {
+    case "receipt-created":
+    case "receipt-edited":
+    case "receipt-cancelled":
+    case "receipt-finalized":
+    case "receipt-reopened": {
+      const name =
+        RECEIPT_NAMES[entry.entityType as keyof typeof RECEIPT_NAMES];
+      return `${name} ${type.replace("receipt-", "")}`;
+    }
+    case "payment":
+      return entry.action === "create" ? "Payment recorded" : "Payment voided";
+    default:
+      return "Client added";
+  }
+};
+
+// The client an entry is about. Receipts and payments carry it; the name is
+// looked up for payments, and kept from the entry if the client is gone.
+const clientOf = (entry: AuditEntry) => {
+  const document = (entry.after || entry.before || {}) as Record<
+    string,
+    unknown
+  >;
+  if (entry.entityType === "client") {
+    return { clientId: entry.entityId, clientName: entry.label };
+  }
+  const clientId = document.clientId as string | undefined;
+  const clientInfo = document.clientInfo as { clientName?: string } | undefined;
+  const clientName =
+    clientInfo?.clientName ||
+    (document.clientName as string | undefined) ||
+    (clientId ? Clients.findById(clientId)?.clientName : undefined);
+  return { clientId, clientName };
+};
+
+// The feed item for an audit entry, or null for changes the dashboard does
+// not show (balances, rates, deletes and the like)
+export const activityOf = (entry: AuditEntry): ActivityItem | null => {
+  const type = typeOf(entry);
+  if (!type) return null;
+
+  return {
+    _id: entry._id,
+    type,
+    entityType: entry.entityType as ActivityItem["entityType"],
+    entityId: entry.entityId,
+    label: entry.label,
+    summary: summaryOf(entry, type),
+    ...clientOf(entry),
+    userId: entry.userId,
+    userName: entry.userName,
+    reason: entry.reason,
+    createdAt: entry.createdAt,
+  };
+};
@@ -0,0 +1,168 @@
+import { Client, Clients } from "../models/Client";
+import { Receipts } from "../models/Receipt";
+import { AdminReceipts } from "../models/AdminReceipt";
+import { LedgerEntries, LedgerEntry, LedgerSource } from "../models/LedgerEntry";
+import { dayOf } from "./days";
+import { receiptDate } from "./ledger";
+import { sumGrams } from "./numbers";
+import {
+  AGEING_BUCKETS,
+  AgeingBucket,
+  ageingBucketFor,
+  daysBetween,
+} from "../../../src/lib/ageing";
+import { metalOf } from "../../../src/lib/metal-balances";
+import { fromMg, toMg } from "../../../src/lib/receipt-calculations";
+
+// Part of one receipt (or opening balance, or adjustment) still owed
+export interface AgeingItem {
+  sourceType: LedgerSource;
+  sourceId?: string;
+  voucherId?: string;
+  description: string;
+  // yyyy-MM-dd of the receipt
+  date: string;
+  // Grams still owed on it
+  amount: number;
+  ageDays: number;
+  bucket: AgeingBucket;
+}
+
+// What one client owes in one metal, split by age
+export interface AgeingRow {
+  clientId: string;
+  clientName: string;
+  shopName: string;
+  metal: string;
+  balance: number;
+  buckets: Record<AgeingBucket, number>;
+  oldestDate: string;
+  ageDays: number;
+  items: AgeingItem[];
+}
+
+interface Debit {
+  entry: LedgerEntry;
+  date: string;
+  mg: number;
+}
+
+// The day each receipt was made out, by id, for dating its ledger entries
+const receiptDays = () => {
+  const days = new Map<string, string>();
+  [...Receipts.find(), ...AdminReceipts.find()].forEach((receipt) =>
+    days.set(receipt._id, dayOf(receiptDate(receipt)))
+  );
+  return days;
+};
+
+// Nets each receipt's entries (the post, its revisions and reversals) into
+// one amount, dated by the receipt; openings and adjustments stand alone
+const netBySource = (entries: LedgerEntry[], days: Map<string, string>) => {
+  const sources = new Map<string, Debit>();
+  entries.forEach((entry) => {
+    const key = entry.sourceId
+      ? `${entry.sourceType}:${entry.sourceId}`
+      : entry._id;
+    const source = sources.get(key);
+    if (source) {
+      source.mg += toMg(entry.amount);
+      return;
+    }
+    sources.set(key, {
+      entry,
+      date: (entry.sourceId && days.get(entry.sourceId)) || dayOf(entry.date),
+      mg: toMg(entry.amount),
+    });
+  });
+  return [...sources.values()].sort(
+    (a, b) =>
+      a.date.localeCompare(b.date) ||
+      a.entry.createdAt.localeCompare(b.entry.createdAt)
+  );
+};
+
+const ageingRow = (
+  client: Client,
+  metal: string,
+  entries: LedgerEntry[],
+  days: Map<string, string>,
+  asOf: string
+): AgeingRow | undefined => {
+  const sources = netBySource(entries, days);
+  // Credits settle the oldest debits first
+  let creditMg = sources
+    .filter((source) => source.mg < 0)
+    .reduce((sum, source) => sum - source.mg, 0);
+
+  const items: AgeingItem[] = [];
+  sources
+    .filter((source) => source.mg > 0)
+    .forEach((source) => {
+      const settled = Math.min(creditMg, source.mg);
+      creditMg -= settled;
+      if (source.mg === settled) return;
+
+      const ageDays = daysBetween(source.date, asOf);
+      items.push({
+        sourceType: source.entry.sourceType,
+        sourceId: source.entry.sourceId,
+        voucherId: source.entry.voucherId,
+        description: source.entry.sourceId
+          ? `Receipt ${source.entry.voucherId || ""}`.trim()
+          : source.entry.description,
+        date: source.date,
+        amount: fromMg(source.mg - settled),
+        ageDays,
+        bucket: ageingBucketFor(ageDays),
+      });
+    });
+  if (items.length === 0) return undefined;
+
+  const buckets = Object.fromEntries(
+    AGEING_BUCKETS.map(({ key }) => [
+      key,
+      sumGrams(
+        items.filter((item) => item.bucket === key),
+        (item) => item.amount
+      ),
+    ])
+  ) as Record<AgeingBucket, number>;
+
+  return {
+    clientId: client._id,
+    clientName: client.clientName,
+    shopName: client.shopName,
+    metal,
+    balance: sumGrams(items, (item) => item.amount),
+    buckets,
+    oldestDate: items[0].date,
+    ageDays: items[0].ageDays,
+    items,
+  };
+};
+
+// One row per client and metal the client owes, as of `asOf` (yyyy-MM-dd);
+// entries after that day are left out. Clients the shop owes, or who are
+// settled, have no row.
+export const ageingReport = (asOf: string, metal?: string): AgeingRow[] => {
+  const days = receiptDays();
+  const byClient = new Map<string, Record<string, LedgerEntry[]>>();
+  LedgerEntries.find((entry) => dayOf(entry.date) <= asOf)
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+    .forEach((entry) => {
+      const entryMetal = metalOf(entry.metal);
+      if (metal && entryMetal !== metalOf(metal)) return;
+      const metals = byClient.get(entry.clientId) || {};
+      (metals[entryMetal] ||= []).push(entry);
+      byClient.set(entry.clientId, metals);
+    });
+
+  return Clients.find().flatMap((client) =>
+    Object.entries(byClient.get(client._id) || {})
+      .map(([entryMetal, entries]) =>
+        ageingRow(client, entryMetal, entries, days, asOf)
+      )
+      .filter((row): row is AgeingRow => row !== undefined)
+  );
+};
@@ -0,0 +1,63 @@
+import { Request } from "express";
+import {
+  AuditAction,
+  AuditChange,
+  AuditEntityType,
+  AuditEntries,
+  AuditEntry,
+} from "../models/AuditEntry";
+import { Users } from "../models/User";
+
+// Who made a change and, if they gave one, why
+export interface AuditActor {
+  userId?: string;
+  reason?: string;
+}
+
+// The reason travels in the body, or in the query string for DELETE
+export const actorOf = (req: Request): AuditActor => {
+  const reason = String(req.body?.reason ?? req.query.reason ?? "").trim();
+  return { userId: req.user?._id, reason: reason || undefined };
+};
+
+const UNTRACKED_FIELDS = ["_id", "createdAt", "updatedAt"];
+
+const changesBetween = (before?: object, after?: object): AuditChange[] => {
+  const from = (before || {}) as Record<string, unknown>;
+  const to = (after || {}) as Record<string, unknown>;
+  const fields = new Set([...Object.keys(from), ...Object.keys(to)]);
+
+  return [...fields]
+    .filter((field) => !UNTRACKED_FIELDS.includes(field))
+    .filter(
+      (field) => JSON.stringify(from[field]) !== JSON.stringify(to[field])
+    )
+    .map((field) => ({ field, before: from[field], after: to[field] }));
+};
+
+// Call from the transaction that makes the change, so the log and the data
+// never disagree. An update that changed nothing is not logged.
+export const recordAudit = (
+  entry: {
+    entityType: AuditEntityType;
+    entityId: string;
+    label: string;
+    action: AuditAction;
+    before?: object;
+    after?: object;
+  },
+  actor: AuditActor = {}
+): AuditEntry | null => {
+  const changes = changesBetween(entry.before, entry.after);
+  if (entry.action === "update" && changes.length === 0) return null;
+
+  return AuditEntries.create({
+    ...entry,
+    before: entry.before as AuditEntry["before"],
+    after: entry.after as AuditEntry["after"],
+    userId: actor.userId,
+    userName: actor.userId ? Users.findById(actor.userId)?.name : undefined,
+    reason: actor.reason,
+    changes,
+  });
+};
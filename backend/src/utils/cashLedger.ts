@@ -0,0 +1,131 @@
+import { Clients } from "../models/Client";
+import { Receipt, Receipts } from "../models/Receipt";
+import { CashEntries, CashEntry } from "../models/CashEntry";
+import { Payments } from "../models/Payment";
+import { NewDocument, transaction } from "../config/db";
+import { recordAudit } from "./audit";
+import {
+  paymentStatusFor,
+  receiptAmountDue,
+  sumRupees,
+  toRupees,
+} from "../../../src/lib/payments";
+
+type NewCashEntry = Omit<NewDocument<CashEntry>, "date"> & { date?: string };
+
+// What a shop receipt charges the client. A cancelled receipt charges
+// nothing.
+export const shopReceiptCharge = (
+  receipt: Pick<Receipt, "totals" | "status">
+): number =>
+  receipt.status === "cancelled" ? 0 : receiptAmountDue(receipt.totals);
+
+// Summed in whole paise, so it always equals the entries to the paisa
+export const clientCashBalance = (clientId: string): number =>
+  sumRupees(
+    CashEntries.find((entry) => entry.clientId === clientId),
+    (entry) => entry.amount
+  );
+
+export const clientCashLedger = (clientId: string): CashEntry[] =>
+  CashEntries.find((entry) => entry.clientId === clientId).sort(
+    (a, b) =>
+      a.date.localeCompare(b.date) || a.createdAt.localeCompare(b.createdAt)
+  );
+
+// `client.cashBalance` is a cache for list pages; only this module writes
+// it. Like the metal balances, every change is written to the audit log.
+export const postCashEntry = (entry: NewCashEntry): CashEntry =>
+  transaction(() => {
+    const created = CashEntries.create({
+      ...entry,
+      date: entry.date || new Date().toISOString(),
+      amount: toRupees(entry.amount),
+    });
+    const client = Clients.findById(entry.clientId);
+    const cashBalance = clientCashBalance(entry.clientId);
+    Clients.updateById(entry.clientId, { cashBalance });
+    recordAudit(
+      {
+        entityType: "balance",
+        entityId: entry.clientId,
+        label: client?.clientName || entry.clientId,
+        action: "update",
+        before: { cashBalance: client?.cashBalance ?? 0 },
+        after: { cashBalance },
+      },
+      { userId: entry.createdBy, reason: entry.description }
+    );
+    return created;
+  });
+
+// Posts whatever brings a receipt's cash entries to its current charge, the
+// same way syncReceiptEntries does for metal: the full amount the first
+// time, the difference after an edit and a reversal once it is cancelled or
+// deleted (charge 0).
+export const syncReceiptCharge = (
+  source: {
+    id: string;
+    voucherId: string;
+    clientId: string;
+    status?: string;
+    note?: string;
+    date?: string;
+  },
+  charge: number,
+  createdBy?: string
+): CashEntry | undefined => {
+  const posted = CashEntries.find(
+    (entry) => entry.sourceType === "receipt" && entry.sourceId === source.id
+  );
+  const amount = toRupees(charge - sumRupees(posted, (entry) => entry.amount));
+  if (amount === 0) return undefined;
+
+  const label = `Receipt ${source.voucherId}`;
+  let description = label;
+  if (posted.length > 0) {
+    if (source.note) description = `${label} ${source.note}`;
+    else if (charge !== 0) description = `${label} revised`;
+    else if (source.status === "cancelled") description = `${label} cancelled`;
+    else description = `${label} removed`;
+  }
+
+  return postCashEntry({
+    clientId: source.clientId,
+    date: source.date,
+    amount,
+    sourceType: "receipt",
+    sourceId: source.id,
+    voucherId: source.voucherId,
+    description,
+    createdBy,
+  });
+};
+
+// Rupees applied to a receipt by payments that are still recorded
+export const receiptAmountPaid = (receiptId: string): number =>
+  sumRupees(
+    Payments.find((payment) => payment.status === "recorded").flatMap(
+      (payment) =>
+        payment.allocations.filter(
+          (allocation) => allocation.receiptId === receiptId
+        )
+    ),
+    (allocation) => allocation.amount
+  );
+
+// Works out a receipt's amount paid and payment status again, after a
+// payment against it is recorded or voided
+export const refreshPaymentStatus = (receiptId: string) => {
+  const receipt = Receipts.findById(receiptId);
+  if (!receipt) return undefined;
+
+  const amountPaid = receiptAmountPaid(receiptId);
+  return Receipts.updateById(receiptId, {
+    amountPaid,
+    paymentStatus: paymentStatusFor(
+      receiptAmountDue(receipt.totals),
+      amountPaid
+    ),
+  });
+};
@@ -0,0 +1,22 @@
+// Days as yyyy-MM-dd strings, which compare and sort as text
+export const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+// yyyy-MM-dd of a date or timestamp, today when not given. Timestamps are
+// read in the shop's (the server's) time zone, so a rate entered or a
+// receipt written in the morning belongs to that day.
+export const dayOf = (date?: string) => {
+  if (date && DAY_PATTERN.test(date)) return date;
+  const day = date ? new Date(date) : new Date();
+  return `${day.getFullYear()}-${pad(day.getMonth() + 1)}-${pad(
+    day.getDate()
+  )}`;
+};
+
+// A date or timestamp from a request that reads as a real date
+export const isValidDate = (value: unknown) =>
+  typeof value === "string" && !Number.isNaN(new Date(value).getTime());
+
+export const isValidDay = (value: string) =>
+  DAY_PATTERN.test(value) && !Number.isNaN(new Date(value).getTime());
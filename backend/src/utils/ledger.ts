@@ -0,0 +1,153 @@
+import { Clients } from "../models/Client";
+import { Receipt } from "../models/Receipt";
+import { AdminReceipt } from "../models/AdminReceipt";
+import { LedgerEntries, LedgerEntry, LedgerSource } from "../models/LedgerEntry";
+import { NewDocument, transaction } from "../config/db";
+import { toGrams } from "./numbers";
+import { recordAudit } from "./audit";
+import {
+  shopReceiptBalance,
+  workReceiptBalance,
+} from "../../../src/lib/receipt-calculations";
+import {
+  MetalBalances,
+  metalOf,
+  sumByMetal,
+} from "../../../src/lib/metal-balances";
+
+type NewLedgerEntry = Omit<NewDocument<LedgerEntry>, "date"> & {
+  date?: string;
+};
+
+// What a receipt moves, worked out by the same formulas the forms show. A
+// cancelled receipt moves nothing.
+export const shopReceiptEffect = (
+  receipt: Pick<Receipt, "givenItems" | "receivedItems" | "status">
+): number =>
+  receipt.status === "cancelled"
+    ? 0
+    : shopReceiptBalance(receipt.givenItems, receipt.receivedItems);
+
+export const workReceiptEffect = (
+  receipt: Pick<
+    AdminReceipt,
+    "given" | "received" | "manualCalculations" | "status"
+  >
+): number =>
+  receipt.status === "cancelled" ? 0 : workReceiptBalance(receipt);
+
+// The date a receipt's entries carry, so statements list them on the day of
+// the receipt rather than the day it was saved: a shop receipt's issue date,
+// the date a work receipt's metal was given
+export const receiptDate = (receipt: Receipt | AdminReceipt): string =>
+  ("givenItems" in receipt ? receipt.issueDate : receipt.given?.date) ||
+  receipt.createdAt;
+
+// Summed per metal in whole milligrams, so each always equals its entries to
+// the gram
+export const clientBalances = (clientId: string): MetalBalances =>
+  sumByMetal(
+    LedgerEntries.find((entry) => entry.clientId === clientId),
+    (entry) => entry.metal,
+    (entry) => entry.amount
+  );
+
+export const clientLedger = (clientId: string): LedgerEntry[] =>
+  LedgerEntries.find((entry) => entry.clientId === clientId).sort(
+    (a, b) =>
+      a.date.localeCompare(b.date) || a.createdAt.localeCompare(b.createdAt)
+  );
+
+// `client.balances` is a cache of the ledger totals for list pages; only
+// this module writes it. Every change to it is also written to the audit
+// log, with the entry's description as the reason.
+export const postEntry = (entry: NewLedgerEntry): LedgerEntry =>
+  transaction(() => {
+    const created = LedgerEntries.create({
+      ...entry,
+      date: entry.date || new Date().toISOString(),
+      amount: toGrams(entry.amount),
+      metal: metalOf(entry.metal),
+    });
+    const client = Clients.findById(entry.clientId);
+    const balances = clientBalances(entry.clientId);
+    Clients.updateById(entry.clientId, { balances });
+    recordAudit(
+      {
+        entityType: "balance",
+        entityId: entry.clientId,
+        label: client?.clientName || entry.clientId,
+        action: "update",
+        before: { balances: client?.balances ?? {} },
+        after: { balances },
+      },
+      { userId: entry.createdBy, reason: entry.description }
+    );
+    return created;
+  });
+
+const SOURCE_LABELS: Partial<Record<LedgerSource, string>> = {
+  receipt: "Receipt",
+  adminReceipt: "Work receipt",
+};
+
+// Posts whatever is needed for a receipt's entries to add up to its current
+// effect on its metal: the full amount the first time, the difference after
+// an edit and a reversal once it is cancelled or deleted (effect 0). A
+// receipt whose metal type changed is reversed on the old metal. Saving the
+// same receipt twice posts nothing the second time. `note` replaces the
+// usual wording after the voucher, e.g. "restored".
+export const syncReceiptEntries = (
+  source: {
+    type: "receipt" | "adminReceipt";
+    id: string;
+    voucherId: string;
+    clientId: string;
+    metal?: string;
+    status?: string;
+    note?: string;
+    date?: string;
+  },
+  effect: number,
+  createdBy?: string
+): LedgerEntry[] => {
+  const posted = LedgerEntries.find(
+    (entry) => entry.sourceType === source.type && entry.sourceId === source.id
+  );
+  const postedByMetal = sumByMetal(
+    posted,
+    (entry) => entry.metal,
+    (entry) => entry.amount
+  );
+  const metal = metalOf(source.metal);
+  const metals = Array.from(new Set([...Object.keys(postedByMetal), metal]));
+
+  const label = `${SOURCE_LABELS[source.type]} ${source.voucherId}`;
+  let description = label;
+  if (posted.length > 0) {
+    if (source.note) description = `${label} ${source.note}`;
+    else if (effect !== 0) description = `${label} revised`;
+    else if (source.status === "cancelled") description = `${label} cancelled`;
+    else description = `${label} removed`;
+  }
+
+  return metals.flatMap((entryMetal) => {
+    const target = entryMetal === metal ? effect : 0;
+    const amount = toGrams(target - (postedByMetal[entryMetal] ?? 0));
+    if (amount === 0) return [];
+
+    return [
+      postEntry({
+        clientId: source.clientId,
+        date: source.date,
+        amount,
+        metal: entryMetal,
+        sourceType: source.type,
+        sourceId: source.id,
+        voucherId: source.voucherId,
+        description,
+        createdBy,
+      }),
+    ];
+  });
+};
@@ -0,0 +1,15 @@
+// Form inputs arrive as strings ("", "12.5"); treat anything unparsable as 0
+export const toNumber = (value: unknown): number => {
+  const num = typeof value === "number" ? value : parseFloat(String(value));
+  return Number.isFinite(num) ? num : 0;
+};
+
+// For amounts that are not weights; weights go through `toGrams`/`sumGrams`,
+// which add up in whole milligrams
+export const round = (value: number, decimals = 3): number =>
+  parseFloat(value.toFixed(decimals));
+
+export const sumBy = <T>(items: T[], pick: (item: T) => unknown): number =>
+  items.reduce((sum, item) => sum + toNumber(pick(item)), 0);
+
+export { sumGrams, toGrams } from "../../../src/lib/receipt-calculations";
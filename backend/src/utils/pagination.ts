@@ -0,0 +1,24 @@
+// Slices a list for `?page=&limit=`. Out-of-range pages land on the nearest
+// real one so a deleted last row never leaves the UI on an empty page.
+export const paginate = <T>(
+  items: T[],
+  query: { page?: unknown; limit?: unknown },
+  defaultLimit = 10
+) => {
+  const limit = Math.min(
+    Math.max(parseInt(String(query.limit), 10) || defaultLimit, 1),
+    100
+  );
+  const pages = Math.max(Math.ceil(items.length / limit), 1);
+  const page = Math.min(
+    Math.max(parseInt(String(query.page), 10) || 1, 1),
+    pages
+  );
+
+  return {
+    count: items.length,
+    page,
+    pages,
+    data: items.slice((page - 1) * limit, page * limit),
+  };
+};
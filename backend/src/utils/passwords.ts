@@ -0,0 +1,8 @@
+import bcrypt from "bcryptjs";
+
+export const MIN_PASSWORD_LENGTH = 8;
+
+export const hashPassword = (password: string) => bcrypt.hash(password, 10);
+
+export const checkPassword = (password: string, hash: string) =>
+  bcrypt.compare(password, hash);
@@ -0,0 +1,133 @@
+import { financialYearStartMonth } from "../config/vouchers";
+import { dayOf } from "./days";
+import {
+  DashboardPeriod,
+  DateRange,
+  PeriodRange,
+} from "../../../src/lib/analytics";
+
+// Reporting periods for the dashboard. Periods run up to today, and each is
+// compared with the same stretch of the period before it: this month so far
+// with last month up to the same day, this financial year so far with the
+// last one up to the same date, a custom range with the days just before it.
+export const PERIODS: DashboardPeriod[] = [
+  "this-month",
+  "last-month",
+  "quarter",
+  "financial-year",
+  "custom",
+];
+
+// Ranges longer than this are charted per month rather than per day
+const DAILY_LIMIT = 62;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const parts = (day: string) => day.split("-").map(Number);
+
+// Works in UTC so that adding days never trips over a clock change
+const toDay = (year: number, month: number, date: number) =>
+  new Date(Date.UTC(year, month - 1, date)).toISOString().slice(0, 10);
+
+const daysInMonth = (year: number, month: number) =>
+  new Date(Date.UTC(year, month, 0)).getUTCDate();
+
+export const addDays = (day: string, days: number) => {
+  const [year, month, date] = parts(day);
+  return toDay(year, month, date + days);
+};
+
+// The same date `months` months away, or that month's last day when it is
+// shorter
+export const addMonths = (day: string, months: number) => {
+  const [year, month, date] = parts(day);
+  const target = new Date(Date.UTC(year, month - 1 + months, 1));
+  const targetYear = target.getUTCFullYear();
+  const targetMonth = target.getUTCMonth() + 1;
+  return toDay(
+    targetYear,
+    targetMonth,
+    Math.min(date, daysInMonth(targetYear, targetMonth))
+  );
+};
+
+const isMonthEnd = (day: string) => {
+  const [year, month, date] = parts(day);
+  return date === daysInMonth(year, month);
+};
+
+// Days in a range, both ends counted
+export const spanDays = (range: DateRange) =>
+  Math.round(
+    (new Date(`${range.to}T00:00:00Z`).getTime() -
+      new Date(`${range.from}T00:00:00Z`).getTime()) /
+      DAY_MS
+  ) + 1;
+
+// Calendar months from the month of one day to the month of another
+export const monthsBetween = (from: string, to: string) => {
+  const [fromYear, fromMonth] = parts(from);
+  const [toYear, toMonth] = parts(to);
+  return (toYear - fromYear) * 12 + toMonth - fromMonth;
+};
+
+// A range made of whole months, moved back that many months. A range ending
+// on a month's last day ends on the last day of the earlier month too.
+const monthsBefore = (range: DateRange, months: number): DateRange => ({
+  from: addMonths(range.from, -months),
+  to: isMonthEnd(range.to)
+    ? addDays(addMonths(addDays(range.to, 1), -months), -1)
+    : addMonths(range.to, -months),
+});
+
+const daysBefore = (range: DateRange): DateRange => ({
+  from: addDays(range.from, -spanDays(range)),
+  to: addDays(range.from, -1),
+});
+
+// The dates a period covers and the stretch it is compared with. `custom`
+// must be given for a custom period and be in order.
+export const resolvePeriod = (
+  period: DashboardPeriod,
+  custom?: DateRange,
+  today: string = dayOf()
+): PeriodRange => {
+  const monthStart = `${today.slice(0, 7)}-01`;
+  // Months since the financial year (and its current quarter) began
+  const intoYear = (parts(today)[1] - financialYearStartMonth() + 12) % 12;
+
+  const monthly = (range: DateRange, months: number): PeriodRange => ({
+    ...range,
+    previous: monthsBefore(range, months),
+  });
+
+  switch (period) {
+    case "last-month":
+      return monthly(
+        { from: addMonths(monthStart, -1), to: addDays(monthStart, -1) },
+        1
+      );
+    case "quarter":
+      return monthly(
+        { from: addMonths(monthStart, -(intoYear % 3)), to: today },
+        3
+      );
+    case "financial-year":
+      return monthly({ from: addMonths(monthStart, -intoYear), to: today }, 12);
+    case "custom": {
+      const range = custom || { from: today, to: today };
+      return { ...range, previous: daysBefore(range) };
+    }
+    default:
+      return monthly({ from: monthStart, to: today }, 1);
+  }
+};
+
+export const isInRange = (date: string | undefined, range: DateRange) => {
+  if (!date) return false;
+  const day = dayOf(date);
+  return day >= range.from && day <= range.to;
+};
+
+export const rangeUnit = (range: DateRange): "day" | "month" =>
+  spanDays(range) > DAILY_LIMIT ? "month" : "day";
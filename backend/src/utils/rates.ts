@@ -0,0 +1,20 @@
+import { MetalRate, MetalRates } from "../models/MetalRate";
+import { dayOf } from "./days";
+import { rateKey } from "../../../src/lib/metal-rates";
+
+// The rate in effect for each metal and purity on a day: the newest entry
+// dated on or before it. Metals and purities never priced by then are
+// missing.
+export const ratesInEffect = (date?: string): MetalRate[] => {
+  const day = dayOf(date);
+  const latest = new Map<string, MetalRate>();
+  MetalRates.find((rate) => rate.date <= day)
+    .sort(
+      (a, b) =>
+        a.date.localeCompare(b.date) || a.createdAt.localeCompare(b.createdAt)
+    )
+    .forEach((rate) => latest.set(rateKey(rate), rate));
+  return [...latest.values()].sort(
+    (a, b) => a.metal.localeCompare(b.metal) || b.purity - a.purity
+  );
+};
@@ -0,0 +1,24 @@
+import { ReceiptCancellation, ReceiptLock } from "../models/Receipt";
+import { AuditActor } from "./audit";
+
+// Fields for `updateById` that lock a receipt against edits
+export const finalizedFields = (actor: AuditActor): ReceiptLock => ({
+  isFinalized: true,
+  finalizedAt: new Date().toISOString(),
+  finalizedBy: actor.userId,
+});
+
+// The reason stays on the receipt until it is reopened again
+export const reopenedFields = (actor: AuditActor): ReceiptLock => ({
+  isFinalized: false,
+  reopenedAt: new Date().toISOString(),
+  reopenedBy: actor.userId,
+  reopenReason: actor.reason,
+});
+
+// Stamped on a receipt when it is cancelled, next to status "cancelled"
+export const cancelledFields = (actor: AuditActor): ReceiptCancellation => ({
+  cancelledAt: new Date().toISOString(),
+  cancelledBy: actor.userId,
+  cancelReason: actor.reason,
+});
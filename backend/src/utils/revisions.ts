@@ -0,0 +1,61 @@
+import { AdminReceipt } from "../models/AdminReceipt";
+import { Receipt } from "../models/Receipt";
+import {
+  ReceiptRevision,
+  ReceiptRevisions,
+  RevisionReceiptType,
+} from "../models/ReceiptRevision";
+import { Users } from "../models/User";
+import { AuditActor } from "./audit";
+
+type RevisedReceipt = Receipt | AdminReceipt;
+
+// Oldest first
+export const receiptRevisions = (
+  receiptType: RevisionReceiptType,
+  receiptId: string
+): ReceiptRevision[] =>
+  ReceiptRevisions.find(
+    (revision) =>
+      revision.receiptType === receiptType && revision.receiptId === receiptId
+  ).sort((a, b) => a.version - b.version);
+
+const content = (receipt: RevisedReceipt) =>
+  JSON.stringify({ ...receipt, updatedAt: undefined });
+
+// Call from the transaction that saves the receipt, with the state it was
+// saved from when it is an edit. A receipt created before revisions were
+// kept gets that state as version 1 on its first edit; a save that changed
+// nothing adds no version.
+export const recordRevision = (
+  receiptType: RevisionReceiptType,
+  receipt: RevisedReceipt,
+  balanceEffect: number,
+  actor: AuditActor = {},
+  previous?: { receipt: RevisedReceipt; balanceEffect: number }
+): ReceiptRevision => {
+  const revisions = receiptRevisions(receiptType, receipt._id);
+  let latest: ReceiptRevision | undefined = revisions[revisions.length - 1];
+
+  if (!latest && previous) {
+    latest = ReceiptRevisions.create({
+      receiptType,
+      receiptId: receipt._id,
+      version: 1,
+      snapshot: previous.receipt,
+      balanceEffect: previous.balanceEffect,
+    });
+  }
+  if (latest && content(latest.snapshot) === content(receipt)) return latest;
+
+  return ReceiptRevisions.create({
+    receiptType,
+    receiptId: receipt._id,
+    version: (latest?.version || 0) + 1,
+    snapshot: receipt,
+    balanceEffect,
+    userId: actor.userId,
+    userName: actor.userId ? Users.findById(actor.userId)?.name : undefined,
+    reason: actor.reason,
+  });
+};
@@ -0,0 +1,131 @@
+import { clientLedger } from "./ledger";
+import { clientCashLedger } from "./cashLedger";
+import { dayOf } from "./days";
+import { metalOf, METALS } from "../../../src/lib/metal-balances";
+import { fromMg, toMg } from "../../../src/lib/receipt-calculations";
+import { fromPaise, toPaise } from "../../../src/lib/payments";
+
+// Cash is kept apart from the metals and gets its own section, last
+export const CASH_SECTION = "Cash";
+
+export interface StatementLine {
+  date: string;
+  voucherId?: string;
+  description: string;
+  sourceType: string;
+  // What the entry added to (debit) or took off (credit) the balance
+  debit: number;
+  credit: number;
+  balance: number;
+}
+
+// One metal's (or the cash) account over the statement's dates
+export interface StatementSection {
+  metal: string;
+  unit: "g" | "₹";
+  opening: number;
+  lines: StatementLine[];
+  totalDebit: number;
+  totalCredit: number;
+  closing: number;
+}
+
+interface JournalEntry {
+  date: string;
+  amount: number;
+  voucherId?: string;
+  description: string;
+  sourceType: string;
+}
+
+// Works in whole units (milligrams or paise) so the closing balance always
+// equals the ledger it is built from. Entries before `from` make up the
+// opening balance; entries after `to` are left out. Undefined when the
+// account has nothing to show for the dates.
+const statementSection = (
+  metal: string,
+  unit: StatementSection["unit"],
+  entries: JournalEntry[],
+  from: string,
+  to: string,
+  toUnits: (value: number) => number,
+  fromUnits: (units: number) => number
+): StatementSection | undefined => {
+  let running = 0;
+  let opening = 0;
+  let debit = 0;
+  let credit = 0;
+  const lines: StatementLine[] = [];
+
+  entries
+    .filter((entry) => dayOf(entry.date) <= to)
+    .forEach((entry) => {
+      const units = toUnits(entry.amount);
+      running += units;
+      if (dayOf(entry.date) < from) {
+        opening = running;
+        return;
+      }
+      if (units > 0) debit += units;
+      else credit -= units;
+      lines.push({
+        date: entry.date,
+        voucherId: entry.voucherId,
+        description: entry.description,
+        sourceType: entry.sourceType,
+        debit: units > 0 ? fromUnits(units) : 0,
+        credit: units < 0 ? fromUnits(-units) : 0,
+        balance: fromUnits(running),
+      });
+    });
+
+  if (opening === 0 && lines.length === 0) return undefined;
+  return {
+    metal,
+    unit,
+    opening: fromUnits(opening),
+    lines,
+    totalDebit: fromUnits(debit),
+    totalCredit: fromUnits(credit),
+    closing: fromUnits(running),
+  };
+};
+
+// A client's statement of account from `from` to `to` (yyyy-MM-dd, both
+// included): one section per metal, the usual metals first, then cash
+export const clientStatement = (
+  clientId: string,
+  from: string,
+  to: string
+): StatementSection[] => {
+  const byMetal: Record<string, JournalEntry[]> = {};
+  clientLedger(clientId).forEach((entry) => {
+    const metal = metalOf(entry.metal);
+    (byMetal[metal] ||= []).push(entry);
+  });
+  const rank = (metal: string) => {
+    const index = METALS.indexOf(metal);
+    return index === -1 ? METALS.length : index;
+  };
+
+  const sections = Object.keys(byMetal)
+    .sort((a, b) => rank(a) - rank(b) || a.localeCompare(b))
+    .map((metal) =>
+      statementSection(metal, "g", byMetal[metal], from, to, toMg, fromMg)
+    );
+  sections.push(
+    statementSection(
+      CASH_SECTION,
+      "₹",
+      clientCashLedger(clientId),
+      from,
+      to,
+      toPaise,
+      fromPaise
+    )
+  );
+
+  return sections.filter(
+    (section): section is StatementSection => section !== undefined
+  );
+};
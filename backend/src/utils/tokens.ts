@@ -0,0 +1,45 @@
+import crypto from "crypto";
+import jwt from "jsonwebtoken";
+
+const DEFAULT_SESSION_HOURS = 12;
+
+let fallbackSecret = "";
+
+// Without JWT_SECRET every restart signs with a new key and logs everyone
+// out, which is tolerable in development only.
+const getSecret = () => {
+  if (process.env.JWT_SECRET) return process.env.JWT_SECRET;
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("JWT_SECRET must be set in production");
+  }
+  if (!fallbackSecret) {
+    console.warn("JWT_SECRET is not set, using a temporary secret");
+    fallbackSecret = crypto.randomBytes(32).toString("hex");
+  }
+  return fallbackSecret;
+};
+
+export const sessionLengthMs = () =>
+  (Number(process.env.SESSION_TTL_HOURS) || DEFAULT_SESSION_HOURS) *
+  60 *
+  60 *
+  1000;
+
+export const signToken = (userId: string, sessionId: string, expiresAt: Date) =>
+  jwt.sign({ sid: sessionId }, getSecret(), {
+    subject: userId,
+    expiresIn: Math.floor((expiresAt.getTime() - Date.now()) / 1000),
+  });
+
+// Returns null for anything that is not a valid, unexpired token
+export const verifyToken = (token: string) => {
+  try {
+    const payload = jwt.verify(token, getSecret());
+    if (typeof payload === "string" || !payload.sub || !payload.sid) {
+      return null;
+    }
+    return { userId: payload.sub, sessionId: String(payload.sid) };
+  } catch {
+    return null;
+  }
+};
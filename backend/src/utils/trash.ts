@@ -0,0 +1,127 @@
+import { transaction } from "../config/db";
+import { AdminReceipt, AdminReceipts } from "../models/AdminReceipt";
+import { Receipt, Receipts } from "../models/Receipt";
+import { TrashItem, TrashItems } from "../models/TrashItem";
+import { Users } from "../models/User";
+import { AuditActor, recordAudit } from "./audit";
+import { receiptDate, syncReceiptEntries } from "./ledger";
+import { syncReceiptCharge } from "./cashLedger";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Days a deleted client or receipt can still be restored; 30 unless
+// TRASH_RETENTION_DAYS says otherwise
+export const trashRetentionDays = (): number => {
+  const days = parseInt(process.env.TRASH_RETENTION_DAYS || "", 10);
+  return days > 0 ? days : 30;
+};
+
+// Call from the transaction that removes the document from its collection
+export const moveToTrash = (
+  item: Pick<
+    TrashItem,
+    | "entityType"
+    | "entityId"
+    | "label"
+    | "clientId"
+    | "document"
+    | "withClient"
+  >,
+  actor: AuditActor = {}
+): TrashItem => {
+  const purgeAt = new Date(Date.now() + trashRetentionDays() * DAY_MS);
+
+  return TrashItems.create({
+    ...item,
+    deletedBy: actor.userId,
+    deletedByName: actor.userId
+      ? Users.findById(actor.userId)?.name
+      : undefined,
+    reason: actor.reason,
+    purgeAt: purgeAt.toISOString(),
+  });
+};
+
+// Moves a shop or work receipt to the trash and reverses what it posted to
+// the client's balances. Call inside a transaction.
+export const trashReceipt = (
+  type: "receipt" | "adminReceipt",
+  receipt: Receipt | AdminReceipt,
+  actor: AuditActor = {},
+  withClient?: boolean
+) => {
+  if (type === "receipt") Receipts.deleteById(receipt._id);
+  else AdminReceipts.deleteById(receipt._id);
+
+  moveToTrash(
+    {
+      entityType: type,
+      entityId: receipt._id,
+      label: receipt.voucherId,
+      clientId: receipt.clientId,
+      document: receipt,
+      withClient,
+    },
+    actor
+  );
+  recordAudit(
+    {
+      entityType: type,
+      entityId: receipt._id,
+      label: receipt.voucherId,
+      action: "delete",
+      before: receipt,
+    },
+    actor
+  );
+  syncReceiptEntries(
+    {
+      type,
+      id: receipt._id,
+      voucherId: receipt.voucherId,
+      clientId: receipt.clientId,
+      metal: receipt.metalType,
+      status: receipt.status,
+      date: receiptDate(receipt),
+    },
+    0,
+    actor.userId
+  );
+  if (type === "receipt") {
+    syncReceiptCharge(
+      {
+        id: receipt._id,
+        voucherId: receipt.voucherId,
+        clientId: receipt.clientId,
+        status: receipt.status,
+        date: receiptDate(receipt),
+      },
+      0,
+      actor.userId
+    );
+  }
+};
+
+// Deletes for good whatever has been in the trash longer than the retention
+// period. Runs at start-up and whenever the trash is listed.
+export const purgeExpiredTrash = (now: Date = new Date()): number => {
+  const expired = TrashItems.find((item) => item.purgeAt <= now.toISOString());
+  if (expired.length === 0) return 0;
+
+  transaction(() => {
+    expired.forEach((item) => {
+      TrashItems.deleteById(item._id);
+      recordAudit(
+        {
+          entityType: item.entityType,
+          entityId: item.entityId,
+          label: item.label,
+          action: "purge",
+          before: item.document,
+        },
+        { reason: "Retention period ended" }
+      );
+    });
+  });
+  return expired.length;
+};
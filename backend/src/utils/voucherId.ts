@@ -0,0 +1,100 @@
+import { transaction } from "../config/db";
+import {
+  financialYearStartMonth,
+  voucherPrefix,
+  VoucherSeries,
+} from "../config/vouchers";
+import { VoucherCounters } from "../models/VoucherCounter";
+
+// "2026-27" for a year starting in April 2026; just "2026" when the
+// financial year starts in January
+export const financialYear = (date: Date = new Date()): string => {
+  const startMonth = financialYearStartMonth();
+  const year =
+    date.getMonth() + 1 >= startMonth
+      ? date.getFullYear()
+      : date.getFullYear() - 1;
+  return startMonth === 1
+    ? `${year}`
+    : `${year}-${(year + 1).toString().slice(-2)}`;
+};
+
+const toDate = (date?: string | Date) => {
+  const parsed = date ? new Date(date) : new Date();
+  return Number.isNaN(parsed.getTime()) ? new Date() : parsed;
+};
+
+const seriesOf = (series: VoucherSeries, date?: string | Date) => {
+  const prefix = voucherPrefix(series);
+  const year = financialYear(toDate(date));
+  return { prefix, financialYear: year, base: `${prefix}-${year}-` };
+};
+
+const format = (base: string, number: number) =>
+  `${base}${number.toString().padStart(4, "0")}`;
+
+type CurrentSeries = ReturnType<typeof seriesOf>;
+
+const findCounter = (series: VoucherSeries, current: CurrentSeries) =>
+  VoucherCounters.findOne(
+    (c) =>
+      c.series === series &&
+      c.prefix === current.prefix &&
+      c.financialYear === current.financialYear
+  );
+
+// The counter is the record of what was issued; the stored numbers are
+// checked as well so a store without counters carries on after its highest
+// voucher instead of reusing one
+const lastIssued = (
+  series: VoucherSeries,
+  current: CurrentSeries,
+  existingIds: string[]
+): number => {
+  const counter = findCounter(series, current);
+  const stored = existingIds
+    .filter((id) => id?.startsWith(current.base))
+    .map((id) => parseInt(id.slice(current.base.length), 10))
+    .filter(Number.isFinite)
+    .reduce((max, num) => Math.max(max, num), 0);
+  return Math.max(counter?.lastNumber || 0, stored);
+};
+
+// The number the next saved document will get. Nothing is reserved, so
+// forms that are opened and abandoned leave no gaps; another save can still
+// take it first.
+export const peekVoucherId = (
+  series: VoucherSeries,
+  existingIds: string[],
+  date?: string | Date
+): string => {
+  const current = seriesOf(series, date);
+  return format(current.base, lastIssued(series, current, existingIds) + 1);
+};
+
+// Takes the next number in the series for the financial year `date` falls
+// in. Call it from the transaction that saves the document: requests are
+// handled one at a time and the transaction is synchronous, so two saves
+// never get the same number, and a save that throws rolls the counter back.
+export const allocateVoucherId = (
+  series: VoucherSeries,
+  existingIds: string[],
+  date?: string | Date
+): string =>
+  transaction(() => {
+    const current = seriesOf(series, date);
+    const lastNumber = lastIssued(series, current, existingIds) + 1;
+    const counter = findCounter(series, current);
+
+    if (counter) {
+      VoucherCounters.updateById(counter._id, { lastNumber });
+    } else {
+      VoucherCounters.create({
+        series,
+        prefix: current.prefix,
+        financialYear: current.financialYear,
+        lastNumber,
+      });
+    }
+    return format(current.base, lastNumber);
+  });
@@ -14,6 +14,10 @@ import Dashboard from "./pages/dashboard";
 import NotFound from "./pages/NotFound";
 import DashboardLayout from "./layouts/dashboard-layout";
 import { DataProvider } from "./contexts/DataContext";
+import { AuthProvider } from "./contexts/AuthContext";
+import { useAuth } from "./hooks/use-auth";
+import { Loader2, ShieldAlert } from "lucide-react";
+import { Permission } from "./services/api";
 
 // Client routes
 import CustomerDetailsPage from "./pages/clients";
@@ -35,86 +39,183 @@ import EditAdminReceiptPage from "./pages/admin-receipts/[id]/edit";
 import AdminReceiptDetailPage from "./pages/admin-receipts/[id]/index";
 import AdminBillsPage from "./pages/admin-bills";
 import ClientBillsPage from "./pages/client-bills";
+import UsersPage from "./pages/users";
+import AuditLogPage from "./pages/audit";
+import TrashPage from "./pages/trash";
+import RatesPage from "./pages/rates";
+import AgeingReportPage from "./pages/reports/ageing";
 
 const queryClient = new QueryClient();
 
 // Auth wrapper for protected routes
 function RequireAuth({ children }: { children: React.ReactNode }) {
-  const isLoggedIn = localStorage.getItem("isLoggedIn") === "true";
+  const { user, isLoading } = useAuth();
   const location = useLocation();
-  if (!isLoggedIn) {
+  if (isLoading) {
+    return (
+      <div className="flex h-screen items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+  if (!user) {
     return <Navigate to="/login" state={{ from: location }} replace />;
   }
   return <>{children}</>;
 }
 
+// Blocks pages the user's role may not use, even when typed into the URL
+function RequirePermission({
+  permission,
+  children,
+}: {
+  permission: Permission;
+  children: React.ReactNode;
+}) {
+  const { can } = useAuth();
+  if (!can(permission)) {
+    return (
+      <div className="container py-20 text-center">
+        <ShieldAlert className="mx-auto h-10 w-10 text-muted-foreground" />
+        <h1 className="mt-4 text-2xl font-serif font-bold">Access denied</h1>
+        <p className="text-muted-foreground">
+          Your role does not allow you to open this page.
+        </p>
+      </div>
+    );
+  }
+  return <>{children}</>;
+}
+
 const App = () => (
   <QueryClientProvider client={queryClient}>
-    <DataProvider>
-      <TooltipProvider>
-        <Toaster />
-        <Sonner />
-        <BrowserRouter>
-          <Routes>
-            <Route path="/login" element={<Login />} />
-            <Route
-              path="/"
-              element={
-                <RequireAuth>
-                  <DashboardLayout />
-                </RequireAuth>
-              }
-            >
-              <Route index element={<Dashboard />} />
+    <AuthProvider>
+      <DataProvider>
+        <TooltipProvider>
+          <Toaster />
+          <Sonner />
+          <BrowserRouter>
+            <Routes>
+              <Route path="/login" element={<Login />} />
+              <Route
+                path="/"
+                element={
+                  <RequireAuth>
+                    <DashboardLayout />
+                  </RequireAuth>
+                }
+              >
+                <Route index element={<Dashboard />} />
 
-              {/* Client Routes */}
-              <Route path="clients" element={<CustomerDetailsPage />} />
-              <Route path="clients/new" element={<NewClientPage />} />
-              <Route path="clients/:id" element={<ClientDetailsPage />} />
-              <Route path="clients/:id/edit" element={<EditClientPage />} />
+                {/* Client Routes */}
+                <Route path="clients" element={<CustomerDetailsPage />} />
+                <Route
+                  path="clients/new"
+                  element={
+                    <RequirePermission permission="clients:create">
+                      <NewClientPage />
+                    </RequirePermission>
+                  }
+                />
+                <Route path="clients/:id" element={<ClientDetailsPage />} />
+                <Route
+                  path="clients/:id/edit"
+                  element={
+                    <RequirePermission permission="clients:edit">
+                      <EditClientPage />
+                    </RequirePermission>
+                  }
+                />
 
-              {/* Receipt Routes */}
-              <Route path="receipts" element={<ReceiptsPage />} />
-              <Route
-                path="receipts/select-client"
-                element={<ClientSelectionPage />}
-              />
-              <Route path="receipts/new" element={<NewReceiptPage />} />
-              <Route path="receipts/:id" element={<ReceiptDetailsPage />} />
-              <Route path="receipts/:id/edit" element={<EditReceiptPage />} />
+                {/* Receipt Routes */}
+                <Route path="receipts" element={<ReceiptsPage />} />
+                <Route
+                  path="receipts/select-client"
+                  element={
+                    <RequirePermission permission="receipts:create">
+                      <ClientSelectionPage />
+                    </RequirePermission>
+                  }
+                />
+                <Route
+                  path="receipts/new"
+                  element={
+                    <RequirePermission permission="receipts:create">
+                      <NewReceiptPage />
+                    </RequirePermission>
+                  }
+                />
+                <Route path="receipts/:id" element={<ReceiptDetailsPage />} />
+                <Route
+                  path="receipts/:id/edit"
+                  element={
+                    <RequirePermission permission="receipts:edit">
+                      <EditReceiptPage />
+                    </RequirePermission>
+                  }
+                />
 
-              {/* Add the implemented routes */}
-              <Route path="admin-receipts" element={<AdminReceiptsPage />} />
-              <Route
-                path="admin-receipts/new"
-                element={<NewAdminReceiptPage />}
-              />
-              <Route
-                path="admin-receipts/:id"
-                element={<AdminReceiptDetailPage />}
-              />
-              <Route
-                path="admin-receipts/edit/:id"
-                element={<EditAdminReceiptPage />}
-              />
-              <Route path="admin-bills" element={<AdminBillsPage />} />
-              <Route path="client-bills" element={<ClientBillsPage />} />
+                {/* Add the implemented routes */}
+                <Route path="admin-receipts" element={<AdminReceiptsPage />} />
+                <Route
+                  path="admin-receipts/new"
+                  element={
+                    <RequirePermission permission="receipts:create">
+                      <NewAdminReceiptPage />
+                    </RequirePermission>
+                  }
+                />
+                <Route
+                  path="admin-receipts/:id"
+                  element={<AdminReceiptDetailPage />}
+                />
+                <Route
+                  path="admin-receipts/:id/edit"
+                  element={
+                    <RequirePermission permission="receipts:edit">
+                      <EditAdminReceiptPage />
+                    </RequirePermission>
+                  }
+                />
+                <Route path="admin-bills" element={<AdminBillsPage />} />
+                <Route path="client-bills" element={<ClientBillsPage />} />
 
-              {/* Other Routes */}
-              <Route
-                path="reports"
-                element={<div className="p-6">Reports Page Coming Soon</div>}
-              />
-              <Route
-                path="settings"
-                element={<div className="p-6">Settings Page Coming Soon</div>}
-              />
-            </Route>
-            <Route path="*" element={<NotFound />} />
-          </Routes>
-        </BrowserRouter>
-      </TooltipProvider>
-    </DataProvider>
+                <Route
+                  path="users"
+                  element={
+                    <RequirePermission permission="users:manage">
+                      <UsersPage />
+                    </RequirePermission>
+                  }
+                />
+                <Route
+                  path="audit"
+                  element={
+                    <RequirePermission permission="audit:view">
+                      <AuditLogPage />
+                    </RequirePermission>
+                  }
+                />
+                <Route path="trash" element={<TrashPage />} />
+                <Route path="rates" element={<RatesPage />} />
+                <Route path="reports/ageing" element={<AgeingReportPage />} />
+
+                {/* Other Routes */}
+                <Route
+                  path="reports"
+                  element={<div className="p-6">Reports Page Coming Soon</div>}
+                />
+                <Route
+                  path="settings"
+                  element={<div className="p-6">Settings Page Coming Soon</div>}
+                />
+              </Route>
+              <Route path="*" element={<NotFound />} />
+            </Routes>
+          </BrowserRouter>
+        </TooltipProvider>
+      </DataProvider>
+    </AuthProvider>
   </QueryClientProvider>
 );
 
@@ -25,6 +25,7 @@ import {
 } from "@/components/ui/popover";
 import { Calendar as CalendarComponent } from "@/components/ui/calendar";
 import { useToast } from "@/hooks/use-toast";
+import { adminReceiptServices } from "@/services/api";
 
 // Types for our form items
 interface GivenItem {
@@ -148,16 +149,12 @@ export function AdminReceiptForm({
     if (receiptData && receiptData.voucherId) {
       setVoucherId(receiptData.voucherId);
     } else {
+      // Only a preview; the server numbers the receipt when it is saved
       const generateVoucherId = async () => {
         try {
-          // Normally, we'd call an API to get a voucher ID
-          // For now, we'll generate a mock one
-          const date = new Date();
-          const year = date.getFullYear().toString().substr(-2);
-          const month = (date.getMonth() + 1).toString().padStart(2, "0");
-          const randomNum = Math.floor(1000 + Math.random() * 9000);
-
-          setVoucherId(`GA-${year}${month}-${randomNum}`);
+          const { voucherId: nextId } =
+            await adminReceiptServices.generateVoucherId();
+          setVoucherId(nextId);
         } catch (error) {
           console.error("Failed to generate voucher ID:", error);
           toast({
@@ -0,0 +1,115 @@
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { History, Loader2 } from "lucide-react";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { AuditChange, AuditEntityType, auditServices } from "@/services/api";
+import { AUDIT_ACTION_LABELS } from "@/lib/audit";
+
+const formatValue = (value: unknown) => {
+  if (value === undefined || value === null || value === "") return "-";
+  if (typeof value === "object") return JSON.stringify(value, null, 2);
+  return String(value);
+};
+
+// Field-by-field before and after of one audit entry
+export function AuditChanges({ changes }: { changes: AuditChange[] }) {
+  if (changes.length === 0) {
+    return <p className="text-sm text-muted-foreground">No field changes</p>;
+  }
+
+  return (
+    <div className="rounded-md border overflow-x-auto">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Field</TableHead>
+            <TableHead>Before</TableHead>
+            <TableHead>After</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {changes.map((change) => (
+            <TableRow key={change.field}>
+              <TableCell className="font-medium align-top">
+                {change.field}
+              </TableCell>
+              {[change.before, change.after].map((value, index) => (
+                <TableCell key={index} className="align-top">
+                  <pre className="max-h-48 max-w-xs overflow-auto whitespace-pre-wrap text-xs">
+                    {formatValue(value)}
+                  </pre>
+                </TableCell>
+              ))}
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
+
+interface AuditHistoryProps {
+  entityType: AuditEntityType;
+  entityId: string;
+}
+
+// Who changed one record and how, newest first
+export function AuditHistory({ entityType, entityId }: AuditHistoryProps) {
+  const params = { entityType, entityId, limit: 100 };
+  const { data, isLoading, isError } = useQuery({
+    queryKey: ["audit", params],
+    queryFn: () => auditServices.getAuditEntries(params),
+  });
+  const entries = data?.data || [];
+
+  return (
+    <div className="bg-card card-premium rounded-lg p-6 mb-8">
+      <h2 className="text-xl font-medium mb-4 flex items-center gap-2">
+        <History className="h-5 w-5" />
+        Audit Trail
+      </h2>
+
+      {isLoading ? (
+        <div className="text-center py-6">
+          <Loader2 className="h-6 w-6 animate-spin mx-auto text-primary" />
+        </div>
+      ) : isError ? (
+        <p className="text-destructive">Could not load the history</p>
+      ) : entries.length === 0 ? (
+        <p className="text-muted-foreground">No changes recorded yet</p>
+      ) : (
+        <ol className="space-y-4">
+          {entries.map((entry) => (
+            <li key={entry._id} className="border-l-2 border-primary/40 pl-4">
+              <div className="flex flex-wrap items-baseline gap-x-2 text-sm">
+                <span className="font-medium">
+                  {AUDIT_ACTION_LABELS[entry.action]}
+                </span>
+                <span className="text-muted-foreground">
+                  {format(new Date(entry.createdAt), "dd MMM yyyy, HH:mm")}
+                  {" by "}
+                  {entry.userName || "System"}
+                </span>
+              </div>
+              {entry.reason && (
+                <p className="text-sm mt-1">Reason: {entry.reason}</p>
+              )}
+              {entry.action === "update" && (
+                <div className="mt-2">
+                  <AuditChanges changes={entry.changes} />
+                </div>
+              )}
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
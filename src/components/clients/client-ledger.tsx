@@ -0,0 +1,296 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Loader2, Scale } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import {
+  clientServices,
+  LedgerAdjustmentInput,
+  rateServices,
+} from "@/services/api";
+import { fromMg, toMg } from "@/lib/receipt-calculations";
+import {
+  balanceEntries,
+  balanceFor,
+  DEFAULT_METAL,
+  metalOf,
+  METALS,
+} from "@/lib/metal-balances";
+import { valueBalances } from "@/lib/metal-rates";
+import { formatRupees } from "@/lib/payments";
+
+interface ClientLedgerProps {
+  clientId: string;
+}
+
+const emptyAdjustment: LedgerAdjustmentInput = {
+  type: "adjustment",
+  amount: 0,
+  metal: DEFAULT_METAL,
+  description: "",
+};
+
+const formatGrams = (value: number) => `${value.toFixed(3)} g`;
+
+export function ClientLedger({ clientId }: ClientLedgerProps) {
+  const { toast } = useToast();
+  const { can } = useAuth();
+  const queryClient = useQueryClient();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [adjustment, setAdjustment] =
+    useState<LedgerAdjustmentInput>(emptyAdjustment);
+
+  const { data, isLoading, isError } = useQuery({
+    queryKey: ["client-ledger", clientId],
+    queryFn: () => clientServices.getLedger(clientId),
+  });
+
+  const { data: currentRates } = useQuery({
+    queryKey: ["current-rates"],
+    queryFn: () => rateServices.getCurrentRates(),
+  });
+
+  const adjustMutation = useMutation({
+    mutationFn: (input: LedgerAdjustmentInput) =>
+      clientServices.postLedgerAdjustment(clientId, input),
+    onSuccess: (result, input) => {
+      queryClient.invalidateQueries({ queryKey: ["client-ledger", clientId] });
+      queryClient.invalidateQueries({
+        queryKey: ["client-statement", clientId],
+      });
+      toast({
+        title: "Success",
+        description: `Entry posted. New ${metalOf(
+          input.metal
+        )} balance: ${formatGrams(balanceFor(result.balances, input.metal))}`,
+      });
+      setDialogOpen(false);
+    },
+    // The API interceptor already shows the server's message
+    onError: (error) => console.error("Error posting ledger entry:", error),
+  });
+
+  const openDialog = () => {
+    setAdjustment(emptyAdjustment);
+    setDialogOpen(true);
+  };
+
+  // Running balance of the entry's metal after each entry, oldest first,
+  // kept in milligrams so the last row of each metal matches its balance
+  const runningMg: Record<string, number> = {};
+  const rows = (data?.entries || []).map((entry) => {
+    const metal = metalOf(entry.metal);
+    runningMg[metal] = (runningMg[metal] || 0) + toMg(entry.amount);
+    return { ...entry, metal, runningBalance: fromMg(runningMg[metal]) };
+  });
+  const balances = balanceEntries(data?.balances);
+  const valuation = valueBalances(data?.balances, currentRates?.rates);
+
+  return (
+    <div className="bg-card card-premium rounded-lg p-6 mb-8">
+      <div className="flex justify-between items-center mb-6">
+        <div>
+          <h2 className="text-xl font-serif font-medium">Balance Ledger</h2>
+          <p className="text-sm text-muted-foreground">
+            Current balance:{" "}
+            {balances.length === 0
+              ? formatGrams(0)
+              : balances
+                  .map(([metal, grams]) => `${metal} ${formatGrams(grams)}`)
+                  .join(" · ")}
+          </p>
+          {balances.length > 0 && currentRates && (
+            <p className="text-sm text-muted-foreground">
+              Worth {formatRupees(valuation.total)} at today's rates
+              {valuation.unpriced.length > 0 &&
+                ` (no rate for ${valuation.unpriced.join(", ")})`}
+            </p>
+          )}
+        </div>
+        {can("ledger:adjust") && (
+          <Button variant="outline" onClick={openDialog}>
+            <Scale className="mr-2 h-4 w-4" /> Adjust Balance
+          </Button>
+        )}
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center items-center py-10">
+          <Loader2 className="h-6 w-6 animate-spin text-primary" />
+        </div>
+      ) : isError ? (
+        <div className="text-center py-10 text-destructive">
+          Failed to load ledger
+        </div>
+      ) : rows.length === 0 ? (
+        <div className="text-center py-10 text-muted-foreground">
+          No ledger entries yet
+        </div>
+      ) : (
+        <div className="overflow-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Date</TableHead>
+                <TableHead>Description</TableHead>
+                <TableHead>Metal</TableHead>
+                <TableHead className="text-right">Debit</TableHead>
+                <TableHead className="text-right">Credit</TableHead>
+                <TableHead className="text-right">Balance</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map((entry) => (
+                <TableRow key={entry._id}>
+                  <TableCell>
+                    {format(new Date(entry.date), "dd MMM yyyy")}
+                  </TableCell>
+                  <TableCell>{entry.description}</TableCell>
+                  <TableCell>{entry.metal}</TableCell>
+                  <TableCell className="text-right">
+                    {entry.amount > 0 ? formatGrams(entry.amount) : ""}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {entry.amount < 0 ? formatGrams(-entry.amount) : ""}
+                  </TableCell>
+                  <TableCell className="text-right font-medium">
+                    {formatGrams(entry.runningBalance)}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Adjust Balance</DialogTitle>
+            <DialogDescription>
+              Posts a new ledger entry to one metal's balance. Positive
+              amounts are owed by the client, negative amounts are credited
+              to them.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4 py-2">
+            <div className="space-y-1">
+              <Label>Entry Type</Label>
+              <Select
+                value={adjustment.type}
+                onValueChange={(type: "opening" | "adjustment") =>
+                  setAdjustment({ ...adjustment, type })
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="adjustment">Adjustment</SelectItem>
+                  <SelectItem value="opening">Opening Balance</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label>Metal</Label>
+              <Select
+                value={metalOf(adjustment.metal)}
+                onValueChange={(metal) =>
+                  setAdjustment({ ...adjustment, metal })
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {METALS.map((metal) => (
+                    <SelectItem key={metal} value={metal}>
+                      {metal}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="ledger-amount">Amount (grams)</Label>
+              <Input
+                id="ledger-amount"
+                type="number"
+                step="0.001"
+                value={adjustment.amount || ""}
+                onChange={(e) =>
+                  setAdjustment({
+                    ...adjustment,
+                    amount: Number(e.target.value) || 0,
+                  })
+                }
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="ledger-description">Description</Label>
+              <Input
+                id="ledger-description"
+                value={adjustment.description}
+                onChange={(e) =>
+                  setAdjustment({ ...adjustment, description: e.target.value })
+                }
+                placeholder="Reason for the adjustment"
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setDialogOpen(false)}
+              disabled={adjustMutation.isPending}
+            >
+              Cancel
+            </Button>
+            <Button
+              onClick={() => adjustMutation.mutate(adjustment)}
+              disabled={
+                adjustMutation.isPending ||
+                !adjustment.amount ||
+                !adjustment.description.trim()
+              }
+            >
+              {adjustMutation.isPending && (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              )}
+              Post Entry
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,580 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Ban, IndianRupee, Loader2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import {
+  clientServices,
+  Payment,
+  PaymentInput,
+  PaymentMethod,
+  paymentServices,
+} from "@/services/api";
+import {
+  formatRupees,
+  fromPaise,
+  PAYMENT_METHOD_LABELS,
+  sumRupees,
+  toPaise,
+} from "@/lib/payments";
+
+interface ClientPaymentsProps {
+  clientId: string;
+}
+
+type PaymentForm = Omit<PaymentInput, "clientId" | "allocations"> & {
+  // Amount typed against each outstanding receipt, by receipt id
+  allocations: Record<string, string>;
+};
+
+const emptyPayment = (): PaymentForm => ({
+  amount: 0,
+  method: "cash",
+  date: format(new Date(), "yyyy-MM-dd"),
+  reference: "",
+  note: "",
+  allocations: {},
+});
+
+// "₹1200.00 owed", "₹300.00 in credit" or "Nil"
+const describeCashBalance = (balance: number) => {
+  if (balance > 0) return `${formatRupees(balance)} owed`;
+  if (balance < 0) return `${formatRupees(-balance)} in credit`;
+  return "Nil";
+};
+
+export function ClientPayments({ clientId }: ClientPaymentsProps) {
+  const { toast } = useToast();
+  const { can } = useAuth();
+  const queryClient = useQueryClient();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [payment, setPayment] = useState<PaymentForm>(emptyPayment);
+  const [voiding, setVoiding] = useState<Payment | null>(null);
+  const [voidReason, setVoidReason] = useState("");
+
+  const cashLedger = useQuery({
+    queryKey: ["client-cash-ledger", clientId],
+    queryFn: () => clientServices.getCashLedger(clientId),
+  });
+
+  const payments = useQuery({
+    queryKey: ["client-payments", clientId],
+    queryFn: () => paymentServices.getPayments({ clientId, limit: 100 }),
+  });
+
+  const outstanding = useQuery({
+    queryKey: ["outstanding-receipts", clientId],
+    queryFn: () => paymentServices.getOutstandingReceipts(clientId),
+    enabled: dialogOpen,
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({
+      queryKey: ["client-cash-ledger", clientId],
+    });
+    queryClient.invalidateQueries({ queryKey: ["client-payments", clientId] });
+    queryClient.invalidateQueries({
+      queryKey: ["client-statement", clientId],
+    });
+    queryClient.invalidateQueries({
+      queryKey: ["outstanding-receipts", clientId],
+    });
+    queryClient.invalidateQueries({ queryKey: ["receipts"] });
+    queryClient.invalidateQueries({ queryKey: ["audit"] });
+  };
+
+  const recordMutation = useMutation({
+    mutationFn: (input: PaymentInput) => paymentServices.recordPayment(input),
+    onSuccess: (result) => {
+      refresh();
+      toast({
+        title: "Success",
+        description: `Payment ${
+          result.payment.paymentNumber
+        } recorded. Cash balance: ${describeCashBalance(result.cashBalance)}`,
+      });
+      setDialogOpen(false);
+    },
+    // The API interceptor already shows the server's message
+    onError: (error) => console.error("Error recording payment:", error),
+  });
+
+  const voidMutation = useMutation({
+    mutationFn: ({ id, reason }: { id: string; reason: string }) =>
+      paymentServices.voidPayment(id, reason),
+    onSuccess: (result) => {
+      refresh();
+      toast({
+        title: "Success",
+        description: `Payment ${result.payment.paymentNumber} voided`,
+      });
+      setVoiding(null);
+    },
+    // The API interceptor already shows the server's message
+    onError: (error) => console.error("Error voiding payment:", error),
+  });
+
+  const openDialog = () => {
+    setPayment(emptyPayment());
+    setDialogOpen(true);
+  };
+
+  // Spreads the amount over the outstanding receipts, oldest first
+  const applyOldestFirst = () => {
+    let remaining = toPaise(payment.amount);
+    const allocations: Record<string, string> = {};
+    (outstanding.data || []).forEach((receipt) => {
+      const applied = Math.min(remaining, toPaise(receipt.outstanding));
+      if (applied > 0) allocations[receipt._id] = String(fromPaise(applied));
+      remaining -= applied;
+    });
+    setPayment({ ...payment, allocations });
+  };
+
+  const allocations = Object.entries(payment.allocations)
+    .map(([receiptId, amount]) => ({ receiptId, amount: Number(amount) || 0 }))
+    .filter((allocation) => allocation.amount > 0);
+  const applied = sumRupees(allocations, (allocation) => allocation.amount);
+  const onAccount = fromPaise(toPaise(payment.amount) - toPaise(applied));
+
+  const submitPayment = () =>
+    recordMutation.mutate({
+      clientId,
+      amount: payment.amount,
+      method: payment.method,
+      date: payment.date,
+      reference: payment.reference,
+      note: payment.note,
+      allocations,
+    });
+
+  // Running cash balance after each entry, oldest first, kept in paise so
+  // the last row matches the balance
+  let runningPaise = 0;
+  const rows = (cashLedger.data?.entries || []).map((entry) => {
+    runningPaise += toPaise(entry.amount);
+    return { ...entry, runningBalance: fromPaise(runningPaise) };
+  });
+  const paymentRows = payments.data?.data || [];
+
+  return (
+    <div className="bg-card card-premium rounded-lg p-6 mb-8">
+      <div className="flex justify-between items-center mb-6">
+        <div>
+          <h2 className="text-xl font-serif font-medium">Payments</h2>
+          <p className="text-sm text-muted-foreground">
+            Cash balance:{" "}
+            {describeCashBalance(cashLedger.data?.cashBalance ?? 0)}
+          </p>
+        </div>
+        {can("payments:record") && (
+          <Button variant="outline" onClick={openDialog}>
+            <IndianRupee className="mr-2 h-4 w-4" /> Record Payment
+          </Button>
+        )}
+      </div>
+
+      <Tabs defaultValue="payments">
+        <TabsList className="mb-4">
+          <TabsTrigger value="payments">Payment History</TabsTrigger>
+          <TabsTrigger value="cash-ledger">Cash Ledger</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="payments" className="mt-0">
+          {payments.isLoading ? (
+            <div className="flex justify-center items-center py-10">
+              <Loader2 className="h-6 w-6 animate-spin text-primary" />
+            </div>
+          ) : payments.isError ? (
+            <div className="text-center py-10 text-destructive">
+              Failed to load payments
+            </div>
+          ) : paymentRows.length === 0 ? (
+            <div className="text-center py-10 text-muted-foreground">
+              No payments recorded yet
+            </div>
+          ) : (
+            <div className="overflow-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Payment</TableHead>
+                    <TableHead>Method</TableHead>
+                    <TableHead>Applied To</TableHead>
+                    <TableHead className="text-right">Amount</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {paymentRows.map((row) => (
+                    <TableRow key={row._id}>
+                      <TableCell>
+                        {format(new Date(row.date), "dd MMM yyyy")}
+                      </TableCell>
+                      <TableCell>
+                        <span
+                          className={
+                            row.status === "void" ? "line-through" : ""
+                          }
+                        >
+                          {row.paymentNumber}
+                        </span>
+                        {row.status === "void" && (
+                          <Badge variant="destructive" className="ml-2">
+                            VOID
+                          </Badge>
+                        )}
+                        {row.voidReason && (
+                          <span className="block text-xs text-muted-foreground">
+                            {row.voidReason}
+                          </span>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {PAYMENT_METHOD_LABELS[row.method]}
+                        {row.reference && (
+                          <span className="block text-xs text-muted-foreground">
+                            {row.reference}
+                          </span>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {row.allocations.length === 0
+                          ? "On account"
+                          : row.allocations
+                              .map(
+                                (allocation) =>
+                                  `${allocation.voucherId} (${formatRupees(
+                                    allocation.amount
+                                  )})`
+                              )
+                              .join(", ")}
+                      </TableCell>
+                      <TableCell className="text-right font-medium">
+                        {formatRupees(row.amount)}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {row.status === "recorded" && can("payments:void") && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => {
+                              setVoidReason("");
+                              setVoiding(row);
+                            }}
+                          >
+                            <Ban className="mr-2 h-4 w-4" /> Void
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </TabsContent>
+
+        <TabsContent value="cash-ledger" className="mt-0">
+          {cashLedger.isLoading ? (
+            <div className="flex justify-center items-center py-10">
+              <Loader2 className="h-6 w-6 animate-spin text-primary" />
+            </div>
+          ) : cashLedger.isError ? (
+            <div className="text-center py-10 text-destructive">
+              Failed to load cash ledger
+            </div>
+          ) : rows.length === 0 ? (
+            <div className="text-center py-10 text-muted-foreground">
+              No cash entries yet
+            </div>
+          ) : (
+            <div className="overflow-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Description</TableHead>
+                    <TableHead className="text-right">Debit</TableHead>
+                    <TableHead className="text-right">Credit</TableHead>
+                    <TableHead className="text-right">Balance</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rows.map((entry) => (
+                    <TableRow key={entry._id}>
+                      <TableCell>
+                        {format(new Date(entry.date), "dd MMM yyyy")}
+                      </TableCell>
+                      <TableCell>{entry.description}</TableCell>
+                      <TableCell className="text-right">
+                        {entry.amount > 0 ? formatRupees(entry.amount) : ""}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {entry.amount < 0 ? formatRupees(-entry.amount) : ""}
+                      </TableCell>
+                      <TableCell className="text-right font-medium">
+                        {formatRupees(entry.runningBalance)}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </TabsContent>
+      </Tabs>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Record Payment</DialogTitle>
+            <DialogDescription>
+              Credits the client's cash balance. Apply it to unpaid receipts
+              to mark them paid; whatever is not applied stays on account.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4 py-2">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-1">
+                <Label htmlFor="payment-amount">Amount (₹)</Label>
+                <Input
+                  id="payment-amount"
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={payment.amount || ""}
+                  onChange={(e) =>
+                    setPayment({
+                      ...payment,
+                      amount: Number(e.target.value) || 0,
+                    })
+                  }
+                />
+              </div>
+              <div className="space-y-1">
+                <Label>Method</Label>
+                <Select
+                  value={payment.method}
+                  onValueChange={(method: PaymentMethod) =>
+                    setPayment({ ...payment, method })
+                  }
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(PAYMENT_METHOD_LABELS).map(
+                      ([value, label]) => (
+                        <SelectItem key={value} value={value}>
+                          {label}
+                        </SelectItem>
+                      )
+                    )}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="payment-date">Date</Label>
+                <Input
+                  id="payment-date"
+                  type="date"
+                  value={payment.date}
+                  onChange={(e) =>
+                    setPayment({ ...payment, date: e.target.value })
+                  }
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="payment-reference">Reference</Label>
+                <Input
+                  id="payment-reference"
+                  value={payment.reference}
+                  onChange={(e) =>
+                    setPayment({ ...payment, reference: e.target.value })
+                  }
+                  placeholder="UPI or bank reference"
+                />
+              </div>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="payment-note">Note</Label>
+              <Input
+                id="payment-note"
+                value={payment.note}
+                onChange={(e) =>
+                  setPayment({ ...payment, note: e.target.value })
+                }
+              />
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex justify-between items-center">
+                <Label>Apply to Receipts</Label>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={applyOldestFirst}
+                  disabled={!payment.amount || !outstanding.data?.length}
+                >
+                  Apply oldest first
+                </Button>
+              </div>
+              {outstanding.isLoading ? (
+                <div className="flex justify-center py-4">
+                  <Loader2 className="h-4 w-4 animate-spin text-primary" />
+                </div>
+              ) : !outstanding.data?.length ? (
+                <p className="text-sm text-muted-foreground">
+                  No unpaid receipts; the payment stays on account.
+                </p>
+              ) : (
+                <div className="max-h-48 overflow-y-auto space-y-2">
+                  {outstanding.data.map((receipt) => (
+                    <div
+                      key={receipt._id}
+                      className="flex items-center justify-between gap-4 text-sm"
+                    >
+                      <div>
+                        <p className="font-medium">{receipt.voucherId}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {formatRupees(receipt.outstanding)} of{" "}
+                          {formatRupees(receipt.amountDue)} outstanding
+                        </p>
+                      </div>
+                      <Input
+                        type="number"
+                        step="0.01"
+                        min="0"
+                        max={receipt.outstanding}
+                        className="w-32"
+                        value={payment.allocations[receipt._id] || ""}
+                        onChange={(e) =>
+                          setPayment({
+                            ...payment,
+                            allocations: {
+                              ...payment.allocations,
+                              [receipt._id]: e.target.value,
+                            },
+                          })
+                        }
+                      />
+                    </div>
+                  ))}
+                </div>
+              )}
+              <p
+                className={`text-sm ${
+                  onAccount < 0 ? "text-destructive" : "text-muted-foreground"
+                }`}
+              >
+                Applied {formatRupees(applied)}
+                {onAccount < 0
+                  ? ", more than the payment amount"
+                  : `, on account ${formatRupees(onAccount)}`}
+              </p>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setDialogOpen(false)}
+              disabled={recordMutation.isPending}
+            >
+              Cancel
+            </Button>
+            <Button
+              onClick={submitPayment}
+              disabled={
+                recordMutation.isPending || payment.amount <= 0 || onAccount < 0
+              }
+            >
+              {recordMutation.isPending && (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              )}
+              Record Payment
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog
+        open={!!voiding}
+        onOpenChange={(open) => !open && setVoiding(null)}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Void Payment {voiding?.paymentNumber}</DialogTitle>
+            <DialogDescription>
+              The payment keeps its number and is marked void. Its amount is
+              debited back to the client and the receipts it was applied to
+              are unpaid again.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-1">
+            <Label htmlFor="void-payment-reason">Reason</Label>
+            <Input
+              id="void-payment-reason"
+              value={voidReason}
+              onChange={(e) => setVoidReason(e.target.value)}
+            />
+          </div>
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setVoiding(null)}
+              disabled={voidMutation.isPending}
+            >
+              Keep Payment
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={() =>
+                voiding &&
+                voidMutation.mutate({ id: voiding._id, reason: voidReason })
+              }
+              disabled={voidMutation.isPending || !voidReason.trim()}
+            >
+              {voidMutation.isPending && (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              )}
+              Void Payment
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,178 @@
+import { useState } from "react";
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
+import { format, startOfMonth } from "date-fns";
+import { Download, FileSpreadsheet, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { clientServices, StatementSection } from "@/services/api";
+import {
+  downloadStatementPDF,
+  downloadStatementWorkbook,
+} from "@/lib/statement-export";
+import { formatGrams } from "@/lib/receipt-calculations";
+import { formatRupees } from "@/lib/payments";
+
+interface ClientStatementProps {
+  clientId: string;
+}
+
+const formatAmount = (section: StatementSection, value: number) =>
+  section.unit === "g" ? `${formatGrams(value)} g` : formatRupees(value);
+
+// Statement of account for a date range: opening balance, every entry with
+// the running balance, and the closing balance, per metal and for cash
+export function ClientStatement({ clientId }: ClientStatementProps) {
+  const [from, setFrom] = useState(
+    format(startOfMonth(new Date()), "yyyy-MM-dd")
+  );
+  const [to, setTo] = useState(format(new Date(), "yyyy-MM-dd"));
+
+  const params = { from, to };
+  const { data, isLoading, isError } = useQuery({
+    queryKey: ["client-statement", clientId, params],
+    queryFn: () => clientServices.getStatement(clientId, params),
+    enabled: !!from && !!to && from <= to,
+    placeholderData: keepPreviousData,
+  });
+
+  return (
+    <div className="bg-card card-premium rounded-lg p-6 mb-8">
+      <div className="flex flex-col md:flex-row justify-between md:items-end gap-4 mb-6">
+        <div>
+          <h2 className="text-xl font-serif font-medium">
+            Statement of Account
+          </h2>
+          <p className="text-sm text-muted-foreground">
+            Opening balance, every entry and closing balance for the dates
+          </p>
+        </div>
+        <div className="flex flex-wrap items-end gap-2">
+          <div className="space-y-1">
+            <Label htmlFor="statement-from">From</Label>
+            <Input
+              id="statement-from"
+              type="date"
+              value={from}
+              max={to}
+              onChange={(e) => setFrom(e.target.value)}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="statement-to">To</Label>
+            <Input
+              id="statement-to"
+              type="date"
+              value={to}
+              min={from}
+              onChange={(e) => setTo(e.target.value)}
+            />
+          </div>
+          <Button
+            variant="outline"
+            onClick={() => data && downloadStatementPDF(data)}
+            disabled={!data}
+          >
+            <Download className="mr-2 h-4 w-4" /> PDF
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => data && downloadStatementWorkbook(data)}
+            disabled={!data}
+          >
+            <FileSpreadsheet className="mr-2 h-4 w-4" /> Excel
+          </Button>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center items-center py-10">
+          <Loader2 className="h-6 w-6 animate-spin text-primary" />
+        </div>
+      ) : isError ? (
+        <div className="text-center py-10 text-destructive">
+          Failed to load the statement
+        </div>
+      ) : !data || data.sections.length === 0 ? (
+        <div className="text-center py-10 text-muted-foreground">
+          No entries for these dates
+        </div>
+      ) : (
+        <div className="space-y-6">
+          {data.sections.map((section) => (
+            <div key={section.metal}>
+              <h3 className="font-medium mb-2">
+                {section.metal}
+                <span className="ml-2 text-sm text-muted-foreground">
+                  Closing balance {formatAmount(section, section.closing)}
+                </span>
+              </h3>
+              <div className="overflow-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Date</TableHead>
+                      <TableHead>Voucher</TableHead>
+                      <TableHead>Particulars</TableHead>
+                      <TableHead className="text-right">Debit</TableHead>
+                      <TableHead className="text-right">Credit</TableHead>
+                      <TableHead className="text-right">Balance</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    <TableRow className="bg-muted/50 font-medium">
+                      <TableCell colSpan={5}>Opening balance</TableCell>
+                      <TableCell className="text-right">
+                        {formatAmount(section, section.opening)}
+                      </TableCell>
+                    </TableRow>
+                    {section.lines.map((line, index) => (
+                      <TableRow key={index}>
+                        <TableCell className="whitespace-nowrap">
+                          {format(new Date(line.date), "dd MMM yyyy")}
+                        </TableCell>
+                        <TableCell>{line.voucherId || "-"}</TableCell>
+                        <TableCell>{line.description}</TableCell>
+                        <TableCell className="text-right">
+                          {line.debit ? formatAmount(section, line.debit) : ""}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {line.credit
+                            ? formatAmount(section, line.credit)
+                            : ""}
+                        </TableCell>
+                        <TableCell className="text-right font-medium">
+                          {formatAmount(section, line.balance)}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                    <TableRow className="bg-muted/50 font-medium">
+                      <TableCell colSpan={3}>Closing balance</TableCell>
+                      <TableCell className="text-right">
+                        {formatAmount(section, section.totalDebit)}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {formatAmount(section, section.totalCredit)}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {formatAmount(section, section.closing)}
+                      </TableCell>
+                    </TableRow>
+                  </TableBody>
+                </Table>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
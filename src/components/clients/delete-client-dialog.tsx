@@ -0,0 +1,205 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { AlertTriangle, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { formatBalances, hasBalance } from "@/lib/metal-balances";
+import { clientServices } from "@/services/api";
+
+interface DeleteClientDialogProps {
+  // The client to delete; the dialog is open while this is set
+  clientId: string | null;
+  onClose: () => void;
+  onDeleted: (id: string) => void;
+}
+
+// Shows what deleting a client affects before moving it to the trash. A
+// client with receipts or a balance is only deleted once the cascade is
+// confirmed, and not at all while one of its receipts is finalized or billed.
+export function DeleteClientDialog({
+  clientId,
+  onClose,
+  onDeleted,
+}: DeleteClientDialogProps) {
+  const { toast } = useToast();
+  const { can } = useAuth();
+  const queryClient = useQueryClient();
+  const [cascade, setCascade] = useState(false);
+
+  useEffect(() => setCascade(false), [clientId]);
+
+  const {
+    data: impact,
+    isLoading,
+    isError,
+  } = useQuery({
+    queryKey: ["clientDeletionImpact", clientId],
+    queryFn: () => clientServices.getDeletionImpact(clientId as string),
+    enabled: !!clientId,
+    // Receipts may have changed since the dialog was last opened
+    staleTime: 0,
+    gcTime: 0,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) =>
+      clientServices.deleteClient(id, impact?.requiresCascade),
+    onSuccess: (result, id) => {
+      toast({ title: "Client Deleted", description: result.message });
+      queryClient.invalidateQueries({ queryKey: ["trash"] });
+      queryClient.invalidateQueries({ queryKey: ["audit"] });
+      queryClient.invalidateQueries({ queryKey: ["receipts"] });
+      queryClient.invalidateQueries({ queryKey: ["adminReceipts"] });
+      onClose();
+      onDeleted(id);
+    },
+    // The API interceptor already shows the server's message
+    onError: (error) => console.error("Error deleting client:", error),
+  });
+
+  const shopCount =
+    impact?.receipts.filter((receipt) => receipt.type === "receipt").length ||
+    0;
+  const workCount = (impact?.receipts.length || 0) - shopCount;
+  const blocked = !!impact && impact.blockers.length > 0;
+  const lacksPermission =
+    !!impact && impact.receipts.length > 0 && !can("receipts:delete");
+  const canDelete =
+    !!impact &&
+    !blocked &&
+    !lacksPermission &&
+    (!impact.requiresCascade || cascade);
+
+  return (
+    <Dialog open={!!clientId} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Move Client to Trash</DialogTitle>
+          <DialogDescription>
+            The client is removed from the lists and can be restored from the
+            Trash until the retention period ends. After that it is deleted
+            for good.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-4 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin mr-2" />
+            Checking the client's records...
+          </div>
+        ) : isError ? (
+          <p className="text-sm text-destructive">
+            Could not check the client's records. Please try again.
+          </p>
+        ) : (
+          impact &&
+          (impact.requiresCascade || blocked) && (
+            <div className="space-y-4">
+              {impact.requiresCascade && (
+                <div className="rounded-md border p-4 text-sm space-y-2">
+                  <p className="font-medium">This client has</p>
+                  <ul className="list-disc pl-5 space-y-1">
+                    {shopCount > 0 && (
+                      <li>
+                        {shopCount} shop receipt{shopCount === 1 ? "" : "s"}
+                      </li>
+                    )}
+                    {workCount > 0 && (
+                      <li>
+                        {workCount} work receipt{workCount === 1 ? "" : "s"}
+                      </li>
+                    )}
+                    {hasBalance(impact.balances) && (
+                      <li>a balance of {formatBalances(impact.balances)}</li>
+                    )}
+                  </ul>
+                  {impact.receipts.length > 0 && (
+                    <div className="max-h-32 overflow-y-auto text-muted-foreground">
+                      {impact.receipts.map((receipt) => (
+                        <div key={receipt._id} className="flex justify-between">
+                          <span>{receipt.voucherId}</span>
+                          <span className="capitalize">{receipt.status}</span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {blocked ? (
+                <div className="flex items-start gap-3 rounded-md bg-destructive/10 p-4 text-sm text-destructive">
+                  <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+                  <div>
+                    <p className="font-medium">
+                      The client cannot be deleted yet
+                    </p>
+                    <ul className="list-disc pl-5">
+                      {impact.blockers.map((blocker) => (
+                        <li key={blocker}>{blocker}</li>
+                      ))}
+                    </ul>
+                  </div>
+                </div>
+              ) : lacksPermission ? (
+                <p className="text-sm text-destructive">
+                  Only users who can delete receipts can delete this client.
+                </p>
+              ) : (
+                <div className="flex items-start gap-2">
+                  <Checkbox
+                    id="cascade-delete"
+                    checked={cascade}
+                    onCheckedChange={(checked) => setCascade(checked === true)}
+                  />
+                  <Label
+                    htmlFor="cascade-delete"
+                    className="text-sm font-normal leading-snug"
+                  >
+                    Move the receipts to the trash as well and reverse their
+                    effect on the balance. Restoring the client brings them
+                    back.
+                  </Label>
+                </div>
+              )}
+            </div>
+          )
+        )}
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={onClose}
+            disabled={deleteMutation.isPending}
+          >
+            Cancel
+          </Button>
+          <Button
+            variant="destructive"
+            onClick={() => clientId && deleteMutation.mutate(clientId)}
+            disabled={!canDelete || deleteMutation.isPending}
+          >
+            {deleteMutation.isPending ? (
+              <>
+                <Loader2 className="h-4 w-4 animate-spin mr-2" />
+                Deleting...
+              </>
+            ) : (
+              "Move to Trash"
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -15,92 +15,68 @@ import {
   Pie,
   Cell,
 } from "recharts";
-import { analyticsServices } from "@/services/api";
+import { format } from "date-fns";
+import { analyticsServices, PeriodParams, PeriodTrend } from "@/services/api";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Loader, AlertCircle } from "lucide-react";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 
 const COLORS = ["#0088FE", "#00C49F", "#FFBB28", "#FF8042", "#B066FE"];
 
-export function ReceiptsTrendChart() {
+interface PeriodChartProps {
+  params: PeriodParams;
+  // False while a custom period is missing a date
+  enabled?: boolean;
+}
+
+// "05 Oct" per day, "Oct 2026" per month
+const pointName = (label: string, unit: PeriodTrend["unit"]) =>
+  unit === "day"
+    ? format(new Date(`${label}T00:00`), "dd MMM")
+    : format(new Date(`${label}-01T00:00`), "MMM yyyy");
+
+export function ReceiptsTrendChart({
+  params,
+  enabled = true,
+}: PeriodChartProps) {
   const [data, setData] = useState([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState(null);
 
   useEffect(() => {
+    if (!enabled) return;
+
     const fetchData = async () => {
       try {
         setLoading(true);
         setError(null);
-        
-        const today = new Date();
-        const startDate = new Date();
-        startDate.setMonth(today.getMonth() - 5);
-        startDate.setDate(1);
-        
-        console.log("Fetching receipt trends from:", startDate.toISOString().split('T')[0], "to:", today.toISOString().split('T')[0]);
-        
-        const response = await analyticsServices.getSalesByDate(
-          startDate.toISOString().split('T')[0],
-          today.toISOString().split('T')[0]
-        );
-        
-        console.log("Receipt trends data:", response);
-        
-        if (!response || response.length === 0) {
-          console.log("No data returned for receipt trends");
-          setData([
-            { name: "No Data", receipts: 0, weight: 0 }
-          ]);
+
+        const trend = await analyticsServices.getPeriodTrend(params);
+        const points = trend.points.filter((point) => point.label);
+
+        if (points.every((point) => point.current.count === 0)) {
+          setData([{ name: "No Data", shop: 0, work: 0, weight: 0 }]);
         } else {
-          const processedData = processMonthlyData(response);
-          setData(processedData);
+          setData(
+            points.map((point) => ({
+              name: pointName(point.label, trend.unit),
+              shop: point.current.shop.count,
+              work: point.current.work.count,
+              weight: point.current.totalWeight,
+            }))
+          );
         }
       } catch (error) {
         console.error("Error fetching receipt trends:", error);
         setError("Failed to load receipt trends. Please try again.");
-        // Set fallback data
-        setData([
-          { name: "Jan", receipts: 0, weight: 0 },
-          { name: "Feb", receipts: 0, weight: 0 },
-          { name: "Mar", receipts: 0, weight: 0 }
-        ]);
+        setData([{ name: "No Data", shop: 0, work: 0, weight: 0 }]);
       } finally {
         setLoading(false);
       }
     };
 
     fetchData();
-  }, []);
-
-  const processMonthlyData = (rawData) => {
-    // Group by month
-    const monthlyData = {};
-    
-    if (!Array.isArray(rawData) || rawData.length === 0) {
-      return [{ name: "No Data", receipts: 0, weight: 0 }];
-    }
-    
-    rawData.forEach(item => {
-      if (!item || !item.date) return;
-      
-      const date = new Date(item.date);
-      const monthYear = `${date.toLocaleString('default', { month: 'short' })} ${date.getFullYear()}`;
-      
-      if (!monthlyData[monthYear]) {
-        monthlyData[monthYear] = {
-          name: monthYear,
-          receipts: 0,
-          weight: 0
-        };
-      }
-      
-      monthlyData[monthYear].receipts += item.count || 0;
-      monthlyData[monthYear].weight += item.totalWeight || 0;
-    });
-    
-    return Object.values(monthlyData);
-  };
+  }, [params, enabled]);
 
   return (
     <Card className="w-full animate-fade-in">
@@ -132,10 +108,18 @@ export function ReceiptsTrendChart() {
               <Line
                 yAxisId="left"
                 type="monotone"
-                dataKey="receipts"
+                dataKey="shop"
                 stroke="#8884d8"
                 activeDot={{ r: 8 }}
-                name="Receipts"
+                name="Shop Receipts"
+              />
+              <Line
+                yAxisId="left"
+                type="monotone"
+                dataKey="work"
+                stroke="#FFBB28"
+                activeDot={{ r: 8 }}
+                name="Work Receipts"
               />
               <Line
                 yAxisId="right"
@@ -152,19 +136,26 @@ export function ReceiptsTrendChart() {
   );
 }
 
-export function MetalTypeTrendChart() {
+export function MetalTypeTrendChart({
+  params,
+  enabled = true,
+}: PeriodChartProps) {
   const [data, setData] = useState([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState(null);
 
   useEffect(() => {
+    if (!enabled) return;
+
     const fetchData = async () => {
       try {
         setLoading(true);
         setError(null);
         
         console.log("Fetching metal type distribution");
-        const response = await analyticsServices.getMetalTypeDistribution();
+        const response = await analyticsServices.getMetalTypeDistribution(
+          params
+        );
         
         console.log("Metal type distribution data:", response);
         
@@ -198,7 +189,7 @@ export function MetalTypeTrendChart() {
     };
 
     fetchData();
-  }, []);
+  }, [params, enabled]);
 
   return (
     <Card className="w-full animate-fade-in">
@@ -247,82 +238,48 @@ export function MetalTypeTrendChart() {
   );
 }
 
-export function WeightProcessedChart() {
+export function WeightProcessedChart({
+  params,
+  enabled = true,
+}: PeriodChartProps) {
   const [data, setData] = useState([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState(null);
 
   useEffect(() => {
+    if (!enabled) return;
+
     const fetchData = async () => {
       try {
         setLoading(true);
         setError(null);
-        
-        console.log("Fetching yearly comparison data");
-        const yearlyData = await analyticsServices.getYearlyComparison();
-        
-        console.log("Yearly comparison data:", yearlyData);
-        
-        if (!yearlyData || (!yearlyData.currentYear && !yearlyData.previousYear)) {
-          console.log("No data returned for yearly comparison");
-          // Create sample data if no real data
-          const months = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
-          setData(months.map(month => ({ 
-            name: month, 
-            currentYear: 0, 
-            previousYear: 0 
-          })));
-        } else {
-          // Process data for comparison chart
-          const processedData = processYearlyData(yearlyData);
-          setData(processedData);
-        }
+
+        // Day by day (or month by month) against the same point of the
+        // period before
+        const trend = await analyticsServices.getPeriodTrend(params);
+        setData(
+          trend.points.map((point) => ({
+            name: pointName(point.label || point.previousLabel, trend.unit),
+            current: point.current.totalWeight,
+            previous: point.previous.totalWeight,
+          }))
+        );
       } catch (error) {
         console.error("Error fetching weight processed data:", error);
-        setError("Failed to load yearly comparison data. Please try again.");
-        
-        // Create fallback data
-        const months = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
-        setData(months.map(month => ({ 
-          name: month, 
-          currentYear: 0, 
-          previousYear: 0 
-        })));
+        setError("Failed to load the period comparison. Please try again.");
+        setData([]);
       } finally {
         setLoading(false);
       }
     };
 
     fetchData();
-  }, []);
-
-  const processYearlyData = (data) => {
-    if (!data) return [];
-    
-    const { currentYear = [], previousYear = [] } = data;
-    const months = [
-      "Jan", "Feb", "Mar", "Apr", "May", "Jun",
-      "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"
-    ];
-    
-    return months.map((month, idx) => {
-      const monthNum = idx + 1;
-      
-      const currYearData = currentYear.find(item => item && item.month === monthNum) || { totalWeight: 0 };
-      const prevYearData = previousYear.find(item => item && item.month === monthNum) || { totalWeight: 0 };
-      
-      return {
-        name: month,
-        currentYear: currYearData.totalWeight || 0,
-        previousYear: prevYearData.totalWeight || 0,
-      };
-    });
-  };
+  }, [params, enabled]);
 
   return (
     <Card className="w-full animate-fade-in">
       <CardHeader className="pb-2">
-        <CardTitle>Weight Processed - Yearly Comparison</CardTitle>
+        <CardTitle>Weight Processed - Period Comparison</CardTitle>
       </CardHeader>
       <CardContent className="pt-0">
         {loading ? (
@@ -345,8 +302,8 @@ export function WeightProcessedChart() {
               <YAxis />
               <Tooltip />
               <Legend />
-              <Bar dataKey="currentYear" name="Current Year" fill="#8884d8" />
-              <Bar dataKey="previousYear" name="Previous Year" fill="#82ca9d" />
+              <Bar dataKey="current" name="This Period" fill="#8884d8" />
+              <Bar dataKey="previous" name="Previous Period" fill="#82ca9d" />
             </BarChart>
           </ResponsiveContainer>
         )}
@@ -0,0 +1,147 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import {
+  Ban,
+  Calendar,
+  FilePen,
+  FilePlus,
+  IndianRupee,
+  Loader,
+  Lock,
+  LockOpen,
+  UserPlus,
+} from "lucide-react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { auditEntityPath } from "@/lib/audit";
+import { ActivityType, analyticsServices } from "@/services/api";
+
+const ALL = "all";
+
+const TYPES: { value: ActivityType; label: string }[] = [
+  { value: "receipt-created", label: "New Receipts" },
+  { value: "receipt-edited", label: "Edits" },
+  { value: "receipt-cancelled", label: "Cancellations" },
+  { value: "receipt-finalized", label: "Finalized" },
+  { value: "receipt-reopened", label: "Reopened" },
+  { value: "payment", label: "Payments" },
+  { value: "client-created", label: "New Clients" },
+];
+
+const ICONS: Record<ActivityType, React.ReactNode> = {
+  "receipt-created": <FilePlus className="h-5 w-5 text-gold" />,
+  "receipt-edited": <FilePen className="h-5 w-5 text-gold" />,
+  "receipt-cancelled": <Ban className="h-5 w-5 text-destructive" />,
+  "receipt-finalized": <Lock className="h-5 w-5 text-gold" />,
+  "receipt-reopened": <LockOpen className="h-5 w-5 text-gold" />,
+  payment: <IndianRupee className="h-5 w-5 text-gold" />,
+  "client-created": <UserPlus className="h-5 w-5 text-gold" />,
+};
+
+// The latest receipts written, edited, cancelled, finalized and reopened,
+// payments and new clients, from the audit log, each linking to what it is
+// about
+export function RecentActivity() {
+  const [type, setType] = useState(ALL);
+  const [userId, setUserId] = useState(ALL);
+
+  const params = {
+    type: type === ALL ? undefined : (type as ActivityType),
+    userId: userId === ALL ? undefined : userId,
+  };
+  const { data, isLoading, isError } = useQuery({
+    queryKey: ["activity", params],
+    queryFn: () => analyticsServices.getActivity(params),
+    placeholderData: keepPreviousData,
+  });
+  const activity = data?.data || [];
+
+  return (
+    <div className="bg-card card-premium rounded-lg p-6">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-2 mb-4">
+        <h2 className="text-lg font-serif font-medium">Recent Activity</h2>
+        <div className="flex gap-2">
+          <Select value={type} onValueChange={setType}>
+            <SelectTrigger className="w-[160px]">
+              <SelectValue placeholder="Type" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All Activity</SelectItem>
+              {TYPES.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={userId} onValueChange={setUserId}>
+            <SelectTrigger className="w-[160px]">
+              <SelectValue placeholder="User" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All Users</SelectItem>
+              {(data?.users || []).map((user) => (
+                <SelectItem key={user.userId} value={user.userId}>
+                  {user.userName}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="space-y-4">
+        {isLoading ? (
+          <div className="flex items-center justify-center h-32">
+            <Loader className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : isError ? (
+          <div className="text-center text-destructive py-8">
+            Failed to load recent activity
+          </div>
+        ) : activity.length > 0 ? (
+          activity.map((item) => (
+            <Link
+              key={item._id}
+              to={auditEntityPath(item.entityType, item.entityId, item.clientId)}
+              className="flex items-center gap-4 p-3 rounded-md hover:bg-accent/50 transition-colors"
+            >
+              <div className="h-10 w-10 rounded-full bg-accent flex items-center justify-center">
+                {ICONS[item.type]}
+              </div>
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-medium truncate">
+                  {item.summary} - {item.label}
+                  {item.clientName && item.type !== "client-created"
+                    ? ` - ${item.clientName}`
+                    : ""}
+                </p>
+                <p className="text-xs text-muted-foreground truncate">
+                  {item.userName ? `By ${item.userName}` : "By the system"}
+                  {item.reason ? ` - ${item.reason}` : ""}
+                </p>
+              </div>
+              <div className="flex items-center gap-2">
+                <Calendar className="h-3 w-3 text-muted-foreground" />
+                <span className="text-xs text-muted-foreground whitespace-nowrap">
+                  {format(new Date(item.createdAt), "dd MMM yyyy, HH:mm")}
+                </span>
+              </div>
+            </Link>
+          ))
+        ) : (
+          <div className="text-center text-muted-foreground py-8">
+            No recent activity found
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
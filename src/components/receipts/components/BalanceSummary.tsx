@@ -1,5 +1,7 @@
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { balanceEntries, MetalBalances } from "@/lib/metal-balances";
+import { formatGrams } from "@/lib/receipt-calculations";
 
 interface BalanceSummaryProps {
   totals: {
@@ -8,10 +10,11 @@ interface BalanceSummaryProps {
   receivedTotals: {
     finalWt: number;
   };
+  // The receipt posts to this metal's balance; the others stay as they are
+  metalType: string;
+  clientBalances: MetalBalances;
   newClientBalance: number;
   balanceToAdd: number;
-  manualClientBalance: number;
-  setManualClientBalance: (value: number) => void;
   finalWtBalanceTag: string;
   setFinalWtBalanceTag: (value: string) => void;
 }
@@ -19,13 +22,17 @@ interface BalanceSummaryProps {
 export function BalanceSummary({
   totals,
   receivedTotals,
+  metalType,
+  clientBalances,
   newClientBalance,
   balanceToAdd,
-  manualClientBalance,
-  setManualClientBalance,
   finalWtBalanceTag,
   setFinalWtBalanceTag,
 }: BalanceSummaryProps) {
+  const otherBalances = balanceEntries(clientBalances).filter(
+    ([metal]) => metal !== metalType
+  );
+
   return (
     <div className="bg-background/50 p-4 rounded-md border mt-4">
       <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
@@ -44,27 +51,28 @@ export function BalanceSummary({
           </div>
         </div>
         <div className="bg-primary/10 p-3 rounded-md">
-          <div className="text-sm text-primary mb-2">New Client Balance</div>
-          <Input
-            type="number"
-            value={manualClientBalance}
-            onChange={(e) =>
-              setManualClientBalance(Number(e.target.value))
-            }
-            placeholder="Enter new balance"
-            className="text-lg font-semibold"
-            step="0.001"
-          />
+          <div className="text-sm text-primary">New {metalType} Balance</div>
+          <div className="text-lg font-semibold">
+            {newClientBalance.toFixed(3)}g
+          </div>
           <div className="text-xs text-muted-foreground mt-1">
-            Manual entry (grams)
+            Posted to the client's {metalType} ledger on save
           </div>
+          {otherBalances.length > 0 && (
+            <div className="text-xs text-muted-foreground mt-1">
+              Unchanged:{" "}
+              {otherBalances
+                .map(([metal, grams]) => `${metal} ${formatGrams(grams)}g`)
+                .join(", ")}
+            </div>
+          )}
         </div>
         <div className="bg-muted/10 p-3 rounded-md">
           <div className="text-sm text-muted-foreground mb-2">
             Final Wt. + Balance
           </div>
           <div className="text-lg font-semibold mb-2">
-            {(totals.finalWeight + manualClientBalance).toFixed(3)}g
+            {(totals.finalWeight + balanceToAdd).toFixed(3)}g
           </div>
           <Label
             htmlFor="finalWtBalanceTag"
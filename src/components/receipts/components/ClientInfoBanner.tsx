@@ -1,3 +1,6 @@
+import { balanceEntries, MetalBalances } from "@/lib/metal-balances";
+import { formatGrams } from "@/lib/receipt-calculations";
+
 interface ClientInfoBannerProps {
   client: {
     id: string;
@@ -6,13 +9,18 @@ interface ClientInfoBannerProps {
     phoneNumber: string;
     address?: string;
   };
-  locationState?: any;
+  // The client's balance per metal; the receipt's metal is highlighted
+  balances?: MetalBalances;
+  metalType?: string;
 }
 
 export function ClientInfoBanner({
   client,
-  locationState,
+  balances,
+  metalType,
 }: ClientInfoBannerProps) {
+  const entries = balanceEntries(balances);
+
   return (
     <div className="bg-primary/10 p-4 rounded-md mb-4">
       <h3 className="font-medium">Selected Client:</h3>
@@ -26,20 +34,21 @@ export function ClientInfoBanner({
         <span>
           <strong>Phone:</strong> {client.phoneNumber}
         </span>
-        <span></span>
-        {Array.isArray(locationState?.client?.balanceHistory) &&
-          locationState.client.balanceHistory.length > 0 && (
-            <span>
-              <strong> Balance :</strong>{" "}
-              {(() => {
-                const last =
-                  locationState.client.balanceHistory[
-                    locationState.client.balanceHistory.length - 1
-                  ];
-                return `${last.amount > 0 ? "+" : ""}${last.amount}`;
-              })()}
-            </span>
-          )}
+        {entries.length > 0 && (
+          <span>
+            <strong>Balance:</strong>{" "}
+            {entries.map(([metal, grams], index) => (
+              <span
+                key={metal}
+                className={metal === metalType ? "font-semibold" : ""}
+              >
+                {index > 0 && " · "}
+                {metal} {grams > 0 ? "+" : ""}
+                {formatGrams(grams)}g
+              </span>
+            ))}
+          </span>
+        )}
       </div>
     </div>
   );
@@ -47,7 +47,7 @@ export function ReceiptDetailsForm({
       <div className="flex justify-between items-center mb-4">
         <h3 className="text-lg font-medium">Receipt Details</h3>
         <div className="bg-primary/10 px-3 py-1 rounded-md text-primary font-medium">
-          Voucher ID: {voucherId}
+          Next Voucher: {voucherId || "-"}
         </div>
       </div>
 
@@ -1,6 +1,7 @@
 import { Plus, Trash } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { shopReceivedFinalWt } from "@/lib/receipt-calculations";
 
 interface ReceivedItem {
   id: string;
@@ -132,12 +133,7 @@ export function ReceivedItemsTable({
                       readOnly
                       value={
                         Number(item.receivedGold) && Number(item.melting) >= 0
-                          ? (
-                              Number(item.receivedGold) -
-                              (Number(item.receivedGold) *
-                                Number(item.melting)) /
-                                100
-                            ).toFixed(3)
+                          ? shopReceivedFinalWt(item).toFixed(3)
                           : ""
                       }
                       placeholder="0.000"
@@ -9,6 +9,16 @@ import { useToast } from "@/hooks/use-toast";
 import { ReceiptItem } from "@/models/Receipt";
 import { receiptServices } from "@/services/receipt-services";
 import { clientServices } from "@/services/api";
+import { balanceFor, MetalBalances } from "@/lib/metal-balances";
+import {
+  BALANCE_TAG,
+  shopGivenTotals,
+  shopGivenWeights,
+  shopReceiptBalance,
+  shopReceivedFinalWt,
+  shopReceivedTotal,
+  toGrams,
+} from "@/lib/receipt-calculations";
 
 // Validation schema
 const receiptFormSchema = z.object({
@@ -50,9 +60,8 @@ export function useReceiptForm({
 
   // State
   const [isSubmitting, setIsSubmitting] = useState(false);
-  const [voucherId, setVoucherId] = useState(
-    `SH-${Math.floor(100000 + Math.random() * 900000)}`
-  );
+  // Preview of the next voucher; the server numbers the receipt on save
+  const [voucherId, setVoucherId] = useState("");
   const [metalType, setMetalType] = useState("Gold");
   const [items, setItems] = useState<ReceiptItem[]>([
     {
@@ -77,7 +86,9 @@ export function useReceiptForm({
       finalWt: 0,
     },
   ]);
-  const [clientBalance, setClientBalance] = useState(0);
+  const [clientBalances, setClientBalances] = useState<MetalBalances>({});
+  // The receipt moves the balance of its own metal only
+  const clientBalance = balanceFor(clientBalances, metalType);
   const [itemErrors, setItemErrors] = useState<{
     [key: string]: { [field: string]: string };
   }>({});
@@ -94,17 +105,6 @@ export function useReceiptForm({
   });
   const [isLoadingClient, setIsLoadingClient] = useState(false);
 
-  // Helper to extract balance from MongoDB Extended JSON
-  function extractBalance(balance: any): number {
-    if (typeof balance === "number") return balance;
-    if (balance && typeof balance === "object") {
-      if ("$numberInt" in balance) return parseInt(balance.$numberInt, 10);
-      if ("$numberDouble" in balance) return parseFloat(balance.$numberDouble);
-      if ("$numberLong" in balance) return parseInt(balance.$numberLong, 10);
-    }
-    return 0;
-  }
-
   // Initialize form
   const today = new Date();
   const initialValues = defaultValues || {
@@ -123,7 +123,7 @@ export function useReceiptForm({
   const validateItem = (item: ReceiptItem) => {
     const errors: { [field: string]: string } = {};
 
-    if (item.tag?.toUpperCase() === "BALANCE") {
+    if (item.tag?.toUpperCase() === BALANCE_TAG) {
       return errors; // Skip validation for balance rows
     }
 
@@ -210,53 +210,22 @@ export function useReceiptForm({
   };
 
   // Calculation functions
-  const calculateDerivedValues = (
-    grossWt: number,
-    stoneWt: number,
-    meltingTouch: number
-  ) => {
-    const netWt = grossWt - stoneWt;
-    const finalWt = (netWt * meltingTouch) / 100;
-    return {
-      netWt,
-      finalWt,
-    };
-  };
-
   // Calculate totals
-  const totals = items.reduce(
-    (acc, item) => {
-      return {
-        grossWeight: acc.grossWeight + (Number(item.grossWt) || 0),
-        stoneWeight: acc.stoneWeight + (Number(item.stoneWt) || 0),
-        netWeight: acc.netWeight + (Number(item.netWt) || 0),
-        finalWeight: acc.finalWeight + (Number(item.finalWt) || 0),
-        stoneAmount: acc.stoneAmount + (Number(item.stoneAmt) || 0),
-      };
-    },
-    {
-      grossWeight: 0,
-      stoneWeight: 0,
-      netWeight: 0,
-      finalWeight: 0,
-      stoneAmount: 0,
-    }
-  );
-
-  // Calculate received totals
-  const receivedTotals = receivedItems.reduce(
-    (acc, item) => {
-      const finalWt = (Number(item.receivedGold) * Number(item.melting)) / 100;
-      return {
-        finalWt: acc.finalWt + finalWt,
-      };
-    },
-    { finalWt: 0 }
-  );
+  const givenTotals = shopGivenTotals(items);
+  const totals = {
+    grossWeight: givenTotals.grossWt,
+    stoneWeight: givenTotals.stoneWt,
+    netWeight: givenTotals.netWt,
+    finalWeight: givenTotals.finalWt,
+    stoneAmount: givenTotals.stoneAmt,
+  };
+  const receivedTotals = { finalWt: shopReceivedTotal(receivedItems) };
 
   // Calculate balance and new client balance
-  const balance = totals.finalWeight - receivedTotals.finalWt;
-  const newClientBalance = clientBalance + balance;
+  // The "Previous Balance" row is already in the ledger; the server posts
+  // only what this receipt adds
+  const balance = shopReceiptBalance(items, receivedItems);
+  const newClientBalance = toGrams(clientBalance + balance);
   const balanceToAdd = clientBalance;
 
   // Item management functions
@@ -293,24 +262,7 @@ export function useReceiptForm({
         if (item.id === id) {
           const updatedItem = { ...item, [field]: value };
           if (["grossWt", "stoneWt", "meltingTouch"].includes(field)) {
-            const grossWt =
-              field === "grossWt"
-                ? Number(value) || 0
-                : Number(item.grossWt) || 0;
-            const stoneWt =
-              field === "stoneWt"
-                ? Number(value) || 0
-                : Number(item.stoneWt) || 0;
-            const meltingTouch =
-              field === "meltingTouch"
-                ? Number(value) || 0
-                : Number(item.meltingTouch) || 0;
-
-            const { netWt, finalWt } = calculateDerivedValues(
-              grossWt,
-              stoneWt,
-              meltingTouch
-            );
+            const { netWt, finalWt } = shopGivenWeights(updatedItem, metalType);
             updatedItem.netWt = netWt;
             updatedItem.finalWt = finalWt;
           }
@@ -359,8 +311,7 @@ export function useReceiptForm({
       receivedItems.map((item) => {
         if (item.id === id) {
           const updated = { ...item, [field]: value };
-          updated.finalWt =
-            (Number(updated.receivedGold) * Number(updated.melting)) / 100;
+          updated.finalWt = shopReceivedFinalWt(updated, metalType);
 
           // Validate the updated item and update errors
           const itemValidation = validateReceivedItem(updated);
@@ -440,38 +391,10 @@ export function useReceiptForm({
         }
       }
 
-      // 5) Compute totals
-      let totalGross = 0,
-        totalStone = 0,
-        totalNet = 0,
-        totalFinal = 0,
-        totalStoneAmt = 0,
-        receivedFinal = 0;
-
-      items.forEach((it) => {
-        totalGross += parseFloat(it.grossWt.toString()) || 0;
-        totalStone += parseFloat(it.stoneWt.toString()) || 0;
-        totalNet += parseFloat(it.netWt.toString()) || 0;
-        totalFinal += parseFloat(it.finalWt.toString()) || 0;
-        totalStoneAmt += parseFloat(it.stoneAmt.toString()) || 0;
-      });
-
-      // Only calculate received totals if there are valid received items
-      if (hasReceivedItems) {
-        receivedItems.forEach((r) => {
-          receivedFinal += parseFloat(r.finalWt.toString()) || 0;
-        });
-      }
-
-      const balanceChange = parseFloat((totalFinal - receivedFinal).toFixed(3));
-      const newClientBalance = parseFloat(
-        (clientBalance + balanceChange).toFixed(3)
-      );
-
       // Determine receipt status
       const receiptStatus = hasReceivedItems ? "complete" : "incomplete";
 
-      // 6) Build payload for backend
+      // 5) Build payload for backend
       const payload = {
         clientId,
         clientInfo: {
@@ -482,7 +405,6 @@ export function useReceiptForm({
         },
         metalType: form.getValues().metalType,
         issueDate: form.getValues().date.toISOString(),
-        voucherId,
         status: receiptStatus,
         givenItems: items.map((it) => ({
           itemName: it.itemName,
@@ -501,29 +423,26 @@ export function useReceiptForm({
               finalWt: parseFloat(r.finalWt.toString()),
             }))
           : [],
-        previousBalance: parseFloat(clientBalance.toFixed(3)),
+        previousBalance: toGrams(clientBalance),
       };
 
-      // 7) Update client balance first
-      await clientServices.updateClient(clientId, {
-        balance: newClientBalance,
-        balanceDescription: `Receipt ${voucherId} adjustment`,
-      });
-
-      // 8) Create receipt
-      const receiptResponse = await receiptServices.createReceipt(payload);
-      if (!receiptResponse?.success) {
-        throw new Error(receiptResponse?.message || "Failed to save receipt");
+      // 6) Save the receipt and post it to the client's ledger in one request
+      const saved = await receiptServices.saveReceipt(payload);
+      if (!saved?.success) {
+        throw new Error("Failed to save receipt");
       }
 
-      // 9) Success toast & navigation
+      // 7) Success toast & navigation
       toast({
         title: "Success",
-        description: `Receipt ${voucherId} saved${
+        description: `Receipt ${saved.receipt.voucherId} saved${
           receiptStatus === "incomplete" ? " as incomplete" : ""
-        }.`,
+        }. New ${metalType} balance: ${balanceFor(
+          saved.client.balances,
+          metalType
+        ).toFixed(3)}g`,
       });
-      navigate(`/receipts/${receiptResponse.data._id}`);
+      navigate(`/receipts/${saved.receipt._id}`);
     } catch (error) {
       const msg = error instanceof Error ? error.message : String(error);
       toast({
@@ -543,38 +462,17 @@ export function useReceiptForm({
       setIsLoadingClient(true);
       try {
         const clientResponse = await clientServices.getClient(client.id);
-        if (clientResponse && clientResponse.client) {
+        if (clientResponse) {
           const clientData = {
-            id: clientResponse.client._id,
-            clientName: clientResponse.client.clientName,
-            shopName: clientResponse.client.shopName,
-            phoneNumber: clientResponse.client.phoneNumber,
-            address: clientResponse.client.address || "",
+            id: clientResponse._id,
+            clientName: clientResponse.clientName,
+            shopName: clientResponse.shopName,
+            phoneNumber: clientResponse.phoneNumber,
+            address: clientResponse.address || "",
           };
           setClient(clientData);
 
-          const balanceValue = extractBalance(clientResponse.client.balance);
-          setClientBalance(balanceValue);
-
-          if (
-            balanceValue !== 0 &&
-            !items.some((item) => item.tag === "BALANCE")
-          ) {
-            setItems([
-              {
-                id: uuidv4(),
-                itemName: "Previous Balance",
-                tag: "BALANCE",
-                grossWt: balanceValue,
-                stoneWt: 0,
-                meltingTouch: 100,
-                netWt: balanceValue,
-                finalWt: balanceValue,
-                stoneAmt: 0,
-              },
-              ...items,
-            ]);
-          }
+          setClientBalances(clientResponse.balances || {});
         }
       } catch (error) {
         console.error("Error fetching client data:", error);
@@ -590,6 +488,30 @@ export function useReceiptForm({
     fetchClientData();
   }, []);
 
+  // The "Previous Balance" row carries the client's balance in the metal the
+  // receipt is for, and follows it when the metal type changes
+  useEffect(() => {
+    setItems((prev) => {
+      const existing = prev.find((item) => item.tag === BALANCE_TAG);
+      const rest = prev.filter((item) => item.tag !== BALANCE_TAG);
+      if (clientBalance === 0) return existing ? rest : prev;
+      return [
+        {
+          id: existing?.id || uuidv4(),
+          itemName: "Previous Balance",
+          tag: BALANCE_TAG,
+          grossWt: clientBalance,
+          stoneWt: 0,
+          meltingTouch: 100,
+          netWt: clientBalance,
+          finalWt: clientBalance,
+          stoneAmt: 0,
+        },
+        ...rest,
+      ];
+    });
+  }, [clientBalance]);
+
   useEffect(() => {
     const fetchVoucherId = async () => {
       try {
@@ -614,36 +536,16 @@ export function useReceiptForm({
         setIsLoadingClient(true);
         try {
           const response = await clientServices.getClient(clientId);
-          if (response && response.client) {
+          if (response) {
             const clientData = {
-              id: response.client._id,
-              clientName: response.client.clientName,
-              shopName: response.client.shopName,
-              phoneNumber: response.client.phoneNumber,
-              address: response.client.address || "",
+              id: response._id,
+              clientName: response.clientName,
+              shopName: response.shopName,
+              phoneNumber: response.phoneNumber,
+              address: response.address || "",
             };
             setClient(clientData);
-            const balanceValue = extractBalance(response.client.balance);
-            setClientBalance(balanceValue);
-            if (
-              balanceValue !== 0 &&
-              !items.some((item) => item.tag === "BALANCE")
-            ) {
-              setItems([
-                {
-                  id: uuidv4(),
-                  itemName: "Previous Balance",
-                  tag: "BALANCE",
-                  grossWt: balanceValue,
-                  stoneWt: 0,
-                  meltingTouch: 100,
-                  netWt: balanceValue,
-                  finalWt: balanceValue,
-                  stoneAmt: 0,
-                },
-                ...items,
-              ]);
-            }
+            setClientBalances(response.balances || {});
           }
         } catch (error) {
           console.error("Error fetching client:", error);
@@ -690,6 +592,7 @@ export function useReceiptForm({
     // Calculations
     totals,
     receivedTotals,
+    clientBalances,
     newClientBalance,
     balanceToAdd,
 
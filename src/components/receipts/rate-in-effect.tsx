@@ -0,0 +1,66 @@
+import { format } from "date-fns";
+import { metalOf } from "@/lib/metal-balances";
+import {
+  formatQuote,
+  quotesFor,
+  RateQuote,
+  ValuationItem,
+  valueItems,
+} from "@/lib/metal-rates";
+import { formatRupees } from "@/lib/payments";
+
+interface RateInEffectProps {
+  // yyyy-MM-dd of the receipt
+  date: string;
+  metal?: string;
+  quotes?: RateQuote[];
+  items: ValuationItem[];
+}
+
+// The rates in effect on a receipt's date and what its metal, making charge
+// and stone amounts come to at them. The same lines go on its PDF.
+export function RateInEffect({
+  date,
+  metal,
+  quotes,
+  items,
+}: RateInEffectProps) {
+  const metalQuotes = quotesFor(quotes, metal);
+  const valuation = valueItems(items, quotes, metal);
+
+  return (
+    <div className="bg-card card-premium rounded-lg p-6 mb-6 print:p-0 print:bg-transparent print:shadow-none">
+      <h2 className="text-xl font-medium mb-1">Rate In Effect</h2>
+      <p className="text-sm text-muted-foreground mb-4">
+        On {format(new Date(`${date}T00:00`), "PPP")}
+      </p>
+      {metalQuotes.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          No {metalOf(metal).toLowerCase()} rate had been entered by then
+        </p>
+      ) : (
+        <div className="space-y-3">
+          {metalQuotes.map((quote) => (
+            <p key={`${quote.purity}`} className="font-medium">
+              {formatQuote(quote)}
+            </p>
+          ))}
+          <div className="border-t pt-3 space-y-1 text-sm">
+            {valuation.rows.map((row) => (
+              <div key={row.label} className="flex justify-between">
+                <span className="text-muted-foreground">{row.label}</span>
+                <span>
+                  {row.value === undefined ? "-" : formatRupees(row.value)}
+                </span>
+              </div>
+            ))}
+            <div className="flex justify-between font-medium">
+              <span>Value</span>
+              <span>{formatRupees(valuation.total)}</span>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,266 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Ban, Loader2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import {
+  adminReceiptServices,
+  ReceiptCancellation,
+  receiptServices,
+  RevisionReceiptType,
+} from "@/services/api";
+
+type CancellableReceipt = ReceiptCancellation & { status?: string };
+
+// A voucher number as the lists show it, flagged once cancelled
+export function VoucherLabel({
+  voucherId,
+  status,
+}: {
+  voucherId: string;
+  status?: string;
+}) {
+  return (
+    <span className="inline-flex items-center gap-2">
+      <span className={status === "cancelled" ? "line-through" : ""}>
+        {voucherId}
+      </span>
+      {status === "cancelled" && (
+        <Badge variant="destructive" className="text-[10px]">
+          CANCELLED
+        </Badge>
+      )}
+    </span>
+  );
+}
+
+// Shown on a cancelled receipt's detail and edit pages, and on its printout
+export function ReceiptCancelledNotice({
+  receipt,
+}: {
+  receipt: CancellableReceipt;
+}) {
+  if (receipt.status !== "cancelled") return null;
+
+  return (
+    <div className="flex items-start gap-3 rounded-md border border-red-300 bg-red-50 p-4 mb-6 text-red-900">
+      <Ban className="h-5 w-5 mt-0.5 shrink-0" />
+      <div>
+        <p className="font-medium">
+          Cancelled
+          {receipt.cancelledAt &&
+            ` on ${format(new Date(receipt.cancelledAt), "dd MMM yyyy, HH:mm")}`}
+        </p>
+        {receipt.cancelReason && (
+          <p className="text-sm">Reason: {receipt.cancelReason}</p>
+        )}
+        <p className="text-sm">
+          This receipt no longer counts towards the client's balance and
+          cannot be changed.
+        </p>
+      </div>
+    </div>
+  );
+}
+
+interface CancelReceiptDialogProps {
+  receiptType: RevisionReceiptType;
+  // The receipt to cancel; the dialog is open while this is set
+  receipt: { _id: string; voucherId: string } | null;
+  onClose: () => void;
+  onCancelled: () => void;
+}
+
+// Asks for the reason and cancels the receipt
+export function CancelReceiptDialog({
+  receiptType,
+  receipt,
+  onClose,
+  onCancelled,
+}: CancelReceiptDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [reason, setReason] = useState("");
+
+  const close = () => {
+    setReason("");
+    onClose();
+  };
+
+  const cancelMutation = useMutation({
+    mutationFn: ({
+      id,
+      reason,
+    }: {
+      id: string;
+      reason: string;
+    }): Promise<unknown> =>
+      receiptType === "receipt"
+        ? receiptServices.cancelReceipt(id, reason)
+        : adminReceiptServices.cancelAdminReceipt(id, reason),
+    onSuccess: () => {
+      toast({
+        title: "Success",
+        description: `Receipt ${receipt?.voucherId} cancelled`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["audit"] });
+      queryClient.invalidateQueries({ queryKey: ["receiptRevisions"] });
+      close();
+      onCancelled();
+    },
+    // The API interceptor already shows the server's message
+    onError: (error) => console.error("Error cancelling receipt:", error),
+  });
+
+  return (
+    <Dialog open={!!receipt} onOpenChange={(open) => !open && close()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Cancel Receipt {receipt?.voucherId}</DialogTitle>
+          <DialogDescription>
+            The receipt is kept under its voucher number and marked cancelled.
+            Its effect on the client's balance is reversed and it cannot be
+            edited afterwards.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-1">
+          <Label htmlFor="cancel-reason">Reason</Label>
+          <Input
+            id="cancel-reason"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+          />
+        </div>
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={close}
+            disabled={cancelMutation.isPending}
+          >
+            Keep Receipt
+          </Button>
+          <Button
+            variant="destructive"
+            onClick={() =>
+              receipt && cancelMutation.mutate({ id: receipt._id, reason })
+            }
+            disabled={cancelMutation.isPending || !reason.trim()}
+          >
+            {cancelMutation.isPending && (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            )}
+            Cancel Receipt
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface TrashReceiptDialogProps {
+  receiptType: RevisionReceiptType;
+  // The receipt to delete; the dialog is open while this is set
+  receipt: { _id: string; voucherId: string } | null;
+  onClose: () => void;
+  onDeleted: () => void;
+}
+
+// Moves the receipt to the trash, where it can be restored until it is purged
+export function TrashReceiptDialog({
+  receiptType,
+  receipt,
+  onClose,
+  onDeleted,
+}: TrashReceiptDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [reason, setReason] = useState("");
+
+  const close = () => {
+    setReason("");
+    onClose();
+  };
+
+  const deleteMutation = useMutation({
+    mutationFn: ({
+      id,
+      reason,
+    }: {
+      id: string;
+      reason: string;
+    }): Promise<unknown> =>
+      receiptType === "receipt"
+        ? receiptServices.deleteReceipt(id, reason || undefined)
+        : adminReceiptServices.deleteAdminReceipt(id, reason || undefined),
+    onSuccess: () => {
+      toast({
+        title: "Success",
+        description: `Receipt ${receipt?.voucherId} moved to the trash`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["audit"] });
+      queryClient.invalidateQueries({ queryKey: ["trash"] });
+      queryClient.invalidateQueries({ queryKey: ["client-ledger"] });
+      close();
+      onDeleted();
+    },
+    // The API interceptor already shows the server's message
+    onError: (error) => console.error("Error deleting receipt:", error),
+  });
+
+  return (
+    <Dialog open={!!receipt} onOpenChange={(open) => !open && close()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Move Receipt {receipt?.voucherId} to Trash</DialogTitle>
+          <DialogDescription>
+            The receipt disappears from the lists and its effect on the
+            client's balance is reversed. It can be restored from the Trash
+            until the retention period ends. To keep the voucher on record,
+            cancel the receipt instead.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-1">
+          <Label htmlFor="trash-reason">Reason (optional)</Label>
+          <Input
+            id="trash-reason"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+          />
+        </div>
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={close}
+            disabled={deleteMutation.isPending}
+          >
+            Keep Receipt
+          </Button>
+          <Button
+            variant="destructive"
+            onClick={() =>
+              receipt && deleteMutation.mutate({ id: receipt._id, reason })
+            }
+            disabled={deleteMutation.isPending}
+          >
+            {deleteMutation.isPending && (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            )}
+            Move to Trash
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,241 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Loader2 } from "lucide-react";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import {
+  adminReceiptServices,
+  ReceiptRevision,
+  receiptServices,
+  RevisionReceiptType,
+} from "@/services/api";
+import { formatGrams } from "@/lib/receipt-calculations";
+import {
+  balanceImpact,
+  ItemChangeKind,
+  revisionChanges,
+  RevisedReceipt,
+} from "@/lib/receipt-revisions";
+
+const KIND_VARIANTS: Record<
+  ItemChangeKind,
+  "default" | "secondary" | "destructive"
+> = {
+  added: "default",
+  changed: "secondary",
+  removed: "destructive",
+};
+
+const formatValue = (value?: number) =>
+  value === undefined ? "-" : String(value);
+
+const formatSigned = (grams: number) =>
+  `${grams > 0 ? "+" : ""}${formatGrams(grams)} g`;
+
+interface ReceiptHistoryProps {
+  receiptType: RevisionReceiptType;
+  receiptId: string;
+}
+
+// Every saved version of a receipt, and what changed between any two
+export function ReceiptHistory({
+  receiptType,
+  receiptId,
+}: ReceiptHistoryProps) {
+  const { data, isLoading, isError } = useQuery({
+    queryKey: ["receiptRevisions", receiptType, receiptId],
+    queryFn: async (): Promise<ReceiptRevision<RevisedReceipt>[]> =>
+      receiptType === "receipt"
+        ? (await receiptServices.getReceiptRevisions(receiptId)).data
+        : adminReceiptServices.getAdminReceiptRevisions(receiptId),
+  });
+  const revisions = data || [];
+
+  const [pickedFrom, setFromVersion] = useState<number>();
+  const [pickedTo, setToVersion] = useState<number>();
+
+  if (isLoading) {
+    return (
+      <div className="text-center py-6">
+        <Loader2 className="h-6 w-6 animate-spin mx-auto text-primary" />
+      </div>
+    );
+  }
+
+  if (isError) {
+    return <p className="text-destructive">Could not load the versions</p>;
+  }
+
+  if (revisions.length === 0) {
+    return (
+      <p className="text-muted-foreground">
+        No versions saved yet. Earlier versions are kept from the next edit.
+      </p>
+    );
+  }
+
+  // Compare the last two versions until the user picks others
+  const fromVersion = pickedFrom ?? revisions[revisions.length - 2]?.version;
+  const toVersion = pickedTo ?? revisions[revisions.length - 1].version;
+  const from = revisions.find((revision) => revision.version === fromVersion);
+  const to = revisions.find((revision) => revision.version === toVersion);
+  const changes = from && to ? revisionChanges(from, to) : [];
+
+  const versionSelect = (
+    value: number | undefined,
+    onChange: (version: number) => void
+  ) => (
+    <Select
+      value={value === undefined ? undefined : String(value)}
+      onValueChange={(version) => onChange(Number(version))}
+    >
+      <SelectTrigger className="w-28">
+        <SelectValue placeholder="Version" />
+      </SelectTrigger>
+      <SelectContent>
+        {revisions.map((revision) => (
+          <SelectItem key={revision._id} value={String(revision.version)}>
+            v{revision.version}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="rounded-md border overflow-x-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Version</TableHead>
+              <TableHead>Saved</TableHead>
+              <TableHead>By</TableHead>
+              <TableHead>Reason</TableHead>
+              <TableHead className="text-right">Balance Effect</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {[...revisions].reverse().map((revision) => (
+              <TableRow key={revision._id}>
+                <TableCell className="font-medium">
+                  v{revision.version}
+                </TableCell>
+                <TableCell>
+                  {format(new Date(revision.createdAt), "dd MMM yyyy, HH:mm")}
+                </TableCell>
+                <TableCell>{revision.userName || "-"}</TableCell>
+                <TableCell>{revision.reason || "-"}</TableCell>
+                <TableCell className="text-right">
+                  {formatSigned(revision.balanceEffect)}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+
+      {revisions.length > 1 && (
+        <div className="space-y-4">
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-sm font-medium">Compare</span>
+            {versionSelect(fromVersion, setFromVersion)}
+            <span className="text-sm text-muted-foreground">with</span>
+            {versionSelect(toVersion, setToVersion)}
+          </div>
+
+          {from && to && (
+            <>
+              <p className="text-sm">
+                Balance impact:{" "}
+                <span className="font-medium">
+                  {formatSigned(balanceImpact(from, to))}
+                </span>{" "}
+                <span className="text-muted-foreground">
+                  (v{from.version} {formatSigned(from.balanceEffect)}, v
+                  {to.version} {formatSigned(to.balanceEffect)})
+                </span>
+              </p>
+
+              {changes.length === 0 ? (
+                <p className="text-sm text-muted-foreground">
+                  No item weights or percentages differ between these
+                  versions
+                </p>
+              ) : (
+                <div className="rounded-md border overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Item</TableHead>
+                        <TableHead>Change</TableHead>
+                        <TableHead>Field</TableHead>
+                        <TableHead className="text-right">
+                          v{from.version}
+                        </TableHead>
+                        <TableHead className="text-right">
+                          v{to.version}
+                        </TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {changes.flatMap((change, changeIndex) =>
+                        change.fields.map((field, fieldIndex) => (
+                          <TableRow key={`${changeIndex}-${field.label}`}>
+                            {fieldIndex === 0 && (
+                              <>
+                                <TableCell
+                                  rowSpan={change.fields.length}
+                                  className="align-top"
+                                >
+                                  <span className="text-muted-foreground">
+                                    {change.section}:{" "}
+                                  </span>
+                                  {change.name}
+                                </TableCell>
+                                <TableCell
+                                  rowSpan={change.fields.length}
+                                  className="align-top"
+                                >
+                                  <Badge variant={KIND_VARIANTS[change.kind]}>
+                                    {change.kind}
+                                  </Badge>
+                                </TableCell>
+                              </>
+                            )}
+                            <TableCell>{field.label}</TableCell>
+                            <TableCell className="text-right">
+                              {formatValue(field.before)}
+                            </TableCell>
+                            <TableCell className="text-right font-medium">
+                              {formatValue(field.after)}
+                            </TableCell>
+                          </TableRow>
+                        ))
+                      )}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
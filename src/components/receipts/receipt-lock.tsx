@@ -0,0 +1,159 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Loader2, Lock, LockOpen } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import {
+  adminReceiptServices,
+  ReceiptLock,
+  receiptServices,
+  RevisionReceiptType,
+} from "@/services/api";
+
+// Shown on a finalized receipt's detail and edit pages
+export function ReceiptLockNotice({ receipt }: { receipt: ReceiptLock }) {
+  if (!receipt.isFinalized) return null;
+
+  return (
+    <div className="flex items-start gap-3 rounded-md border border-amber-300 bg-amber-50 p-4 mb-6 text-amber-900 print:hidden">
+      <Lock className="h-5 w-5 mt-0.5 shrink-0" />
+      <div>
+        <p className="font-medium">
+          Finalized
+          {receipt.finalizedAt &&
+            ` on ${format(new Date(receipt.finalizedAt), "dd MMM yyyy, HH:mm")}`}
+        </p>
+        <p className="text-sm">
+          This receipt and its balance entry are locked. It has to be reopened
+          before it can be edited or deleted.
+        </p>
+      </div>
+    </div>
+  );
+}
+
+interface ReceiptLockActionsProps {
+  receiptType: RevisionReceiptType;
+  receipt: ReceiptLock & { _id: string; status: string };
+  // Called after the receipt was finalized or reopened, to reload it
+  onChange: () => void;
+}
+
+// Finalize and Reopen buttons for the detail pages
+export function ReceiptLockActions({
+  receiptType,
+  receipt,
+  onChange,
+}: ReceiptLockActionsProps) {
+  const { can } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [reopenOpen, setReopenOpen] = useState(false);
+  const [reason, setReason] = useState("");
+
+  const finalizeMutation = useMutation({
+    mutationFn: (): Promise<unknown> =>
+      receiptType === "receipt"
+        ? receiptServices.finalizeReceipt(receipt._id)
+        : adminReceiptServices.finalizeAdminReceipt(receipt._id),
+    onSuccess: () => {
+      toast({ title: "Success", description: "Receipt finalized" });
+      queryClient.invalidateQueries({ queryKey: ["audit"] });
+      onChange();
+    },
+    // The API interceptor already shows the server's message
+    onError: (error) => console.error("Error finalizing receipt:", error),
+  });
+
+  const reopenMutation = useMutation({
+    mutationFn: (): Promise<unknown> =>
+      receiptType === "receipt"
+        ? receiptServices.reopenReceipt(receipt._id, reason)
+        : adminReceiptServices.reopenAdminReceipt(receipt._id, reason),
+    onSuccess: () => {
+      toast({ title: "Success", description: "Receipt reopened" });
+      setReopenOpen(false);
+      setReason("");
+      queryClient.invalidateQueries({ queryKey: ["audit"] });
+      onChange();
+    },
+    // The API interceptor already shows the server's message
+    onError: (error) => console.error("Error reopening receipt:", error),
+  });
+
+  return (
+    <>
+      {!receipt.isFinalized &&
+        receipt.status === "complete" &&
+        can("receipts:edit") && (
+          <Button
+            variant="outline"
+            onClick={() => finalizeMutation.mutate()}
+            disabled={finalizeMutation.isPending}
+          >
+            {finalizeMutation.isPending ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Lock className="mr-2 h-4 w-4" />
+            )}
+            Finalize
+          </Button>
+        )}
+      {receipt.isFinalized && can("receipts:reopen") && (
+        <Button variant="outline" onClick={() => setReopenOpen(true)}>
+          <LockOpen className="mr-2 h-4 w-4" /> Reopen
+        </Button>
+      )}
+
+      <Dialog open={reopenOpen} onOpenChange={setReopenOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Reopen Receipt</DialogTitle>
+            <DialogDescription>
+              The receipt can be edited again and its balance entry will follow
+              the changes. The reason is kept in the audit log.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-1">
+            <Label htmlFor="reopen-reason">Reason</Label>
+            <Input
+              id="reopen-reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+            />
+          </div>
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setReopenOpen(false)}
+              disabled={reopenMutation.isPending}
+            >
+              Cancel
+            </Button>
+            <Button
+              onClick={() => reopenMutation.mutate()}
+              disabled={reopenMutation.isPending || !reason.trim()}
+            >
+              {reopenMutation.isPending && (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              )}
+              Reopen
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -4,6 +4,11 @@ import { Link, useLocation } from "react-router-dom";
 import {
   Settings,
   Home,
+  ShieldCheck,
+  History,
+  Trash2,
+  TrendingUp,
+  Hourglass,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { ScrollArea } from "@/components/ui/scroll-area";
@@ -11,6 +16,7 @@ import { Separator } from "@/components/ui/separator";
 import { cn } from "@/lib/utils";
 import { useIsMobile } from "@/hooks/use-mobile";
 import { QuickLinks } from "@/components/quick-links";
+import { useAuth } from "@/hooks/use-auth";
 
 interface SidebarProps {
   isOpen: boolean;
@@ -94,6 +100,7 @@ function SidebarItem({
 export function Sidebar({ isOpen, onClose, children }: SidebarProps) {
   const location = useLocation();
   const isMobile = useIsMobile();
+  const { can } = useAuth();
 
   return (
     <>
@@ -131,8 +138,49 @@ export function Sidebar({ isOpen, onClose, children }: SidebarProps) {
               isActive={location.pathname === "/"}
             />
             
+            <SidebarItem
+              href="/rates"
+              icon={<TrendingUp className="h-4 w-4" />}
+              title="Metal Rates"
+              isActive={location.pathname === "/rates"}
+            />
+
+            <SidebarItem
+              href="/reports/ageing"
+              icon={<Hourglass className="h-4 w-4" />}
+              title="Ageing Report"
+              isActive={location.pathname === "/reports/ageing"}
+            />
+
             <Separator className="my-2" />
-            
+
+            {can("users:manage") && (
+              <SidebarItem
+                href="/users"
+                icon={<ShieldCheck className="h-4 w-4" />}
+                title="Users"
+                isActive={location.pathname === "/users"}
+              />
+            )}
+
+            {can("audit:view") && (
+              <SidebarItem
+                href="/audit"
+                icon={<History className="h-4 w-4" />}
+                title="Audit Log"
+                isActive={location.pathname === "/audit"}
+              />
+            )}
+
+            {(can("clients:delete") || can("receipts:delete")) && (
+              <SidebarItem
+                href="/trash"
+                icon={<Trash2 className="h-4 w-4" />}
+                title="Trash"
+                isActive={location.pathname === "/trash"}
+              />
+            )}
+
             <SidebarItem
               href="/settings"
               icon={<Settings className="h-4 w-4" />}
@@ -0,0 +1,56 @@
+import React, { useCallback, useEffect, useState, ReactNode } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { authServices, Permission, User } from "../services/api";
+import { getAuthToken, setAuthToken } from "../services/api-config";
+import { AuthContext } from "../hooks/use-auth";
+
+export const AuthProvider = ({ children }: { children: ReactNode }) => {
+  const queryClient = useQueryClient();
+  const [user, setUser] = useState<User | null>(null);
+  const [isLoading, setIsLoading] = useState(!!getAuthToken());
+
+  // A token in storage proves nothing until the server accepts it
+  useEffect(() => {
+    if (!getAuthToken()) return;
+
+    authServices
+      .getSession()
+      .then((session) => setUser(session.user))
+      .catch(() => {
+        setAuthToken(null);
+        setUser(null);
+      })
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const login = useCallback(async (username: string, password: string) => {
+    const session = await authServices.login(username, password);
+    setAuthToken(session.token);
+    setUser(session.user);
+    return session.user;
+  }, []);
+
+  const logout = useCallback(async () => {
+    try {
+      await authServices.logout();
+    } catch (error) {
+      // The session is dropped locally even if the server call fails
+      console.error("Error ending session:", error);
+    } finally {
+      setAuthToken(null);
+      setUser(null);
+      queryClient.clear();
+    }
+  }, [queryClient]);
+
+  const can = useCallback(
+    (permission: Permission) => !!user?.permissions?.includes(permission),
+    [user]
+  );
+
+  return (
+    <AuthContext.Provider value={{ user, isLoading, login, logout, can }}>
+      {children}
+    </AuthContext.Provider>
+  );
+};
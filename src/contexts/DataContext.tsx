@@ -1,54 +1,14 @@
 import React, { createContext, useContext, useState, ReactNode } from "react";
-import { clientServices, receiptServices } from "../services/api";
+import {
+  clientServices,
+  receiptServices,
+  Client,
+  ClientInput,
+  ShopReceipt as Receipt,
+  ShopReceiptInput,
+} from "../services/api";
 import { toast } from "@/components/ui/use-toast";
 
-// Define types for our state
-interface Client {
-  id: string;
-  shopName: string;
-  clientName: string;
-  phoneNumber: string;
-  address: string;
-  createdAt: string;
-  updatedAt: string;
-  balance?: number;
-  balanceHistory?: {
-    date: Date | null;
-    amount: number;
-  }[];
-}
-
-interface ReceiptItem {
-  itemName: string;
-  tag: string;
-  grossWt: number;
-  stoneWt: number;
-  meltingTouch: number;
-  stoneAmt: number;
-}
-
-interface Receipt {
-  id: string;
-  clientId: string;
-  clientInfo: {
-    clientName: string;
-    shopName: string;
-    phoneNumber: string;
-  };
-  metalType: string;
-  issueDate: string;
-  items: ReceiptItem[];
-  totals: {
-    grossWt: number;
-    stoneWt: number;
-    netWt: number;
-    finalWt: number;
-    stoneAmt: number;
-  };
-  createdAt: string;
-  updatedAt: string;
-}
-
 interface DataContextType {
   clients: Client[];
   receipts: Receipt[];
@@ -63,17 +23,13 @@ interface DataContextType {
   fetchClients: () => Promise<void>;
   fetchReceipts: () => Promise<void>;
   fetchClientReceipts: (clientId: string) => Promise<Receipt[]>;
-  addClient: (
-    clientData: Omit<Client, "id" | "createdAt" | "updatedAt">
-  ) => Promise<Client>;
-  updateClient: (id: string, clientData: Partial<Client>) => Promise<Client>;
+  addClient: (clientData: ClientInput) => Promise<Client>;
+  updateClient: (id: string, clientData: ClientInput) => Promise<Client>;
   deleteClient: (id: string) => Promise<void>;
-  addReceipt: (
-    receiptData: Omit<Receipt, "id" | "createdAt" | "updatedAt">
-  ) => Promise<Receipt>;
+  addReceipt: (receiptData: ShopReceiptInput) => Promise<Receipt>;
   updateReceipt: (
     id: string,
-    receiptData: Partial<Receipt>
+    receiptData: ShopReceiptInput
   ) => Promise<Receipt>;
   deleteReceipt: (id: string) => Promise<void>;
   generateVoucherId: () => Promise<string>;
@@ -102,7 +58,7 @@ export const DataProvider = ({ children }: { children: ReactNode }) => {
     setError((prev) => ({ ...prev, clients: null }));
 
     try {
-      const data = await clientServices.getClients();
+      const { clients: data } = await clientServices.getClients();
       setClients(data);
     } catch (err) {
       const errorMessage =
@@ -124,7 +80,7 @@ export const DataProvider = ({ children }: { children: ReactNode }) => {
     setError((prev) => ({ ...prev, receipts: null }));
 
     try {
-      const data = await receiptServices.getReceipts();
+      const { data } = await receiptServices.getReceipts();
       setReceipts(data);
     } catch (err) {
       const errorMessage =
@@ -143,7 +99,7 @@ export const DataProvider = ({ children }: { children: ReactNode }) => {
   // Fetch receipts for a specific client
   const fetchClientReceipts = async (clientId: string) => {
     try {
-      const data = await receiptServices.getClientReceipts(clientId);
+      const { data } = await receiptServices.getClientReceipts(clientId);
       return data;
     } catch (err) {
       const errorMessage =
@@ -158,9 +114,7 @@ export const DataProvider = ({ children }: { children: ReactNode }) => {
   };
 
   // Add new client
-  const addClient = async (
-    clientData: Omit<Client, "id" | "createdAt" | "updatedAt">
-  ) => {
+  const addClient = async (clientData: ClientInput) => {
     try {
       const newClient = await clientServices.createClient(clientData);
       setClients((prev) => [...prev, newClient]);
@@ -182,11 +136,11 @@ export const DataProvider = ({ children }: { children: ReactNode }) => {
   };
 
   // Update client
-  const updateClient = async (id: string, clientData: Partial<Client>) => {
+  const updateClient = async (id: string, clientData: ClientInput) => {
     try {
       const updatedClient = await clientServices.updateClient(id, clientData);
       setClients((prev) =>
-        prev.map((client) => (client.id === id ? updatedClient : client))
+        prev.map((client) => (client._id === id ? updatedClient : client))
       );
       toast({
         title: "Success",
@@ -209,7 +163,7 @@ export const DataProvider = ({ children }: { children: ReactNode }) => {
   const deleteClient = async (id: string) => {
     try {
       await clientServices.deleteClient(id);
-      setClients((prev) => prev.filter((client) => client.id !== id));
+      setClients((prev) => prev.filter((client) => client._id !== id));
       toast({
         title: "Success",
         description: "Client deleted successfully",
@@ -227,12 +181,14 @@ export const DataProvider = ({ children }: { children: ReactNode }) => {
   };
 
   // Add new receipt
-  const addReceipt = async (
-    receiptData: Omit<Receipt, "id" | "createdAt" | "updatedAt">
-  ) => {
+  const addReceipt = async (receiptData: ShopReceiptInput) => {
     try {
-      const newReceipt = await receiptServices.createReceipt(receiptData);
+      const { receipt: newReceipt, client } =
+        await receiptServices.saveReceipt(receiptData);
       setReceipts((prev) => [...prev, newReceipt]);
+      setClients((prev) =>
+        prev.map((c) => (c._id === client._id ? client : c))
+      );
       toast({
         title: "Success",
         description: "Receipt added successfully",
@@ -251,14 +207,15 @@ export const DataProvider = ({ children }: { children: ReactNode }) => {
   };
 
   // Update receipt
-  const updateReceipt = async (id: string, receiptData: Partial<Receipt>) => {
+  const updateReceipt = async (id: string, receiptData: ShopReceiptInput) => {
     try {
-      const updatedReceipt = await receiptServices.updateReceipt(
-        id,
-        receiptData
-      );
+      const { receipt: updatedReceipt, client } =
+        await receiptServices.saveReceipt(receiptData, id);
       setReceipts((prev) =>
-        prev.map((receipt) => (receipt.id === id ? updatedReceipt : receipt))
+        prev.map((receipt) => (receipt._id === id ? updatedReceipt : receipt))
+      );
+      setClients((prev) =>
+        prev.map((c) => (c._id === client._id ? client : c))
       );
       toast({
         title: "Success",
@@ -281,7 +238,7 @@ export const DataProvider = ({ children }: { children: ReactNode }) => {
   const deleteReceipt = async (id: string) => {
     try {
       await receiptServices.deleteReceipt(id);
-      setReceipts((prev) => prev.filter((receipt) => receipt.id !== id));
+      setReceipts((prev) => prev.filter((receipt) => receipt._id !== id));
       toast({
         title: "Success",
         description: "Receipt deleted successfully",
@@ -327,13 +284,12 @@ export const DataProvider = ({ children }: { children: ReactNode }) => {
     return 0;
   }
 
-  // Fetch a single client by ID and return with parsed balance and balanceHistory
+  // Fetch a single client by ID and return with parsed balanceHistory
   const getClientById = async (id: string) => {
     try {
       const client = await clientServices.getClient(id);
       if (!client) throw new Error("Client not found");
-      // Parse balance and balanceHistory
-      const parsedBalance = extractBalance(client.balance);
+      // Parse balanceHistory
       const parsedBalanceHistory = (client.balanceHistory || []).map(
         (entry: any) => ({
           ...entry,
@@ -346,7 +302,6 @@ export const DataProvider = ({ children }: { children: ReactNode }) => {
       );
       return {
         ...client,
-        balance: parsedBalance,
         balanceHistory: parsedBalanceHistory,
       };
     } catch (err) {
@@ -0,0 +1,25 @@
+import { createContext, useContext } from "react";
+import { Permission, User } from "@/services/api";
+
+export interface AuthContextType {
+  user: User | null;
+  // True until a stored token has been checked with the server
+  isLoading: boolean;
+  login: (username: string, password: string) => Promise<User>;
+  logout: () => Promise<void>;
+  can: (permission: Permission) => boolean;
+}
+
+// Provided by AuthProvider; kept out of its file so that file only exports
+// components
+export const AuthContext = createContext<AuthContextType | undefined>(
+  undefined
+);
+
+export const useAuth = () => {
+  const context = useContext(AuthContext);
+  if (context === undefined) {
+    throw new Error("useAuth must be used within an AuthProvider");
+  }
+  return context;
+};
@@ -0,0 +1,131 @@
+import { format } from "date-fns";
+import { jsPDF } from "jspdf";
+import autoTable from "jspdf-autotable";
+import { AgeingReport } from "@/services/api";
+import { AGEING_BUCKETS } from "@/lib/ageing";
+import { drawBranding, drawPageBorder } from "@/lib/receipt-pdf";
+import { downloadCsv, SpreadsheetCell } from "@/lib/spreadsheet";
+
+const HEADERS = [
+  "Client",
+  "Shop",
+  "Metal",
+  ...AGEING_BUCKETS.map((bucket) => `${bucket.label} (g)`),
+  "Total (g)",
+  "Oldest",
+  "Age (days)",
+];
+
+const formatDay = (day: string) =>
+  format(new Date(`${day}T00:00`), "dd/MM/yyyy");
+
+const fileNameFor = (report: AgeingReport, metal?: string) =>
+  `ageing_${metal ? `${metal.toLowerCase()}_` : ""}${report.asOf}`;
+
+// One row per client and metal, then one total row per metal
+const reportRows = <T>(
+  report: AgeingReport,
+  cell: (grams: number) => T
+): (string | number | T)[][] => [
+  ...report.rows.map((row) => [
+    row.clientName,
+    row.shopName,
+    row.metal,
+    ...AGEING_BUCKETS.map((bucket) => cell(row.buckets[bucket.key])),
+    cell(row.balance),
+    formatDay(row.oldestDate),
+    row.ageDays,
+  ]),
+  ...report.totals.map((total) => [
+    "Total",
+    "",
+    total.metal,
+    ...AGEING_BUCKETS.map((bucket) => cell(total.buckets[bucket.key])),
+    cell(total.balance),
+    "",
+    "",
+  ]),
+];
+
+// The report as shown, one line per client and metal with the grams in each
+// age bucket, for a spreadsheet
+export const downloadAgeingCsv = (report: AgeingReport, metal?: string) =>
+  downloadCsv(fileNameFor(report, metal), [
+    HEADERS,
+    ...reportRows<SpreadsheetCell>(report, (grams) => grams),
+  ]);
+
+// A branded ageing PDF, styled like the statement PDF: golden border and
+// logo, then a single table with the metal totals at the bottom
+export const downloadAgeingPDF = (report: AgeingReport, metal?: string) => {
+  const doc = new jsPDF("p", "mm", "a4");
+  const pageWidth = doc.internal.pageSize.getWidth();
+  drawBranding(doc);
+  let y = 34;
+
+  doc.setFontSize(14);
+  doc.setFont("helvetica", "bold");
+  doc.text("Outstanding Ageing Report", pageWidth / 2, y, {
+    align: "center",
+  });
+  y += 6;
+  doc.setFontSize(10);
+  doc.setFont("helvetica", "normal");
+  doc.text(
+    `As of ${formatDay(report.asOf)} - ${metal || "All metals"}`,
+    pageWidth / 2,
+    y,
+    { align: "center" }
+  );
+  y += 6;
+
+  if (report.rows.length === 0) {
+    doc.text("Nothing is outstanding", 15, y + 4);
+  } else {
+    const rows = reportRows(report, (grams) => grams.toFixed(3));
+    autoTable(doc, {
+      startY: y,
+      head: [HEADERS],
+      body: rows,
+      theme: "grid",
+      styles: {
+        fontSize: 8,
+        cellPadding: 2,
+        textColor: [0, 0, 0],
+      },
+      headStyles: {
+        fillColor: [255, 255, 255],
+        textColor: [0, 0, 0],
+        fontStyle: "bold",
+        lineWidth: 0.1,
+        lineColor: [0, 0, 0],
+      },
+      bodyStyles: {
+        lineWidth: 0.1,
+        lineColor: [0, 0, 0],
+      },
+      columnStyles: {
+        3: { halign: "right" },
+        4: { halign: "right" },
+        5: { halign: "right" },
+        6: { halign: "right" },
+        7: { halign: "right", fontStyle: "bold" },
+        9: { halign: "right" },
+      },
+      didParseCell: (data) => {
+        // The metal totals stand out from the clients
+        if (
+          data.section === "body" &&
+          data.row.index >= report.rows.length
+        ) {
+          data.cell.styles.fontStyle = "bold";
+          data.cell.styles.fillColor = [240, 240, 240];
+        }
+      },
+      didDrawPage: () => drawPageBorder(doc),
+      margin: { left: 15, right: 15, top: 15 },
+    });
+  }
+
+  doc.save(`${fileNameFor(report, metal)}.pdf`);
+};
@@ -0,0 +1,33 @@
+// Ageing of what clients owe in metal. Credits settle a client's oldest
+// debits first, so whatever is still owed sits on the newest receipts, and
+// each unsettled part is aged from its receipt's date. Like
+// receipt-calculations, the backend imports this file.
+
+export type AgeingBucket = "0-30" | "31-60" | "61-90" | "90+";
+
+export const AGEING_BUCKETS: { key: AgeingBucket; label: string }[] = [
+  { key: "0-30", label: "0–30 days" },
+  { key: "31-60", label: "31–60 days" },
+  { key: "61-90", label: "61–90 days" },
+  { key: "90+", label: "90+ days" },
+];
+
+export const ageingBucketFor = (days: number): AgeingBucket => {
+  if (days <= 30) return "0-30";
+  if (days <= 60) return "31-60";
+  if (days <= 90) return "61-90";
+  return "90+";
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Whole days from one yyyy-MM-dd to another, never negative
+export const daysBetween = (from: string, to: string): number =>
+  Math.max(
+    Math.round(
+      (new Date(`${to}T00:00:00Z`).getTime() -
+        new Date(`${from}T00:00:00Z`).getTime()) /
+        DAY_MS
+    ),
+    0
+  );
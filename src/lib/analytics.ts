@@ -0,0 +1,180 @@
+// What the analytics endpoints answer, and how receipts add up in them. Shop
+// and work receipts are counted together and apart: a shop receipt
+// processes its gross weight on its issue date, a work receipt its finished
+// ornament weight on the date the metal was given. Cancelled receipts count
+// for neither. Like receipt-calculations, the backend imports this file.
+
+import { fromMg, NumericInput, toMg } from "./receipt-calculations";
+
+export interface Trend {
+  // Percentage change, rounded and without its sign
+  value: number;
+  isPositive: boolean;
+}
+
+export interface StatValue {
+  value: number | string;
+  trend: Trend;
+}
+
+// Dashboard periods run up to today and are compared with the same stretch
+// of the period before; a custom period needs `from` and `to`
+export type DashboardPeriod =
+  | "this-month"
+  | "last-month"
+  | "quarter"
+  | "financial-year"
+  | "custom";
+
+export interface PeriodParams {
+  period?: DashboardPeriod;
+  from?: string;
+  to?: string;
+}
+
+// Both days included, yyyy-MM-dd
+export interface DateRange {
+  from: string;
+  to: string;
+}
+
+export interface PeriodRange extends DateRange {
+  previous: DateRange;
+}
+
+// GET /api/analytics/dashboard. Counts and weight are for the period, the
+// outstanding value at the rates at its end.
+export interface DashboardStats {
+  period: PeriodRange;
+  stats: {
+    // Clients added in the period, and the shop and work receipts it
+    // processed
+    totalClients: StatValue;
+    totalReceipts: StatValue;
+    adminReceipts: StatValue;
+    // Grams shop and work receipts processed
+    totalWeight: StatValue;
+    // Metal clients owe, in rupees; metals without a rate are listed in
+    // `unpriced` and not counted
+    outstandingValue: StatValue & { unpriced: string[] };
+  };
+}
+
+export type ReceiptKind = "shop" | "work";
+
+// How many receipts and the grams they processed
+export interface Tally {
+  count: number;
+  totalWeight: number;
+}
+
+// Both kinds of receipt together, then each on its own
+export interface ReceiptTally extends Tally {
+  shop: Tally;
+  work: Tally;
+}
+
+// GET /api/analytics/sales: one per day with receipts, oldest first
+export interface SalesByDate extends ReceiptTally {
+  date: string;
+}
+
+// GET /api/analytics/metal-types: one per metal
+export interface MetalTypeDistribution extends ReceiptTally {
+  type: string;
+}
+
+// One per month (1-12) with receipts
+export interface MonthlyWeight extends ReceiptTally {
+  month: number;
+}
+
+// GET /api/analytics/yearly-comparison: this calendar year against the last
+export interface YearlyComparison {
+  currentYear: MonthlyWeight[];
+  previousYear: MonthlyWeight[];
+}
+
+export interface TrendPoint {
+  // Day, or month for long periods, from the start of each range
+  index: number;
+  // yyyy-MM-dd, or yyyy-MM per month; missing past the end of its range
+  label?: string;
+  previousLabel?: string;
+  current: ReceiptTally;
+  previous: ReceiptTally;
+}
+
+// GET /api/analytics/trend
+export interface PeriodTrend extends PeriodRange {
+  unit: "day" | "month";
+  points: TrendPoint[];
+}
+
+export const emptyTally = (): ReceiptTally => ({
+  count: 0,
+  totalWeight: 0,
+  shop: { count: 0, totalWeight: 0 },
+  work: { count: 0, totalWeight: 0 },
+});
+
+const addTo = (tally: Tally, grams: NumericInput) => {
+  tally.count += 1;
+  tally.totalWeight = fromMg(toMg(tally.totalWeight) + toMg(grams));
+};
+
+// Counts one receipt of a kind, adding up in whole milligrams
+export const tallyReceipt = (
+  tally: ReceiptTally,
+  kind: ReceiptKind,
+  grams: NumericInput
+) => {
+  addTo(tally, grams);
+  addTo(tally[kind], grams);
+};
+
+// Dashboard activity, read from the audit log. A receipt update that leaves
+// it cancelled is a cancellation, one that locks or unlocks it a finalize or
+// reopen; any other one is an edit. Recording and voiding a payment are both
+// payments.
+export type ActivityType =
+  | "receipt-created"
+  | "receipt-edited"
+  | "receipt-cancelled"
+  | "receipt-finalized"
+  | "receipt-reopened"
+  | "payment"
+  | "client-created";
+
+export interface ActivityParams {
+  type?: ActivityType;
+  userId?: string;
+  // 10 unless given, at most 50
+  limit?: number;
+}
+
+export interface ActivityItem {
+  // The audit entry it comes from
+  _id: string;
+  type: ActivityType;
+  entityType: "client" | "receipt" | "adminReceipt" | "payment";
+  entityId: string;
+  // Voucher, payment number or client name
+  label: string;
+  // "Shop receipt created", "Payment voided"
+  summary: string;
+  clientId?: string;
+  clientName?: string;
+  userId?: string;
+  userName?: string;
+  reason?: string;
+  createdAt: string;
+}
+
+// GET /api/analytics/activity: newest first, with everyone who appears in
+// the feed (whatever the filters) for picking a user
+export interface ActivityFeed {
+  success: boolean;
+  data: ActivityItem[];
+  users: { userId: string; userName: string }[];
+}
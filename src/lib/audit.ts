@@ -0,0 +1,45 @@
+import { AuditAction, AuditEntityType } from "@/services/api";
+
+export const AUDIT_ENTITY_LABELS: Record<AuditEntityType, string> = {
+  client: "Client",
+  receipt: "Shop Receipt",
+  adminReceipt: "Work Receipt",
+  balance: "Balance",
+  payment: "Payment",
+  rate: "Metal Rate",
+  workBill: "Work Bill",
+  clientBill: "Client Bill",
+};
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  create: "Created",
+  update: "Updated",
+  delete: "Deleted",
+  restore: "Restored",
+  purge: "Purged",
+};
+
+// Where the audited record is shown; balance changes and payments belong to
+// the client, and every rate and bill is on its list page
+export const auditEntityPath = (
+  entityType: AuditEntityType,
+  entityId: string,
+  clientId?: string
+) => {
+  switch (entityType) {
+    case "payment":
+      return `/clients/${clientId}`;
+    case "rate":
+      return "/rates";
+    case "receipt":
+      return `/receipts/${entityId}`;
+    case "adminReceipt":
+      return `/admin-receipts/${entityId}`;
+    case "workBill":
+      return "/admin-bills";
+    case "clientBill":
+      return "/client-bills";
+    default:
+      return `/clients/${entityId}`;
+  }
+};
@@ -0,0 +1,72 @@
+// Client balances per metal. Gold, silver and platinum are never added
+// together: every ledger entry belongs to one metal and a client has one
+// balance for each. Balances are in fine weight (a receipt's final weight is
+// already worked out at its touch), so purities of the same metal share a
+// balance. Like receipt-calculations, the backend imports this file.
+
+import {
+  formatGrams,
+  fromMg,
+  NumericInput,
+  toMg,
+} from "./receipt-calculations";
+
+// Grams owed per metal; metals the client has nothing on are left out
+export type MetalBalances = Record<string, number>;
+
+// Receipts without a metal type (entries from before metals were kept apart)
+// are gold
+export const DEFAULT_METAL = "Gold";
+
+export const METALS = ["Gold", "Silver", "Platinum", "Other"];
+
+export const metalOf = (metal?: string | null): string =>
+  metal?.trim() || DEFAULT_METAL;
+
+export const balanceFor = (
+  balances: MetalBalances | null | undefined,
+  metal?: string | null
+): number => balances?.[metalOf(metal)] ?? 0;
+
+// Adds up weights per metal in whole milligrams, dropping metals that come
+// to zero
+export const sumByMetal = <T>(
+  items: T[] | null | undefined,
+  metal: (item: T) => string | null | undefined,
+  amount: (item: T) => NumericInput
+): MetalBalances => {
+  const mg: Record<string, number> = {};
+  (items || []).forEach((item) => {
+    const key = metalOf(metal(item));
+    mg[key] = (mg[key] || 0) + toMg(amount(item));
+  });
+  return Object.fromEntries(
+    Object.entries(mg)
+      .filter(([, total]) => total !== 0)
+      .map(([key, total]) => [key, fromMg(total)])
+  );
+};
+
+// Non-zero balances, the usual metals first
+export const balanceEntries = (
+  balances: MetalBalances | null | undefined
+): [string, number][] => {
+  const rank = (metal: string) => {
+    const index = METALS.indexOf(metal);
+    return index === -1 ? METALS.length : index;
+  };
+  return Object.entries(balances || {})
+    .filter(([, grams]) => grams !== 0)
+    .sort(([a], [b]) => rank(a) - rank(b) || a.localeCompare(b));
+};
+
+export const hasBalance = (balances: MetalBalances | null | undefined) =>
+  balanceEntries(balances).length > 0;
+
+// "Gold 12.500 g, Silver 3.000 g", or "Nil" when nothing is owed either way
+export const formatBalances = (
+  balances: MetalBalances | null | undefined
+): string =>
+  balanceEntries(balances)
+    .map(([metal, grams]) => `${metal} ${formatGrams(grams)} g`)
+    .join(", ") || "Nil";
@@ -0,0 +1,124 @@
+// Daily metal rates and what grams are worth at them. A rate is entered by
+// hand per metal and purity in rupees per gram; entries are only ever added,
+// so the rate in effect on a day is the last one entered on or before it.
+// Balances are in fine weight, so they are valued at the fine rate worked
+// out from the purest rate entered for the metal. Like
+// receipt-calculations, the backend imports this file.
+
+import { balanceEntries, MetalBalances, metalOf } from "./metal-balances";
+import { NumericInput, toNumber } from "./receipt-calculations";
+import { formatRupees, fromPaise, toPaise, toRupees } from "./payments";
+
+export interface RateQuote {
+  metal: string;
+  // Touch, as a percentage of fine metal
+  purity: number;
+  // Rupees per gram at that purity
+  rate: number;
+  // yyyy-MM-dd the rate is for
+  date: string;
+}
+
+// Purities offered on the daily entry form, purest first
+export const RATE_PURITIES: Record<string, number[]> = {
+  Gold: [99.9, 91.6],
+  Silver: [99.9],
+  Platinum: [95],
+};
+
+export const RATE_METALS = Object.keys(RATE_PURITIES);
+
+export const isValidPurity = (value: unknown): boolean => {
+  const purity = toNumber(value as NumericInput);
+  return purity > 0 && purity <= 100;
+};
+
+// Same metal and purity, whatever the date
+export const rateKey = (quote: Pick<RateQuote, "metal" | "purity">) =>
+  `${metalOf(quote.metal)}@${toNumber(quote.purity)}`;
+
+// The quotes for one metal, purest first
+export const quotesFor = (
+  quotes: RateQuote[] | null | undefined,
+  metal?: string | null
+): RateQuote[] =>
+  (quotes || [])
+    .filter((quote) => metalOf(quote.metal) === metalOf(metal))
+    .sort((a, b) => b.purity - a.purity);
+
+// Rupees per gram of fine metal, from the purest quote for the metal, or
+// undefined when no rate has been entered for it
+export const fineRate = (
+  quotes: RateQuote[] | null | undefined,
+  metal?: string | null
+): number | undefined => {
+  const purest = quotesFor(quotes, metal)[0];
+  if (!purest) return undefined;
+  return toRupees((purest.rate * 100) / purest.purity);
+};
+
+// What fine grams of a metal are worth, or undefined without a rate
+export const valueOfGrams = (
+  grams: NumericInput,
+  quotes: RateQuote[] | null | undefined,
+  metal?: string | null
+): number | undefined => {
+  const rate = fineRate(quotes, metal);
+  return rate === undefined ? undefined : toRupees(toNumber(grams) * rate);
+};
+
+// Each metal balance in rupees and their total. Metals without a rate are
+// listed in `unpriced` and left out of the total rather than counted as
+// nothing.
+export const valueBalances = (
+  balances: MetalBalances | null | undefined,
+  quotes: RateQuote[] | null | undefined
+) => {
+  const values: Record<string, number> = {};
+  const unpriced: string[] = [];
+  let totalPaise = 0;
+  balanceEntries(balances).forEach(([metal, grams]) => {
+    const value = valueOfGrams(grams, quotes, metal);
+    if (value === undefined) {
+      unpriced.push(metal);
+      return;
+    }
+    values[metal] = value;
+    totalPaise += toPaise(value);
+  });
+  return { values, total: fromPaise(totalPaise), unpriced };
+};
+
+// A receipt's lines in rupees: metal lines (grams) at the fine rate, the
+// rest (stone amounts) as they are. The total leaves out lines without a
+// rate, and `complete` says whether any were left out.
+export interface ValuationItem {
+  label: string;
+  grams?: NumericInput;
+  amount?: NumericInput;
+}
+
+export const valueItems = (
+  items: ValuationItem[],
+  quotes: RateQuote[] | null | undefined,
+  metal?: string | null
+) => {
+  const rows = items.map((item) => ({
+    ...item,
+    value:
+      item.grams === undefined
+        ? toRupees(item.amount)
+        : valueOfGrams(item.grams, quotes, metal),
+  }));
+  return {
+    rows,
+    total: fromPaise(
+      rows.reduce((sum, row) => sum + toPaise(row.value ?? 0), 0)
+    ),
+    complete: rows.every((row) => row.value !== undefined),
+  };
+};
+
+// "Gold 99.9% ₹7000.00/g"
+export const formatQuote = (quote: RateQuote): string =>
+  `${metalOf(quote.metal)} ${quote.purity}% ${formatRupees(quote.rate)}/g`;
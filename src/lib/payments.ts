@@ -0,0 +1,58 @@
+// Money received from clients. A shop receipt charges its amount to the
+// client's cash balance and payments credit it, next to (never mixed with)
+// the metal balances. Amounts are rupees, added up in whole paise. Like
+// receipt-calculations, the backend imports this file.
+
+import { NumericInput, toNumber } from "./receipt-calculations";
+
+export type PaymentMethod = "cash" | "upi" | "bank";
+
+export type PaymentStatus = "Pending" | "Partial" | "Paid";
+
+export const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+  cash: "Cash",
+  upi: "UPI",
+  bank: "Bank Transfer",
+};
+
+export const isPaymentMethod = (value: unknown): value is PaymentMethod =>
+  Object.keys(PAYMENT_METHOD_LABELS).includes(value as string);
+
+/* Fixed-point rupees */
+
+export const toPaise = (rupees: NumericInput): number =>
+  Math.round(toNumber(rupees) * 100);
+
+export const fromPaise = (paise: number): number => paise / 100;
+
+// An amount in rupees, trimmed to the nearest paisa
+export const toRupees = (value: NumericInput): number =>
+  fromPaise(toPaise(value));
+
+export const sumRupees = <T>(
+  items: T[] | null | undefined,
+  pick: (item: T) => NumericInput
+): number =>
+  fromPaise((items || []).reduce((sum, item) => sum + toPaise(pick(item)), 0));
+
+export const formatRupees = (value: NumericInput): string =>
+  `₹${toRupees(value).toFixed(2)}`;
+
+// What a shop receipt charges: its invoice amount, or the stone amount when
+// no invoice amount was entered
+export const receiptAmountDue = (
+  totals:
+    | { stoneAmt?: NumericInput; totalInvoiceAmount?: NumericInput }
+    | null
+    | undefined
+): number =>
+  toRupees(toNumber(totals?.totalInvoiceAmount) || totals?.stoneAmt);
+
+export const paymentStatusFor = (
+  amountDue: NumericInput,
+  amountPaid: NumericInput
+): PaymentStatus => {
+  const paid = toPaise(amountPaid);
+  if (paid <= 0) return "Pending";
+  return paid >= toPaise(amountDue) ? "Paid" : "Partial";
+};
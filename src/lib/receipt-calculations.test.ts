@@ -0,0 +1,146 @@
+import { describe, expect, it } from "vitest";
+import {
+  BALANCE_TAG,
+  manualResult,
+  roundMg,
+  shopGivenTotals,
+  shopGivenWeights,
+  shopReceiptBalance,
+  shopReceivedFinalWt,
+  workGivenTotal,
+  workReceivedAmounts,
+} from "./receipt-calculations";
+
+describe("shopGivenWeights", () => {
+  it("takes the stones off the gross and the net at the touch", () => {
+    expect(
+      shopGivenWeights({ grossWt: "12.5", stoneWt: "0.5", meltingTouch: "91.6" })
+    ).toEqual({ netWt: 12, finalWt: 10.992 });
+  });
+
+  it("treats empty fields as 0", () => {
+    expect(
+      shopGivenWeights({ grossWt: "", stoneWt: undefined, meltingTouch: "" })
+    ).toEqual({ netWt: 0, finalWt: 0 });
+  });
+
+  it("rounds the final weight to the metal's step", () => {
+    const item = { grossWt: 10.003, stoneWt: 0, meltingTouch: 50 };
+    expect(shopGivenWeights(item, "Gold").finalWt).toBe(5.002);
+    expect(shopGivenWeights(item, "Silver").finalWt).toBe(5);
+  });
+});
+
+describe("shopReceivedFinalWt", () => {
+  it("takes the melting percentage off the received gold", () => {
+    expect(shopReceivedFinalWt({ receivedGold: 10, melting: 2.5 })).toBe(9.75);
+  });
+
+  it("keeps all of it with no melting", () => {
+    expect(shopReceivedFinalWt({ receivedGold: "4.321", melting: "" })).toBe(
+      4.321
+    );
+  });
+});
+
+describe("workGivenTotal", () => {
+  it("is weight times purity over melting", () => {
+    expect(
+      workGivenTotal({ pureWeight: 10, purePercent: 91.6, melting: 92 })
+    ).toBe(9.957);
+  });
+
+  it("counts an empty melting as 1", () => {
+    expect(
+      workGivenTotal({ pureWeight: 2, purePercent: 0.5, melting: "" })
+    ).toBe(1);
+  });
+});
+
+describe("workReceivedAmounts", () => {
+  it("adds the making charge to the ornaments less stones", () => {
+    expect(
+      workReceivedAmounts({
+        finalOrnamentsWt: 25,
+        stoneWeight: 1.5,
+        makingChargePercent: 8,
+      })
+    ).toEqual({ subTotal: 23.5, makingCharge: 1.88, total: 25.38 });
+  });
+
+  it("has no making charge without a percentage", () => {
+    expect(
+      workReceivedAmounts({
+        finalOrnamentsWt: "5.125",
+        stoneWeight: "",
+        makingChargePercent: "",
+      })
+    ).toEqual({ subTotal: 5.125, makingCharge: 0, total: 5.125 });
+  });
+});
+
+describe("manualResult", () => {
+  it("subtracts received from given", () => {
+    expect(manualResult(10.5, 3.25, "subtract-given-received")).toBe(7.25);
+  });
+
+  it("subtracts given from received", () => {
+    expect(manualResult(10.5, 3.25, "subtract-received-given")).toBe(-7.25);
+  });
+
+  it("adds both", () => {
+    expect(manualResult("10.5", "3.25", "add")).toBe(13.75);
+  });
+
+  it("is 0 for an unknown operation", () => {
+    expect(manualResult(10.5, 3.25, "multiply")).toBe(0);
+    expect(manualResult(10.5, 3.25, undefined)).toBe(0);
+  });
+
+  it("adds up exactly to the milligram", () => {
+    expect(manualResult(0.1, 0.2, "add")).toBe(0.3);
+  });
+});
+
+describe("shopReceiptBalance", () => {
+  const givenItems = [
+    { tag: BALANCE_TAG, netWt: 4, finalWt: 4 },
+    { tag: "", netWt: 10, finalWt: 9 },
+  ];
+  const receivedItems = [{ finalWt: 2 }];
+
+  it("leaves out the balance row", () => {
+    expect(shopReceiptBalance(givenItems, receivedItems)).toBe(7);
+  });
+
+  it("can go negative", () => {
+    expect(shopReceiptBalance(givenItems, [{ finalWt: 12.5 }])).toBe(-3.5);
+  });
+
+  it("still shows the balance row in the given totals", () => {
+    expect(shopGivenTotals(givenItems).finalWt).toBe(13);
+  });
+});
+
+describe("roundMg", () => {
+  it("rounds half up to the milligram by default", () => {
+    expect(roundMg(1234.5)).toBe(1235);
+    expect(roundMg(1234.4, "Gold")).toBe(1234);
+    expect(roundMg(1234.5, "Copper")).toBe(1235);
+  });
+
+  it("rounds Silver to 10 mg", () => {
+    expect(roundMg(1234, "Silver")).toBe(1230);
+    expect(roundMg(1235, "Silver")).toBe(1240);
+  });
+
+  it("rounds negative weights away from zero", () => {
+    expect(roundMg(-1234.5, "Gold")).toBe(-1235);
+    expect(roundMg(-1235, "Silver")).toBe(-1240);
+    expect(roundMg(-5, "Silver")).toBe(-10);
+  });
+
+  it("tolerates float noise", () => {
+    expect(roundMg(12.499999999)).toBe(13);
+  });
+});
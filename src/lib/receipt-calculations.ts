@@ -0,0 +1,285 @@
+// Goldsmith receipt formulas. The receipt forms, detail pages and PDFs use
+// these, and so does the backend (by relative import), so a receipt works
+// out the same wherever it is shown or posted. Weights go in and come out in
+// grams, and inputs may be the raw strings the forms hold, but every step in
+// between is done in whole milligrams so long receipts and running balances
+// add up exactly.
+
+export type NumericInput = number | string | null | undefined;
+
+// Empty or unparsable input counts as 0
+export const toNumber = (value: NumericInput): number => {
+  const num = typeof value === "number" ? value : parseFloat(String(value));
+  return Number.isFinite(num) ? num : 0;
+};
+
+// For amounts that are not weights (stone amounts, counts)
+export const sumOf = <T>(
+  items: T[] | null | undefined,
+  pick: (item: T) => NumericInput
+): number =>
+  (items || []).reduce((sum, item) => sum + toNumber(pick(item)), 0);
+
+/* Fixed-point weights */
+
+export const MG_PER_GRAM = 1000;
+
+export const toMg = (grams: NumericInput): number =>
+  Math.round(toNumber(grams) * MG_PER_GRAM);
+
+export const fromMg = (mg: number): number => mg / MG_PER_GRAM;
+
+// A weight in grams, trimmed to the nearest milligram
+export const toGrams = (value: NumericInput): number => fromMg(toMg(value));
+
+export const sumGrams = <T>(
+  items: T[] | null | undefined,
+  pick: (item: T) => NumericInput
+): number =>
+  fromMg((items || []).reduce((sum, item) => sum + toMg(pick(item)), 0));
+
+export const formatGrams = (value: NumericInput): string =>
+  toGrams(value).toFixed(3);
+
+export type RoundingMode = "half-up" | "down" | "up";
+
+export interface RoundingRule {
+  mode: RoundingMode;
+  // Smallest weight the scale shows for this metal
+  stepMg: number;
+}
+
+// How weights worked out from a percentage (touch, melting, making charge)
+// round, per metal type. Metals not listed use `default`.
+export const ROUNDING_RULES: Record<string, RoundingRule> = {
+  default: { mode: "half-up", stepMg: 1 },
+  Gold: { mode: "half-up", stepMg: 1 },
+  Platinum: { mode: "half-up", stepMg: 1 },
+  Silver: { mode: "half-up", stepMg: 10 },
+};
+
+export const roundMg = (mg: number, metal?: string): number => {
+  const { mode, stepMg } =
+    (metal && ROUNDING_RULES[metal]) || ROUNDING_RULES.default;
+  // Tolerate float noise such as 12.5 arriving as 12.499999999
+  const steps = Math.round((mg / stepMg) * 1e6) / 1e6;
+  const rounded =
+    mode === "down"
+      ? Math.floor(steps)
+      : mode === "up"
+      ? Math.ceil(steps)
+      : Math.sign(steps) * Math.round(Math.abs(steps));
+  return rounded * stepMg;
+};
+
+/* Shop receipts */
+
+// Tag of the "Previous Balance" row the shop receipt form adds; that weight
+// is already on the client's balance, so it is not part of what the receipt
+// moves
+export const BALANCE_TAG = "BALANCE";
+
+export interface ShopGivenInput {
+  tag?: string;
+  grossWt?: NumericInput;
+  stoneWt?: NumericInput;
+  meltingTouch?: NumericInput;
+  netWt?: NumericInput;
+  finalWt?: NumericInput;
+  stoneAmt?: NumericInput;
+  totalInvoiceAmount?: NumericInput;
+}
+
+export interface ShopReceivedInput {
+  receivedGold?: NumericInput;
+  melting?: NumericInput;
+  finalWt?: NumericInput;
+}
+
+export interface ShopGivenTotals {
+  grossWt: number;
+  stoneWt: number;
+  netWt: number;
+  finalWt: number;
+  stoneAmt: number;
+  totalInvoiceAmount: number;
+}
+
+// Net is gross less stones; final is the net weight at the melting touch
+export const shopGivenWeights = (
+  item: Pick<ShopGivenInput, "grossWt" | "stoneWt" | "meltingTouch">,
+  metal?: string
+) => {
+  const netMg = toMg(item.grossWt) - toMg(item.stoneWt);
+  const finalMg = roundMg((netMg * toNumber(item.meltingTouch)) / 100, metal);
+  return { netWt: fromMg(netMg), finalWt: fromMg(finalMg) };
+};
+
+// Received gold less its melting percentage
+export const shopReceivedFinalWt = (
+  item: Pick<ShopReceivedInput, "receivedGold" | "melting">,
+  metal?: string
+): number => {
+  const goldMg = toMg(item.receivedGold);
+  const meltingMg = roundMg((goldMg * toNumber(item.melting)) / 100, metal);
+  return fromMg(goldMg - meltingMg);
+};
+
+// Totals add up the weights already worked out on each row, so rows whose
+// final weight is entered directly (the balance row) count as they are
+export const shopGivenTotals = (
+  items: ShopGivenInput[] | null | undefined
+): ShopGivenTotals => ({
+  grossWt: sumGrams(items, (item) => item.grossWt),
+  stoneWt: sumGrams(items, (item) => item.stoneWt),
+  netWt: sumGrams(items, (item) => item.netWt),
+  finalWt: sumGrams(items, (item) => item.finalWt),
+  stoneAmt: sumOf(items, (item) => item.stoneAmt),
+  totalInvoiceAmount: sumOf(items, (item) => item.totalInvoiceAmount),
+});
+
+export const shopReceivedTotal = (
+  items: ShopReceivedInput[] | null | undefined
+): number => sumGrams(items, (item) => item.finalWt);
+
+// What the receipt adds to the client's balance: final weight given, less
+// the balance row, minus final weight received
+export const shopReceiptBalance = (
+  givenItems: ShopGivenInput[] | null | undefined,
+  receivedItems: ShopReceivedInput[] | null | undefined
+): number =>
+  fromMg(
+    toMg(
+      sumGrams(
+        (givenItems || []).filter((item) => item.tag !== BALANCE_TAG),
+        (item) => item.finalWt
+      )
+    ) - toMg(shopReceivedTotal(receivedItems))
+  );
+
+/* Work receipts */
+
+export interface WorkGivenInput {
+  productName?: string;
+  pureWeight?: NumericInput;
+  purePercent?: NumericInput;
+  melting?: NumericInput;
+  total?: NumericInput;
+}
+
+export interface WorkReceivedInput {
+  productName?: string;
+  finalOrnamentsWt?: NumericInput;
+  stoneWeight?: NumericInput;
+  makingChargePercent?: NumericInput;
+  subTotal?: NumericInput;
+  total?: NumericInput;
+}
+
+export type ManualOperation =
+  | "subtract-given-received"
+  | "subtract-received-given"
+  | "add";
+
+// Pure metal in a given lot: weight × purity ÷ melting. An empty melting
+// counts as 1 so a half-filled row does not divide by zero.
+export const workGivenTotal = (
+  item: Pick<WorkGivenInput, "pureWeight" | "purePercent" | "melting">,
+  metal?: string
+): number =>
+  fromMg(
+    roundMg(
+      (toMg(item.pureWeight) * toNumber(item.purePercent)) /
+        (toNumber(item.melting) || 1),
+      metal
+    )
+  );
+
+const workPureWeight = (
+  item: Pick<WorkGivenInput, "pureWeight" | "purePercent">,
+  metal?: string
+): number =>
+  fromMg(
+    roundMg((toMg(item.pureWeight) * toNumber(item.purePercent)) / 100, metal)
+  );
+
+// Ornaments less stones, plus the making charge as a percentage of that
+export const workReceivedAmounts = (
+  item: Pick<
+    WorkReceivedInput,
+    "finalOrnamentsWt" | "stoneWeight" | "makingChargePercent"
+  >,
+  metal?: string
+) => {
+  const subTotalMg = toMg(item.finalOrnamentsWt) - toMg(item.stoneWeight);
+  const makingChargeMg = roundMg(
+    (subTotalMg * toNumber(item.makingChargePercent)) / 100,
+    metal
+  );
+  return {
+    subTotal: fromMg(subTotalMg),
+    makingCharge: fromMg(makingChargeMg),
+    total: fromMg(subTotalMg + makingChargeMg),
+  };
+};
+
+export const workGivenTotals = (
+  items: WorkGivenInput[] | null | undefined,
+  metal?: string
+) => ({
+  totalPureWeight: sumGrams(items, (item) => workPureWeight(item, metal)),
+  total: sumGrams(items, (item) => item.total),
+});
+
+export const workReceivedTotals = (
+  items: WorkReceivedInput[] | null | undefined
+) => ({
+  totalOrnamentsWt: sumGrams(items, (item) => item.finalOrnamentsWt),
+  totalStoneWeight: sumGrams(items, (item) => item.stoneWeight),
+  totalSubTotal: sumGrams(items, (item) => item.subTotal),
+  total: sumGrams(items, (item) => item.total),
+});
+
+export const manualResult = (
+  givenTotal: NumericInput,
+  receivedTotal: NumericInput,
+  operation: string | undefined
+): number => {
+  const given = toMg(givenTotal);
+  const received = toMg(receivedTotal);
+  switch (operation as ManualOperation) {
+    case "subtract-given-received":
+      return fromMg(given - received);
+    case "subtract-received-given":
+      return fromMg(received - given);
+    case "add":
+      return fromMg(given + received);
+    default:
+      return 0;
+  }
+};
+
+// A work receipt side counts once one of its rows has a product name; the
+// blank rows the form keeps for typing into do not
+export const hasFilledRows = (
+  items?: { productName?: string }[] | null
+): boolean => !!items?.some((item) => item.productName);
+
+// What a work receipt adds to the client's balance. With both sides filled
+// in the manual calculation decides; otherwise given metal is owed and
+// received metal is credited.
+export const workReceiptBalance = (receipt: {
+  given?: { items?: WorkGivenInput[]; total?: NumericInput } | null;
+  received?: { items?: WorkReceivedInput[]; total?: NumericInput } | null;
+  manualCalculations?: { result?: NumericInput } | null;
+}): number => {
+  const hasGiven = hasFilledRows(receipt.given?.items);
+  const hasReceived = hasFilledRows(receipt.received?.items);
+
+  if (hasGiven && hasReceived) {
+    return toGrams(receipt.manualCalculations?.result);
+  }
+  if (hasGiven) return toGrams(receipt.given?.total);
+  if (hasReceived) return -toGrams(receipt.received?.total);
+  return 0;
+};
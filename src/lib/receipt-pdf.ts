@@ -0,0 +1,149 @@
+import { jsPDF } from "jspdf";
+import { ReceiptCancellation } from "@/services/api";
+import { metalOf } from "@/lib/metal-balances";
+import {
+  quotesFor,
+  RateQuote,
+  ValuationItem,
+  valueItems,
+} from "@/lib/metal-rates";
+
+// The golden border round every page of a receipt PDF
+export const drawPageBorder = (doc: jsPDF) => {
+  doc.setDrawColor(204, 153, 0);
+  doc.setLineWidth(1);
+  doc.rect(5, 5, 200, 287);
+};
+
+// Border and logo, for the first page of any PDF the shop hands out
+export const drawBranding = (doc: jsPDF) => {
+  drawPageBorder(doc);
+  try {
+    doc.addImage("/logo.jpg", "JPEG", 85, 5, 40, 20);
+  } catch (logoError) {
+    console.warn("Logo not found, continuing without logo");
+  }
+};
+
+// The top of a receipt PDF: border, logo and the client's name, shop and
+// phone with bold side titles. Returns the y below it.
+export const drawLetterhead = (
+  doc: jsPDF,
+  client: { clientName?: string; shopName?: string; phoneNumber?: string }
+) => {
+  drawBranding(doc);
+
+  doc.setFontSize(11);
+  doc.setTextColor(0, 0, 0);
+  let y = 35;
+  const marginLeft = 25;
+  [
+    ["Name", client.clientName],
+    ["Shop", client.shopName],
+    ["Phone Number", client.phoneNumber],
+  ].forEach(([title, value]) => {
+    doc.setFont("helvetica", "bold");
+    doc.text(title, marginLeft, y);
+    doc.setFont("helvetica", "normal");
+    doc.text(`: ${value || "-"}`, marginLeft + 35, y);
+    y += 6;
+  });
+  return y;
+};
+
+// Marks every page of a cancelled receipt's PDF so a printed copy can never
+// pass for a live voucher. Call it last, right before saving.
+export const stampCancelled = (
+  doc: jsPDF,
+  voucherId: string,
+  receipt: ReceiptCancellation
+) => {
+  const width = doc.internal.pageSize.getWidth();
+  const height = doc.internal.pageSize.getHeight();
+  const note = [
+    `VOUCHER ${voucherId} CANCELLED`,
+    receipt.cancelReason ? `Reason: ${receipt.cancelReason}` : "",
+  ]
+    .filter(Boolean)
+    .join(" - ");
+
+  for (let page = 1; page <= doc.getNumberOfPages(); page++) {
+    doc.setPage(page);
+    doc.setTextColor(200, 0, 0);
+
+    doc.setFont("helvetica", "bold");
+    doc.setFontSize(60);
+    doc.text("CANCELLED", width / 2, height / 2, {
+      align: "center",
+      angle: 45,
+    });
+
+    doc.setFontSize(10);
+    doc.text(note, width / 2, height - 10, { align: "center" });
+  }
+
+  doc.setTextColor(0, 0, 0);
+};
+
+// jsPDF's built-in fonts have no rupee sign
+const pdfRupees = (value: number) => `Rs. ${value.toFixed(2)}`;
+
+// jspdf-autotable leaves where its last table ended on the document
+type WithAutoTable = jsPDF & { lastAutoTable?: { finalY: number } };
+
+// Prints the rates in effect on the receipt's date and what the receipt
+// comes to at them, under the last table. Returns the y below the last line.
+export const printRateInEffect = (
+  doc: jsPDF,
+  {
+    date,
+    metal,
+    quotes,
+    items,
+    marginLeft = 15,
+  }: {
+    date: string;
+    metal?: string;
+    quotes: RateQuote[];
+    items: ValuationItem[];
+    marginLeft?: number;
+  }
+) => {
+  const metalQuotes = quotesFor(quotes, metal);
+  const valuation = valueItems(items, quotes, metal);
+  let y = ((doc as WithAutoTable).lastAutoTable?.finalY ?? 0) + 8;
+
+  doc.setFontSize(9);
+  doc.setFont("helvetica", "bold");
+  doc.text(`Rate in effect on ${date}`, marginLeft, y);
+  doc.setFont("helvetica", "normal");
+  doc.text(
+    metalQuotes.length > 0
+      ? metalQuotes
+          .map(
+            (quote) =>
+              `${quote.metal} ${quote.purity}% ${pdfRupees(quote.rate)}/g`
+          )
+          .join(", ")
+      : `No ${metalOf(metal).toLowerCase()} rate entered`,
+    marginLeft + 45,
+    y
+  );
+  y += 5;
+
+  if (metalQuotes.length === 0) return y;
+  valuation.rows.forEach((row) => {
+    doc.text(row.label, marginLeft, y);
+    doc.text(
+      row.value === undefined ? "-" : pdfRupees(row.value),
+      marginLeft + 45,
+      y
+    );
+    y += 5;
+  });
+  doc.setFont("helvetica", "bold");
+  doc.text("Value", marginLeft, y);
+  doc.text(pdfRupees(valuation.total), marginLeft + 45, y);
+  doc.setFont("helvetica", "normal");
+  return y + 5;
+};
@@ -0,0 +1,178 @@
+import {
+  ReceiptRevision,
+  ShopReceipt,
+  ShopReceiptGivenItem,
+  ShopReceiptReceivedItem,
+  WorkGivenItem,
+  WorkReceipt,
+  WorkReceivedItem,
+} from "@/services/api";
+import { fromMg, NumericInput, toMg, toNumber } from "./receipt-calculations";
+
+export type RevisedReceipt = ShopReceipt | WorkReceipt;
+
+export type ItemChangeKind = "added" | "removed" | "changed";
+
+export interface ItemFieldChange {
+  label: string;
+  before?: number;
+  after?: number;
+}
+
+// One item that differs between two versions of a receipt. Added and
+// removed items list every field; changed items only the ones that moved.
+export interface ItemChange {
+  section: "Given" | "Received";
+  name: string;
+  kind: ItemChangeKind;
+  fields: ItemFieldChange[];
+}
+
+interface FieldSpec<T> {
+  label: string;
+  pick: (item: T) => NumericInput;
+}
+
+type ItemWithId = { id?: string; _id?: string };
+
+// Items saved with an id are matched by it, the rest by position
+const itemKey = (item: ItemWithId, index: number) =>
+  item.id || item._id || `#${index}`;
+
+const compareItems = <T extends ItemWithId>(
+  section: ItemChange["section"],
+  before: T[],
+  after: T[],
+  nameOf: (item: T) => string,
+  fields: FieldSpec<T>[]
+): ItemChange[] => {
+  const beforeByKey = new Map(before.map((item, i) => [itemKey(item, i), item]));
+  const afterKeys = new Set(after.map(itemKey));
+  const changes: ItemChange[] = [];
+
+  after.forEach((item, index) => {
+    const previous = beforeByKey.get(itemKey(item, index));
+    const fieldChanges = fields
+      .map(({ label, pick }) => ({
+        label,
+        before: previous ? toNumber(pick(previous)) : undefined,
+        after: toNumber(pick(item)),
+      }))
+      .filter((field) => !previous || field.before !== field.after);
+
+    if (!previous || fieldChanges.length > 0) {
+      changes.push({
+        section,
+        name: nameOf(item),
+        kind: previous ? "changed" : "added",
+        fields: fieldChanges,
+      });
+    }
+  });
+
+  before.forEach((item, index) => {
+    if (afterKeys.has(itemKey(item, index))) return;
+    changes.push({
+      section,
+      name: nameOf(item),
+      kind: "removed",
+      fields: fields.map(({ label, pick }) => ({
+        label,
+        before: toNumber(pick(item)),
+      })),
+    });
+  });
+
+  return changes;
+};
+
+const SHOP_GIVEN_FIELDS: FieldSpec<ShopReceiptGivenItem>[] = [
+  { label: "Gross Wt (g)", pick: (item) => item.grossWt },
+  { label: "Stone Wt (g)", pick: (item) => item.stoneWt },
+  { label: "Touch %", pick: (item) => item.meltingTouch },
+  { label: "Net Wt (g)", pick: (item) => item.netWt },
+  { label: "Final Wt (g)", pick: (item) => item.finalWt },
+  { label: "Stone Amt", pick: (item) => item.stoneAmt },
+];
+
+const SHOP_RECEIVED_FIELDS: FieldSpec<ShopReceiptReceivedItem>[] = [
+  { label: "Received Gold (g)", pick: (item) => item.receivedGold },
+  { label: "Melting %", pick: (item) => item.melting },
+  { label: "Final Wt (g)", pick: (item) => item.finalWt },
+];
+
+const WORK_GIVEN_FIELDS: FieldSpec<WorkGivenItem>[] = [
+  { label: "Pure Wt (g)", pick: (item) => item.pureWeight },
+  { label: "Pure %", pick: (item) => item.purePercent },
+  { label: "Melting", pick: (item) => item.melting },
+  { label: "Total (g)", pick: (item) => item.total },
+];
+
+const WORK_RECEIVED_FIELDS: FieldSpec<WorkReceivedItem>[] = [
+  { label: "Ornaments Wt (g)", pick: (item) => item.finalOrnamentsWt },
+  { label: "Stone Wt (g)", pick: (item) => item.stoneWeight },
+  { label: "Making Charge %", pick: (item) => item.makingChargePercent },
+  { label: "Sub Total (g)", pick: (item) => item.subTotal },
+  { label: "Total (g)", pick: (item) => item.total },
+];
+
+export const shopReceiptChanges = (
+  before: ShopReceipt,
+  after: ShopReceipt
+): ItemChange[] => [
+  ...compareItems(
+    "Given",
+    before.givenItems || before.items || [],
+    after.givenItems || after.items || [],
+    (item) => item.itemName || "Item",
+    SHOP_GIVEN_FIELDS
+  ),
+  ...compareItems(
+    "Received",
+    before.receivedItems || [],
+    after.receivedItems || [],
+    (item) => (item.date ? `Received ${item.date.slice(0, 10)}` : "Received"),
+    SHOP_RECEIVED_FIELDS
+  ),
+];
+
+export const workReceiptChanges = (
+  before: WorkReceipt,
+  after: WorkReceipt
+): ItemChange[] => [
+  ...compareItems(
+    "Given",
+    before.given?.items || [],
+    after.given?.items || [],
+    (item) => item.productName || "Item",
+    WORK_GIVEN_FIELDS
+  ),
+  ...compareItems(
+    "Received",
+    before.received?.items || [],
+    after.received?.items || [],
+    (item) => item.productName || "Item",
+    WORK_RECEIVED_FIELDS
+  ),
+];
+
+export const revisionChanges = (
+  before: ReceiptRevision<RevisedReceipt>,
+  after: ReceiptRevision<RevisedReceipt>
+): ItemChange[] =>
+  after.receiptType === "receipt"
+    ? shopReceiptChanges(
+        before.snapshot as ShopReceipt,
+        after.snapshot as ShopReceipt
+      )
+    : workReceiptChanges(
+        before.snapshot as WorkReceipt,
+        after.snapshot as WorkReceipt
+      );
+
+// How much more (or, if negative, less) the later version puts on the
+// client's balance, in grams
+export const balanceImpact = (
+  before: ReceiptRevision<RevisedReceipt>,
+  after: ReceiptRevision<RevisedReceipt>
+): number => fromMg(toMg(after.balanceEffect) - toMg(before.balanceEffect));
@@ -0,0 +1,79 @@
+// Excel and CSV downloads without a spreadsheet library. A workbook is
+// written as SpreadsheetML (Excel 2003 XML), which Excel opens as it is, one
+// worksheet per sheet. Numbers are written as numbers so they can be summed.
+
+export type SpreadsheetCell = string | number | null | undefined;
+
+export interface SpreadsheetSheet {
+  name: string;
+  rows: SpreadsheetCell[][];
+}
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+// Excel refuses sheet names over 31 characters or with any of []:*?/\
+const sheetName = (name: string) =>
+  name.replace(/[[\]:*?/\\]/g, " ").slice(0, 31) || "Sheet";
+
+const cellXml = (cell: SpreadsheetCell) => {
+  if (cell === null || cell === undefined || cell === "") return "<Cell/>";
+  return typeof cell === "number"
+    ? `<Cell><Data ss:Type="Number">${cell}</Data></Cell>`
+    : `<Cell><Data ss:Type="String">${escapeXml(cell)}</Data></Cell>`;
+};
+
+const sheetXml = (sheet: SpreadsheetSheet) =>
+  `<Worksheet ss:Name="${escapeXml(sheetName(sheet.name))}"><Table>` +
+  sheet.rows.map((row) => `<Row>${row.map(cellXml).join("")}</Row>`).join("") +
+  "</Table></Worksheet>";
+
+export const workbookXml = (sheets: SpreadsheetSheet[]) =>
+  [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<?mso-application progid="Excel.Sheet"?>',
+    '<Workbook xmlns="urn:schemas-microsoft-com:office:spreadsheet" xmlns:ss="urn:schemas-microsoft-com:office:spreadsheet">',
+    ...sheets.map(sheetXml),
+    "</Workbook>",
+  ].join("\n");
+
+const saveFile = (fileName: string, content: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Browsers may start the download after click() returns, so the URL has
+  // to outlive this call
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+// Saves the workbook as `<fileName>.xls`
+export const downloadWorkbook = (
+  fileName: string,
+  sheets: SpreadsheetSheet[]
+) =>
+  saveFile(
+    `${fileName}.xls`,
+    workbookXml(sheets),
+    "application/vnd.ms-excel"
+  );
+
+// Quotes a cell when it holds a comma, quote or line break
+const csvCell = (cell: SpreadsheetCell) => {
+  const value = cell === null || cell === undefined ? "" : String(cell);
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+};
+
+// Saves the rows as `<fileName>.csv`. The byte order mark makes Excel read
+// it as UTF-8.
+export const downloadCsv = (fileName: string, rows: SpreadsheetCell[][]) =>
+  saveFile(
+    `${fileName}.csv`,
+    "\uFEFF" + rows.map((row) => row.map(csvCell).join(",")).join("\r\n"),
+    "text/csv;charset=utf-8"
+  );
@@ -0,0 +1,162 @@
+import { format } from "date-fns";
+import { jsPDF } from "jspdf";
+import autoTable from "jspdf-autotable";
+import { ClientStatement, StatementSection } from "@/services/api";
+import { drawLetterhead, drawPageBorder } from "@/lib/receipt-pdf";
+import { downloadWorkbook, SpreadsheetCell } from "@/lib/spreadsheet";
+
+const HEADERS = [
+  "Date",
+  "Voucher",
+  "Particulars",
+  "Debit",
+  "Credit",
+  "Balance",
+];
+
+const formatDay = (day: string) =>
+  format(new Date(`${day}T00:00`), "dd/MM/yyyy");
+
+const fileNameFor = (statement: ClientStatement) =>
+  `statement_${statement.client.clientName.replace(/[^a-zA-Z0-9]/g, "_")}_${
+    statement.from
+  }_${statement.to}`;
+
+const sectionTitle = (section: StatementSection) =>
+  section.unit === "g" ? `${section.metal} (g)` : `${section.metal} (Rs.)`;
+
+// Grams to the milligram, rupees to the paisa
+const formatAmount = (section: StatementSection, value: number) =>
+  value.toFixed(section.unit === "g" ? 3 : 2);
+
+// Opening row, one row per entry and the closing row with the totals
+const sectionRows = <T>(
+  section: StatementSection,
+  cell: (value: number) => T,
+  blank: T
+): (string | T)[][] => [
+  ["", "", "Opening balance", blank, blank, cell(section.opening)],
+  ...section.lines.map((line) => [
+    format(new Date(line.date), "dd/MM/yyyy"),
+    line.voucherId || "",
+    line.description,
+    line.debit ? cell(line.debit) : blank,
+    line.credit ? cell(line.credit) : blank,
+    cell(line.balance),
+  ]),
+  [
+    "",
+    "",
+    "Closing balance",
+    cell(section.totalDebit),
+    cell(section.totalCredit),
+    cell(section.closing),
+  ],
+];
+
+// A branded statement PDF, styled like the receipt PDFs: golden border, logo
+// and the client's details, then one table per metal and one for cash
+export const downloadStatementPDF = (statement: ClientStatement) => {
+  const doc = new jsPDF("p", "mm", "a4");
+  const pageWidth = doc.internal.pageSize.getWidth();
+  let y = drawLetterhead(doc, statement.client) + 6;
+
+  doc.setFontSize(14);
+  doc.setFont("helvetica", "bold");
+  doc.text("Statement of Account", pageWidth / 2, y, { align: "center" });
+  y += 6;
+  doc.setFontSize(10);
+  doc.setFont("helvetica", "normal");
+  doc.text(
+    `${formatDay(statement.from)} to ${formatDay(statement.to)}`,
+    pageWidth / 2,
+    y,
+    { align: "center" }
+  );
+  y += 8;
+
+  if (statement.sections.length === 0) {
+    doc.text("No entries for these dates", 15, y);
+  }
+  statement.sections.forEach((section) => {
+    doc.setFontSize(12);
+    doc.setFont("helvetica", "bold");
+    doc.text(sectionTitle(section), 15, y);
+
+    const rows = sectionRows(
+      section,
+      (value) => formatAmount(section, value),
+      ""
+    );
+    autoTable(doc, {
+      startY: y + 2,
+      head: [HEADERS],
+      body: rows,
+      theme: "grid",
+      styles: {
+        fontSize: 9,
+        cellPadding: 2,
+        textColor: [0, 0, 0],
+      },
+      headStyles: {
+        fillColor: [255, 255, 255],
+        textColor: [0, 0, 0],
+        fontStyle: "bold",
+        lineWidth: 0.1,
+        lineColor: [0, 0, 0],
+      },
+      bodyStyles: {
+        lineWidth: 0.1,
+        lineColor: [0, 0, 0],
+      },
+      columnStyles: {
+        0: { cellWidth: 22 },
+        1: { cellWidth: 28 },
+        3: { halign: "right" },
+        4: { halign: "right" },
+        5: { halign: "right", fontStyle: "bold" },
+      },
+      didParseCell: (data) => {
+        // The opening and closing rows stand out from the entries
+        if (
+          data.section === "body" &&
+          (data.row.index === 0 || data.row.index === rows.length - 1)
+        ) {
+          data.cell.styles.fontStyle = "bold";
+          data.cell.styles.fillColor = [240, 240, 240];
+        }
+      },
+      didDrawPage: () => drawPageBorder(doc),
+      margin: { left: 15, right: 15, top: 15 },
+    });
+    y = (doc as jsPDF & { lastAutoTable: { finalY: number } }).lastAutoTable
+      .finalY + 10;
+  });
+
+  doc.save(`${fileNameFor(statement)}.pdf`);
+};
+
+// The same statement as an Excel workbook, one worksheet per metal and one
+// for cash, with the amounts as numbers
+export const downloadStatementWorkbook = (statement: ClientStatement) => {
+  const heading: SpreadsheetCell[][] = [
+    ["Statement of Account"],
+    ["Client", statement.client.clientName],
+    ["Shop", statement.client.shopName],
+    ["From", formatDay(statement.from), "To", formatDay(statement.to)],
+    [],
+  ];
+  downloadWorkbook(
+    fileNameFor(statement),
+    statement.sections.length > 0
+      ? statement.sections.map((section) => ({
+          name: sectionTitle(section),
+          rows: [
+            ...heading,
+            HEADERS,
+            ...sectionRows<SpreadsheetCell>(section, (value) => value, null),
+          ],
+        }))
+      : [{ name: "Statement", rows: [...heading, ["No entries"]] }]
+  );
+};
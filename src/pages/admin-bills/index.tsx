@@ -1,5 +1,10 @@
 import { useState } from "react";
-import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+  keepPreviousData,
+  useMutation,
+  useQuery,
+  useQueryClient,
+} from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import {
   Table,
@@ -10,9 +15,10 @@ import {
   TableRow,
 } from "@/components/ui/table";
 import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
 import { Button } from "@/components/ui/button";
 import { useToast } from "@/hooks/use-toast";
-import { Eye, Trash, Edit, Search, Plus, Loader2 } from "lucide-react";
+import { Ban, Eye, Search, Loader2 } from "lucide-react";
 import { Link } from "react-router-dom";
 import {
   Pagination,
@@ -30,207 +36,89 @@ import {
   DialogDescription,
   DialogFooter,
 } from "@/components/ui/dialog";
-import axios from "axios";
-
-// API client setup
-const api = axios.create({
-  baseURL: "https://backend-goldsmith.onrender.com/api",
-  headers: {
-    "Content-Type": "application/json",
-  },
-});
-
-// Types for our receipt data
-interface ReceiptItem {
-  productName: string;
-  [key: string]: any;
-  _id: string;
-}
-
-interface TransactionDetails {
-  date: string;
-  items: ReceiptItem[];
-  total?: number;
-  totalPureWeight?: number;
-  totalOrnamentsWt?: number;
-  totalStoneWeight?: number;
-  totalSubTotal?: number;
-}
-
-interface AdminReceipt {
-  _id: string;
-  clientId: string;
-  clientName: string;
-  status: string;
-  voucherId: string;
-  given: TransactionDetails;
-  received: TransactionDetails;
-  createdAt: string;
-  updatedAt: string;
-  __v: number;
-}
-
-// Work Receipt API functions
-const adminReceiptApi = {
-  getAdminReceipts: async (): Promise<AdminReceipt[]> => {
-    try {
-      const response = await api.get("/admin-receipts");
-      return response.data as AdminReceipt[];
-    } catch (error) {
-      console.error("Error fetching Work Receipts:", error);
-      throw error;
-    }
-  },
-
-  getAdminReceiptById: async (id: string): Promise<AdminReceipt> => {
-    try {
-      const response = await api.get(`/admin-receipts/${id}`);
-      return response.data as AdminReceipt;
-    } catch (error) {
-      console.error(`Error fetching Work Receipt ${id}:`, error);
-      throw error;
-    }
-  },
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { adminBillServices, BillStatus, WorkBill } from "@/services/api";
+import { useAuth } from "@/hooks/use-auth";
 
-  deleteAdminReceipt: async (id: string): Promise<void> => {
-    try {
-      await api.delete(`/admin-receipts/${id}`);
-    } catch (error) {
-      console.error(`Error deleting Work Receipt ${id}:`, error);
-      throw error;
-    }
-  },
+const BILLS_PER_PAGE = 10;
 
-  searchAdminReceipts: async (searchParams: {
-    [key: string]: any;
-  }): Promise<AdminReceipt[]> => {
-    try {
-      const response = await api.get("/admin-receipts/search", {
-        params: searchParams,
-      });
-      return response.data as AdminReceipt[];
-    } catch (error) {
-      console.error("Error searching Work Receipts:", error);
-      throw error;
-    }
-  },
-};
+type StatusFilter = "all" | BillStatus;
 
-const AdminReceiptsPage = () => {
+const AdminBillsPage = () => {
   const [searchTerm, setSearchTerm] = useState("");
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>("all");
   const [page, setPage] = useState(1);
-  const [receiptsPerPage] = useState(10);
   const { toast } = useToast();
   const queryClient = useQueryClient();
-  const [passwordDialogOpen, setPasswordDialogOpen] = useState(false);
-  const [password, setPassword] = useState("");
-  const [receiptToDelete, setReceiptToDelete] = useState<string | null>(null);
+  const { can } = useAuth();
+  const [viewBill, setViewBill] = useState<WorkBill | null>(null);
+  const [billToVoid, setBillToVoid] = useState<WorkBill | null>(null);
+  const [voidReason, setVoidReason] = useState("");
 
-  const {
-    data: adminReceipts = [],
-    isLoading,
-    isError,
-  } = useQuery<AdminReceipt[]>({
-    queryKey: ["adminReceipts"],
-    queryFn: adminReceiptApi.getAdminReceipts,
+  const params = {
+    query: searchTerm || undefined,
+    status: statusFilter === "all" ? undefined : statusFilter,
+    page,
+    limit: BILLS_PER_PAGE,
+  };
+
+  const { data, isLoading, isError } = useQuery({
+    queryKey: ["workBills", params],
+    queryFn: () => adminBillServices.getAdminBills(params),
+    placeholderData: keepPreviousData,
   });
+  const bills = data?.data || [];
+  const totalPages = data?.pages || 1;
 
-  const deleteMutation = useMutation({
-    mutationFn: adminReceiptApi.deleteAdminReceipt,
+  const voidMutation = useMutation({
+    mutationFn: ({ id, reason }: { id: string; reason: string }) =>
+      adminBillServices.voidAdminBill(id, reason),
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["adminReceipts"] });
+      queryClient.invalidateQueries({ queryKey: ["workBills"] });
       toast({
         title: "Success",
-        description: "Work Receipt deleted successfully",
-      });
-      setPasswordDialogOpen(false);
-      setPassword("");
-      setReceiptToDelete(null);
-    },
-    onError: () => {
-      toast({
-        title: "Error",
-        description: "Failed to delete Work Receipt",
-        variant: "destructive",
+        description: "Work Bill voided",
       });
+      setBillToVoid(null);
     },
+    // The API interceptor already shows the server's message
+    onError: (error) => console.error("Error voiding Work Bill:", error),
   });
 
-  const handleDelete = (id: string) => {
-    setReceiptToDelete(id);
-    setPasswordDialogOpen(true);
+  const openVoidDialog = (bill: WorkBill) => {
+    setVoidReason("");
+    setBillToVoid(bill);
   };
 
-  const confirmDelete = () => {
-    if (!receiptToDelete) return;
-
-    if (password === "7007") {
-      deleteMutation.mutate(receiptToDelete);
-    } else {
-      toast({
-        title: "Incorrect Password",
-        description: "The password you entered is incorrect. Please try again.",
-        variant: "destructive",
-      });
-    }
-  };
-
-  // Filter receipts based on search term
-  const filteredReceipts = adminReceipts.filter(
-    (receipt) =>
-      receipt.clientName?.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      receipt.voucherId?.toLowerCase().includes(searchTerm.toLowerCase())
-  );
-
-  // Calculate pagination
-  const indexOfLastReceipt = page * receiptsPerPage;
-  const indexOfFirstReceipt = indexOfLastReceipt - receiptsPerPage;
-  const currentReceipts = filteredReceipts.slice(
-    indexOfFirstReceipt,
-    indexOfLastReceipt
-  );
-  const totalPages = Math.ceil(filteredReceipts.length / receiptsPerPage);
-
-  // Format date safely
-  const formatDate = (dateString: string) => {
-    if (!dateString) return "N/A";
-    try {
-      return new Date(dateString).toLocaleDateString();
-    } catch (error) {
-      return "Invalid Date";
-    }
-  };
-
-  // Calculate balance
-  const calculateBalance = (receipt: AdminReceipt) => {
-    const givenTotal = receipt.given?.total || 0;
-    const receivedTotal = receipt.received?.total || 0;
-    return (givenTotal - receivedTotal).toFixed(2);
-  };
+  const formatDate = (dateString?: string) =>
+    dateString ? new Date(dateString).toLocaleDateString() : "N/A";
 
   return (
     <div className="container p-6 mx-auto">
       <div className="flex justify-between items-center mb-6">
-        <h1 className="text-3xl font-serif font-bold">Work Receipts</h1>
-        <Button
-          asChild
-          className="bg-yellow-400 hover:bg-yellow-500 text-black"
-        >
-          <Link to="/admin-receipts/new">
-            <Plus className="mr-2 h-4 w-4" /> New Receipt
-          </Link>
-        </Button>
+        <div>
+          <h1 className="text-3xl font-serif font-bold">Work Bills</h1>
+          <p className="text-muted-foreground">
+            Bills are created from completed Work Receipts
+          </p>
+        </div>
       </div>
 
       <Card>
         <CardHeader>
-          <CardTitle>Work Receipts</CardTitle>
-          <div className="flex items-center gap-2 mt-4">
-            <div className="relative flex-1">
+          <CardTitle>Work Bills</CardTitle>
+          <div className="flex flex-col md:flex-row items-center gap-2 mt-4">
+            <div className="relative flex-1 w-full">
               <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
               <Input
                 type="search"
-                placeholder="Search by client name or voucher ID..."
+                placeholder="Search by bill number, voucher ID or client..."
                 className="pl-8"
                 value={searchTerm}
                 onChange={(e) => {
@@ -239,113 +127,116 @@ const AdminReceiptsPage = () => {
                 }}
               />
             </div>
+            <Select
+              value={statusFilter}
+              onValueChange={(value: StatusFilter) => {
+                setStatusFilter(value);
+                setPage(1);
+              }}
+            >
+              <SelectTrigger className="w-full md:w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Bills</SelectItem>
+                <SelectItem value="issued">Issued</SelectItem>
+                <SelectItem value="void">Void</SelectItem>
+              </SelectContent>
+            </Select>
           </div>
         </CardHeader>
         <CardContent>
           {isLoading ? (
             <div className="text-center py-8">
-              <div className="inline-block h-8 w-8 animate-spin rounded-full border-4 border-solid border-current border-r-transparent align-[-0.125em] motion-reduce:animate-[spin_1.5s_linear_infinite]"></div>
-              <p className="mt-2">Loading receipts...</p>
+              <Loader2 className="h-8 w-8 animate-spin mx-auto text-primary" />
+              <p className="mt-2">Loading bills...</p>
             </div>
           ) : isError ? (
             <div className="text-center py-8 text-destructive">
-              <p className="text-lg font-medium">Error loading Work Receipts</p>
-              <p className="mt-2">
-                Please try again later or check your connection
-              </p>
+              <p className="text-lg font-medium">Error loading Work Bills</p>
               <Button
                 variant="outline"
                 className="mt-4"
                 onClick={() =>
-                  queryClient.refetchQueries({ queryKey: ["adminReceipts"] })
+                  queryClient.refetchQueries({ queryKey: ["workBills"] })
                 }
               >
                 Retry
               </Button>
             </div>
-          ) : adminReceipts.length > 0 ? (
+          ) : bills.length > 0 ? (
             <>
               <div className="rounded-md border overflow-x-auto">
                 <Table>
                   <TableHeader>
                     <TableRow>
-                      <TableHead>Voucher ID</TableHead>
+                      <TableHead>Bill No.</TableHead>
+                      <TableHead>Date</TableHead>
                       <TableHead>Client Name</TableHead>
+                      <TableHead>Voucher ID</TableHead>
+                      <TableHead>Net Wt.</TableHead>
+                      <TableHead>Making Charge</TableHead>
+                      <TableHead>Total</TableHead>
                       <TableHead>Status</TableHead>
-                      <TableHead>Given Date</TableHead>
-                      <TableHead>Given Total</TableHead>
-                      <TableHead>Received Date</TableHead>
-                      <TableHead>Received Total</TableHead>
-                      <TableHead>Balance</TableHead>
                       <TableHead className="text-right">Actions</TableHead>
                     </TableRow>
                   </TableHeader>
                   <TableBody>
-                    {currentReceipts.map((receipt) => (
-                      <TableRow key={receipt._id}>
+                    {bills.map((bill) => (
+                      <TableRow
+                        key={bill._id}
+                        className={bill.status === "void" ? "opacity-60" : ""}
+                      >
                         <TableCell className="font-medium">
-                          {receipt.voucherId || "N/A"}
+                          {bill.billNumber}
+                        </TableCell>
+                        <TableCell>{formatDate(bill.billDate)}</TableCell>
+                        <TableCell>{bill.clientName}</TableCell>
+                        <TableCell>
+                          <Link
+                            to={`/admin-receipts/${bill.receiptId}`}
+                            className="underline-offset-4 hover:underline"
+                          >
+                            {bill.voucherId}
+                          </Link>
                         </TableCell>
-                        <TableCell>{receipt.clientName || "N/A"}</TableCell>
+                        <TableCell>{bill.totals.netWeight.toFixed(3)}</TableCell>
+                        <TableCell>
+                          {bill.totals.makingCharge.toFixed(3)}
+                        </TableCell>
+                        <TableCell>{bill.totals.total.toFixed(3)}</TableCell>
                         <TableCell>
                           <span
                             className={`px-2 py-1 rounded-full text-xs capitalize ${
-                              receipt.status === "complete"
+                              bill.status === "issued"
                                 ? "bg-green-100 text-green-800"
-                                : receipt.status === "incomplete"
-                                ? "bg-yellow-100 text-yellow-800"
                                 : "bg-gray-100 text-gray-800"
                             }`}
                           >
-                            {receipt.status || "unknown"}
+                            {bill.status}
                           </span>
                         </TableCell>
-                        <TableCell>{formatDate(receipt.given?.date)}</TableCell>
-                        <TableCell>
-                          {receipt.given?.total?.toFixed(2) || "0.00"}
-                        </TableCell>
-                        <TableCell>
-                          {formatDate(receipt.received?.date)}
-                        </TableCell>
-                        <TableCell>
-                          {receipt.received?.total?.toFixed(2) || "0.00"}
-                        </TableCell>
-                        <TableCell
-                          className={`font-medium ${
-                            parseFloat(calculateBalance(receipt)) > 0
-                              ? "text-green-600"
-                              : parseFloat(calculateBalance(receipt)) < 0
-                              ? "text-red-600"
-                              : ""
-                          }`}
-                        >
-                          {calculateBalance(receipt)}
-                        </TableCell>
                         <TableCell className="text-right">
                           <div className="flex justify-end space-x-2">
-                            <Button variant="outline" size="sm" asChild>
-                              <Link to={`/admin-receipts/${receipt._id}`}>
-                                <Eye className="h-4 w-4" />
-                              </Link>
-                            </Button>
-                            <Button variant="outline" size="sm" asChild>
-                              <Link to={`/admin-receipts/edit/${receipt._id}`}>
-                                <Edit className="h-4 w-4" />
-                              </Link>
-                            </Button>
                             <Button
                               variant="outline"
                               size="sm"
-                              onClick={() => handleDelete(receipt._id)}
-                              disabled={deleteMutation.isPending}
+                              onClick={() => setViewBill(bill)}
+                              title="View Bill"
                             >
-                              {deleteMutation.isPending &&
-                              receiptToDelete === receipt._id ? (
-                                <Loader2 className="h-4 w-4 animate-spin" />
-                              ) : (
-                                <Trash className="h-4 w-4" />
-                              )}
+                              <Eye className="h-4 w-4" />
                             </Button>
+                            {can("receipts:edit") &&
+                              bill.status === "issued" && (
+                                <Button
+                                  variant="outline"
+                                  size="sm"
+                                  onClick={() => openVoidDialog(bill)}
+                                  title="Void Bill"
+                                >
+                                  <Ban className="h-4 w-4" />
+                                </Button>
+                              )}
                           </div>
                         </TableCell>
                       </TableRow>
@@ -400,74 +291,147 @@ const AdminReceiptsPage = () => {
           ) : (
             <div className="py-12 text-center">
               <p className="text-lg text-muted-foreground mb-4">
-                {searchTerm
-                  ? "No matching Work Receipts found"
-                  : "No Work Receipts found"}
+                {searchTerm || statusFilter !== "all"
+                  ? "No matching Work Bills found"
+                  : "No Work Bills yet. Open a completed Work Receipt to bill it."}
               </p>
-              <Button
-                asChild
-                className="bg-yellow-400 hover:bg-yellow-500 text-black"
-              >
-                <Link to="/admin-receipts/new">
-                  <Plus className="mr-2 h-4 w-4" /> Create New Receipt
-                </Link>
+              <Button asChild variant="outline">
+                <Link to="/admin-receipts">Go to Work Receipts</Link>
               </Button>
             </div>
           )}
         </CardContent>
       </Card>
 
-      {/* Password Prompt Dialog */}
+      {/* Bill details */}
+      <Dialog
+        open={!!viewBill}
+        onOpenChange={(open) => !open && setViewBill(null)}
+      >
+        <DialogContent className="max-w-3xl">
+          {viewBill && (
+            <>
+              <DialogHeader>
+                <DialogTitle>Work Bill {viewBill.billNumber}</DialogTitle>
+                <DialogDescription>
+                  {viewBill.clientName} • {formatDate(viewBill.billDate)} •
+                  Receipt {viewBill.voucherId}
+                </DialogDescription>
+              </DialogHeader>
+
+              {viewBill.status === "void" && (
+                <div className="rounded-md bg-muted p-3 text-sm">
+                  Voided on {formatDate(viewBill.voidedAt)}:{" "}
+                  {viewBill.voidReason}
+                </div>
+              )}
+
+              <div className="rounded-md border overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Product</TableHead>
+                      <TableHead>Ornaments Wt.</TableHead>
+                      <TableHead>Stone Wt.</TableHead>
+                      <TableHead>Net Wt.</TableHead>
+                      <TableHead>MC %</TableHead>
+                      <TableHead>MC Wt.</TableHead>
+                      <TableHead>Total</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {viewBill.lines.map((line, index) => (
+                      <TableRow key={index}>
+                        <TableCell>{line.productName}</TableCell>
+                        <TableCell>{line.ornamentsWt.toFixed(3)}</TableCell>
+                        <TableCell>{line.stoneWeight.toFixed(3)}</TableCell>
+                        <TableCell>{line.netWeight.toFixed(3)}</TableCell>
+                        <TableCell>{line.makingChargePercent}</TableCell>
+                        <TableCell>{line.makingCharge.toFixed(3)}</TableCell>
+                        <TableCell>{line.total.toFixed(3)}</TableCell>
+                      </TableRow>
+                    ))}
+                    <TableRow className="font-medium">
+                      <TableCell>Total</TableCell>
+                      <TableCell>
+                        {viewBill.totals.ornamentsWt.toFixed(3)}
+                      </TableCell>
+                      <TableCell>
+                        {viewBill.totals.stoneWeight.toFixed(3)}
+                      </TableCell>
+                      <TableCell>
+                        {viewBill.totals.netWeight.toFixed(3)}
+                      </TableCell>
+                      <TableCell></TableCell>
+                      <TableCell>
+                        {viewBill.totals.makingCharge.toFixed(3)}
+                      </TableCell>
+                      <TableCell>{viewBill.totals.total.toFixed(3)}</TableCell>
+                    </TableRow>
+                  </TableBody>
+                </Table>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4 text-sm">
+                <div>
+                  <p className="text-muted-foreground">Given (pure)</p>
+                  <p className="font-medium">
+                    {viewBill.givenTotal.toFixed(3)} g
+                  </p>
+                </div>
+                <div>
+                  <p className="text-muted-foreground">Balance</p>
+                  <p className="font-medium">
+                    {viewBill.balance.toFixed(3)} g
+                  </p>
+                </div>
+              </div>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {/* Void dialog */}
       <Dialog
-        open={passwordDialogOpen}
-        onOpenChange={(open) => {
-          setPasswordDialogOpen(open);
-          if (!open) {
-            setPassword("");
-            setReceiptToDelete(null);
-          }
-        }}
+        open={!!billToVoid}
+        onOpenChange={(open) => !open && setBillToVoid(null)}
       >
         <DialogContent>
           <DialogHeader>
-            <DialogTitle>Confirm Deletion</DialogTitle>
+            <DialogTitle>Void Work Bill {billToVoid?.billNumber}</DialogTitle>
             <DialogDescription>
-              Please enter the admin password to delete this receipt.
+              The bill stays on record, marked void. The Work Receipt can then
+              be billed again.
             </DialogDescription>
           </DialogHeader>
-          <div className="py-4">
+          <div className="space-y-1">
+            <Label htmlFor="void-reason">Reason</Label>
             <Input
-              type="password"
-              placeholder="Enter password"
-              value={password}
-              onChange={(e) => setPassword(e.target.value)}
-              disabled={deleteMutation.isPending}
+              id="void-reason"
+              value={voidReason}
+              onChange={(e) => setVoidReason(e.target.value)}
             />
           </div>
           <DialogFooter>
             <Button
               variant="outline"
-              onClick={() => {
-                setPasswordDialogOpen(false);
-                setPassword("");
-              }}
-              disabled={deleteMutation.isPending}
+              onClick={() => setBillToVoid(null)}
+              disabled={voidMutation.isPending}
             >
               Cancel
             </Button>
             <Button
               variant="destructive"
-              onClick={confirmDelete}
-              disabled={deleteMutation.isPending || !password}
+              onClick={() =>
+                billToVoid &&
+                voidMutation.mutate({ id: billToVoid._id, reason: voidReason })
+              }
+              disabled={voidMutation.isPending || !voidReason.trim()}
             >
-              {deleteMutation.isPending ? (
-                <>
-                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                  Deleting...
-                </>
-              ) : (
-                "Confirm Delete"
+              {voidMutation.isPending && (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
               )}
+              Void Bill
             </Button>
           </DialogFooter>
         </DialogContent>
@@ -476,4 +440,4 @@ const AdminReceiptsPage = () => {
   );
 };
 
-export default AdminReceiptsPage;
+export default AdminBillsPage;
@@ -3,21 +3,32 @@ import { useParams, useNavigate } from "react-router-dom";
 import { ArrowLeft, Save, Download, Plus } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { useToast } from "@/hooks/use-toast";
-import axios from "axios";
+import {
+  adminReceiptServices,
+  clientServices,
+  ReceiptCancellation,
+  ReceiptLock,
+} from "@/services/api";
+import { ReceiptLockNotice } from "@/components/receipts/receipt-lock";
+import { ReceiptCancelledNotice } from "@/components/receipts/receipt-cancel";
+import {
+  formatGrams,
+  manualResult,
+  toGrams,
+  workGivenTotal,
+  workGivenTotals,
+  workReceiptBalance,
+  workReceivedAmounts,
+  workReceivedTotals,
+} from "@/lib/receipt-calculations";
 import { jsPDF } from "jspdf";
 import autoTable from "jspdf-autotable";
+import { stampCancelled } from "@/lib/receipt-pdf";
+import { balanceFor } from "@/lib/metal-balances";
 
 // Attach autoTable to jsPDF
 (jsPDF as any).autoTable = autoTable;
 
-// API client setup
-const api = axios.create({
-  baseURL: "https://backend-goldsmith.onrender.com/api",
-  headers: {
-    "Content-Type": "application/json",
-  },
-});
-
 // Utility function to safely format numbers
 const safeToFixed = (value: unknown, decimals = 2): string => {
   const num =
@@ -30,12 +41,6 @@ const safeToFixed = (value: unknown, decimals = 2): string => {
 };
 
 // Types for our data
-interface Client {
-  id: string;
-  name: string;
-  balance: number;
-}
-
 interface ReceiptItem {
   productName: string;
   pureWeight?: number;
@@ -61,7 +66,7 @@ interface TransactionDetails {
   totalSubTotal?: number;
 }
 
-interface AdminReceipt {
+interface AdminReceipt extends ReceiptLock, ReceiptCancellation {
   _id: string;
   clientId: string;
   clientName: string;
@@ -80,60 +85,6 @@ interface AdminReceipt {
   };
 }
 
-// Client API functions
-const clientApi = {
-  getClientById: async (id: string): Promise<Client> => {
-    try {
-      const response = await api.get(`/clients/${id}`);
-      const c = response.data;
-      return {
-        id: c._id,
-        name: c.clientName,
-        balance: Number(c.balance) || 0,
-      };
-    } catch (error) {
-      console.error(`Error fetching client ${id}:`, error);
-      throw error;
-    }
-  },
-  updateClientBalance: async (id: string, balance: number): Promise<void> => {
-    try {
-      await api.put(`/clients/${id}`, { balance });
-    } catch (error) {
-      console.error(`Error updating client ${id} balance:`, error);
-      throw error;
-    }
-  },
-};
-
-// Work Receipt API functions
-const adminReceiptApi = {
-  getAdminReceiptById: async (id: string): Promise<AdminReceipt> => {
-    try {
-      const response = await api.get(`/admin-receipts/${id}`);
-      return response.data as AdminReceipt;
-    } catch (error) {
-      console.error(`Error fetching Work Receipt ${id}:`, error);
-      throw error;
-    }
-  },
-  updateAdminReceipt: async (
-    id: string,
-    data: Partial<AdminReceipt>
-  ): Promise<AdminReceipt> => {
-    try {
-      console.log("Sending update data:", JSON.stringify(data, null, 2));
-      const response = await api.put(`/admin-receipts/${id}`, data);
-      return response.data as AdminReceipt;
-    } catch (error: any) {
-      console.error(`Error updating Work Receipt ${id}:`, error);
-      console.error("Error response data:", error.response?.data);
-      console.error("Error response status:", error.response?.status);
-      throw error;
-    }
-  },
-};
-
 export default function EditAdminReceiptPage() {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
@@ -145,6 +96,7 @@ export default function EditAdminReceiptPage() {
   const [clientBalance, setClientBalance] = useState<number>(0);
   const [isLoading, setIsLoading] = useState(true);
   const [isUpdating, setIsUpdating] = useState(false);
+  const [reason, setReason] = useState("");
   const [error, setError] = useState<string | null>(null);
 
   // Fetch receipt and client data
@@ -156,7 +108,7 @@ export default function EditAdminReceiptPage() {
       setError(null);
       try {
         // Fetch receipt
-        const data = await adminReceiptApi.getAdminReceiptById(id);
+        const data = await adminReceiptServices.getAdminReceipt(id);
 
         // Deep clone and ensure all numeric fields are numbers
         const initializedData = JSON.parse(JSON.stringify(data));
@@ -226,8 +178,8 @@ export default function EditAdminReceiptPage() {
 
         // Fetch client balance
         if (data.clientId) {
-          const client = await clientApi.getClientById(data.clientId);
-          setClientBalance(client.balance);
+          const client = await clientServices.getClient(data.clientId);
+          setClientBalance(balanceFor(client.balances, data.metalType));
         }
       } catch (err) {
         console.error("Error fetching data:", err);
@@ -300,10 +252,7 @@ export default function EditAdminReceiptPage() {
       // Recalculate totals for given items
       if (transactionType === "given") {
         if (["pureWeight", "purePercent", "melting"].includes(field)) {
-          const pureWeight = updatedItem.pureWeight || 0;
-          const purePercent = updatedItem.purePercent || 0;
-          const melting = updatedItem.melting || 1;
-          updatedItem.total = (pureWeight * purePercent) / melting;
+          updatedItem.total = workGivenTotal(updatedItem);
         }
       }
 
@@ -314,12 +263,9 @@ export default function EditAdminReceiptPage() {
             field
           )
         ) {
-          const finalOrnamentsWt = updatedItem.finalOrnamentsWt || 0;
-          const stoneWeight = updatedItem.stoneWeight || 0;
-          updatedItem.subTotal = finalOrnamentsWt - stoneWeight;
-          updatedItem.total =
-            updatedItem.subTotal *
-            (1 + (updatedItem.makingChargePercent || 0) / 100);
+          const { subTotal, total } = workReceivedAmounts(updatedItem);
+          updatedItem.subTotal = subTotal;
+          updatedItem.total = total;
         }
       }
 
@@ -327,36 +273,10 @@ export default function EditAdminReceiptPage() {
       updatedItems[index] = updatedItem;
 
       // Calculate transaction totals
-      const totals = {
-        total: updatedItems.reduce((sum, item) => sum + (item.total || 0), 0),
-        totalPureWeight:
-          transactionType === "given"
-            ? updatedItems.reduce(
-                (sum, item) =>
-                  sum +
-                  ((item.pureWeight || 0) * (item.purePercent || 0)) / 100,
-                0
-              )
-            : prev[transactionType].totalPureWeight,
-        totalOrnamentsWt:
-          transactionType === "received"
-            ? updatedItems.reduce(
-                (sum, item) => sum + (item.finalOrnamentsWt || 0),
-                0
-              )
-            : prev[transactionType].totalOrnamentsWt,
-        totalStoneWeight:
-          transactionType === "received"
-            ? updatedItems.reduce(
-                (sum, item) => sum + (item.stoneWeight || 0),
-                0
-              )
-            : prev[transactionType].totalStoneWeight,
-        totalSubTotal:
-          transactionType === "received"
-            ? updatedItems.reduce((sum, item) => sum + (item.subTotal || 0), 0)
-            : prev[transactionType].totalSubTotal,
-      };
+      const totals =
+        transactionType === "given"
+          ? workGivenTotals(updatedItems)
+          : workReceivedTotals(updatedItems);
 
       return {
         ...prev,
@@ -416,36 +336,10 @@ export default function EditAdminReceiptPage() {
       updatedItems.splice(index, 1);
 
       // Recalculate totals
-      const totals = {
-        total: updatedItems.reduce((sum, item) => sum + (item.total || 0), 0),
-        totalPureWeight:
-          transactionType === "given"
-            ? updatedItems.reduce(
-                (sum, item) =>
-                  sum +
-                  ((item.pureWeight || 0) * (item.purePercent || 0)) / 100,
-                0
-              )
-            : prev[transactionType].totalPureWeight,
-        totalOrnamentsWt:
-          transactionType === "received"
-            ? updatedItems.reduce(
-                (sum, item) => sum + (item.finalOrnamentsWt || 0),
-                0
-              )
-            : prev[transactionType].totalOrnamentsWt,
-        totalStoneWeight:
-          transactionType === "received"
-            ? updatedItems.reduce(
-                (sum, item) => sum + (item.stoneWeight || 0),
-                0
-              )
-            : prev[transactionType].totalStoneWeight,
-        totalSubTotal:
-          transactionType === "received"
-            ? updatedItems.reduce((sum, item) => sum + (item.subTotal || 0), 0)
-            : prev[transactionType].totalSubTotal,
-      };
+      const totals =
+        transactionType === "given"
+          ? workGivenTotals(updatedItems)
+          : workReceivedTotals(updatedItems);
 
       return {
         ...prev,
@@ -459,37 +353,25 @@ export default function EditAdminReceiptPage() {
   };
 
   // Calculate balance
-  const calculateBalance = () => {
-    const givenTotal = Number(receipt?.given?.total) || 0;
-    const receivedTotal = Number(receipt?.received?.total) || 0;
-    const operation =
-      receipt?.manualCalculations?.operation || "subtract-given-received";
-    let result: number;
-    switch (operation) {
-      case "subtract-given-received":
-        result = givenTotal - receivedTotal;
-        break;
-      case "subtract-received-given":
-        result = receivedTotal - givenTotal;
-        break;
-      case "add":
-        result = givenTotal + receivedTotal;
-        break;
-      default:
-        result = 0;
-    }
-    return result;
-  };
+  const calculateBalance = () =>
+    manualResult(
+      receipt?.given?.total,
+      receipt?.received?.total,
+      receipt?.manualCalculations?.operation || "subtract-given-received"
+    );
 
-  // Calculate new client balance
+  // Preview only; the server posts the actual change when the receipt is saved
   const calculateNewClientBalance = () => {
     if (!receipt || !originalReceipt) return clientBalance;
 
-    const originalGiven = Number(originalReceipt.given.total) || 0;
-    const originalReceived = Number(originalReceipt.received.total) || 0;
-    const originalBalanceAdjustment = originalGiven - originalReceived;
-    const newBalanceAdjustment = calculateBalance();
-    return clientBalance - originalBalanceAdjustment + newBalanceAdjustment;
+    const originalBalanceAdjustment = workReceiptBalance(originalReceipt);
+    const newBalanceAdjustment = workReceiptBalance({
+      ...receipt,
+      manualCalculations: { result: calculateBalance() },
+    });
+    return toGrams(
+      clientBalance - originalBalanceAdjustment + newBalanceAdjustment
+    );
   };
 
   // Handle save
@@ -534,10 +416,6 @@ export default function EditAdminReceiptPage() {
         }
       }
 
-      // Update client balance first
-      const newClientBalance = calculateNewClientBalance();
-      await clientApi.updateClientBalance(receipt.clientId, newClientBalance);
-
       // Update receipt status
       const shouldBeComplete =
         receipt.given.items.length > 0 &&
@@ -547,12 +425,11 @@ export default function EditAdminReceiptPage() {
 
       // Prepare manual calculations
       const manualCalculations = {
-        givenTotal: Math.round((Number(receipt.given.total) || 0) * 100) / 100,
-        receivedTotal:
-          Math.round((Number(receipt.received.total) || 0) * 100) / 100,
+        givenTotal: toGrams(receipt.given.total),
+        receivedTotal: toGrams(receipt.received.total),
         operation:
           receipt.manualCalculations?.operation || "subtract-given-received",
-        result: Math.round(calculateBalance() * 100) / 100,
+        result: calculateBalance(),
       };
 
       // Clean up the data to ensure all numeric fields are properly formatted
@@ -565,10 +442,10 @@ export default function EditAdminReceiptPage() {
           items: receipt.given.items.map((item) => {
             const cleanedItem: any = {
               productName: item.productName,
-              pureWeight: Number(item.pureWeight) || 0,
+              pureWeight: toGrams(item.pureWeight),
               purePercent: Number(item.purePercent) || 0,
               melting: Number(item.melting) || 0,
-              total: Math.round((Number(item.total) || 0) * 100) / 100, // Fix floating point precision
+              total: toGrams(item.total),
               date: item.date || new Date().toISOString().split("T")[0],
             };
 
@@ -591,21 +468,19 @@ export default function EditAdminReceiptPage() {
 
             return cleanedItem;
           }),
-          total: Math.round((Number(receipt.given.total) || 0) * 100) / 100,
-          totalPureWeight:
-            Math.round((Number(receipt.given.totalPureWeight) || 0) * 100) /
-            100,
+          total: toGrams(receipt.given.total),
+          totalPureWeight: toGrams(receipt.given.totalPureWeight),
         },
         received: {
           ...receipt.received,
           items: receipt.received.items.map((item) => {
             const cleanedItem: any = {
               productName: item.productName,
-              finalOrnamentsWt: Number(item.finalOrnamentsWt) || 0,
-              stoneWeight: Number(item.stoneWeight) || 0,
-              subTotal: Math.round((Number(item.subTotal) || 0) * 100) / 100,
+              finalOrnamentsWt: toGrams(item.finalOrnamentsWt),
+              stoneWeight: toGrams(item.stoneWeight),
+              subTotal: toGrams(item.subTotal),
               makingChargePercent: Number(item.makingChargePercent) || 0,
-              total: Math.round((Number(item.total) || 0) * 100) / 100, // Fix floating point precision
+              total: toGrams(item.total),
               date: item.date || new Date().toISOString().split("T")[0],
             };
 
@@ -628,23 +503,27 @@ export default function EditAdminReceiptPage() {
 
             return cleanedItem;
           }),
-          total: Math.round((Number(receipt.received.total) || 0) * 100) / 100,
-          totalOrnamentsWt:
-            Math.round((Number(receipt.received.totalOrnamentsWt) || 0) * 100) /
-            100,
-          totalStoneWeight:
-            Math.round((Number(receipt.received.totalStoneWeight) || 0) * 100) /
-            100,
-          totalSubTotal:
-            Math.round((Number(receipt.received.totalSubTotal) || 0) * 100) /
-            100,
+          total: toGrams(receipt.received.total),
+          totalOrnamentsWt: toGrams(receipt.received.totalOrnamentsWt),
+          totalStoneWeight: toGrams(receipt.received.totalStoneWeight),
+          totalSubTotal: toGrams(receipt.received.totalSubTotal),
         },
       };
 
       // Remove unnecessary fields that might cause issues
       const { _id, __v, createdAt, updatedAt, ...updateData } = cleanedReceipt;
 
-      await adminReceiptApi.updateAdminReceipt(id, updateData);
+      // The receipt and the difference it posts to the client's ledger are
+      // saved together
+      const saved = await adminReceiptServices.saveAdminReceipt(
+        updateData,
+        id,
+        reason
+      );
+      const newClientBalance = balanceFor(
+        saved.client.balances,
+        saved.receipt.metalType
+      );
       setClientBalance(newClientBalance);
 
       toast({
@@ -659,7 +538,7 @@ export default function EditAdminReceiptPage() {
       const errorMessage =
         error.response?.data?.message ||
         error.message ||
-        "Failed to update receipt or client balance";
+        "Failed to update receipt";
       toast({
         title: "Error",
         description: errorMessage,
@@ -749,10 +628,10 @@ export default function EditAdminReceiptPage() {
 
       const givenTableData = receipt.given.items.map((item) => [
         item.productName,
-        formatNumber(item.pureWeight),
+        formatGrams(item.pureWeight),
         formatNumber(item.purePercent) + "%",
         formatNumber(item.melting),
-        formatNumber(item.total),
+        formatGrams(item.total),
       ]);
 
       autoTable(doc, {
@@ -795,10 +674,10 @@ export default function EditAdminReceiptPage() {
 
       const receivedTableData = receipt.received.items.map((item) => [
         item.productName,
-        formatNumber(item.finalOrnamentsWt),
-        formatNumber(item.stoneWeight),
+        formatGrams(item.finalOrnamentsWt),
+        formatGrams(item.stoneWeight),
         formatNumber(item.makingChargePercent) + "%",
-        formatNumber(item.total),
+        formatGrams(item.total),
       ]);
 
       autoTable(doc, {
@@ -841,9 +720,9 @@ export default function EditAdminReceiptPage() {
     currentY += 10;
 
     const summaryData = [
-      ["Given Total:", formatNumber(receipt.given.total)],
-      ["Received Total:", formatNumber(receipt.received.total)],
-      ["Balance (Given - Received):", formatNumber(balance)],
+      ["Given Total:", formatGrams(receipt.given.total)],
+      ["Received Total:", formatGrams(receipt.received.total)],
+      ["Balance (Given - Received):", formatGrams(balance)],
     ];
 
     summaryData.forEach(([label, value]) => {
@@ -865,6 +744,9 @@ export default function EditAdminReceiptPage() {
       align: "center",
     });
 
+    if (receipt.status === "cancelled") {
+      stampCancelled(doc, receipt.voucherId, receipt);
+    }
     doc.save(`receipt-${receipt.voucherId}.pdf`);
   };
 
@@ -931,7 +813,14 @@ export default function EditAdminReceiptPage() {
             <Button onClick={handleDownloadPDF}>
               <Download className="mr-2 h-4 w-4" /> Download
             </Button>
-            <Button onClick={handleSave} disabled={isUpdating}>
+            <Button
+              onClick={handleSave}
+              disabled={
+                isUpdating ||
+                !!receipt.isFinalized ||
+                receipt.status === "cancelled"
+              }
+            >
               {isUpdating ? (
                 <>
                   <Save className="mr-2 h-4 w-4 animate-spin" /> Saving...
@@ -945,6 +834,9 @@ export default function EditAdminReceiptPage() {
           </div>
         </div>
 
+        <ReceiptLockNotice receipt={receipt} />
+        <ReceiptCancelledNotice receipt={receipt} />
+
         {/* Basic Info Section */}
         <div className="mb-6 grid grid-cols-1 md:grid-cols-3 gap-4">
           <div>
@@ -969,6 +861,18 @@ export default function EditAdminReceiptPage() {
               className="w-full border rounded px-3 py-2 bg-gray-100"
             />
           </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Reason for Change
+            </label>
+            <input
+              type="text"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="Optional, kept in the audit log"
+              className="w-full border rounded px-3 py-2"
+            />
+          </div>
           {/* <div>
             <label className="block text-sm font-medium text-gray-700 mb-1">
               Status
@@ -1,25 +1,57 @@
 import { useState, useEffect } from "react";
 import { useParams, useNavigate } from "react-router-dom";
-import { ArrowLeft, Download } from "lucide-react";
+import {
+  ArrowLeft,
+  Ban,
+  Download,
+  FileText,
+  Loader2,
+  Trash2,
+} from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Separator } from "@/components/ui/separator";
 import { useToast } from "@/hooks/use-toast";
-import axios from "axios";
+import {
+  adminBillServices,
+  adminReceiptServices,
+  clientServices,
+  Client,
+  CurrentRates,
+  rateServices,
+  ReceiptCancellation,
+  ReceiptLock,
+} from "@/services/api";
+import { useAuth } from "@/hooks/use-auth";
+import { AuditHistory } from "@/components/audit/audit-history";
+import { ReceiptHistory } from "@/components/receipts/receipt-history";
+import {
+  ReceiptLockActions,
+  ReceiptLockNotice,
+} from "@/components/receipts/receipt-lock";
+import {
+  CancelReceiptDialog,
+  ReceiptCancelledNotice,
+  TrashReceiptDialog,
+} from "@/components/receipts/receipt-cancel";
+import { RateInEffect } from "@/components/receipts/rate-in-effect";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  formatGrams,
+  manualResult,
+  sumGrams,
+  workReceiptBalance,
+  workReceivedAmounts,
+} from "@/lib/receipt-calculations";
 import { jsPDF } from "jspdf";
 import autoTable from "jspdf-autotable";
+import { printRateInEffect, stampCancelled } from "@/lib/receipt-pdf";
+import { ValuationItem } from "@/lib/metal-rates";
 import { format } from "date-fns";
+import { balanceFor } from "@/lib/metal-balances";
 
 // Attach autoTable to jsPDF
 (jsPDF as any).autoTable = autoTable;
 
-// API client setup
-const api = axios.create({
-  baseURL: "https://backend-goldsmith.onrender.com/api",
-  headers: {
-    "Content-Type": "application/json",
-  },
-});
-
 // Types for our receipt data
 interface ReceiptItem {
   productName: string;
@@ -33,7 +65,7 @@ interface ReceiptItem {
   makingChargePercent?: number | string;
   date?: string;
   tag?: string;
-  _id: string;
+  _id?: string;
 }
 
 interface TransactionDetails {
@@ -46,17 +78,17 @@ interface TransactionDetails {
   totalSubTotal?: number | string;
 }
 
-interface AdminReceipt {
+interface AdminReceipt extends ReceiptLock, ReceiptCancellation {
   _id: string;
   clientId: string;
   clientName: string;
   status: string;
   voucherId: string;
+  metalType?: string;
   given: TransactionDetails;
   received: TransactionDetails;
   createdAt: string;
   updatedAt: string;
-  __v: number;
   manualCalculations: {
     givenTotal: number | string;
     receivedTotal: number | string;
@@ -65,42 +97,6 @@ interface AdminReceipt {
   };
 }
 
-// Interface for client details fetched from /api/clients/:id
-interface ClientDetails {
-  _id: string;
-  shopName: string;
-  clientName: string;
-  phoneNumber: string;
-  address: string;
-  email: string;
-  active: boolean;
-  balance?: number;
-  createdAt: string;
-  updatedAt: string;
-}
-
-// Work Receipt API functions
-const adminReceiptApi = {
-  getAdminReceiptById: async (id: string): Promise<AdminReceipt> => {
-    try {
-      const response = await api.get(`/admin-receipts/${id}`);
-      return response.data as AdminReceipt;
-    } catch (error) {
-      console.error(`Error fetching Work Receipt ${id}:`, error);
-      throw error;
-    }
-  },
-  getClientById: async (clientId: string): Promise<ClientDetails> => {
-    try {
-      const response = await api.get(`/clients/${clientId}`);
-      return response.data as ClientDetails;
-    } catch (error) {
-      console.error(`Error fetching client ${clientId}:`, error);
-      throw error;
-    }
-  },
-};
-
 // Helper to convert a value to a number and format it with toFixed
 const formatNumber = (
   value: number | string | undefined,
@@ -121,10 +117,25 @@ const formatDate = (dateString: string | undefined) => {
   });
 };
 
+// The making charge on the received items, valued at the rate in effect
+const valuationItems = (receipt: AdminReceipt): ValuationItem[] => {
+  const makingCharge = sumGrams(
+    receipt.received?.items,
+    (item) => workReceivedAmounts(item, receipt.metalType).makingCharge
+  );
+  return [
+    {
+      label: `Making charge (${formatGrams(makingCharge)} g)`,
+      grams: makingCharge,
+    },
+  ];
+};
+
 // Updated generatePDF function to use client details
 const generatePDF = async (
   receipt: AdminReceipt,
-  client: ClientDetails | null
+  client: Client | null,
+  rates: CurrentRates | null
 ) => {
   const doc = new jsPDF("p", "mm", "a4");
   const pageWidth = doc.internal.pageSize.getWidth();
@@ -285,7 +296,7 @@ const generatePDF = async (
     formatNumber(item.finalOrnamentsWt),
     formatNumber(item.stoneWeight),
     formatNumber(item.makingChargePercent, 2),
-    formatNumber(Number(item.total) - Number(item.subTotal)),
+    formatNumber(workReceivedAmounts(item).makingCharge),
     formatNumber(item.subTotal),
     formatNumber(item.total),
   ]);
@@ -361,17 +372,14 @@ const generatePDF = async (
     "OD Balance",
     "Given Total",
     "Received Total",
-    "Balance (Given - Received)",
+    "Balance",
   ];
 
   const balanceValues = [
-    formatNumber(client?.balance || 0, 2),
+    formatNumber(balanceFor(client?.balances, receipt.metalType), 2),
     formatNumber(receipt.given?.total),
     formatNumber(receipt.received?.total),
-    formatNumber(
-      Number(receipt.given?.total || 0) - Number(receipt.received?.total || 0),
-      3
-    ),
+    formatNumber(workReceiptBalance(receipt), 3),
   ];
 
   autoTable(doc, {
@@ -407,6 +415,15 @@ const generatePDF = async (
     margin: { left: 15, right: 25 },
   });
 
+  if (rates) {
+    printRateInEffect(doc, {
+      date: format(new Date(`${rates.date}T00:00`), "dd/MM/yyyy"),
+      metal: receipt.metalType,
+      quotes: rates.rates,
+      items: valuationItems(receipt),
+    });
+  }
+
   // Manual Calculations Section with horizontal table layout
   // finalY = (doc as any).lastAutoTable.finalY + 8;
 
@@ -458,6 +475,10 @@ const generatePDF = async (
   //   margin: { left: 15, right: 25 },
   // });
 
+  if (receipt.status === "cancelled") {
+    stampCancelled(doc, receipt.voucherId, receipt);
+  }
+
   // Save the PDF
   const fileName = `receipt_${
     client?.clientName?.replace(/[^a-zA-Z0-9]/g, "_") ||
@@ -471,10 +492,15 @@ export default function AdminReceiptDetailPage() {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
   const { toast } = useToast();
+  const { can } = useAuth();
   const [receipt, setReceipt] = useState<AdminReceipt | null>(null);
-  const [client, setClient] = useState<ClientDetails | null>(null);
+  const [client, setClient] = useState<Client | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [isBilling, setIsBilling] = useState(false);
+  const [cancelOpen, setCancelOpen] = useState(false);
+  const [trashOpen, setTrashOpen] = useState(false);
+  const [rates, setRates] = useState<CurrentRates | null>(null);
 
   // Fetch receipt and client data
   useEffect(() => {
@@ -485,12 +511,12 @@ export default function AdminReceiptDetailPage() {
       setError(null);
       try {
         // Fetch receipt data
-        const receiptData = await adminReceiptApi.getAdminReceiptById(id);
+        const receiptData = await adminReceiptServices.getAdminReceipt(id);
         setReceipt(receiptData); // Fixed syntax error: removed space between set and Receipt
 
         // Fetch client data using clientId from receipt
         if (receiptData?.clientId) {
-          const clientData = await adminReceiptApi.getClientById(
+          const clientData = await clientServices.getClient(
             receiptData.clientId
           );
           setClient(clientData);
@@ -513,10 +539,26 @@ export default function AdminReceiptDetailPage() {
     fetchData();
   }, [id, toast]);
 
+  // The rates in effect on the receipt's date
+  const rateDate =
+    receipt?.given?.date || receipt?.createdAt
+      ? format(
+          new Date(receipt.given?.date || receipt.createdAt),
+          "yyyy-MM-dd"
+        )
+      : undefined;
+  useEffect(() => {
+    if (!rateDate) return;
+    rateServices
+      .getCurrentRates(rateDate)
+      .then(setRates)
+      .catch((err) => console.error("Error fetching rates:", err));
+  }, [rateDate]);
+
   const handleDownloadPDF = async () => {
     if (!receipt) return;
     try {
-      await generatePDF(receipt, client);
+      await generatePDF(receipt, client, rates);
       toast({
         title: "Success",
         description: "PDF download started",
@@ -531,6 +573,32 @@ export default function AdminReceiptDetailPage() {
     }
   };
 
+  const handleCreateBill = async () => {
+    if (!receipt) return;
+    setIsBilling(true);
+    try {
+      const { data: bill } = await adminBillServices.createAdminBill(
+        receipt._id
+      );
+      toast({
+        title: "Success",
+        description: `Work Bill ${bill.billNumber} created`,
+      });
+      navigate("/admin-bills");
+    } catch (error) {
+      // The API interceptor already shows the server's message
+      console.error("Error creating Work Bill:", error);
+    } finally {
+      setIsBilling(false);
+    }
+  };
+
+  // After finalizing, reopening or cancelling
+  const reloadReceipt = () => {
+    if (!id) return;
+    adminReceiptServices.getAdminReceipt(id).then(setReceipt);
+  };
+
   if (isLoading) {
     return (
       <div className="container py-6 flex justify-center items-center min-h-[600px]">
@@ -559,11 +627,13 @@ export default function AdminReceiptDetailPage() {
   }
 
   // Calculate balance
-  const calculateBalance = () => {
-    const givenTotal = parseFloat(String(receipt.given?.total || 0));
-    const receivedTotal = parseFloat(String(receipt.received?.total || 0));
-    return (givenTotal - receivedTotal).toFixed(3);
-  };
+  // Matches the "given - received" calculation shown beside it
+  const calculateBalance = () =>
+    manualResult(
+      receipt.given?.total,
+      receipt.received?.total,
+      "subtract-given-received"
+    ).toFixed(3);
 
   return (
     <div className="container py-6">
@@ -602,9 +672,43 @@ export default function AdminReceiptDetailPage() {
             <Button onClick={handleDownloadPDF}>
               <Download className="mr-2 h-4 w-4" /> Download Receipt
             </Button>
+            {receipt.status === "complete" && can("receipts:create") && (
+              <Button
+                variant="outline"
+                onClick={handleCreateBill}
+                disabled={isBilling}
+              >
+                {isBilling ? (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                ) : (
+                  <FileText className="mr-2 h-4 w-4" />
+                )}
+                Create Work Bill
+              </Button>
+            )}
+            <ReceiptLockActions
+              receiptType="adminReceipt"
+              receipt={receipt}
+              onChange={reloadReceipt}
+            />
+            {can("receipts:delete") &&
+              !receipt.isFinalized &&
+              receipt.status !== "cancelled" && (
+                <Button variant="outline" onClick={() => setCancelOpen(true)}>
+                  <Ban className="mr-2 h-4 w-4" /> Cancel
+                </Button>
+              )}
+            {can("receipts:delete") && !receipt.isFinalized && (
+              <Button variant="outline" onClick={() => setTrashOpen(true)}>
+                <Trash2 className="mr-2 h-4 w-4" /> Delete
+              </Button>
+            )}
           </div>
         </div>
 
+        <ReceiptLockNotice receipt={receipt} />
+        <ReceiptCancelledNotice receipt={receipt} />
+
         <Separator className="my-6" />
 
         {/* Given Items Section */}
@@ -749,18 +853,14 @@ export default function AdminReceiptDetailPage() {
             <div>
               <p className="text-sm text-gray-500">OD Balance</p>
               <p className="font-medium">
-                {client && typeof client.balance === "number"
-                  ? client.balance.toFixed(3)
-                  : "0.000"}
+                {balanceFor(client?.balances, receipt.metalType).toFixed(3)}
               </p>
             </div>
             <div>
               <p className="text-sm text-gray-500">Calculation</p>
               <p className="font-medium">
                 {formatNumber(receipt.given?.total)} +{" "}
-                {client && typeof client.balance === "number"
-                  ? client.balance.toFixed(3)
-                  : "0.000"}
+                {balanceFor(client?.balances, receipt.metalType).toFixed(3)}
               </p>
             </div>
             <div>
@@ -768,7 +868,7 @@ export default function AdminReceiptDetailPage() {
               <p className="font-medium">
                 {formatNumber(
                   Number(receipt.given?.total || 0) +
-                    Number(client?.balance || 0)
+                    balanceFor(client?.balances, receipt.metalType)
                 )}
               </p>
             </div>
@@ -958,9 +1058,7 @@ export default function AdminReceiptDetailPage() {
             <div>
               <p className="text-sm text-gray-500">Current Balance</p>
               <p className="font-medium">
-                {client && typeof client.balance === "number"
-                  ? client.balance.toFixed(3)
-                  : "0.000"}
+                {balanceFor(client?.balances, receipt.metalType).toFixed(3)}
               </p>
             </div>
             <div>
@@ -977,6 +1075,53 @@ export default function AdminReceiptDetailPage() {
           </div>
         </div>
       </div>
+
+      {rates && (
+        <div className="mt-8 max-w-md">
+          <RateInEffect
+            date={rates.date}
+            metal={receipt.metalType}
+            quotes={rates.rates}
+            items={valuationItems(receipt)}
+          />
+        </div>
+      )}
+
+      {id && (
+        <div className="mt-8">
+          <Tabs defaultValue="history">
+            <TabsList>
+              <TabsTrigger value="history">History</TabsTrigger>
+              {can("audit:view") && (
+                <TabsTrigger value="audit">Audit Trail</TabsTrigger>
+              )}
+            </TabsList>
+            <TabsContent value="history">
+              <div className="bg-card card-premium rounded-lg p-6">
+                <ReceiptHistory receiptType="adminReceipt" receiptId={id} />
+              </div>
+            </TabsContent>
+            {can("audit:view") && (
+              <TabsContent value="audit">
+                <AuditHistory entityType="adminReceipt" entityId={id} />
+              </TabsContent>
+            )}
+          </Tabs>
+        </div>
+      )}
+
+      <CancelReceiptDialog
+        receiptType="adminReceipt"
+        receipt={cancelOpen ? receipt : null}
+        onClose={() => setCancelOpen(false)}
+        onCancelled={reloadReceipt}
+      />
+      <TrashReceiptDialog
+        receiptType="adminReceipt"
+        receipt={trashOpen ? receipt : null}
+        onClose={() => setTrashOpen(false)}
+        onDeleted={() => navigate("/admin-receipts")}
+      />
     </div>
   );
 }
@@ -12,9 +12,13 @@ import {
   TableRow,
 } from "@/components/ui/table";
 import { Input } from "@/components/ui/input";
-import { adminReceiptServices } from "@/services/api-admin";
-import { Eye, Trash, Edit, Search } from "lucide-react";
-import { useToast } from "@/hooks/use-toast";
+import { adminReceiptServices, ReceiptLock } from "@/services/api";
+import { useAuth } from "@/hooks/use-auth";
+import { Eye, Ban, Edit, Search } from "lucide-react";
+import {
+  CancelReceiptDialog,
+  VoucherLabel,
+} from "@/components/receipts/receipt-cancel";
 import {
   Pagination,
   PaginationContent,
@@ -24,10 +28,10 @@ import {
   PaginationPrevious,
 } from "@/components/ui/pagination";
 
-interface AdminReceipt {
+interface AdminReceipt extends ReceiptLock {
   _id: string;
   clientName: string;
-  status: "complete" | "incomplete" | "empty";
+  status: "complete" | "incomplete" | "empty" | "cancelled";
   voucherId: string;
   createdAt: string;
   updatedAt: string;
@@ -45,7 +49,10 @@ const AdminReceiptsPage = () => {
   const [searchTerm, setSearchTerm] = useState("");
   const [page, setPage] = useState(1);
   const [receiptsPerPage] = useState(10);
-  const { toast } = useToast();
+  const [receiptToCancel, setReceiptToCancel] = useState<AdminReceipt | null>(
+    null
+  );
+  const { can } = useAuth();
 
   const {
     data: adminReceipts,
@@ -54,28 +61,9 @@ const AdminReceiptsPage = () => {
     refetch,
   } = useQuery({
     queryKey: ["adminReceipts"],
-    queryFn: adminReceiptServices.getAdminReceipts,
+    queryFn: () => adminReceiptServices.getAdminReceipts(),
   });
 
-  const handleDelete = async (id: string) => {
-    if (window.confirm("Are you sure you want to delete this Work Receipt?")) {
-      try {
-        await adminReceiptServices.deleteAdminReceipt(id);
-        toast({
-          title: "Success",
-          description: "Work Receipt deleted successfully",
-        });
-        refetch();
-      } catch (error) {
-        toast({
-          title: "Error",
-          description: "Failed to delete Work Receipt",
-          variant: "destructive",
-        });
-      }
-    }
-  };
-
   // Filter receipts based on search term
   const filteredReceipts = adminReceipts
     ? adminReceipts.filter(
@@ -98,9 +86,11 @@ const AdminReceiptsPage = () => {
     <div className="container p-6 mx-auto">
       <div className="flex justify-between items-center mb-6">
         <h1 className="text-3xl font-serif font-bold">Work Receipts</h1>
-        <Button asChild>
-          <Link to="/admin-receipts/new">New Work Receipt</Link>
-        </Button>
+        {can("receipts:create") && (
+          <Button asChild>
+            <Link to="/admin-receipts/new">New Work Receipt</Link>
+          </Button>
+        )}
       </div>
 
       <Card>
@@ -142,9 +132,17 @@ const AdminReceiptsPage = () => {
                   </TableHeader>
                   <TableBody>
                     {currentReceipts.map((receipt: AdminReceipt) => (
-                      <TableRow key={receipt._id}>
+                      <TableRow
+                        key={receipt._id}
+                        className={
+                          receipt.status === "cancelled" ? "opacity-60" : ""
+                        }
+                      >
                         <TableCell className="font-medium">
-                          {receipt.voucherId}
+                          <VoucherLabel
+                            voucherId={receipt.voucherId}
+                            status={receipt.status}
+                          />
                         </TableCell>
                         <TableCell>{receipt.clientName}</TableCell>
                         <TableCell>
@@ -154,6 +152,8 @@ const AdminReceiptsPage = () => {
                                 ? "bg-green-100 text-green-800"
                                 : receipt.status === "incomplete"
                                 ? "bg-yellow-100 text-yellow-800"
+                                : receipt.status === "cancelled"
+                                ? "bg-red-100 text-red-800"
                                 : "bg-gray-100 text-gray-800"
                             }`}
                           >
@@ -173,18 +173,25 @@ const AdminReceiptsPage = () => {
                                 <Eye className="h-4 w-4" />
                               </Link>
                             </Button>
-                            <Button variant="outline" size="sm" asChild>
-                              <Link to={`/admin-receipts/${receipt._id}/edit`}>
-                                <Edit className="h-4 w-4" />
-                              </Link>
-                            </Button>
-                            <Button
-                              variant="outline"
-                              size="sm"
-                              onClick={() => handleDelete(receipt._id)}
-                            >
-                              <Trash className="h-4 w-4" />
-                            </Button>
+                            {can("receipts:edit") && (
+                              <Button variant="outline" size="sm" asChild>
+                                <Link to={`/admin-receipts/${receipt._id}/edit`}>
+                                  <Edit className="h-4 w-4" />
+                                </Link>
+                              </Button>
+                            )}
+                            {can("receipts:delete") &&
+                              !receipt.isFinalized &&
+                              receipt.status !== "cancelled" && (
+                                <Button
+                                  variant="outline"
+                                  size="sm"
+                                  onClick={() => setReceiptToCancel(receipt)}
+                                  title="Cancel Work Receipt"
+                                >
+                                  <Ban className="h-4 w-4" />
+                                </Button>
+                              )}
                           </div>
                         </TableCell>
                       </TableRow>
@@ -237,13 +244,22 @@ const AdminReceiptsPage = () => {
           ) : (
             <div className="py-4 text-center">
               <p>No Work Receipts found</p>
-              <Button asChild className="mt-4">
-                <Link to="/admin-receipts/new">Create New Work Receipt</Link>
-              </Button>
+              {can("receipts:create") && (
+                <Button asChild className="mt-4">
+                  <Link to="/admin-receipts/new">Create New Work Receipt</Link>
+                </Button>
+              )}
             </div>
           )}
         </CardContent>
       </Card>
+
+      <CancelReceiptDialog
+        receiptType="adminReceipt"
+        receipt={receiptToCancel}
+        onClose={() => setReceiptToCancel(null)}
+        onCancelled={() => refetch()}
+      />
     </div>
   );
 };
@@ -29,131 +29,54 @@ import {
   PopoverTrigger,
 } from "@/components/ui/popover";
 import { Calendar as CalendarComponent } from "@/components/ui/calendar";
-import axios from "axios";
-
-const api = axios.create({
-  baseURL: "https://backend-goldsmith.onrender.com/api",
-  headers: {
-    "Content-Type": "application/json",
-  },
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  adminReceiptServices,
+  clientServices,
+  Client as ApiClient,
+  WorkReceiptInput,
+} from "@/services/api";
+import {
+  formatGrams,
+  hasFilledRows,
+  manualResult,
+  toGrams,
+  workGivenTotal,
+  workGivenTotals,
+  workReceiptBalance,
+  workReceivedAmounts,
+  workReceivedTotals,
+} from "@/lib/receipt-calculations";
+import {
+  balanceFor,
+  DEFAULT_METAL,
+  MetalBalances,
+  METALS,
+  metalOf,
+} from "@/lib/metal-balances";
+
+const toClient = (c: ApiClient): Client => ({
+  id: c._id,
+  name: c.clientName,
+  shopName: c.shopName,
+  phoneNumber: c.phoneNumber,
+  address: c.address,
+  balances: c.balances || {},
 });
 
-const clientApi = {
-  getClients: async (): Promise<Client[]> => {
-    const response = await api.get("/clients");
-    const data = response.data;
-    const rawList = Array.isArray(data)
-      ? data
-      : Array.isArray(data.clients)
-      ? data.clients
-      : [];
-    return rawList.map((c: any) => ({
-      id: c._id,
-      name: c.clientName,
-      shopName: c.shopName,
-      phoneNumber: c.phoneNumber,
-      address: c.address,
-      balance: c.balance || 0,
-    }));
-  },
-
-  getClientById: async (id: string) => {
-    const response = await api.get(`/clients/${id}`);
-    const c = response.data;
-    return {
-      id: c._id,
-      name: c.clientName,
-      shopName: c.shopName,
-      phoneNumber: c.phoneNumber,
-      address: c.address,
-      balance: c.balance || 0,
-    };
-  },
-};
-
-const adminReceiptApi = {
-  getAdminReceipts: async (clientId: string | null = null) => {
-    const params = clientId ? { clientId } : {};
-    const response = await api.get("/admin-receipts", { params });
-    return response.data;
-  },
-
-  getAdminReceiptById: async (id: string) => {
-    const response = await api.get(`/admin-receipts/${id}`);
-    return response.data;
-  },
-
-  createAdminReceipt: async (receiptData: any) => {
-    const response = await api.post("/admin-receipts", receiptData);
-    return response.data;
-  },
-
-  updateAdminReceipt: async (id: string, receiptData: any) => {
-    const response = await api.put(`/admin-receipts/${id}`, receiptData);
-    return response.data;
-  },
-
-  deleteAdminReceipt: async (id: string) => {
-    const response = await api.delete(`/admin-receipts/${id}`);
-    return response.data;
-  },
-
-  generateVoucherId: async () => {
-    const response = await api.get("/admin-receipts/generate-voucher-id");
-    return response.data.voucherId;
-  },
-};
-
-const mockClients = [
-  {
-    id: "683eb8582febef63b0100fc8",
-    name: "test",
-    shopName: "Testing shop",
-    phoneNumber: "07448359935",
-    address: "Muthumariyamman muttai kadai , Teachers colony podanur",
-    balance: 0,
-  },
-  {
-    id: "1002",
-    name: "Silver Linings",
-    shopName: "Silver Shop",
-    phoneNumber: "9080705040",
-    address: "456 Silver Ave",
-    balance: 1000,
-  },
-  {
-    id: "1003",
-    name: "Gem Masters",
-    shopName: "Gem World",
-    phoneNumber: "9845939045",
-    address: "789 Gem Blvd",
-    balance: -500,
-  },
-  {
-    id: "1004",
-    name: "Platinum Plus",
-    shopName: "Platinum Gallery",
-    phoneNumber: "8090847974",
-    address: "101 Platinum Rd",
-    balance: 2500,
-  },
-  {
-    id: "1005",
-    name: "Diamond Designs",
-    shopName: "Diamond Hub",
-    phoneNumber: "7070707070",
-    address: "202 Diamond Lane",
-    balance: 0,
-  },
-];
-
 interface Client {
   id: string;
   name: string;
   shopName: string;
   phoneNumber: string;
   address: string;
-  balance: number;
+  balances: MetalBalances;
 }
 
 interface GivenItem {
@@ -193,6 +116,7 @@ export default function NewAdminReceiptPage() {
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [clients, setClients] = useState<Client[]>([]);
   const [isLoadingClients, setIsLoadingClients] = useState<boolean>(false);
+  const [clientsError, setClientsError] = useState<boolean>(false);
   const [shopNameFilter, setShopNameFilter] = useState<string>("");
   const [clientNameFilter, setClientNameFilter] = useState<string>("");
   const [phoneFilter, setPhoneFilter] = useState<string>("");
@@ -226,24 +150,22 @@ export default function NewAdminReceiptPage() {
   const [manualGivenTotal, setManualGivenTotal] = useState<number>(0);
   const [manualReceivedTotal, setManualReceivedTotal] = useState<number>(0);
   const [operation, setOperation] = useState<string>("subtract-given-received");
-  const [clientBalance, setClientBalance] = useState<number>(0);
-  const [manualClientBalance, setManualClientBalance] = useState<number>(0); // Always start with 0
+  const [metalType, setMetalType] = useState<string>(DEFAULT_METAL);
+  const [clientBalances, setClientBalances] = useState<MetalBalances>({});
+  // The receipt moves the balance of its own metal only
+  const clientBalance = balanceFor(clientBalances, metalType);
 
   useEffect(() => {
     const initPage = async () => {
       try {
         if (!id) {
+          // Only a preview; the server numbers the receipt when it is saved
           try {
-            const generatedId = await adminReceiptApi.generateVoucherId();
-            setVoucherId(generatedId);
+            const { voucherId: nextId } =
+              await adminReceiptServices.generateVoucherId();
+            setVoucherId(nextId);
           } catch (error) {
-            setVoucherId(
-              `GA-${new Date().getFullYear().toString().substr(-2)}${(
-                new Date().getMonth() + 1
-              )
-                .toString()
-                .padStart(2, "0")}-${Math.floor(1000 + Math.random() * 9000)}`
-            );
+            console.error("Error fetching next voucher ID:", error);
           }
         }
 
@@ -267,22 +189,16 @@ export default function NewAdminReceiptPage() {
   const loadClients = async () => {
     setIsLoadingClients(true);
     try {
-      const clientsData = await clientApi.getClients();
-      if (Array.isArray(clientsData)) {
-        setClients(clientsData);
-      } else {
-        setClients(mockClients);
-        toast({
-          title: "Warning",
-          description:
-            "Using mock client data due to API response format issue.",
-        });
-      }
+      const { clients: clientsData } = await clientServices.getClients();
+      setClients(clientsData.map(toClient));
+      setClientsError(false);
     } catch (error) {
-      setClients(mockClients);
+      console.error("Error fetching clients:", error);
+      setClientsError(true);
       toast({
-        title: "Warning",
-        description: "Using mock client data due to API error.",
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to load clients. Please try again.",
       });
     } finally {
       setIsLoadingClients(false);
@@ -292,19 +208,21 @@ export default function NewAdminReceiptPage() {
   const loadReceiptData = async (receiptId: string) => {
     setIsLoading(true);
     try {
-      const receipt = await adminReceiptApi.getAdminReceiptById(receiptId);
+      const receipt = await adminReceiptServices.getAdminReceipt(receiptId);
 
       if (receipt.voucherId) {
         setVoucherId(receipt.voucherId);
       }
+      setMetalType(metalOf(receipt.metalType));
 
       try {
         if (receipt.clientId) {
-          const client = await clientApi.getClientById(receipt.clientId);
+          const client = toClient(
+            await clientServices.getClient(receipt.clientId)
+          );
           if (client) {
             setSelectedClient(client);
-            setClientBalance(client.balance || 0);
-            // Don't set manualClientBalance - keep it at 0 for manual entry
+            setClientBalances(client.balances);
           }
         }
       } catch (clientError) {
@@ -315,9 +233,9 @@ export default function NewAdminReceiptPage() {
             shopName: "Unknown Shop",
             phoneNumber: "",
             address: "",
-            balance: 0,
+            balances: {},
           });
-          setClientBalance(0);
+          setClientBalances({});
         }
       }
 
@@ -400,10 +318,9 @@ export default function NewAdminReceiptPage() {
 
   const handleSelectClient = async (client: Client) => {
     try {
-      const clientData = await clientApi.getClientById(client.id);
+      const clientData = toClient(await clientServices.getClient(client.id));
       setSelectedClient(clientData);
-      setClientBalance(clientData.balance || 0);
-      // Don't set manualClientBalance - keep it at 0 for manual entry
+      setClientBalances(clientData.balances);
     } catch (error) {
       toast({
         variant: "destructive",
@@ -455,11 +372,7 @@ export default function NewAdminReceiptPage() {
 
           // Only recalculate for numeric fields
           if (["pureWeight", "purePercent", "melting"].includes(field)) {
-            const pureWeight = parseFloat(updatedItem.pureWeight) || 0;
-            const purePercent = parseFloat(updatedItem.purePercent) || 0;
-            const melting = parseFloat(updatedItem.melting) || 1;
-
-            updatedItem.total = (pureWeight * purePercent) / melting;
+            updatedItem.total = workGivenTotal(updatedItem);
           }
 
           return updatedItem;
@@ -512,15 +425,9 @@ export default function NewAdminReceiptPage() {
               field
             )
           ) {
-            const finalOrnamentsWt =
-              parseFloat(updatedItem.finalOrnamentsWt) || 0;
-            const stoneWeight = parseFloat(updatedItem.stoneWeight) || 0;
-            const makingChargePercent =
-              parseFloat(updatedItem.makingChargePercent) || 0;
-
-            updatedItem.subTotal = finalOrnamentsWt - stoneWeight;
-            updatedItem.total =
-              updatedItem.subTotal * (1 + makingChargePercent / 100);
+            const { subTotal, total } = workReceivedAmounts(updatedItem);
+            updatedItem.subTotal = subTotal;
+            updatedItem.total = total;
           }
 
           return updatedItem;
@@ -530,27 +437,8 @@ export default function NewAdminReceiptPage() {
     );
   };
 
-  const givenTotals = {
-    totalPureWeight: givenItems.reduce((acc, item) => {
-      const pureWeight = parseFloat(item.pureWeight) || 0;
-      const purePercent = parseFloat(item.purePercent) || 0;
-      return acc + (pureWeight * purePercent) / 100;
-    }, 0),
-    total: givenItems.reduce((acc, item) => acc + item.total, 0),
-  };
-
-  const receivedTotals = {
-    totalOrnamentsWt: receivedItems.reduce(
-      (acc, item) => acc + (parseFloat(item.finalOrnamentsWt) || 0),
-      0
-    ),
-    totalStoneWeight: receivedItems.reduce(
-      (acc, item) => acc + (parseFloat(item.stoneWeight) || 0),
-      0
-    ),
-    totalSubTotal: receivedItems.reduce((acc, item) => acc + item.subTotal, 0),
-    total: receivedItems.reduce((acc, item) => acc + item.total, 0),
-  };
+  const givenTotals = workGivenTotals(givenItems);
+  const receivedTotals = workReceivedTotals(receivedItems);
 
   useEffect(() => {
     setManualGivenTotal(givenTotals.total);
@@ -560,41 +448,18 @@ export default function NewAdminReceiptPage() {
     setManualReceivedTotal(receivedTotals.total);
   }, [receivedTotals.total]);
 
-  const calculateManualResult = () => {
-    const given = manualGivenTotal || 0;
-    const received = manualReceivedTotal || 0;
-    let result;
-    switch (operation) {
-      case "subtract-given-received":
-        result = given - received;
-        break;
-      case "subtract-received-given":
-        result = received - given;
-        break;
-      case "add":
-        result = given + received;
-        break;
-      default:
-        result = 0;
-    }
-    return result;
-  };
-
-  const calculateNewBalance = () => {
-    const hasGivenItems = givenItems.some((item) => item.productName);
-    const hasReceivedItems = receivedItems.some((item) => item.productName);
-
-    let balanceAdjustment = 0;
-    if (hasGivenItems && hasReceivedItems) {
-      balanceAdjustment = calculateManualResult();
-    } else if (hasGivenItems) {
-      balanceAdjustment = givenTotals.total;
-    } else if (hasReceivedItems) {
-      balanceAdjustment = -receivedTotals.total;
-    }
-
-    return manualClientBalance + balanceAdjustment;
-  };
+  const calculateManualResult = () =>
+    manualResult(manualGivenTotal, manualReceivedTotal, operation);
+
+  const calculateNewBalance = () =>
+    toGrams(
+      clientBalance +
+        workReceiptBalance({
+          given: { items: givenItems, total: givenTotals.total },
+          received: { items: receivedItems, total: receivedTotals.total },
+          manualCalculations: { result: calculateManualResult() },
+        })
+    );
 
   const saveGivenData = async () => {
     if (!selectedClient) {
@@ -631,17 +496,7 @@ export default function NewAdminReceiptPage() {
         }
       }
 
-      // Calculate balance adjustment
-      const hasReceivedItems = receivedItems.some((item) => item.productName);
-      const balanceAdjustment = hasReceivedItems
-        ? calculateManualResult()
-        : givenTotals.total;
-      const newBalance = manualClientBalance + balanceAdjustment;
-
-      // Update client balance in the database
-      await api.put(`/clients/${selectedClient.id}`, {
-        balance: newBalance,
-      });
+      const hasReceivedItems = hasFilledRows(receivedItems);
 
       // Prepare given data
       const givenData = {
@@ -654,9 +509,10 @@ export default function NewAdminReceiptPage() {
       const status = hasReceivedItems ? "complete" : "incomplete";
 
       // Prepare receipt data
-      const receiptData: any = {
+      const receiptData: WorkReceiptInput = {
         clientId: selectedClient.id,
         clientName: selectedClient.name,
+        metalType,
         given: givenData,
         status,
         manualCalculations: {
@@ -667,18 +523,23 @@ export default function NewAdminReceiptPage() {
         },
       };
 
+      let saved;
       if (id) {
         // Update existing receipt
-        await adminReceiptApi.updateAdminReceipt(id, {
-          given: givenData,
-          status,
-          manualCalculations: {
-            givenTotal: manualGivenTotal,
-            receivedTotal: manualReceivedTotal,
-            operation,
-            result: calculateManualResult(),
+        saved = await adminReceiptServices.saveAdminReceipt(
+          {
+            given: givenData,
+            metalType,
+            status,
+            manualCalculations: {
+              givenTotal: manualGivenTotal,
+              receivedTotal: manualReceivedTotal,
+              operation,
+              result: calculateManualResult(),
+            },
           },
-        });
+          id
+        );
       } else {
         // Create new receipt
         if (hasReceivedItems) {
@@ -692,23 +553,20 @@ export default function NewAdminReceiptPage() {
           };
         }
 
-        const newReceipt = await adminReceiptApi.createAdminReceipt(
-          receiptData
-        );
-        if (newReceipt && newReceipt._id) {
-          navigate(`/admin-receipts/${newReceipt._id}`, { replace: true });
-        }
+        saved = await adminReceiptServices.saveAdminReceipt(receiptData);
+        navigate(`/admin-receipts/${saved.receipt._id}`, { replace: true });
       }
 
-      // Update frontend state
-      setClientBalance(newBalance);
-      // Don't update manualClientBalance - let user control it manually
+      // The receipt and its ledger entry were saved in the same request
+      const newBalance = balanceFor(
+        saved.client.balances,
+        saved.receipt.metalType
+      );
+      setClientBalances(saved.client.balances);
 
       toast({
         title: "Success",
-        description: `Given items saved successfully. New balance: ${newBalance.toFixed(
-          2
-        )}`,
+        description: `Given items saved successfully. New balance: ${formatGrams(newBalance)}`,
       });
     } catch (error: any) {
       toast({
@@ -755,17 +613,7 @@ export default function NewAdminReceiptPage() {
         }
       }
 
-      // Calculate balance adjustment
-      const hasGivenItems = givenItems.some((item) => item.productName);
-      const balanceAdjustment = hasGivenItems
-        ? calculateManualResult()
-        : -receivedTotals.total;
-      const newBalance = manualClientBalance + balanceAdjustment;
-
-      // Update client balance in the database
-      await api.put(`/clients/${selectedClient.id}`, {
-        balance: newBalance,
-      });
+      const hasGivenItems = hasFilledRows(givenItems);
 
       // Prepare received data with MC
       const receivedItemsWithMC = receivedItems.map((item) => ({
@@ -781,9 +629,10 @@ export default function NewAdminReceiptPage() {
         total: receivedTotals.total,
       };
 
-      const receiptData: any = {
+      const receiptData: WorkReceiptInput = {
         clientId: selectedClient.id,
         clientName: selectedClient.name,
+        metalType,
         received: receivedData,
         status,
         manualCalculations: {
@@ -794,18 +643,23 @@ export default function NewAdminReceiptPage() {
         },
       };
 
+      let saved;
       if (id) {
         // Update existing receipt
-        await adminReceiptApi.updateAdminReceipt(id, {
-          received: receivedData,
-          status,
-          manualCalculations: {
-            givenTotal: manualGivenTotal,
-            receivedTotal: manualReceivedTotal,
-            operation,
-            result: calculateManualResult(),
+        saved = await adminReceiptServices.saveAdminReceipt(
+          {
+            received: receivedData,
+            metalType,
+            status,
+            manualCalculations: {
+              givenTotal: manualGivenTotal,
+              receivedTotal: manualReceivedTotal,
+              operation,
+              result: calculateManualResult(),
+            },
           },
-        });
+          id
+        );
       } else {
         // Create new receipt
         if (hasGivenItems) {
@@ -817,23 +671,20 @@ export default function NewAdminReceiptPage() {
           };
         }
 
-        const newReceipt = await adminReceiptApi.createAdminReceipt(
-          receiptData
-        );
-        if (newReceipt && newReceipt._id) {
-          navigate(`/admin-receipts/${newReceipt._id}`, { replace: true });
-        }
+        saved = await adminReceiptServices.saveAdminReceipt(receiptData);
+        navigate(`/admin-receipts/${saved.receipt._id}`, { replace: true });
       }
 
-      // Update frontend state
-      setClientBalance(newBalance);
-      // Don't update manualClientBalance - let user control it manually
+      // The receipt and its ledger entry were saved in the same request
+      const newBalance = balanceFor(
+        saved.client.balances,
+        saved.receipt.metalType
+      );
+      setClientBalances(saved.client.balances);
 
       toast({
         title: "Success",
-        description: `Received items saved successfully. New balance: ${newBalance.toFixed(
-          2
-        )}`,
+        description: `Received items saved successfully. New balance: ${formatGrams(newBalance)}`,
       });
     } catch (error: any) {
       toast({
@@ -872,26 +723,16 @@ export default function NewAdminReceiptPage() {
           <div className="mt-4 p-4 border rounded-md bg-muted/50">
             <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
               <div className="font-medium text-lg">
-                OD Balance:
-                <Input
-                  type="number"
-                  value={manualClientBalance || ""}
-                  onChange={(e) =>
-                    setManualClientBalance(Number(e.target.value) || 0)
-                  }
-                  placeholder="0.000"
-                  className="mt-1 w-32 inline-block ml-2"
-                  step="0.001"
-                />
+                OD {metalType} Balance: {formatGrams(clientBalance)}
               </div>
               <div className="font-medium text-lg">
-                Given Total: {givenTotals.total.toFixed(2)}
+                Given Total: {formatGrams(givenTotals.total)}
               </div>
               <div className="font-medium text-lg">
-                Received Total: {receivedTotals.total.toFixed(2)}
+                Received Total: {formatGrams(receivedTotals.total)}
               </div>
               <div className="font-medium text-lg md:col-span-3">
-                Final Balance: {calculateNewBalance().toFixed(2)}
+                Final Balance: {formatGrams(calculateNewBalance())}
               </div>
             </div>
           </div>
@@ -935,6 +776,11 @@ export default function NewAdminReceiptPage() {
                 <Loader className="h-6 w-6 animate-spin mx-auto mb-2" />
                 <p className="text-muted-foreground">Loading clients...</p>
               </div>
+            ) : clientsError ? (
+              <div className="text-center py-6 text-destructive">
+                <p>Failed to load clients</p>
+                <p className="text-sm mt-2">Please try refreshing the page</p>
+              </div>
             ) : (
               <div className="space-y-3">
                 {filteredClients.length > 0 ? (
@@ -947,7 +793,12 @@ export default function NewAdminReceiptPage() {
                             <div>Shop: {client.shopName}</div>
                             <div>Phone: {client.phoneNumber}</div>
                             <div>Address: {client.address}</div>
-                            <div>Balance: {client.balance.toFixed(2)}</div>
+                            <div>
+                              {metalType} Balance:{" "}
+                              {formatGrams(
+                                balanceFor(client.balances, metalType)
+                              )}
+                            </div>
                           </div>
                         </div>
                         <Button
@@ -981,8 +832,22 @@ export default function NewAdminReceiptPage() {
                   database.
                 </CardDescription>
               </div>
-              <div className="bg-primary/10 px-3 py-1 rounded-md text-primary font-medium">
-                Voucher ID: {voucherId}
+              <div className="flex items-center gap-2">
+                <Select value={metalType} onValueChange={setMetalType}>
+                  <SelectTrigger className="w-[140px]" aria-label="Metal">
+                    <SelectValue placeholder="Metal" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {METALS.map((metal) => (
+                      <SelectItem key={metal} value={metal}>
+                        {metal}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <div className="bg-primary/10 px-3 py-1 rounded-md text-primary font-medium">
+                  {id ? "Voucher ID" : "Next Voucher"}: {voucherId || "-"}
+                </div>
               </div>
             </CardHeader>
             <CardContent>
@@ -1143,7 +1008,7 @@ export default function NewAdminReceiptPage() {
                                 Total (g)
                               </label>
                               <div className="font-medium">
-                                {item.total.toFixed(2)}
+                                {formatGrams(item.total)}
                               </div>
                             </div>
                             <div className="flex items-center">
@@ -1160,10 +1025,10 @@ export default function NewAdminReceiptPage() {
                         {/* Totals Row */}
                         <div className="grid grid-cols-1 md:grid-cols-8 gap-4 p-3 border rounded-md bg-muted/50 font-medium">
                           <div className="md:col-span-3">Totals</div>
-                          <div>{givenTotals.totalPureWeight.toFixed(2)}</div>
+                          <div>{formatGrams(givenTotals.totalPureWeight)}</div>
                           <div>-</div>
                           <div>-</div>
-                          <div>{givenTotals.total.toFixed(2)}</div>
+                          <div>{formatGrams(givenTotals.total)}</div>
                           <div></div>
                         </div>
                         {/* Balance Calculation Table */}
@@ -1186,21 +1051,10 @@ export default function NewAdminReceiptPage() {
                               {givenItems.map((item, idx) => (
                                 <tr key={item.id}>
                                   <td className="py-2">
-                                    {item.total.toFixed(3)} g
+                                    {formatGrams(item.total)} g
                                   </td>
                                   <td className="py-2">
-                                    <Input
-                                      type="number"
-                                      value={manualClientBalance || ""}
-                                      onChange={(e) =>
-                                        setManualClientBalance(
-                                          Number(e.target.value) || 0
-                                        )
-                                      }
-                                      placeholder="0.000"
-                                      className="w-24"
-                                      step="0.001"
-                                    />
+                                    {formatGrams(clientBalance)}
                                   </td>
                                   <td className="py-2">
                                     <Input
@@ -1213,13 +1067,11 @@ export default function NewAdminReceiptPage() {
                                     />
                                   </td>
                                   <td className="py-2">
-                                    {manualClientBalance.toFixed(3)} +{" "}
-                                    {item.total.toFixed(3)}
+                                    {formatGrams(clientBalance)} +{" "}
+                                    {formatGrams(item.total)}
                                   </td>
                                   <td className="py-2">
-                                    {(manualClientBalance + item.total).toFixed(
-                                      3
-                                    )}
+                                    {formatGrams(clientBalance + item.total)}
                                   </td>
                                 </tr>
                               ))}
@@ -1230,9 +1082,9 @@ export default function NewAdminReceiptPage() {
                                 <td className="py-2"></td>
                                 <td className="py-2">
                                   ={" "}
-                                  {(
-                                    manualClientBalance + givenTotals.total
-                                  ).toFixed(2)}
+                                  {formatGrams(
+                                    clientBalance + givenTotals.total
+                                  )}
                                 </td>
                               </tr>
                             </tbody>
@@ -1422,7 +1274,7 @@ export default function NewAdminReceiptPage() {
                                 MC
                               </label>
                               <div className="font-medium">
-                                {(item.total - item.subTotal).toFixed(2)}
+                                {formatGrams(item.total - item.subTotal)}
                               </div>
                             </div>
                             <div>
@@ -1430,7 +1282,7 @@ export default function NewAdminReceiptPage() {
                                 Subtotal (g)
                               </label>
                               <div className="font-medium">
-                                {item.subTotal.toFixed(2)}
+                                {formatGrams(item.subTotal)}
                               </div>
                             </div>
                             <div>
@@ -1438,7 +1290,7 @@ export default function NewAdminReceiptPage() {
                                 Total (g)
                               </label>
                               <div className="font-medium">
-                                {item.total.toFixed(2)}
+                                {formatGrams(item.total)}
                               </div>
                             </div>
                             <div className="flex items-center">
@@ -1457,14 +1309,14 @@ export default function NewAdminReceiptPage() {
                         <div className="grid grid-cols-1 md:grid-cols-8 gap-4 p-3 border rounded-md bg-muted/50 font-medium">
                           <div className="md:col-span-3">Totals</div>
                           <div>
-                            {receivedTotals.totalOrnamentsWt.toFixed(2)}
+                            {formatGrams(receivedTotals.totalOrnamentsWt)}
                           </div>
                           <div>
-                            {receivedTotals.totalStoneWeight.toFixed(2)}
+                            {formatGrams(receivedTotals.totalStoneWeight)}
                           </div>
                           <div>-</div>
-                          <div>{receivedTotals.totalSubTotal.toFixed(2)}</div>
-                          <div>{receivedTotals.total.toFixed(2)}</div>
+                          <div>{formatGrams(receivedTotals.totalSubTotal)}</div>
+                          <div>{formatGrams(receivedTotals.total)}</div>
                           <div></div>
                         </div>
 
@@ -1481,7 +1333,7 @@ export default function NewAdminReceiptPage() {
                       <div className="mt-6 p-4 border rounded-md bg-muted/50">
                         <div className="flex justify-between items-center">
                           <div className="font-medium">
-                            Grand Total: {receivedTotals.total.toFixed(2)}
+                            Grand Total: {formatGrams(receivedTotals.total)}
                           </div>
                           <Button
                             className="bg-yellow-400 hover:bg-yellow-500 text-black"
@@ -1520,30 +1372,19 @@ export default function NewAdminReceiptPage() {
                           <tbody>
                             <tr>
                               <td className="py-2">
-                                {receivedTotals.total.toFixed(3)}{" "}
+                                {formatGrams(receivedTotals.total)}{" "}
                               </td>
                               <td className="py-2">
-                                <Input
-                                  type="number"
-                                  value={manualClientBalance || ""}
-                                  onChange={(e) =>
-                                    setManualClientBalance(
-                                      Number(e.target.value) || 0
-                                    )
-                                  }
-                                  placeholder="0.000"
-                                  className="w-24"
-                                  step="0.001"
-                                />
+                                {formatGrams(clientBalance)}
                               </td>
                               <td className="py-2">
-                                {manualClientBalance.toFixed(3)} -{" "}
-                                {receivedTotals.total.toFixed(3)}
+                                {formatGrams(clientBalance)} -{" "}
+                                {formatGrams(receivedTotals.total)}
                               </td>
                               <td className="py-2">
-                                {(
-                                  manualClientBalance - receivedTotals.total
-                                ).toFixed(3)}
+                                {formatGrams(
+                                  clientBalance - receivedTotals.total
+                                )}
                               </td>
                             </tr>
                             <tr className="border-t">
@@ -1552,9 +1393,9 @@ export default function NewAdminReceiptPage() {
                               <td className="py-2"></td>
                               <td className="py-2">
                                 ={" "}
-                                {(
-                                  manualClientBalance - receivedTotals.total
-                                ).toFixed(3)}
+                                {formatGrams(
+                                  clientBalance - receivedTotals.total
+                                )}
                               </td>
                             </tr>
                           </tbody>
@@ -1580,7 +1421,7 @@ export default function NewAdminReceiptPage() {
                   <Input
                     type="number"
                     // value={manualGivenTotal}
-                    placeholder={manualGivenTotal.toFixed(3)}
+                    placeholder={formatGrams(manualGivenTotal)}
                     min="0"
                     step="0.01"
                     onChange={(e) =>
@@ -1613,7 +1454,7 @@ export default function NewAdminReceiptPage() {
                   <Input
                     type="number"
                     // value={manualReceivedTotal.toFixed(3)}
-                    placeholder={manualReceivedTotal.toFixed(3)}
+                    placeholder={formatGrams(manualReceivedTotal)}
                     min="0"
                     step="0.001"
                     onChange={(e) =>
@@ -1627,7 +1468,7 @@ export default function NewAdminReceiptPage() {
                 <div className="flex justify-between items-center">
                   <div className="font-medium">Result:</div>
                   <div className="text-xl font-bold">
-                    {calculateManualResult().toFixed(2)}
+                    {formatGrams(calculateManualResult())}
                   </div>
                 </div>
               </div>
@@ -0,0 +1,346 @@
+import { useState } from "react";
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
+import { Link } from "react-router-dom";
+import { format } from "date-fns";
+import { Eye, Loader2, Search } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import {
+  Pagination,
+  PaginationContent,
+  PaginationItem,
+  PaginationNext,
+  PaginationPrevious,
+} from "@/components/ui/pagination";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { AuditChanges } from "@/components/audit/audit-history";
+import {
+  AUDIT_ACTION_LABELS,
+  AUDIT_ENTITY_LABELS,
+  auditEntityPath,
+} from "@/lib/audit";
+import {
+  AuditAction,
+  AuditEntityType,
+  AuditEntry,
+  auditServices,
+} from "@/services/api";
+
+const ENTRIES_PER_PAGE = 20;
+
+type EntityFilter = "all" | AuditEntityType;
+type ActionFilter = "all" | AuditAction;
+
+const AuditLogPage = () => {
+  const [searchTerm, setSearchTerm] = useState("");
+  const [entityFilter, setEntityFilter] = useState<EntityFilter>("all");
+  const [actionFilter, setActionFilter] = useState<ActionFilter>("all");
+  const [startDate, setStartDate] = useState("");
+  const [endDate, setEndDate] = useState("");
+  const [page, setPage] = useState(1);
+  const [viewEntry, setViewEntry] = useState<AuditEntry | null>(null);
+
+  const params = {
+    query: searchTerm || undefined,
+    entityType: entityFilter === "all" ? undefined : entityFilter,
+    action: actionFilter === "all" ? undefined : actionFilter,
+    startDate: startDate || undefined,
+    endDate: endDate || undefined,
+    page,
+    limit: ENTRIES_PER_PAGE,
+  };
+
+  const { data, isLoading, isError, refetch } = useQuery({
+    queryKey: ["audit", params],
+    queryFn: () => auditServices.getAuditEntries(params),
+    placeholderData: keepPreviousData,
+  });
+  const entries = data?.data || [];
+  const totalPages = data?.pages || 1;
+
+  const formatTime = (dateString: string) =>
+    format(new Date(dateString), "dd MMM yyyy, HH:mm");
+
+  return (
+    <div className="container p-6 mx-auto">
+      <div className="mb-6">
+        <h1 className="text-3xl font-serif font-bold">Audit Log</h1>
+        <p className="text-muted-foreground">
+          Every change to clients, receipts, balances, payments and metal
+          rates, with who made it
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Changes</CardTitle>
+          <div className="flex flex-col lg:flex-row items-center gap-2 mt-4">
+            <div className="relative flex-1 w-full">
+              <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+              <Input
+                type="search"
+                placeholder="Search by voucher, client, user or reason..."
+                className="pl-8"
+                value={searchTerm}
+                onChange={(e) => {
+                  setSearchTerm(e.target.value);
+                  setPage(1);
+                }}
+              />
+            </div>
+            <Select
+              value={entityFilter}
+              onValueChange={(value: EntityFilter) => {
+                setEntityFilter(value);
+                setPage(1);
+              }}
+            >
+              <SelectTrigger className="w-full lg:w-44">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Records</SelectItem>
+                {Object.entries(AUDIT_ENTITY_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select
+              value={actionFilter}
+              onValueChange={(value: ActionFilter) => {
+                setActionFilter(value);
+                setPage(1);
+              }}
+            >
+              <SelectTrigger className="w-full lg:w-36">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Actions</SelectItem>
+                {Object.entries(AUDIT_ACTION_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              type="date"
+              className="w-full lg:w-40"
+              value={startDate}
+              onChange={(e) => {
+                setStartDate(e.target.value);
+                setPage(1);
+              }}
+              title="From"
+            />
+            <Input
+              type="date"
+              className="w-full lg:w-40"
+              value={endDate}
+              onChange={(e) => {
+                setEndDate(e.target.value);
+                setPage(1);
+              }}
+              title="To"
+            />
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="text-center py-8">
+              <Loader2 className="h-8 w-8 animate-spin mx-auto text-primary" />
+              <p className="mt-2">Loading audit log...</p>
+            </div>
+          ) : isError ? (
+            <div className="text-center py-8 text-destructive">
+              <p className="text-lg font-medium">Error loading the audit log</p>
+              <Button
+                variant="outline"
+                className="mt-4"
+                onClick={() => refetch()}
+              >
+                Retry
+              </Button>
+            </div>
+          ) : entries.length > 0 ? (
+            <>
+              <div className="rounded-md border overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>When</TableHead>
+                      <TableHead>User</TableHead>
+                      <TableHead>Action</TableHead>
+                      <TableHead>Record</TableHead>
+                      <TableHead>Changed</TableHead>
+                      <TableHead>Reason</TableHead>
+                      <TableHead className="text-right">Details</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {entries.map((entry) => (
+                      <TableRow key={entry._id}>
+                        <TableCell className="whitespace-nowrap">
+                          {formatTime(entry.createdAt)}
+                        </TableCell>
+                        <TableCell>{entry.userName || "System"}</TableCell>
+                        <TableCell>
+                          {AUDIT_ACTION_LABELS[entry.action]}
+                        </TableCell>
+                        <TableCell>
+                          <span className="text-muted-foreground">
+                            {AUDIT_ENTITY_LABELS[entry.entityType]}{" "}
+                          </span>
+                          {entry.action === "delete" ||
+                          entry.action === "purge" ? (
+                            entry.label
+                          ) : (
+                            <Link
+                              to={auditEntityPath(
+                                entry.entityType,
+                                entry.entityId,
+                                (entry.after ?? entry.before)?.clientId as
+                                  | string
+                                  | undefined
+                              )}
+                              className="underline-offset-4 hover:underline"
+                            >
+                              {entry.label}
+                            </Link>
+                          )}
+                        </TableCell>
+                        <TableCell className="max-w-xs truncate">
+                          {entry.action === "update"
+                            ? entry.changes
+                                .map((change) => change.field)
+                                .join(", ")
+                            : "-"}
+                        </TableCell>
+                        <TableCell className="max-w-xs truncate">
+                          {entry.reason || "-"}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => setViewEntry(entry)}
+                            title="View Changes"
+                          >
+                            <Eye className="h-4 w-4" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+
+              {totalPages > 1 && (
+                <Pagination className="mt-4">
+                  <PaginationContent>
+                    <PaginationItem>
+                      <PaginationPrevious
+                        onClick={() => setPage((prev) => Math.max(prev - 1, 1))}
+                        className={
+                          page === 1
+                            ? "pointer-events-none opacity-50"
+                            : "cursor-pointer"
+                        }
+                      />
+                    </PaginationItem>
+                    <PaginationItem>
+                      <span className="px-4 text-sm text-muted-foreground">
+                        Page {page} of {totalPages}
+                      </span>
+                    </PaginationItem>
+                    <PaginationItem>
+                      <PaginationNext
+                        onClick={() =>
+                          setPage((prev) => Math.min(prev + 1, totalPages))
+                        }
+                        className={
+                          page === totalPages
+                            ? "pointer-events-none opacity-50"
+                            : "cursor-pointer"
+                        }
+                      />
+                    </PaginationItem>
+                  </PaginationContent>
+                </Pagination>
+              )}
+            </>
+          ) : (
+            <p className="py-12 text-center text-lg text-muted-foreground">
+              No matching changes recorded
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Entry details */}
+      <Dialog
+        open={!!viewEntry}
+        onOpenChange={(open) => !open && setViewEntry(null)}
+      >
+        <DialogContent className="max-w-3xl max-h-[85vh] overflow-y-auto">
+          {viewEntry && (
+            <>
+              <DialogHeader>
+                <DialogTitle>
+                  {AUDIT_ENTITY_LABELS[viewEntry.entityType]} {viewEntry.label}{" "}
+                  {AUDIT_ACTION_LABELS[viewEntry.action].toLowerCase()}
+                </DialogTitle>
+                <DialogDescription>
+                  {formatTime(viewEntry.createdAt)} by{" "}
+                  {viewEntry.userName || "System"}
+                  {viewEntry.reason && <> &middot; {viewEntry.reason}</>}
+                </DialogDescription>
+              </DialogHeader>
+              {viewEntry.action === "update" ? (
+                <AuditChanges changes={viewEntry.changes} />
+              ) : (
+                <pre className="max-h-96 overflow-auto rounded-md border p-4 text-xs whitespace-pre-wrap">
+                  {JSON.stringify(
+                    viewEntry.action === "create" ||
+                      viewEntry.action === "restore"
+                      ? viewEntry.after
+                      : viewEntry.before,
+                    null,
+                    2
+                  )}
+                </pre>
+              )}
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default AuditLogPage;
@@ -1,17 +1,25 @@
-
 import { useState } from "react";
 import { Link } from "react-router-dom";
-import { useQuery } from "@tanstack/react-query";
-import { 
-  Card, CardContent, CardHeader, CardTitle 
-} from "@/components/ui/card";
-import { 
-  Table, TableBody, TableCell, TableHead, TableHeader, TableRow 
+import {
+  keepPreviousData,
+  useMutation,
+  useQuery,
+  useQueryClient,
+} from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
 } from "@/components/ui/table";
 import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
 import { Button } from "@/components/ui/button";
 import { useToast } from "@/hooks/use-toast";
-import { Eye, Trash, Download, Search } from "lucide-react";
+import { Ban, Eye, Download, Search, Loader2 } from "lucide-react";
 import {
   Pagination,
   PaginationContent,
@@ -20,211 +28,350 @@ import {
   PaginationNext,
   PaginationPrevious,
 } from "@/components/ui/pagination";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { jsPDF } from "jspdf";
+import autoTable from "jspdf-autotable";
+import { format } from "date-fns";
+import { BillStatus, ClientBill, clientBillServices } from "@/services/api";
+import { useAuth } from "@/hooks/use-auth";
+
+const BILLS_PER_PAGE = 10;
 
-// Mock data for client bills
-const mockClientBills = [
-  {
-    id: "1",
-    clientName: "John Smith",
-    shopName: "Golden Creations",
-    issueDate: new Date().toISOString(),
-    metalType: "Gold",
-    totalFinalWeight: 120.5,
-    totalStoneAmount: 450,
-    voucherId: "SH-123456"
-  },
-  {
-    id: "2",
-    clientName: "Sarah Johnson",
-    shopName: "Silver Linings",
-    issueDate: new Date(Date.now() - 86400000).toISOString(), // Yesterday
-    metalType: "Silver",
-    totalFinalWeight: 350.25,
-    totalStoneAmount: 120,
-    voucherId: "SH-123457"
-  },
-  {
-    id: "3",
-    clientName: "Michael Brown",
-    shopName: "Gem Masters",
-    issueDate: new Date(Date.now() - 172800000).toISOString(), // 2 days ago
-    metalType: "Platinum",
-    totalFinalWeight: 85.75,
-    totalStoneAmount: 1200,
-    voucherId: "SH-123458"
-  },
-  {
-    id: "4",
-    clientName: "Emma Wilson",
-    shopName: "Royal Jewels",
-    issueDate: new Date(Date.now() - 259200000).toISOString(), // 3 days ago
-    metalType: "Gold",
-    totalFinalWeight: 65.30,
-    totalStoneAmount: 850,
-    voucherId: "SH-123459"
-  },
-  {
-    id: "5",
-    clientName: "David Lee",
-    shopName: "Precious Metals",
-    issueDate: new Date(Date.now() - 345600000).toISOString(), // 4 days ago
-    metalType: "Silver",
-    totalFinalWeight: 425.10,
-    totalStoneAmount: 90,
-    voucherId: "SH-123460"
+type StatusFilter = "all" | BillStatus;
+
+const generateBillPDF = (bill: ClientBill) => {
+  const doc = new jsPDF("p", "mm", "a4");
+
+  // Same golden border and logo as the receipt PDFs
+  doc.setDrawColor(204, 153, 0);
+  doc.setLineWidth(1);
+  doc.rect(5, 5, 200, 287);
+  try {
+    doc.addImage("/logo.jpg", "JPEG", 85, 5, 40, 20);
+  } catch (logoError) {
+    console.warn("Logo not found, continuing without logo");
   }
-];
 
-// Mock service for client bills
-const clientBillService = {
-  getClientBills: async () => {
-    await new Promise(resolve => setTimeout(resolve, 800));
-    return mockClientBills;
-  },
-  
-  deleteClientBill: async (id: string) => {
-    await new Promise(resolve => setTimeout(resolve, 500));
-    return { message: "Client bill deleted successfully" };
+  const marginLeft = 25;
+  let y = 35;
+  const fields: [string, string][] = [
+    ["Bill No.", bill.billNumber],
+    ["Date", format(new Date(bill.billDate), "dd/MM/yyyy")],
+    ["Name", bill.clientName || "-"],
+    ["Shop", bill.shopName || "-"],
+    ["Phone Number", bill.phoneNumber || "-"],
+    ["Voucher ID", bill.voucherId],
+    ["Metal", bill.metalType || "-"],
+  ];
+
+  doc.setFontSize(11);
+  doc.setTextColor(0, 0, 0);
+  fields.forEach(([label, value]) => {
+    doc.setFont("helvetica", "bold");
+    doc.text(label, marginLeft, y);
+    doc.setFont("helvetica", "normal");
+    doc.text(`: ${value}`, marginLeft + 35, y);
+    y += 6;
+  });
+
+  if (bill.status === "void") {
+    doc.setFont("helvetica", "bold");
+    doc.setTextColor(200, 0, 0);
+    doc.text(`VOID: ${bill.voidReason || ""}`, marginLeft, y);
+    doc.setTextColor(0, 0, 0);
+    y += 6;
   }
+
+  const body = bill.lines.map((line, index) => [
+    index + 1,
+    line.itemName || "-",
+    line.grossWt.toFixed(3),
+    line.stoneWt.toFixed(3),
+    line.netWt.toFixed(3),
+    line.meltingTouch.toFixed(2),
+    line.finalWt.toFixed(3),
+    line.stoneAmt.toFixed(2),
+  ]);
+  body.push([
+    "",
+    "Total:",
+    bill.totals.grossWt.toFixed(3),
+    bill.totals.stoneWt.toFixed(3),
+    bill.totals.netWt.toFixed(3),
+    "",
+    bill.totals.finalWt.toFixed(3),
+    bill.totals.stoneAmt.toFixed(2),
+  ]);
+
+  autoTable(doc, {
+    startY: y + 3,
+    head: [
+      [
+        "S.NO",
+        "Item",
+        "Gross Wt",
+        "Stone Wt",
+        "Net Wt",
+        "Touch",
+        "Final Wt",
+        "Stone Amt",
+      ],
+    ],
+    body,
+    theme: "grid",
+    styles: { fontSize: 9, cellPadding: 2, textColor: [0, 0, 0] },
+    headStyles: {
+      fillColor: [255, 255, 255],
+      textColor: [0, 0, 0],
+      fontStyle: "bold",
+      lineWidth: 0.1,
+      lineColor: [0, 0, 0],
+    },
+    bodyStyles: { lineWidth: 0.1, lineColor: [0, 0, 0] },
+    didParseCell: (data) => {
+      // Make the totals row bold
+      if (data.section === "body" && data.row.index === body.length - 1) {
+        data.cell.styles.fontStyle = "bold";
+        data.cell.styles.fillColor = [240, 240, 240];
+      }
+    },
+    margin: { left: 15, right: 15 },
+  });
+
+  const { lastAutoTable } = doc as jsPDF & {
+    lastAutoTable: { finalY: number };
+  };
+  let summaryY = lastAutoTable.finalY + 10;
+  doc.setFontSize(11);
+  [
+    ["Final Weight", `${bill.totals.finalWt.toFixed(3)} g`],
+    ["Received", `${bill.receivedFinalWt.toFixed(3)} g`],
+    ["Balance", `${bill.balance.toFixed(3)} g`],
+  ].forEach(([label, value]) => {
+    doc.setFont("helvetica", "bold");
+    doc.text(label, 130, summaryY);
+    doc.setFont("helvetica", "normal");
+    doc.text(`: ${value}`, 160, summaryY);
+    summaryY += 6;
+  });
+
+  doc.save(`client-bill-${bill.billNumber}.pdf`);
 };
 
 const ClientBillsPage = () => {
   const [searchTerm, setSearchTerm] = useState("");
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>("all");
   const [page, setPage] = useState(1);
-  const [billsPerPage] = useState(10);
   const { toast } = useToast();
-  
-  const {
-    data: clientBills,
-    isLoading,
-    isError,
-    refetch
-  } = useQuery({
-    queryKey: ['clientBills'],
-    queryFn: clientBillService.getClientBills
+  const queryClient = useQueryClient();
+  const { can } = useAuth();
+  const [billToVoid, setBillToVoid] = useState<ClientBill | null>(null);
+  const [voidReason, setVoidReason] = useState("");
+
+  const params = {
+    query: searchTerm || undefined,
+    status: statusFilter === "all" ? undefined : statusFilter,
+    page,
+    limit: BILLS_PER_PAGE,
+  };
+
+  const { data, isLoading, isError } = useQuery({
+    queryKey: ["clientBills", params],
+    queryFn: () => clientBillServices.getClientBills(params),
+    placeholderData: keepPreviousData,
   });
+  const bills = data?.data || [];
+  const totalPages = data?.pages || 1;
 
-  const handleDelete = async (id: string) => {
-    if (window.confirm('Are you sure you want to delete this client bill?')) {
-      try {
-        await clientBillService.deleteClientBill(id);
-        toast({
-          title: "Success",
-          description: "Client bill deleted successfully",
-        });
-        refetch();
-      } catch (error) {
-        toast({
-          title: "Error",
-          description: "Failed to delete client bill",
-          variant: "destructive",
-        });
-      }
+  const voidMutation = useMutation({
+    mutationFn: ({ id, reason }: { id: string; reason: string }) =>
+      clientBillServices.voidClientBill(id, reason),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["clientBills"] });
+      toast({
+        title: "Success",
+        description: "Client bill voided",
+      });
+      setBillToVoid(null);
+    },
+    // The API interceptor already shows the server's message
+    onError: (error) => console.error("Error voiding client bill:", error),
+  });
+
+  const handleDownload = (bill: ClientBill) => {
+    try {
+      generateBillPDF(bill);
+      toast({
+        title: "Success",
+        description: "PDF download started",
+      });
+    } catch (error) {
+      console.error("Error generating PDF:", error);
+      toast({
+        title: "Error",
+        description: "Failed to generate PDF",
+        variant: "destructive",
+      });
     }
   };
 
-  const handleDownload = (id: string) => {
-    // In a real application, this would make an API call to download the PDF
-    toast({
-      title: "Download Initiated",
-      description: "Your PDF is being generated and will download shortly.",
-    });
+  const openVoidDialog = (bill: ClientBill) => {
+    setVoidReason("");
+    setBillToVoid(bill);
   };
 
-  // Filter bills based on search term
-  const filteredBills = clientBills 
-    ? clientBills.filter(bill => 
-        bill.clientName.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        bill.shopName.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        bill.voucherId.toLowerCase().includes(searchTerm.toLowerCase())
-      )
-    : [];
-  
-  // Calculate pagination
-  const indexOfLastBill = page * billsPerPage;
-  const indexOfFirstBill = indexOfLastBill - billsPerPage;
-  const currentBills = filteredBills.slice(indexOfFirstBill, indexOfLastBill);
-  const totalPages = Math.ceil(filteredBills.length / billsPerPage);
-
   return (
     <div className="container p-6 mx-auto">
       <div className="flex justify-between items-center mb-6">
-        <h1 className="text-3xl font-serif font-bold">Client Bills</h1>
+        <div>
+          <h1 className="text-3xl font-serif font-bold">Client Bills</h1>
+          <p className="text-muted-foreground">
+            Bills are created from completed client receipts
+          </p>
+        </div>
         <Button asChild>
           <Link to="/receipts/select-client">New Client Receipt</Link>
         </Button>
       </div>
-      
+
       <Card>
         <CardHeader>
           <CardTitle>Client Bills</CardTitle>
-          <div className="flex items-center gap-2 mt-4">
-            <div className="relative flex-1">
+          <div className="flex flex-col md:flex-row items-center gap-2 mt-4">
+            <div className="relative flex-1 w-full">
               <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
               <Input
                 type="search"
-                placeholder="Search by client name, shop name or voucher ID..."
+                placeholder="Search by bill number, client, shop or voucher ID..."
                 className="pl-8"
                 value={searchTerm}
-                onChange={(e) => setSearchTerm(e.target.value)}
+                onChange={(e) => {
+                  setSearchTerm(e.target.value);
+                  setPage(1); // Reset to first page when searching
+                }}
               />
             </div>
+            <Select
+              value={statusFilter}
+              onValueChange={(value: StatusFilter) => {
+                setStatusFilter(value);
+                setPage(1);
+              }}
+            >
+              <SelectTrigger className="w-full md:w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Bills</SelectItem>
+                <SelectItem value="issued">Issued</SelectItem>
+                <SelectItem value="void">Void</SelectItem>
+              </SelectContent>
+            </Select>
           </div>
         </CardHeader>
         <CardContent>
           {isLoading ? (
-            <p className="text-center py-4">Loading...</p>
+            <div className="text-center py-8">
+              <Loader2 className="h-8 w-8 animate-spin mx-auto text-primary" />
+              <p className="mt-2">Loading bills...</p>
+            </div>
           ) : isError ? (
             <p className="text-center py-4 text-destructive">
               Error loading client bills. Please try again later.
             </p>
-          ) : currentBills.length > 0 ? (
+          ) : bills.length > 0 ? (
             <>
-              <div className="rounded-md border">
+              <div className="rounded-md border overflow-x-auto">
                 <Table>
                   <TableHeader>
                     <TableRow>
-                      <TableHead>Voucher ID</TableHead>
+                      <TableHead>Bill No.</TableHead>
+                      <TableHead>Date</TableHead>
                       <TableHead>Client Name</TableHead>
                       <TableHead>Shop Name</TableHead>
-                      <TableHead>Issue Date</TableHead>
+                      <TableHead>Voucher ID</TableHead>
                       <TableHead>Metal Type</TableHead>
                       <TableHead>Final Weight</TableHead>
                       <TableHead>Stone Amount</TableHead>
+                      <TableHead>Status</TableHead>
                       <TableHead className="text-right">Actions</TableHead>
                     </TableRow>
                   </TableHeader>
                   <TableBody>
-                    {currentBills.map((bill) => (
-                      <TableRow key={bill.id}>
-                        <TableCell className="font-medium">{bill.voucherId}</TableCell>
+                    {bills.map((bill) => (
+                      <TableRow
+                        key={bill._id}
+                        className={bill.status === "void" ? "opacity-60" : ""}
+                      >
+                        <TableCell className="font-medium">
+                          {bill.billNumber}
+                        </TableCell>
+                        <TableCell>
+                          {new Date(bill.billDate).toLocaleDateString()}
+                        </TableCell>
                         <TableCell>{bill.clientName}</TableCell>
                         <TableCell>{bill.shopName}</TableCell>
-                        <TableCell>{new Date(bill.issueDate).toLocaleDateString()}</TableCell>
+                        <TableCell>{bill.voucherId}</TableCell>
                         <TableCell>{bill.metalType}</TableCell>
-                        <TableCell>{bill.totalFinalWeight.toFixed(2)}</TableCell>
-                        <TableCell>{bill.totalStoneAmount.toFixed(2)}</TableCell>
+                        <TableCell>{bill.totals.finalWt.toFixed(3)}</TableCell>
+                        <TableCell>{bill.totals.stoneAmt.toFixed(2)}</TableCell>
+                        <TableCell>
+                          <span
+                            className={`px-2 py-1 rounded-full text-xs capitalize ${
+                              bill.status === "issued"
+                                ? "bg-green-100 text-green-800"
+                                : "bg-gray-100 text-gray-800"
+                            }`}
+                            title={bill.voidReason}
+                          >
+                            {bill.status}
+                          </span>
+                        </TableCell>
                         <TableCell className="text-right">
                           <div className="flex justify-end space-x-2">
-                            <Button variant="outline" size="sm" asChild>
-                              <Link to={`/receipts/${bill.id}`}>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              asChild
+                              title="View Receipt"
+                            >
+                              <Link to={`/receipts/${bill.receiptId}`}>
                                 <Eye className="h-4 w-4" />
                               </Link>
                             </Button>
-                            <Button 
-                              variant="outline" 
+                            <Button
+                              variant="outline"
                               size="sm"
-                              onClick={() => handleDownload(bill.id)}
+                              onClick={() => handleDownload(bill)}
+                              title="Download PDF"
                             >
                               <Download className="h-4 w-4" />
                             </Button>
-                            <Button 
-                              variant="outline" 
-                              size="sm"
-                              onClick={() => handleDelete(bill.id)}
-                            >
-                              <Trash className="h-4 w-4" />
-                            </Button>
+                            {can("receipts:edit") &&
+                              bill.status === "issued" && (
+                                <Button
+                                  variant="outline"
+                                  size="sm"
+                                  onClick={() => openVoidDialog(bill)}
+                                  title="Void Bill"
+                                >
+                                  <Ban className="h-4 w-4" />
+                                </Button>
+                              )}
                           </div>
                         </TableCell>
                       </TableRow>
@@ -232,17 +379,21 @@ const ClientBillsPage = () => {
                   </TableBody>
                 </Table>
               </div>
-              
+
               {totalPages > 1 && (
                 <Pagination className="mt-4">
                   <PaginationContent>
                     <PaginationItem>
                       <PaginationPrevious
-                        onClick={() => setPage(prev => Math.max(prev - 1, 1))}
-                        className={page === 1 ? "pointer-events-none opacity-50" : "cursor-pointer"}
+                        onClick={() => setPage((prev) => Math.max(prev - 1, 1))}
+                        className={
+                          page === 1
+                            ? "pointer-events-none opacity-50"
+                            : "cursor-pointer"
+                        }
                       />
                     </PaginationItem>
-                    
+
                     {[...Array(totalPages)].map((_, i) => (
                       <PaginationItem key={i + 1}>
                         <PaginationLink
@@ -253,11 +404,17 @@ const ClientBillsPage = () => {
                         </PaginationLink>
                       </PaginationItem>
                     ))}
-                    
+
                     <PaginationItem>
                       <PaginationNext
-                        onClick={() => setPage(prev => Math.min(prev + 1, totalPages))}
-                        className={page === totalPages ? "pointer-events-none opacity-50" : "cursor-pointer"}
+                        onClick={() =>
+                          setPage((prev) => Math.min(prev + 1, totalPages))
+                        }
+                        className={
+                          page === totalPages
+                            ? "pointer-events-none opacity-50"
+                            : "cursor-pointer"
+                        }
                       />
                     </PaginationItem>
                   </PaginationContent>
@@ -266,14 +423,64 @@ const ClientBillsPage = () => {
             </>
           ) : (
             <div className="py-4 text-center">
-              <p>No client bills found</p>
+              <p>
+                {searchTerm || statusFilter !== "all"
+                  ? "No matching client bills found"
+                  : "No client bills yet. Open a completed receipt to bill it."}
+              </p>
               <Button asChild className="mt-4">
-                <Link to="/receipts/select-client">Create New Client Receipt</Link>
+                <Link to="/receipts">Go to Receipts</Link>
               </Button>
             </div>
           )}
         </CardContent>
       </Card>
+
+      {/* Void dialog */}
+      <Dialog
+        open={!!billToVoid}
+        onOpenChange={(open) => !open && setBillToVoid(null)}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Void Client Bill {billToVoid?.billNumber}</DialogTitle>
+            <DialogDescription>
+              The bill stays on record, marked void. The receipt can then be
+              billed again.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-1">
+            <Label htmlFor="void-reason">Reason</Label>
+            <Input
+              id="void-reason"
+              value={voidReason}
+              onChange={(e) => setVoidReason(e.target.value)}
+            />
+          </div>
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setBillToVoid(null)}
+              disabled={voidMutation.isPending}
+            >
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={() =>
+                billToVoid &&
+                voidMutation.mutate({ id: billToVoid._id, reason: voidReason })
+              }
+              disabled={voidMutation.isPending || !voidReason.trim()}
+            >
+              {voidMutation.isPending && (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              )}
+              Void Bill
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 };
@@ -6,7 +6,7 @@ import { z } from "zod";
 import { Button } from "@/components/ui/button";
 import { ArrowLeft } from "lucide-react";
 import { toast } from "sonner";
-import axios from "axios";
+import { clientServices } from "@/services/api";
 import {
   Form,
   FormControl,
@@ -20,9 +20,6 @@ import { Textarea } from "@/components/ui/textarea";
 import { Switch } from "@/components/ui/switch";
 import { Skeleton } from "@/components/ui/skeleton";
 
-// API configuration
-const API_BASE_URL = "https://backend-goldsmith.onrender.com/api";
-
 // Form validation schema
 const clientFormSchema = z.object({
   shopName: z.string().min(1, "Shop name is required"),
@@ -68,16 +65,16 @@ export default function EditClientPage() {
     const fetchClient = async () => {
       try {
         setIsLoading(true);
-        const response = await axios.get(`${API_BASE_URL}/clients/${id}`);
+        const client = await clientServices.getClient(id);
 
-        if (!response.data) {
+        if (!client) {
           throw new Error("Client not found");
         }
 
         // Transform empty strings to undefined for optional fields
         const clientData = {
-          ...response.data,
-          email: response.data.email || "",
+          ...client,
+          email: client.email || "",
         };
 
         form.reset(clientData);
@@ -112,7 +109,7 @@ export default function EditClientPage() {
         email: data.email || undefined, // Convert empty string to undefined
       };
 
-      await axios.put(`${API_BASE_URL}/clients/${id}`, payload);
+      await clientServices.updateClient(id, payload);
 
       toast.success("Client updated successfully", {
         action: {
@@ -1,6 +1,13 @@
 import { useState, useEffect } from "react";
 import { useParams, useNavigate } from "react-router-dom";
-import axios from "axios";
+import { useQueryClient } from "@tanstack/react-query";
+import {
+  adminReceiptServices,
+  clientServices,
+  ReceiptCancellation,
+  ReceiptLock,
+  receiptServices,
+} from "@/services/api";
 import { useToast } from "@/hooks/use-toast";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
@@ -13,8 +20,19 @@ import {
   TableRow,
 } from "@/components/ui/table";
 import { StatCard } from "@/components/dashboard/stat-card";
+import { ClientLedger } from "@/components/clients/client-ledger";
+import { ClientPayments } from "@/components/clients/client-payments";
+import { ClientStatement } from "@/components/clients/client-statement";
+import { receiptAmountDue } from "@/lib/payments";
+import { AuditHistory } from "@/components/audit/audit-history";
+import {
+  CancelReceiptDialog,
+  ReceiptCancelledNotice,
+  VoucherLabel,
+} from "@/components/receipts/receipt-cancel";
 import {
   ArrowLeft,
+  Ban,
   Edit,
   FileText,
   Weight,
@@ -31,11 +49,15 @@ import {
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { jsPDF } from "jspdf";
 import autoTable from "jspdf-autotable";
-
-// API configuration
-const API_BASE_URL = "https://backend-goldsmith.onrender.com/api";
-const CLIENT_RECEIPTS_URL = `${API_BASE_URL}/receipts`;
-const ADMIN_RECEIPTS_URL = `${API_BASE_URL}/admin-receipts`;
+import { stampCancelled } from "@/lib/receipt-pdf";
+import { useAuth } from "@/hooks/use-auth";
+import {
+  formatGrams,
+  manualResult,
+  shopReceivedTotal,
+  sumOf,
+  workReceivedAmounts,
+} from "@/lib/receipt-calculations";
 
 interface Client {
   _id: string;
@@ -43,12 +65,12 @@ interface Client {
   clientName: string;
   phoneNumber: string;
   address: string;
-  email: string;
+  email?: string;
   active: boolean;
   createdAt: string;
 }
 
-interface AdminReceipt {
+interface AdminReceipt extends ReceiptLock, ReceiptCancellation {
   _id: string;
   clientId: string;
   clientName: string;
@@ -89,10 +111,11 @@ interface AdminReceipt {
   type: "admin";
 }
 
-interface ClientReceipt {
+interface ClientReceipt extends ReceiptLock, ReceiptCancellation {
   _id: string;
   voucherId: string;
   clientId: string;
+  status: "incomplete" | "complete" | "cancelled";
   clientInfo: {
     clientName: string;
     shopName: string;
@@ -118,12 +141,11 @@ interface ClientReceipt {
     finalWt: number;
     stoneAmt: number;
     totalInvoiceAmount: number;
-    totalPaidAmount: number;
-    balanceDue: number;
-    paymentStatus: string;
     isCompleted: boolean;
   };
-  payments: any[];
+  // Worked out by the backend from the payments applied to the receipt
+  paymentStatus: "Pending" | "Paid" | "Partial";
+  amountPaid?: number;
   createdAt: string;
   updatedAt: string;
   __v: number;
@@ -136,15 +158,20 @@ interface ReceiptsTableProps {
   receipts: Receipt[];
   onViewReceipt: (receipt: Receipt) => void;
   onDownloadReceipt: (receiptId: string, type: "client" | "admin") => void;
-  onDeleteReceipt: (receiptId: string, type: "client" | "admin") => void;
+  onCancelReceipt: (receipt: Receipt) => void;
 }
 
+// Posted receipts are cancelled, never deleted
+const canCancelReceipt = (receipt: Receipt) =>
+  !receipt.isFinalized && receipt.status !== "cancelled";
+
 function ReceiptsTable({
   receipts,
   onViewReceipt,
   onDownloadReceipt,
-  onDeleteReceipt,
+  onCancelReceipt,
 }: ReceiptsTableProps) {
+  const { can } = useAuth();
   console.log("Rendering ReceiptsTable with receipts:", receipts);
   if (!receipts || receipts.length === 0) {
     return (
@@ -170,9 +197,15 @@ function ReceiptsTable({
         </TableHeader>
         <TableBody>
           {receipts.map((receipt) => (
-            <TableRow key={receipt._id}>
+            <TableRow
+              key={receipt._id}
+              className={receipt.status === "cancelled" ? "opacity-60" : ""}
+            >
               <TableCell className="font-medium">
-                #{receipt.voucherId}
+                <VoucherLabel
+                  voucherId={`#${receipt.voucherId}`}
+                  status={receipt.status}
+                />
               </TableCell>
               <TableCell>
                 <span
@@ -203,7 +236,7 @@ function ReceiptsTable({
                     (
                       receipt.type === "admin"
                         ? receipt.status === "complete"
-                        : receipt.totals.paymentStatus === "Paid"
+                        : receipt.paymentStatus === "Paid"
                     )
                       ? "bg-green-100 text-green-800"
                       : "bg-yellow-100 text-yellow-800"
@@ -211,14 +244,14 @@ function ReceiptsTable({
                 >
                   {receipt.type === "admin"
                     ? receipt.status
-                    : receipt.totals.paymentStatus}
+                    : receipt.paymentStatus}
                 </span>
               </TableCell>
               <TableCell>
                 ₹
                 {(receipt.type === "admin"
                   ? receipt.given?.total ?? 0
-                  : receipt.totals?.totalInvoiceAmount ?? 0
+                  : receiptAmountDue(receipt.totals)
                 ).toLocaleString()}
               </TableCell>
               <TableCell className="text-right">
@@ -239,6 +272,17 @@ function ReceiptsTable({
                   >
                     <Download className="h-4 w-4" />
                   </Button>
+                  {can("receipts:delete") && canCancelReceipt(receipt) && (
+                    <Button
+                      variant="outline"
+                      size="icon"
+                      onClick={() => onCancelReceipt(receipt)}
+                      title="Cancel Receipt"
+                      className="text-destructive hover:text-destructive-foreground hover:bg-destructive"
+                    >
+                      <Ban className="h-4 w-4" />
+                    </Button>
+                  )}
                 </div>
               </TableCell>
             </TableRow>
@@ -480,7 +524,7 @@ const generatePDF = (receipt: any) => {
         ? formatNumber(item.makingChargePercent, 2)
         : formatNumber(item.meltingTouch, 2),
       receipt.type === "admin"
-        ? formatNumber(Number(item.total) - Number(item.subTotal), 2)
+        ? formatNumber(workReceivedAmounts(item).makingCharge, 2)
         : formatNumber(0, 2),
       receipt.type === "admin"
         ? formatNumber(item.subTotal, 3)
@@ -497,30 +541,15 @@ const generatePDF = (receipt: any) => {
       "",
       receipt.type === "admin"
         ? formatNumber(receipt.received?.totalOrnamentsWt)
-        : formatNumber(
-            receivedItems.reduce(
-              (acc: number, item: any) => acc + Number(item.finalWt || 0),
-              0
-            )
-          ),
+        : formatNumber(shopReceivedTotal(receivedItems)),
       receipt.type === "admin"
         ? formatNumber(receipt.received?.totalStoneWeight)
-        : formatNumber(
-            receivedItems.reduce(
-              (acc: number, item: any) => acc + Number(item.stoneWt || 0),
-              0
-            )
-          ),
+        : formatNumber(sumOf(receivedItems, (item: any) => item.stoneWt)),
       "",
       "",
       receipt.type === "admin"
         ? formatNumber(receipt.received?.totalSubTotal)
-        : formatNumber(
-            receivedItems.reduce(
-              (acc: number, item: any) => acc + Number(item.finalWt || 0),
-              0
-            )
-          ),
+        : formatNumber(shopReceivedTotal(receivedItems)),
       receipt.type === "admin"
         ? formatNumber(receipt.received?.total)
         : formatNumber(receipt.totals?.totalInvoiceAmount),
@@ -614,7 +643,11 @@ const generatePDF = (receipt: any) => {
       formatNumber(receipt.totals?.grossWt, 3) + "g",
       formatNumber(receipt.totals?.finalWt, 3) + "g",
       "₹" + formatNumber(receipt.totals?.totalInvoiceAmount, 2),
-      "₹" + formatNumber(receipt.totals?.balanceDue, 2),
+      "₹" +
+        formatNumber(
+          receiptAmountDue(receipt.totals) - (receipt.amountPaid || 0),
+          2
+        ),
     ];
   }
 
@@ -683,8 +716,8 @@ const generatePDF = (receipt: any) => {
     ];
 
     additionalValues = [
-      receipt.totals?.paymentStatus || "Pending",
-      "₹" + formatNumber(receipt.totals?.totalPaidAmount || 0, 2),
+      receipt.paymentStatus || "Pending",
+      "₹" + formatNumber(receipt.amountPaid || 0, 2),
       "₹" + formatNumber(receipt.totals?.stoneAmt || 0, 2),
       receipt.totals?.isCompleted ? "Completed" : "Pending",
     ];
@@ -723,6 +756,9 @@ const generatePDF = (receipt: any) => {
     margin: { left: 15, right: 25 },
   });
 
+  if (receipt.status === "cancelled") {
+    stampCancelled(doc, receipt.voucherId, receipt);
+  }
   return doc;
 };
 
@@ -730,6 +766,8 @@ export default function ClientDetailsPage() {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
   const { toast } = useToast();
+  const { can } = useAuth();
+  const queryClient = useQueryClient();
   const [client, setClient] = useState<Client | null>(null);
   const [clientReceipts, setClientReceipts] = useState<ClientReceipt[]>([]);
   const [adminReceipts, setAdminReceipts] = useState<AdminReceipt[]>([]);
@@ -743,6 +781,7 @@ export default function ClientDetailsPage() {
   const [isLoading, setIsLoading] = useState(true);
   const [receiptModalOpen, setReceiptModalOpen] = useState(false);
   const [selectedReceipt, setSelectedReceipt] = useState<Receipt | null>(null);
+  const [receiptToCancel, setReceiptToCancel] = useState<Receipt | null>(null);
   const [activeTab, setActiveTab] = useState<"all" | "client" | "admin">("all");
 
   // Fetch all data
@@ -757,14 +796,14 @@ export default function ClientDetailsPage() {
         setIsLoading(true);
 
         // Fetch client data
-        const clientResponse = await axios.get(`${API_BASE_URL}/clients/${id}`);
-        setClient(clientResponse.data);
+        const clientData = await clientServices.getClient(id);
+        setClient(clientData);
 
         // Fetch client receipts
-        const clientReceiptsResponse = await axios.get(
-          `${CLIENT_RECEIPTS_URL}/client/${id}`
+        const clientReceiptsResponse = await receiptServices.getClientReceipts(
+          id
         );
-        const clientReceiptsData = clientReceiptsResponse.data.data.map(
+        const clientReceiptsData = clientReceiptsResponse.data.map(
           (r: any) => ({
             ...r,
             type: "client",
@@ -773,10 +812,10 @@ export default function ClientDetailsPage() {
         setClientReceipts(clientReceiptsData);
 
         // Fetch Work Receipts for this client
-        const adminReceiptsResponse = await axios.get(
-          `${ADMIN_RECEIPTS_URL}?clientId=${id}`
+        const adminReceiptsResponse = await adminReceiptServices.getAdminReceipts(
+          id
         );
-        const adminReceiptsData = adminReceiptsResponse.data.map((r: any) => ({
+        const adminReceiptsData = adminReceiptsResponse.map((r: any) => ({
           ...r,
           type: "admin",
         }));
@@ -921,40 +960,27 @@ export default function ClientDetailsPage() {
     }
   };
 
-  const handleDeleteReceipt = async (
-    receiptId: string,
-    type: "client" | "admin"
-  ) => {
-    try {
-      const url =
-        type === "client"
-          ? `${CLIENT_RECEIPTS_URL}/${receiptId}`
-          : `${ADMIN_RECEIPTS_URL}/${receiptId}`;
-
-      await axios.delete(url);
-
-      // Update the appropriate receipts list
-      if (type === "client") {
-        setClientReceipts(clientReceipts.filter((r) => r._id !== receiptId));
-      } else {
-        setAdminReceipts(adminReceipts.filter((r) => r._id !== receiptId));
-      }
-
-      // Close modal if open
-      if (selectedReceipt?._id === receiptId) {
-        setReceiptModalOpen(false);
-      }
-
-      toast({
-        title: "Success",
-        description: "Receipt deleted successfully",
-      });
-    } catch (error) {
-      toast({
-        title: "Error",
-        description: "Failed to delete receipt",
-        variant: "destructive",
-      });
+  const handleReceiptCancelled = () => {
+    if (!receiptToCancel) return;
+    const cancelledId = receiptToCancel._id;
+
+    // Cancelling posts a reversing ledger entry
+    queryClient.invalidateQueries({ queryKey: ["client-ledger", id] });
+    queryClient.invalidateQueries({ queryKey: ["client-statement", id] });
+
+    // The receipt stays in the list, marked cancelled
+    if (receiptToCancel.type === "client") {
+      setClientReceipts((receipts) =>
+        receipts.map((r) =>
+          r._id === cancelledId ? { ...r, status: "cancelled" } : r
+        )
+      );
+    } else {
+      setAdminReceipts((receipts) =>
+        receipts.map((r) =>
+          r._id === cancelledId ? { ...r, status: "cancelled" } : r
+        )
+      );
     }
   };
 
@@ -1000,21 +1026,27 @@ export default function ClientDetailsPage() {
           </p>
         </div>
         <div className="mt-4 md:mt-0 space-x-2">
-          <Button onClick={() => navigate(`/clients/${id}/edit`)}>
-            <Edit className="mr-2 h-4 w-4" /> Edit Client
-          </Button>
-          <Button
-            variant="outline"
-            onClick={() => handleCreateReceipt("client")}
-          >
-            <Plus className="mr-2 h-4 w-4" /> New Shop Receipt
-          </Button>
-          <Button
-            variant="outline"
-            onClick={() => navigate("/admin-receipts/new")}
-          >
-            <Plus className="mr-2 h-4 w-4" /> New Work Receipt
-          </Button>
+          {can("clients:edit") && (
+            <Button onClick={() => navigate(`/clients/${id}/edit`)}>
+              <Edit className="mr-2 h-4 w-4" /> Edit Client
+            </Button>
+          )}
+          {can("receipts:create") && (
+            <>
+              <Button
+                variant="outline"
+                onClick={() => handleCreateReceipt("client")}
+              >
+                <Plus className="mr-2 h-4 w-4" /> New Shop Receipt
+              </Button>
+              <Button
+                variant="outline"
+                onClick={() => navigate("/admin-receipts/new")}
+              >
+                <Plus className="mr-2 h-4 w-4" /> New Work Receipt
+              </Button>
+            </>
+          )}
         </div>
       </div>
 
@@ -1091,6 +1123,10 @@ export default function ClientDetailsPage() {
         </CardContent>
       </Card>
 
+      <ClientLedger clientId={client._id} />
+      <ClientPayments clientId={client._id} />
+      <ClientStatement clientId={client._id} />
+
       {/* Receipts table with tabs */}
       <div className="bg-card card-premium rounded-lg p-6">
         <Tabs
@@ -1115,7 +1151,7 @@ export default function ClientDetailsPage() {
               receipts={getFilteredReceipts()}
               onViewReceipt={handleViewReceipt}
               onDownloadReceipt={handleDownloadReceipt}
-              onDeleteReceipt={handleDeleteReceipt}
+              onCancelReceipt={setReceiptToCancel}
             />
           </TabsContent>
 
@@ -1124,7 +1160,7 @@ export default function ClientDetailsPage() {
               receipts={getFilteredReceipts()}
               onViewReceipt={handleViewReceipt}
               onDownloadReceipt={handleDownloadReceipt}
-              onDeleteReceipt={handleDeleteReceipt}
+              onCancelReceipt={setReceiptToCancel}
             />
           </TabsContent>
 
@@ -1133,12 +1169,18 @@ export default function ClientDetailsPage() {
               receipts={getFilteredReceipts()}
               onViewReceipt={handleViewReceipt}
               onDownloadReceipt={handleDownloadReceipt}
-              onDeleteReceipt={handleDeleteReceipt}
+              onCancelReceipt={setReceiptToCancel}
             />
           </TabsContent>
         </Tabs>
       </div>
 
+      {can("audit:view") && (
+        <div className="mt-8">
+          <AuditHistory entityType="client" entityId={client._id} />
+        </div>
+      )}
+
       {/* Receipt details modal */}
       <Dialog open={receiptModalOpen} onOpenChange={setReceiptModalOpen}>
         <DialogContent className="max-w-3xl">
@@ -1157,6 +1199,7 @@ export default function ClientDetailsPage() {
 
           {selectedReceipt && (
             <div className="mt-4">
+              <ReceiptCancelledNotice receipt={selectedReceipt} />
               <div className="border rounded-lg p-6 mb-6 text-left">
                 <h2 className="text-xl font-semibold mb-2">
                   {selectedReceipt.type === "admin" ? "Work" : "Client"}{" "}
@@ -1172,7 +1215,7 @@ export default function ClientDetailsPage() {
                   Status:{" "}
                   {selectedReceipt.type === "admin"
                     ? selectedReceipt.status
-                    : selectedReceipt.totals?.paymentStatus || "N/A"}
+                    : selectedReceipt.paymentStatus || "N/A"}
                 </p>
                 <p className="text-sm mb-4">
                   Date:{" "}
@@ -1202,7 +1245,7 @@ export default function ClientDetailsPage() {
                               {item.productName}
                             </td>
                             <td className="border px-4 py-2">
-                              {Number(item.pureWeight).toFixed(2)}
+                              {formatGrams(item.pureWeight)}
                             </td>
                             <td className="border px-4 py-2">
                               {Number(item.purePercent).toFixed(2)}
@@ -1211,7 +1254,7 @@ export default function ClientDetailsPage() {
                               {Number(item.melting).toFixed(2)}
                             </td>
                             <td className="border px-4 py-2">
-                              {Number(item.total).toFixed(2)}
+                              {formatGrams(item.total)}
                             </td>
                           </tr>
                         ))}
@@ -1223,7 +1266,7 @@ export default function ClientDetailsPage() {
                             Total
                           </td>
                           <td className="border px-4 py-2 text-center">
-                            {Number(selectedReceipt.given.total).toFixed(2)}
+                            {formatGrams(selectedReceipt.given.total)}
                           </td>
                         </tr>
                       </tbody>
@@ -1234,24 +1277,25 @@ export default function ClientDetailsPage() {
                         <div className="flex justify-between">
                           <span>Given Total</span>
                           <span>
-                            {Number(selectedReceipt.given.total).toFixed(2)}
+                            {formatGrams(selectedReceipt.given.total)}
                           </span>
                         </div>
                         <div className="flex justify-between">
                           <span>Received Total</span>
                           <span>
-                            {Number(
-                              selectedReceipt.received?.total || 0
-                            ).toFixed(2)}
+                            {formatGrams(selectedReceipt.received?.total)}
                           </span>
                         </div>
                         <div className="flex justify-between font-semibold">
                           <span>Balance (Given - Received)</span>
                           <span>
-                            {(
-                              Number(selectedReceipt.given.total) -
-                              Number(selectedReceipt.received?.total || 0)
-                            ).toFixed(2)}
+                            {formatGrams(
+                              manualResult(
+                                selectedReceipt.given.total,
+                                selectedReceipt.received?.total,
+                                "subtract-given-received"
+                              )
+                            )}
                           </span>
                         </div>
                       </div>
@@ -1340,18 +1384,18 @@ export default function ClientDetailsPage() {
               </div>
 
               <div className="flex justify-end gap-2">
-                <Button
-                  variant="destructive"
-                  onClick={() => {
-                    handleDeleteReceipt(
-                      selectedReceipt._id,
-                      selectedReceipt.type
-                    );
-                    setReceiptModalOpen(false);
-                  }}
-                >
-                  Delete Receipt
-                </Button>
+                {can("receipts:delete") &&
+                  canCancelReceipt(selectedReceipt) && (
+                    <Button
+                      variant="destructive"
+                      onClick={() => {
+                        setReceiptToCancel(selectedReceipt);
+                        setReceiptModalOpen(false);
+                      }}
+                    >
+                      <Ban className="mr-2 h-4 w-4" /> Cancel Receipt
+                    </Button>
+                  )}
                 <Button
                   onClick={() =>
                     handleDownloadReceipt(
@@ -1367,6 +1411,15 @@ export default function ClientDetailsPage() {
           )}
         </DialogContent>
       </Dialog>
+
+      <CancelReceiptDialog
+        receiptType={
+          receiptToCancel?.type === "admin" ? "adminReceipt" : "receipt"
+        }
+        receipt={receiptToCancel}
+        onClose={() => setReceiptToCancel(null)}
+        onCancelled={handleReceiptCancelled}
+      />
     </div>
   );
 }
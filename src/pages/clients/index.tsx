@@ -1,7 +1,7 @@
 import { useState, useEffect } from "react";
 import { useNavigate } from "react-router-dom";
-import axios from "axios";
-import { useToast } from "@/hooks/use-toast";
+import { clientServices, Client } from "@/services/api";
+import { useAuth } from "@/hooks/use-auth";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Search, FileText, Edit, Trash, Receipt, Loader2 } from "lucide-react";
@@ -13,45 +13,23 @@ import {
   TableHeader,
   TableRow,
 } from "@/components/ui/table";
-import {
-  Dialog,
-  DialogContent,
-  DialogHeader,
-  DialogTitle,
-  DialogDescription,
-  DialogFooter,
-} from "@/components/ui/dialog";
-
-interface Client {
-  _id: string;
-  shopName: string;
-  clientName: string;
-  phoneNumber: string;
-  address: string;
-  email: string;
-  createdAt: string;
-}
+import { DeleteClientDialog } from "@/components/clients/delete-client-dialog";
 
 export default function CustomerDetailsPage() {
   const navigate = useNavigate();
-  const { toast } = useToast();
+  const { can } = useAuth();
   const [clients, setClients] = useState<Client[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [searchTerm, setSearchTerm] = useState("");
-  const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [clientToDelete, setClientToDelete] = useState<string | null>(null);
-  const [deleteLoading, setDeleteLoading] = useState(false);
-  const [deletePassword, setDeletePassword] = useState("");
 
   const fetchClients = async () => {
     try {
       setLoading(true);
       setError(null);
-      const response = await axios.get(
-        "https://backend-goldsmith.onrender.com/api/clients"
-      );
-      setClients(response.data.clients || []);
+      const response = await clientServices.getClients();
+      setClients(response.clients || []);
     } catch (err) {
       setError("Failed to fetch clients. Please try again.");
       console.error("Error fetching clients:", err);
@@ -70,10 +48,8 @@ export default function CustomerDetailsPage() {
     try {
       setLoading(true);
       setError(null);
-      const response = await axios.get(
-        `/api/clients/search?query=${encodeURIComponent(searchTerm)}`
-      );
-      setClients(response.data);
+      const results = await clientServices.searchClients(searchTerm);
+      setClients(results);
     } catch (err) {
       setError("Failed to search clients. Please try again.");
       console.error("Error searching clients:", err);
@@ -100,48 +76,15 @@ export default function CustomerDetailsPage() {
 
   const openDeleteDialog = (id: string) => {
     setClientToDelete(id);
-    setDeleteDialogOpen(true);
   };
 
   const handleCloseDialog = () => {
-    setDeleteDialogOpen(false);
-    setDeletePassword("");
     setClientToDelete(null);
   };
 
-  const handleDeleteClient = async () => {
-    if (!clientToDelete) return;
-
-    if (deletePassword !== "7007") {
-      toast({
-        title: "Incorrect Password",
-        description: "You must enter the correct password to delete a client.",
-        variant: "destructive",
-      });
-      return;
-    }
-
-    try {
-      setDeleteLoading(true);
-      await axios.delete(`/api/clients/${clientToDelete}`);
-      // Remove the client from the local state immediately
-      setClients(clients.filter((client) => client._id !== clientToDelete));
-      toast({
-        title: "Client Deleted",
-        description:
-          "The client has been permanently deleted from the database.",
-      });
-    } catch (err) {
-      toast({
-        title: "Error",
-        description: "Failed to delete client. Please try again.",
-        variant: "destructive",
-      });
-      console.error("Error deleting client:", err);
-    } finally {
-      setDeleteLoading(false);
-      handleCloseDialog();
-    }
+  // Remove the client from the local state immediately
+  const handleClientDeleted = (id: string) => {
+    setClients((prev) => prev.filter((client) => client._id !== id));
   };
 
   const handleCreateReceipt = (client: Client) => {
@@ -166,7 +109,11 @@ export default function CustomerDetailsPage() {
             Manage your goldsmith business clients
           </p>
         </div>
-        <Button onClick={() => navigate("/clients/new")}>Add New Client</Button>
+        {can("clients:create") && (
+          <Button onClick={() => navigate("/clients/new")}>
+            Add New Client
+          </Button>
+        )}
       </div>
 
       <div className="bg-card card-premium rounded-lg p-6 mb-8">
@@ -228,31 +175,37 @@ export default function CustomerDetailsPage() {
                         >
                           <FileText className="h-4 w-4" />
                         </Button>
-                        <Button
-                          variant="outline"
-                          size="icon"
-                          onClick={() => handleEditClient(client._id)}
-                          title="Edit Client"
-                        >
-                          <Edit className="h-4 w-4" />
-                        </Button>
-                        <Button
-                          variant="outline"
-                          size="icon"
-                          onClick={() => handleCreateReceipt(client)}
-                          title="Create Receipt"
-                        >
-                          <Receipt className="h-4 w-4" />
-                        </Button>
-                        <Button
-                          variant="outline"
-                          size="icon"
-                          onClick={() => openDeleteDialog(client._id)}
-                          title="Delete Client"
-                          className="text-destructive hover:text-destructive-foreground hover:bg-destructive"
-                        >
-                          <Trash className="h-4 w-4" />
-                        </Button>
+                        {can("clients:edit") && (
+                          <Button
+                            variant="outline"
+                            size="icon"
+                            onClick={() => handleEditClient(client._id)}
+                            title="Edit Client"
+                          >
+                            <Edit className="h-4 w-4" />
+                          </Button>
+                        )}
+                        {can("receipts:create") && (
+                          <Button
+                            variant="outline"
+                            size="icon"
+                            onClick={() => handleCreateReceipt(client)}
+                            title="Create Receipt"
+                          >
+                            <Receipt className="h-4 w-4" />
+                          </Button>
+                        )}
+                        {can("clients:delete") && (
+                          <Button
+                            variant="outline"
+                            size="icon"
+                            onClick={() => openDeleteDialog(client._id)}
+                            title="Delete Client"
+                            className="text-destructive hover:text-destructive-foreground hover:bg-destructive"
+                          >
+                            <Trash className="h-4 w-4" />
+                          </Button>
+                        )}
                       </div>
                     </TableCell>
                   </TableRow>
@@ -274,50 +227,11 @@ export default function CustomerDetailsPage() {
         </div>
       </div>
 
-      <Dialog open={deleteDialogOpen} onOpenChange={handleCloseDialog}>
-        <DialogContent>
-          <DialogHeader>
-            <DialogTitle>Confirm Deletion</DialogTitle>
-            <DialogDescription>
-              This will permanently delete the client. Enter the password to
-              confirm.
-            </DialogDescription>
-          </DialogHeader>
-
-          <div className="my-4">
-            <Input
-              type="password"
-              placeholder="Enter password"
-              value={deletePassword}
-              onChange={(e) => setDeletePassword(e.target.value)}
-            />
-          </div>
-
-          <DialogFooter>
-            <Button
-              variant="outline"
-              onClick={handleCloseDialog}
-              disabled={deleteLoading}
-            >
-              Cancel
-            </Button>
-            <Button
-              variant="destructive"
-              onClick={handleDeleteClient}
-              disabled={deletePassword !== "7007" || deleteLoading}
-            >
-              {deleteLoading ? (
-                <>
-                  <Loader2 className="h-4 w-4 animate-spin mr-2" />
-                  Deleting...
-                </>
-              ) : (
-                "Delete Permanently"
-              )}
-            </Button>
-          </DialogFooter>
-        </DialogContent>
-      </Dialog>
+      <DeleteClientDialog
+        clientId={clientToDelete}
+        onClose={handleCloseDialog}
+        onDeleted={handleClientDeleted}
+      />
     </div>
   );
 }
@@ -1,12 +1,12 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
+import { format, startOfMonth } from "date-fns";
 import {
   Users,
   FileSpreadsheet,
   Weight,
   FileText,
-  Calendar,
-  Loader,
   AlertCircle,
+  IndianRupee,
 } from "lucide-react";
 import { StatCard } from "@/components/dashboard/stat-card";
 import {
@@ -14,6 +14,7 @@ import {
   MetalTypeTrendChart,
   WeightProcessedChart,
 } from "@/components/dashboard/overview-chart";
+import { RecentActivity } from "@/components/dashboard/recent-activity";
 import {
   Select,
   SelectContent,
@@ -21,24 +22,60 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { analyticsServices } from "@/services/api";
+import { Input } from "@/components/ui/input";
+import {
+  analyticsServices,
+  DashboardPeriod,
+  DashboardStats,
+  PeriodParams,
+} from "@/services/api";
 import { Alert, AlertDescription } from "@/components/ui/alert";
+import { useAuth } from "@/hooks/use-auth";
+
+const PERIODS: { value: DashboardPeriod; label: string }[] = [
+  { value: "this-month", label: "This Month" },
+  { value: "last-month", label: "Last Month" },
+  { value: "quarter", label: "This Quarter" },
+  { value: "financial-year", label: "This Financial Year" },
+  { value: "custom", label: "Custom Range" },
+];
+
+const formatDay = (day: string) =>
+  format(new Date(`${day}T00:00`), "dd MMM yyyy");
 
 export default function Dashboard() {
-  const [dateRange, setDateRange] = useState("this-month");
-  const [dashboardData, setDashboardData] = useState(null);
+  const { can } = useAuth();
+  const [period, setPeriod] = useState<DashboardPeriod>("this-month");
+  const [customFrom, setCustomFrom] = useState(
+    format(startOfMonth(new Date()), "yyyy-MM-dd")
+  );
+  const [customTo, setCustomTo] = useState(format(new Date(), "yyyy-MM-dd"));
+  const [dashboardData, setDashboardData] = useState<DashboardStats>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState(null);
-  const [activityFilter, setActivityFilter] = useState("all");
+
+  // Stats and charts all follow the chosen period; a custom one only once
+  // both of its dates are set and in order
+  const isCustomValid = !!customFrom && !!customTo && customFrom <= customTo;
+  const params = useMemo<PeriodParams>(
+    () =>
+      period === "custom"
+        ? { period, from: customFrom, to: customTo }
+        : { period },
+    [period, customFrom, customTo]
+  );
+  const isReady = period !== "custom" || isCustomValid;
 
   useEffect(() => {
+    if (!isReady) return;
+
     const fetchDashboardData = async () => {
       try {
         setLoading(true);
         setError(null);
 
         console.log("Fetching dashboard statistics");
-        const data = await analyticsServices.getDashboardStats();
+        const data = await analyticsServices.getDashboardStats(params);
         console.log("Dashboard stats received:", data);
 
         if (data && data.stats) {
@@ -57,13 +94,11 @@ export default function Dashboard() {
     };
 
     fetchDashboardData();
-  }, []);
+  }, [params, isReady]);
 
-  // Handle date range change
-  const handleDateRangeChange = (value) => {
-    setDateRange(value);
-    // In a more complete implementation, this would refresh the data with new date range
-  };
+  // Metals owed that have no rate yet, so are left out of the value
+  const unpricedMetals: string[] =
+    dashboardData?.stats.outstandingValue?.unpriced || [];
 
   return (
     <div className="container py-6">
@@ -73,18 +108,49 @@ export default function Dashboard() {
           <p className="text-muted-foreground">
             Overview of your goldsmith business
           </p>
+          {dashboardData?.period && (
+            <p className="text-sm text-muted-foreground">
+              {formatDay(dashboardData.period.from)} to{" "}
+              {formatDay(dashboardData.period.to)}, compared with{" "}
+              {formatDay(dashboardData.period.previous.from)} to{" "}
+              {formatDay(dashboardData.period.previous.to)}
+            </p>
+          )}
         </div>
-        <div className="mt-4 md:mt-0">
-          <Select value={dateRange} onValueChange={handleDateRangeChange}>
-            <SelectTrigger className="w-[180px]">
+        <div className="mt-4 md:mt-0 flex flex-wrap items-center gap-2">
+          {period === "custom" && (
+            <>
+              <Input
+                type="date"
+                aria-label="From"
+                className="w-[160px]"
+                value={customFrom}
+                max={customTo}
+                onChange={(e) => setCustomFrom(e.target.value)}
+              />
+              <Input
+                type="date"
+                aria-label="To"
+                className="w-[160px]"
+                value={customTo}
+                min={customFrom}
+                onChange={(e) => setCustomTo(e.target.value)}
+              />
+            </>
+          )}
+          <Select
+            value={period}
+            onValueChange={(value) => setPeriod(value as DashboardPeriod)}
+          >
+            <SelectTrigger className="w-[200px]">
               <SelectValue placeholder="Select date range" />
             </SelectTrigger>
             <SelectContent>
-              <SelectItem value="today">Today</SelectItem>
-              <SelectItem value="this-week">This Week</SelectItem>
-              <SelectItem value="this-month">This Month</SelectItem>
-              <SelectItem value="this-year">This Year</SelectItem>
-              <SelectItem value="all-time">All Time</SelectItem>
+              {PERIODS.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
             </SelectContent>
           </Select>
         </div>
@@ -99,10 +165,10 @@ export default function Dashboard() {
       )}
 
       {/* Stat Cards */}
-      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4 mb-8">
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-5 gap-4 mb-8">
         {loading ? (
           <>
-            {Array(4)
+            {Array(5)
               .fill(0)
               .map((_, i) => (
                 <div
@@ -114,9 +180,9 @@ export default function Dashboard() {
         ) : (
           <>
             <StatCard
-              title="Total Clients"
+              title="New Clients"
               value={dashboardData?.stats.totalClients.value || "0"}
-              description="Active clients"
+              description="Added in the period"
               icon={<Users className="h-4 w-4" />}
               trend={
                 dashboardData?.stats.totalClients.trend || {
@@ -126,9 +192,9 @@ export default function Dashboard() {
               }
             />
             <StatCard
-              title="Total Receipts"
+              title="Receipts"
               value={dashboardData?.stats.totalReceipts.value || "0"}
-              description="All receipts"
+              description="Written in the period"
               icon={<FileText className="h-4 w-4" />}
               trend={
                 dashboardData?.stats.totalReceipts.trend || {
@@ -140,7 +206,7 @@ export default function Dashboard() {
             <StatCard
               title="Work Receipts"
               value={dashboardData?.stats.adminReceipts.value || "0"}
-              description="Special receipts"
+              description="Written in the period"
               icon={<FileSpreadsheet className="h-4 w-4" />}
               trend={
                 dashboardData?.stats.adminReceipts.trend || {
@@ -150,9 +216,9 @@ export default function Dashboard() {
               }
             />
             <StatCard
-              title="Total Weight"
+              title="Weight Processed"
               value={dashboardData?.stats.totalWeight.value || "0 g"}
-              description="Gold processed"
+              description="Shop and work receipts"
               icon={<Weight className="h-4 w-4" />}
               trend={
                 dashboardData?.stats.totalWeight.trend || {
@@ -161,76 +227,38 @@ export default function Dashboard() {
                 }
               }
             />
+            <StatCard
+              title="Outstanding Value"
+              value={dashboardData?.stats.outstandingValue?.value || "₹0.00"}
+              description={
+                unpricedMetals.length > 0
+                  ? `At the period's rates; no rate for ${unpricedMetals.join(", ")}`
+                  : "Metal owed, at the period's rates"
+              }
+              icon={<IndianRupee className="h-4 w-4" />}
+              trend={
+                dashboardData?.stats.outstandingValue?.trend || {
+                  value: 0,
+                  isPositive: true,
+                }
+              }
+            />
           </>
         )}
       </div>
 
       {/* Charts */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-8">
-        <ReceiptsTrendChart />
-        <MetalTypeTrendChart />
+        <ReceiptsTrendChart params={params} enabled={isReady} />
+        <MetalTypeTrendChart params={params} enabled={isReady} />
       </div>
 
       <div className="mb-8">
-        <WeightProcessedChart />
+        <WeightProcessedChart params={params} enabled={isReady} />
       </div>
 
-      {/* Recent Activity */}
-      <div className="bg-card card-premium rounded-lg p-6">
-        <div className="flex items-center justify-between mb-4">
-          <h2 className="text-lg font-serif font-medium">Recent Activity</h2>
-          <Select value={activityFilter} onValueChange={setActivityFilter}>
-            <SelectTrigger className="w-[120px]">
-              <SelectValue placeholder="Filter" />
-            </SelectTrigger>
-            <SelectContent>
-              <SelectItem value="all">All</SelectItem>
-              <SelectItem value="receipts">Receipts</SelectItem>
-              <SelectItem value="clients">Clients</SelectItem>
-              <SelectItem value="admin">Admin</SelectItem>
-            </SelectContent>
-          </Select>
-        </div>
-
-        <div className="space-y-4">
-          {loading ? (
-            <div className="flex items-center justify-center h-32">
-              <Loader className="h-6 w-6 animate-spin text-muted-foreground" />
-            </div>
-          ) : dashboardData?.recentActivity &&
-            dashboardData.recentActivity.length > 0 ? (
-            dashboardData.recentActivity.map((activity, i) => (
-              <div
-                key={activity._id || i}
-                className="flex items-center gap-4 p-3 rounded-md hover:bg-accent/50 transition-colors"
-              >
-                <div className="h-10 w-10 rounded-full bg-accent flex items-center justify-center">
-                  <FileText className="h-5 w-5 text-gold" />
-                </div>
-                <div className="flex-1 min-w-0">
-                  <p className="text-sm font-medium truncate">
-                    Receipt #{activity.voucherId} -{" "}
-                    {activity.clientInfo?.clientName || "Unknown Client"}
-                  </p>
-                  <p className="text-xs text-muted-foreground">
-                    {activity.metalType} - {activity.totals?.grossWt || 0}g
-                  </p>
-                </div>
-                <div className="flex items-center gap-2">
-                  <Calendar className="h-3 w-3 text-muted-foreground" />
-                  <span className="text-xs text-muted-foreground">
-                    {new Date(activity.createdAt).toLocaleDateString()}
-                  </span>
-                </div>
-              </div>
-            ))
-          ) : (
-            <div className="text-center text-muted-foreground py-8">
-              No recent activity found
-            </div>
-          )}
-        </div>
-      </div>
+      {/* Read from the audit log, so only for those who may see it */}
+      {can("audit:view") && <RecentActivity />}
     </div>
   );
 }
@@ -1,34 +1,45 @@
 import React, { useEffect, useState } from "react";
-import { useNavigate } from "react-router-dom";
+import { useLocation, useNavigate } from "react-router-dom";
+import { Loader2 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { ThemeToggle } from "@/components/theme-toggle";
 import { Logo } from "@/components/logo";
-
-const LOGIN_ID = "SG";
-const LOGIN_PASS = "7007";
+import { useAuth } from "@/hooks/use-auth";
 
 const Login: React.FC = () => {
   const [userId, setUserId] = useState("");
   const [password, setPassword] = useState("");
   const [error, setError] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
   const navigate = useNavigate();
+  const location = useLocation();
+  const { user, login } = useAuth();
+
+  // Return to the page that sent the user here
+  const from = location.state?.from?.pathname || "/";
 
   useEffect(() => {
     // If already logged in, redirect to dashboard
-    if (localStorage.getItem("isLoggedIn") === "true") {
-      navigate("/");
+    if (user) {
+      navigate(from, { replace: true });
     }
-  }, [navigate]);
+  }, [user, from, navigate]);
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (userId === LOGIN_ID && password === LOGIN_PASS) {
-      localStorage.setItem("isLoggedIn", "true");
+    setIsSubmitting(true);
+    try {
+      await login(userId, password);
       setError("");
-      navigate("/");
-    } else {
-      setError("Invalid ID or password");
+      navigate(from, { replace: true });
+    } catch (err) {
+      setError(
+        err.response?.data?.message ||
+          "Could not reach the server. Please try again."
+      );
+    } finally {
+      setIsSubmitting(false);
     }
   };
 
@@ -47,12 +58,13 @@ const Login: React.FC = () => {
         </p>
         <form onSubmit={handleSubmit}>
           <div className="mb-4">
-            <label className="block mb-1 font-medium">User ID</label>
+            <label className="block mb-1 font-medium">Username</label>
             <Input
               type="text"
               value={userId}
               onChange={(e) => setUserId(e.target.value)}
-              placeholder="Enter ID"
+              placeholder="Enter Username"
+              autoComplete="username"
               required
             />
           </div>
@@ -63,13 +75,15 @@ const Login: React.FC = () => {
               value={password}
               onChange={(e) => setPassword(e.target.value)}
               placeholder="Enter Password"
+              autoComplete="current-password"
               required
             />
           </div>
           {error && (
             <div className="text-red-500 mb-4 text-center">{error}</div>
           )}
-          <Button type="submit" className="w-full">
+          <Button type="submit" className="w-full" disabled={isSubmitting}>
+            {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
             Login
           </Button>
         </form>
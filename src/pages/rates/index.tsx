@@ -0,0 +1,408 @@
+import { useMemo, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format, subDays } from "date-fns";
+import {
+  CartesianGrid,
+  Legend,
+  Line,
+  LineChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import { Loader2, Save } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import {
+  fineRate,
+  formatQuote,
+  RATE_METALS,
+  RATE_PURITIES,
+  rateKey,
+} from "@/lib/metal-rates";
+import { formatRupees } from "@/lib/payments";
+import { toNumber } from "@/lib/receipt-calculations";
+import { rateServices } from "@/services/api";
+
+const COLORS = ["#B8860B", "#0088FE", "#00C49F", "#FF8042"];
+
+const RANGES: Record<string, { label: string; days?: number }> = {
+  "30": { label: "Last 30 Days", days: 30 },
+  "90": { label: "Last 90 Days", days: 90 },
+  "365": { label: "Last Year", days: 365 },
+  all: { label: "All Time" },
+};
+
+const today = () => format(new Date(), "yyyy-MM-dd");
+
+// Days are yyyy-MM-dd in the shop's time zone
+const parseDay = (day: string) => new Date(`${day}T00:00`);
+
+const formatDay = (day: string) => format(parseDay(day), "dd MMM yyyy");
+
+const RatesPage = () => {
+  const { toast } = useToast();
+  const { can } = useAuth();
+  const queryClient = useQueryClient();
+  const [date, setDate] = useState(today());
+  // Entered rates by metal and purity; blank ones are not saved
+  const [entries, setEntries] = useState<Record<string, string>>({});
+  const [chartMetal, setChartMetal] = useState(RATE_METALS[0]);
+  const [range, setRange] = useState("90");
+
+  const {
+    data: current,
+    isLoading: isLoadingCurrent,
+    isError: isCurrentError,
+  } = useQuery({
+    queryKey: ["current-rates"],
+    queryFn: () => rateServices.getCurrentRates(),
+  });
+  const currentRates = current?.rates || [];
+
+  const days = RANGES[range].days;
+  const params = {
+    metal: chartMetal,
+    from: days ? format(subDays(new Date(), days), "yyyy-MM-dd") : undefined,
+  };
+  const {
+    data: history = [],
+    isLoading: isLoadingHistory,
+    isError: isHistoryError,
+    refetch,
+  } = useQuery({
+    queryKey: ["rates", params],
+    queryFn: () => rateServices.getRates(params),
+  });
+
+  // One point per day with the last rate entered for each purity
+  const chartData = useMemo(() => {
+    const byDay: Record<string, Record<string, number | string>> = {};
+    history.forEach((rate) => {
+      byDay[rate.date] ||= { date: rate.date };
+      byDay[rate.date][`${rate.purity}%`] = rate.rate;
+    });
+    return Object.values(byDay);
+  }, [history]);
+  const chartPurities = [
+    ...new Set(history.map((rate) => rate.purity)),
+  ].sort((a, b) => b - a);
+
+  const saveMutation = useMutation({
+    mutationFn: () =>
+      rateServices.setRates({
+        date,
+        rates: RATE_METALS.flatMap((metal) =>
+          RATE_PURITIES[metal].map((purity) => ({
+            metal,
+            purity,
+            rate: toNumber(entries[rateKey({ metal, purity })]),
+          }))
+        ).filter((quote) => quote.rate > 0),
+      }),
+    onSuccess: (saved) => {
+      toast({
+        title: "Success",
+        description: `${saved.length} rate(s) saved for ${formatDay(date)}`,
+      });
+      setEntries({});
+      queryClient.invalidateQueries({ queryKey: ["rates"] });
+      queryClient.invalidateQueries({ queryKey: ["current-rates"] });
+      queryClient.invalidateQueries({ queryKey: ["audit"] });
+    },
+    // The API interceptor already shows the server's message
+    onError: (error) => console.error("Error saving rates:", error),
+  });
+
+  const hasEntries = Object.values(entries).some(
+    (value) => toNumber(value) > 0
+  );
+
+  const currentRateFor = (metal: string, purity: number) =>
+    currentRates.find(
+      (rate) => rateKey(rate) === rateKey({ metal, purity })
+    );
+
+  const sortedHistory = [...history].reverse();
+
+  const fineRates = RATE_METALS.map((metal) => ({
+    metal,
+    rate: fineRate(currentRates, metal),
+  })).filter(({ rate }) => rate !== undefined);
+
+  return (
+    <div className="container p-6 mx-auto space-y-6">
+      <div>
+        <h1 className="text-3xl font-serif font-bold">Metal Rates</h1>
+        <p className="text-muted-foreground">
+          Daily rates per metal and purity. Balances, making charges and
+          receipts are valued at the rate in effect on their day.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {can("rates:manage") && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Enter Rates</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <form
+                className="space-y-4"
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  saveMutation.mutate();
+                }}
+              >
+                <div className="space-y-2">
+                  <Label htmlFor="rate-date">Date</Label>
+                  <Input
+                    id="rate-date"
+                    type="date"
+                    value={date}
+                    max={today()}
+                    onChange={(e) => setDate(e.target.value)}
+                  />
+                </div>
+                {RATE_METALS.flatMap((metal) =>
+                  RATE_PURITIES[metal].map((purity) => {
+                    const key = rateKey({ metal, purity });
+                    const inEffect = currentRateFor(metal, purity);
+                    return (
+                      <div
+                        key={key}
+                        className="grid grid-cols-2 items-center gap-4"
+                      >
+                        <Label htmlFor={key}>
+                          {metal} {purity}% (₹/g)
+                        </Label>
+                        <Input
+                          id={key}
+                          type="number"
+                          min="0"
+                          step="0.01"
+                          placeholder={
+                            inEffect ? String(inEffect.rate) : "Not set"
+                          }
+                          value={entries[key] || ""}
+                          onChange={(e) =>
+                            setEntries((prev) => ({
+                              ...prev,
+                              [key]: e.target.value,
+                            }))
+                          }
+                        />
+                      </div>
+                    );
+                  })
+                )}
+                <p className="text-sm text-muted-foreground">
+                  Leave a rate blank to keep the one in effect. A rate entered
+                  again for the same day replaces it from then on; the earlier
+                  one stays in the history.
+                </p>
+                <Button
+                  type="submit"
+                  disabled={!hasEntries || !date || saveMutation.isPending}
+                >
+                  {saveMutation.isPending ? (
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  ) : (
+                    <Save className="mr-2 h-4 w-4" />
+                  )}
+                  Save Rates
+                </Button>
+              </form>
+            </CardContent>
+          </Card>
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Rates In Effect Today</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {isLoadingCurrent ? (
+              <div className="text-center py-8">
+                <Loader2 className="h-8 w-8 animate-spin mx-auto text-primary" />
+              </div>
+            ) : isCurrentError ? (
+              <p className="py-8 text-center text-destructive">
+                Error loading the current rates
+              </p>
+            ) : currentRates.length > 0 ? (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Metal</TableHead>
+                    <TableHead>Purity</TableHead>
+                    <TableHead className="text-right">Rate (₹/g)</TableHead>
+                    <TableHead>Since</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {currentRates.map((rate) => (
+                    <TableRow key={rate._id}>
+                      <TableCell>{rate.metal}</TableCell>
+                      <TableCell>{rate.purity}%</TableCell>
+                      <TableCell className="text-right">
+                        {formatRupees(rate.rate)}
+                      </TableCell>
+                      <TableCell>{formatDay(rate.date)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            ) : (
+              <p className="py-8 text-center text-muted-foreground">
+                No rates have been entered yet
+              </p>
+            )}
+            {fineRates.length > 0 && (
+              <p className="mt-4 text-sm text-muted-foreground">
+                Balances are valued at the fine (100%) rate:{" "}
+                {fineRates
+                  .map(({ metal, rate }) => `${metal} ${formatRupees(rate)}/g`)
+                  .join(", ")}
+              </p>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Rate History</CardTitle>
+          <div className="flex flex-col md:flex-row gap-2 mt-4">
+            <Select value={chartMetal} onValueChange={setChartMetal}>
+              <SelectTrigger className="w-full md:w-44">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {RATE_METALS.map((metal) => (
+                  <SelectItem key={metal} value={metal}>
+                    {metal}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={range} onValueChange={setRange}>
+              <SelectTrigger className="w-full md:w-44">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(RANGES).map(([value, { label }]) => (
+                  <SelectItem key={value} value={value}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoadingHistory ? (
+            <div className="text-center py-8">
+              <Loader2 className="h-8 w-8 animate-spin mx-auto text-primary" />
+              <p className="mt-2">Loading rate history...</p>
+            </div>
+          ) : isHistoryError ? (
+            <div className="text-center py-8 text-destructive">
+              <p className="text-lg font-medium">Error loading rate history</p>
+              <Button
+                variant="outline"
+                className="mt-4"
+                onClick={() => refetch()}
+              >
+                Retry
+              </Button>
+            </div>
+          ) : history.length > 0 ? (
+            <>
+              <div className="h-80">
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={chartData}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis
+                      dataKey="date"
+                      tickFormatter={(day) => format(parseDay(day), "dd MMM")}
+                    />
+                    <YAxis domain={["auto", "auto"]} />
+                    <Tooltip
+                      labelFormatter={(day) => formatDay(String(day))}
+                      formatter={(value) => formatRupees(Number(value))}
+                    />
+                    <Legend />
+                    {chartPurities.map((purity, index) => (
+                      <Line
+                        key={purity}
+                        type="monotone"
+                        dataKey={`${purity}%`}
+                        stroke={COLORS[index % COLORS.length]}
+                        connectNulls
+                      />
+                    ))}
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+
+              <div className="rounded-md border overflow-x-auto mt-6">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Date</TableHead>
+                      <TableHead>Rate</TableHead>
+                      <TableHead>Entered</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {sortedHistory.map((rate) => (
+                      <TableRow key={rate._id}>
+                        <TableCell className="whitespace-nowrap">
+                          {formatDay(rate.date)}
+                        </TableCell>
+                        <TableCell>{formatQuote(rate)}</TableCell>
+                        <TableCell className="whitespace-nowrap">
+                          {format(
+                            new Date(rate.createdAt),
+                            "dd MMM yyyy, HH:mm"
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </>
+          ) : (
+            <p className="py-12 text-center text-lg text-muted-foreground">
+              No {chartMetal.toLowerCase()} rates in this period
+            </p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default RatesPage;
@@ -5,7 +5,19 @@ import { Button } from "@/components/ui/button";
 import { useToast } from "@/hooks/use-toast";
 import { format } from "date-fns";
 import { useQuery, useMutation } from "@tanstack/react-query";
-import { receiptServices } from "@/services/api";
+import { receiptServices, ShopReceiptInput } from "@/services/api";
+import { ReceiptLockNotice } from "@/components/receipts/receipt-lock";
+import { ReceiptCancelledNotice } from "@/components/receipts/receipt-cancel";
+import {
+  BALANCE_TAG,
+  formatGrams,
+  shopGivenTotals,
+  shopGivenWeights,
+  shopReceivedFinalWt,
+  shopReceivedTotal,
+} from "@/lib/receipt-calculations";
+import { balanceFor } from "@/lib/metal-balances";
+import { formatRupees } from "@/lib/payments";
 
 // Helper function to safely parse dates
 const safeDateParse = (dateString: string | Date): Date => {
@@ -57,8 +69,8 @@ interface Receipt {
   receivedItems?: ReceivedItem[];
   clientInfo: ClientInfo;
   paymentStatus: "Pending" | "Partial" | "Paid";
-  totalPaidAmount: number;
-  status?: "complete" | "incomplete";
+  amountPaid?: number;
+  status?: "complete" | "incomplete" | "cancelled";
   totals?: {
     grossWt: number;
     stoneWt: number;
@@ -78,6 +90,7 @@ export default function EditReceiptPage() {
   const location = useLocation();
   const { toast } = useToast();
   const [editableReceipt, setEditableReceipt] = useState<Receipt | null>(null);
+  const [reason, setReason] = useState("");
 
   // Fetch receipt by ID
   const {
@@ -90,6 +103,8 @@ export default function EditReceiptPage() {
     queryFn: () => receiptServices.getReceipt(id!),
     enabled: !!id,
   });
+  const isFinalized = !!receiptData?.data.isFinalized;
+  const isCancelled = receiptData?.data.status === "cancelled";
 
   // Initialize state with fetched data
   useEffect(() => {
@@ -108,16 +123,14 @@ export default function EditReceiptPage() {
 
       // Calculate received totals
       const receivedTotals = {
-        finalWt: processedReceivedItems.reduce(
-          (sum, item) => sum + (item.finalWt || 0),
-          0
-        ),
+        finalWt: shopReceivedTotal(processedReceivedItems),
       };
 
       // Process given items and calculate totals
       const processedItems = (receipt.givenItems || receipt.items || []).map(
         (item) => ({
           ...item,
+          tag: item.tag ?? "",
           grossWt: item.grossWt ?? 0,
           stoneWt: item.stoneWt ?? 0,
           netWt: item.netWt ?? 0,
@@ -129,29 +142,7 @@ export default function EditReceiptPage() {
       );
 
       // Calculate given totals
-      const totals = receipt.totals || {
-        grossWt: processedItems.reduce(
-          (sum, item) => sum + (item.grossWt || 0),
-          0
-        ),
-        stoneWt: processedItems.reduce(
-          (sum, item) => sum + (item.stoneWt || 0),
-          0
-        ),
-        netWt: processedItems.reduce((sum, item) => sum + (item.netWt || 0), 0),
-        finalWt: processedItems.reduce(
-          (sum, item) => sum + (item.finalWt || 0),
-          0
-        ),
-        stoneAmt: processedItems.reduce(
-          (sum, item) => sum + (item.stoneAmt || 0),
-          0
-        ),
-        totalInvoiceAmount: processedItems.reduce(
-          (sum, item) => sum + (item.totalInvoiceAmount || 0),
-          0
-        ),
-      };
+      const totals = receipt.totals || shopGivenTotals(processedItems);
 
       setEditableReceipt({
         ...receipt,
@@ -183,12 +174,17 @@ export default function EditReceiptPage() {
 
   // Update receipt mutation
   const { mutate: updateReceipt, isPending: isUpdating } = useMutation({
-    mutationFn: (updatedData: Partial<Receipt>) =>
-      receiptServices.updateReceipt(id!, updatedData),
-    onSuccess: () => {
+    mutationFn: (updatedData: ShopReceiptInput) =>
+      receiptServices.saveReceipt(updatedData, id, reason),
+    onSuccess: (saved) => {
       toast({
         title: "Success",
-        description: "Receipt updated successfully",
+        description: `Receipt updated successfully. New client ${
+          saved.receipt.metalType
+        } balance: ${balanceFor(
+          saved.client.balances,
+          saved.receipt.metalType
+        ).toFixed(3)}g`,
       });
       navigate(`/receipts/${id}`);
     },
@@ -264,8 +260,10 @@ export default function EditReceiptPage() {
 
         // Recalculate finalWt for received items
         if (["receivedGold", "melting"].includes(field)) {
-          updatedItem.finalWt =
-            (updatedItem.receivedGold * updatedItem.melting) / 100;
+          updatedItem.finalWt = shopReceivedFinalWt(
+            updatedItem,
+            prev.metalType
+          );
         }
 
         updatedReceivedItems[index] = updatedItem;
@@ -273,10 +271,7 @@ export default function EditReceiptPage() {
 
       // Calculate received totals
       const receivedTotals = {
-        finalWt: updatedReceivedItems.reduce(
-          (sum, item) => sum + (item.finalWt || 0),
-          0
-        ),
+        finalWt: shopReceivedTotal(updatedReceivedItems),
       };
 
       // Auto-update status based on received items
@@ -330,10 +325,7 @@ export default function EditReceiptPage() {
 
       // Recalculate totals
       const receivedTotals = {
-        finalWt: updatedReceivedItems.reduce(
-          (sum, item) => sum + (item.finalWt || 0),
-          0
-        ),
+        finalWt: shopReceivedTotal(updatedReceivedItems),
       };
 
       // Auto-update status based on remaining received items
@@ -381,29 +373,7 @@ export default function EditReceiptPage() {
       const updatedItems = prev.items.filter((_, i) => i !== index);
 
       // Recalculate totals
-      const totals = {
-        grossWt: updatedItems.reduce(
-          (sum, item) => sum + (item.grossWt || 0),
-          0
-        ),
-        stoneWt: updatedItems.reduce(
-          (sum, item) => sum + (item.stoneWt || 0),
-          0
-        ),
-        netWt: updatedItems.reduce((sum, item) => sum + (item.netWt || 0), 0),
-        finalWt: updatedItems.reduce(
-          (sum, item) => sum + (item.finalWt || 0),
-          0
-        ),
-        stoneAmt: updatedItems.reduce(
-          (sum, item) => sum + (item.stoneAmt || 0),
-          0
-        ),
-        totalInvoiceAmount: updatedItems.reduce(
-          (sum, item) => sum + (item.totalInvoiceAmount || 0),
-          0
-        ),
-      };
+      const totals = shopGivenTotals(updatedItems);
 
       return {
         ...prev,
@@ -443,41 +413,19 @@ export default function EditReceiptPage() {
 
         // Recalculate dependent fields
         if (["grossWt", "stoneWt", "meltingTouch"].includes(field)) {
-          updatedItem.netWt = updatedItem.grossWt - updatedItem.stoneWt;
-          updatedItem.finalWt =
-            updatedItem.netWt * (updatedItem.meltingTouch / 100);
+          const { netWt, finalWt } = shopGivenWeights(
+            updatedItem,
+            prev.metalType
+          );
+          updatedItem.netWt = netWt;
+          updatedItem.finalWt = finalWt;
         }
 
         updatedItems[index] = updatedItem;
       }
 
       // Calculate totals (only for numeric fields)
-      const totals = {
-        grossWt: (updatedItems || []).reduce(
-          (sum, item) => sum + (item.grossWt || 0),
-          0
-        ),
-        stoneWt: (updatedItems || []).reduce(
-          (sum, item) => sum + (item.stoneWt || 0),
-          0
-        ),
-        netWt: (updatedItems || []).reduce(
-          (sum, item) => sum + (item.netWt || 0),
-          0
-        ),
-        finalWt: (updatedItems || []).reduce(
-          (sum, item) => sum + (item.finalWt || 0),
-          0
-        ),
-        stoneAmt: (updatedItems || []).reduce(
-          (sum, item) => sum + (item.stoneAmt || 0),
-          0
-        ),
-        totalInvoiceAmount: (updatedItems || []).reduce(
-          (sum, item) => sum + (item.totalInvoiceAmount || 0),
-          0
-        ),
-      };
+      const totals = shopGivenTotals(updatedItems);
 
       return {
         ...prev,
@@ -556,6 +504,11 @@ export default function EditReceiptPage() {
     );
   }
 
+  // Totals row leaves out the "Previous Balance" row
+  const itemTotals = shopGivenTotals(
+    (editableReceipt.items || []).filter((item) => item.tag !== BALANCE_TAG)
+  );
+
   return (
     <div className="container py-6 print:py-0">
       <div className="print:hidden">
@@ -582,18 +535,37 @@ export default function EditReceiptPage() {
               Voucher ID: {editableReceipt.voucherId}
             </p>
           </div>
-          <Button onClick={handleSave} disabled={isUpdating}>
-            {isUpdating ? (
-              <>
-                <Loader className="mr-2 h-4 w-4 animate-spin" /> Saving...
-              </>
-            ) : (
-              <>
-                <Save className="mr-2 h-4 w-4" /> Save Changes
-              </>
-            )}
-          </Button>
+          <div className="flex items-center gap-2 mt-4 md:mt-0">
+            <input
+              type="text"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="Reason for change"
+              className="w-64 bg-transparent border rounded px-2 py-2 text-sm"
+            />
+            <Button
+              onClick={handleSave}
+              disabled={isUpdating || isFinalized || isCancelled}
+            >
+              {isUpdating ? (
+                <>
+                  <Loader className="mr-2 h-4 w-4 animate-spin" /> Saving...
+                </>
+              ) : (
+                <>
+                  <Save className="mr-2 h-4 w-4" /> Save Changes
+                </>
+              )}
+            </Button>
+          </div>
         </div>
+
+        {receiptData && (
+          <>
+            <ReceiptLockNotice receipt={receiptData.data} />
+            <ReceiptCancelledNotice receipt={receiptData.data} />
+          </>
+        )}
       </div>
 
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 mb-8">
@@ -811,36 +783,20 @@ export default function EditReceiptPage() {
                       Totals
                     </td>
                     <td className="py-2 px-1 text-right">
-                      {/* Calculate totals excluding Previous Balance items */}
-                      {(editableReceipt.items || [])
-                        .filter((item) => item.itemName !== "Previous Balance")
-                        .reduce((sum, item) => sum + (item.grossWt || 0), 0)
-                        .toFixed(3)}
+                      {itemTotals.grossWt.toFixed(3)}
                     </td>
                     <td className="py-2 px-1 text-right">
-                      {(editableReceipt.items || [])
-                        .filter((item) => item.itemName !== "Previous Balance")
-                        .reduce((sum, item) => sum + (item.stoneWt || 0), 0)
-                        .toFixed(3)}
+                      {itemTotals.stoneWt.toFixed(3)}
                     </td>
                     <td className="py-2 px-1">-</td>
                     <td className="py-2 px-1 text-right">
-                      {(editableReceipt.items || [])
-                        .filter((item) => item.itemName !== "Previous Balance")
-                        .reduce((sum, item) => sum + (item.netWt || 0), 0)
-                        .toFixed(3)}
+                      {itemTotals.netWt.toFixed(3)}
                     </td>
                     <td className="py-2 px-1 text-right">
-                      {(editableReceipt.items || [])
-                        .filter((item) => item.itemName !== "Previous Balance")
-                        .reduce((sum, item) => sum + (item.finalWt || 0), 0)
-                        .toFixed(3)}
+                      {itemTotals.finalWt.toFixed(3)}
                     </td>
                     <td className="py-2 px-1 text-right">
-                      {(editableReceipt.items || [])
-                        .filter((item) => item.itemName !== "Previous Balance")
-                        .reduce((sum, item) => sum + (item.stoneAmt || 0), 0)
-                        .toFixed(3)}
+                      {itemTotals.stoneAmt.toFixed(3)}
                     </td>
                     <td className="py-2 px-1 print:hidden"></td>
                   </tr>
@@ -1005,10 +961,10 @@ export default function EditReceiptPage() {
               <div className="bg-primary/10 p-3 rounded-md">
                 <div className="text-sm text-primary">Balance</div>
                 <div className="text-lg font-semibold text-primary">
-                  {(
+                  {formatGrams(
                     (editableReceipt.totals?.finalWt || 0) -
-                    (editableReceipt.receivedTotals?.finalWt || 0)
-                  ).toFixed(3)}
+                      (editableReceipt.receivedTotals?.finalWt || 0)
+                  )}
                   g
                 </div>
               </div>
@@ -1121,38 +1077,18 @@ export default function EditReceiptPage() {
                 <label className="text-sm text-muted-foreground block mb-1">
                   Payment Status
                 </label>
-                <select
-                  value={editableReceipt.paymentStatus}
-                  onChange={(e) =>
-                    handleFieldChange(
-                      "paymentStatus",
-                      e.target.value as "Pending" | "Partial" | "Paid"
-                    )
-                  }
-                  className="w-full bg-transparent border rounded px-3 py-2"
-                >
-                  <option value="Pending">Pending</option>
-                  <option value="Partial">Partial</option>
-                  <option value="Paid">Paid</option>
-                </select>
+                {/* Set by the payments recorded on the client's page */}
+                <p className="px-3 py-2">
+                  {editableReceipt.paymentStatus || "Pending"}
+                </p>
               </div>
               <div>
                 <label className="text-sm text-muted-foreground block mb-1">
                   Total Paid Amount
                 </label>
-                <input
-                  type="number"
-                  value={editableReceipt.totalPaidAmount}
-                  onChange={(e) =>
-                    handleFieldChange(
-                      "totalPaidAmount",
-                      parseFloat(e.target.value) || 0
-                    )
-                  }
-                  className="w-full bg-transparent border rounded px-3 py-2"
-                  step="0.01"
-                  min="0"
-                />
+                <p className="px-3 py-2">
+                  {formatRupees(editableReceipt.amountPaid)}
+                </p>
               </div>
               <div>
                 <label className="text-sm text-muted-foreground block mb-1">
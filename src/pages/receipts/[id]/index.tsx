@@ -2,20 +2,49 @@ import { useState, useEffect } from "react";
 import { useParams, useNavigate } from "react-router-dom";
 import {
   ArrowLeft,
+  Ban,
   Edit,
   Download,
+  FileText,
   Loader,
   Printer,
   Share2,
+  Trash2,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { StatusBadge } from "@/components/ui/status-badge";
 import { useToast } from "@/hooks/use-toast";
-import { receiptServices } from "@/services/api";
+import {
+  clientBillServices,
+  rateServices,
+  receiptServices,
+} from "@/services/api";
 import { useQuery } from "@tanstack/react-query";
 import { format } from "date-fns";
 import { jsPDF } from "jspdf";
 import autoTable from "jspdf-autotable";
+import { printRateInEffect, stampCancelled } from "@/lib/receipt-pdf";
+import { ValuationItem } from "@/lib/metal-rates";
+import { useAuth } from "@/hooks/use-auth";
+import { AuditHistory } from "@/components/audit/audit-history";
+import { ReceiptHistory } from "@/components/receipts/receipt-history";
+import {
+  ReceiptLockActions,
+  ReceiptLockNotice,
+} from "@/components/receipts/receipt-lock";
+import {
+  CancelReceiptDialog,
+  ReceiptCancelledNotice,
+  TrashReceiptDialog,
+} from "@/components/receipts/receipt-cancel";
+import { RateInEffect } from "@/components/receipts/rate-in-effect";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  formatGrams,
+  shopReceivedTotal,
+  sumOf,
+  toNumber,
+} from "@/lib/receipt-calculations";
 
 declare module "jspdf" {
   interface jsPDF {
@@ -36,13 +65,18 @@ export default function ReceiptDetailsPage() {
   const { id } = useParams();
   const navigate = useNavigate();
   const { toast } = useToast();
+  const { can } = useAuth();
   const [isGeneratingPDF, setIsGeneratingPDF] = useState(false);
+  const [isBilling, setIsBilling] = useState(false);
+  const [cancelOpen, setCancelOpen] = useState(false);
+  const [trashOpen, setTrashOpen] = useState(false);
 
   const {
     data: receipt,
     isLoading,
     isError,
     error,
+    refetch,
   } = useQuery({
     queryKey: ["receipt", id],
     queryFn: () => receiptServices.getReceipt(id),
@@ -64,12 +98,53 @@ export default function ReceiptDetailsPage() {
     }
   }, [receipt]);
 
+  // The rates in effect on the receipt's date
+  const rateDate = receipt?.data.issueDate
+    ? format(new Date(receipt.data.issueDate), "yyyy-MM-dd")
+    : undefined;
+  const { data: rates } = useQuery({
+    queryKey: ["current-rates", rateDate],
+    queryFn: () => rateServices.getCurrentRates(rateDate),
+    enabled: !!rateDate,
+  });
+
+  // The receipt's fine metal at the rate, plus its stone amount
+  const valuationItems: ValuationItem[] = receipt
+    ? [
+        {
+          label: `Metal (${formatGrams(receipt.data.totals?.finalWt)} g)`,
+          grams: receipt.data.totals?.finalWt,
+        },
+        { label: "Stone amount", amount: receipt.data.totals?.stoneAmt },
+      ]
+    : [];
+
   const handleEditReceipt = () => {
     navigate(`/receipts/${id}/edit`, {
       state: { receiptData: receipt },
     });
   };
 
+  const handleCreateBill = async () => {
+    if (!receipt) return;
+    setIsBilling(true);
+    try {
+      const { data: bill } = await clientBillServices.createClientBill(
+        receipt.data._id
+      );
+      toast({
+        title: "Success",
+        description: `Client bill ${bill.billNumber} created`,
+      });
+      navigate("/client-bills");
+    } catch (error) {
+      // The API interceptor already shows the server's message
+      console.error("Error creating client bill:", error);
+    } finally {
+      setIsBilling(false);
+    }
+  };
+
   const handlePrintReceipt = () => {
     window.print();
   };
@@ -286,31 +361,20 @@ export default function ReceiptDetailsPage() {
       ]);
 
       // Add totals row for received items
+      const receivedGoldTotal = sumOf(
+        receivedItems,
+        (item) => item.receivedGold
+      );
       receivedTableBody.push([
         "",
         "Total:",
         "",
-        formatNumber(
-          receivedItems.reduce(
-            (acc, item) => acc + Number(item.receivedGold || 0),
-            0
-          )
-        ),
+        formatNumber(receivedGoldTotal),
         formatNumber(0),
         "",
         "",
-        formatNumber(
-          receivedItems.reduce(
-            (acc, item) => acc + Number(item.receivedGold || 0),
-            0
-          )
-        ),
-        formatNumber(
-          receivedItems.reduce(
-            (acc, item) => acc + Number(item.finalWt || 0),
-            0
-          )
-        ),
+        formatNumber(receivedGoldTotal),
+        formatNumber(shopReceivedTotal(receivedItems)),
       ]);
 
       autoTable(doc, {
@@ -377,21 +441,10 @@ export default function ReceiptDetailsPage() {
       const balanceValues = [
         formatNumber(receipt.data.previousBalance || 0, 2),
         formatNumber(receipt.data.totals?.finalWt, 3),
+        formatNumber(shopReceivedTotal(receivedItems), 3),
         formatNumber(
-          receivedItems.reduce(
-            (acc, item) => acc + Number(item.finalWt || 0),
-            0
-          ),
-          3
-        ),
-        formatNumber(
-          Number(receipt.data.totals?.finalWt || 0) -
-            Number(
-              receivedItems.reduce(
-                (acc, item) => acc + Number(item.finalWt || 0),
-                0
-              )
-            ),
+          toNumber(receipt.data.totals?.finalWt) -
+            shopReceivedTotal(receivedItems),
           3
         ),
       ];
@@ -429,6 +482,15 @@ export default function ReceiptDetailsPage() {
         margin: { left: 15, right: 25 },
       });
 
+      if (rates) {
+        printRateInEffect(doc, {
+          date: format(new Date(`${rates.date}T00:00`), "dd/MM/yyyy"),
+          metal: receipt.data.metalType,
+          quotes: rates.rates,
+          items: valuationItems,
+        });
+      }
+
       // Current Status Section with horizontal table layout
       // finalY = (doc as any).lastAutoTable.finalY + 8;
 
@@ -479,6 +541,10 @@ export default function ReceiptDetailsPage() {
       //   margin: { left: 15, right: 25 },
       // });
 
+      if (receipt.data.status === "cancelled") {
+        stampCancelled(doc, receipt.data.voucherId, receipt.data);
+      }
+
       // Save the PDF
       const fileName = `receipt_${
         receipt.data.clientInfo?.clientName?.replace(/[^a-zA-Z0-9]/g, "_") ||
@@ -564,9 +630,44 @@ export default function ReceiptDetailsPage() {
             </p>
           </div>
           <div className="flex flex-wrap gap-2 mt-4 md:mt-0">
-            <Button variant="outline" onClick={handleEditReceipt}>
-              <Edit className="mr-2 h-4 w-4" /> Edit
-            </Button>
+            {can("receipts:edit") &&
+              !receipt.data.isFinalized &&
+              receipt.data.status !== "cancelled" && (
+                <Button variant="outline" onClick={handleEditReceipt}>
+                  <Edit className="mr-2 h-4 w-4" /> Edit
+                </Button>
+              )}
+            <ReceiptLockActions
+              receiptType="receipt"
+              receipt={receipt.data}
+              onChange={() => refetch()}
+            />
+            {can("receipts:delete") &&
+              !receipt.data.isFinalized &&
+              receipt.data.status !== "cancelled" && (
+                <Button variant="outline" onClick={() => setCancelOpen(true)}>
+                  <Ban className="mr-2 h-4 w-4" /> Cancel
+                </Button>
+              )}
+            {can("receipts:delete") && !receipt.data.isFinalized && (
+              <Button variant="outline" onClick={() => setTrashOpen(true)}>
+                <Trash2 className="mr-2 h-4 w-4" /> Delete
+              </Button>
+            )}
+            {receipt.data.status === "complete" && can("receipts:create") && (
+              <Button
+                variant="outline"
+                onClick={handleCreateBill}
+                disabled={isBilling}
+              >
+                {isBilling ? (
+                  <Loader className="mr-2 h-4 w-4 animate-spin" />
+                ) : (
+                  <FileText className="mr-2 h-4 w-4" />
+                )}
+                Create Bill
+              </Button>
+            )}
             <Button variant="outline" onClick={handlePrintReceipt}>
               <Printer className="mr-2 h-4 w-4" /> Print
             </Button>
@@ -586,8 +687,12 @@ export default function ReceiptDetailsPage() {
             </Button>
           </div>
         </div>
+
+        <ReceiptLockNotice receipt={receipt.data} />
       </div>
 
+      <ReceiptCancelledNotice receipt={receipt.data} />
+
       <div className="hidden print:block mb-8">
         <div className="text-center">
           <h1 className="text-3xl font-bold">Receipt</h1>
@@ -757,10 +862,9 @@ export default function ReceiptDetailsPage() {
                         </td>
                         <td className="py-2 px-1 text-right">
                           {formatNumber(
-                            receipt.data.receivedItems.reduce(
-                              (acc, item) =>
-                                acc + Number(item.receivedGold || 0),
-                              0
+                            sumOf(
+                              receipt.data.receivedItems,
+                              (item) => item.receivedGold
                             ),
                             3
                           )}
@@ -768,10 +872,7 @@ export default function ReceiptDetailsPage() {
                         <td className="py-2 px-1 text-right">-</td>
                         <td className="py-2 px-1 text-right">
                           {formatNumber(
-                            receipt.data.receivedItems.reduce(
-                              (acc, item) => acc + Number(item.finalWt || 0),
-                              0
-                            ),
+                            shopReceivedTotal(receipt.data.receivedItems),
                             3
                           )}
                         </td>
@@ -826,10 +927,7 @@ export default function ReceiptDetailsPage() {
                   {receipt.data.receivedItems &&
                   receipt.data.receivedItems.length > 0
                     ? formatNumber(
-                        receipt.data.receivedItems.reduce(
-                          (acc, item) => acc + Number(item.finalWt || 0),
-                          0
-                        ),
+                        shopReceivedTotal(receipt.data.receivedItems),
                         3
                       ) + "g"
                     : "empty"}
@@ -893,13 +991,57 @@ export default function ReceiptDetailsPage() {
               </div>
             </div>
           </div>
+          {rates && (
+            <RateInEffect
+              date={rates.date}
+              metal={receipt.data.metalType}
+              quotes={rates.rates}
+              items={valuationItems}
+            />
+          )}
         </div>
       </div>
       {/* End of grid */}
 
+      {id && (
+        <div className="mt-8 print:hidden">
+          <Tabs defaultValue="history">
+            <TabsList>
+              <TabsTrigger value="history">History</TabsTrigger>
+              {can("audit:view") && (
+                <TabsTrigger value="audit">Audit Trail</TabsTrigger>
+              )}
+            </TabsList>
+            <TabsContent value="history">
+              <div className="bg-card card-premium rounded-lg p-6">
+                <ReceiptHistory receiptType="receipt" receiptId={id} />
+              </div>
+            </TabsContent>
+            {can("audit:view") && (
+              <TabsContent value="audit">
+                <AuditHistory entityType="receipt" entityId={id} />
+              </TabsContent>
+            )}
+          </Tabs>
+        </div>
+      )}
+
       <div className="hidden print:block mt-8 text-center text-sm text-gray-500">
         <p>Generated on {format(new Date(), "PPP p")}</p>
       </div>
+
+      <CancelReceiptDialog
+        receiptType="receipt"
+        receipt={cancelOpen ? receipt.data : null}
+        onClose={() => setCancelOpen(false)}
+        onCancelled={() => refetch()}
+      />
+      <TrashReceiptDialog
+        receiptType="receipt"
+        receipt={trashOpen ? receipt.data : null}
+        onClose={() => setTrashOpen(false)}
+        onDeleted={() => navigate("/receipts")}
+      />
     </div>
   );
 }
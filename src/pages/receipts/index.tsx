@@ -9,7 +9,7 @@ import {
   Search,
   Eye,
   Edit,
-  Trash,
+  Ban,
   Download,
   Loader2,
 } from "lucide-react";
@@ -21,14 +21,6 @@ import {
   TableHeader,
   TableRow,
 } from "@/components/ui/table";
-import {
-  Dialog,
-  DialogContent,
-  DialogHeader,
-  DialogTitle,
-  DialogDescription,
-  DialogFooter,
-} from "@/components/ui/dialog";
 import {
   Select,
   SelectContent,
@@ -36,18 +28,25 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import { receiptServices } from "@/services/api";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { receiptServices, ShopReceipt } from "@/services/api";
+import { useAuth } from "@/hooks/use-auth";
+import {
+  CancelReceiptDialog,
+  VoucherLabel,
+} from "@/components/receipts/receipt-cancel";
+import { formatGrams } from "@/lib/receipt-calculations";
 
 export default function ReceiptsPage() {
   const navigate = useNavigate();
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const { can } = useAuth();
   const [searchTerm, setSearchTerm] = useState("");
   const [filterBy, setFilterBy] = useState("all");
-  const [passwordDialogOpen, setPasswordDialogOpen] = useState(false);
-  const [password, setPassword] = useState("");
-  const [receiptToDelete, setReceiptToDelete] = useState<string | null>(null);
+  const [receiptToCancel, setReceiptToCancel] = useState<ShopReceipt | null>(
+    null
+  );
 
   // Fetch receipts
   const {
@@ -90,29 +89,6 @@ export default function ReceiptsPage() {
     return hasValidItems ? "complete" : "incomplete";
   };
 
-  // Delete mutation
-  const deleteMutation = useMutation({
-    mutationFn: (id: string) => receiptServices.deleteReceipt(id),
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["receipts"] });
-      toast({
-        title: "Receipt Deleted",
-        description: "The receipt has been successfully removed.",
-      });
-      setPasswordDialogOpen(false);
-      setReceiptToDelete(null);
-      setPassword("");
-    },
-    onError: (err: any) => {
-      console.error("Error deleting receipt:", err);
-      toast({
-        title: "Error",
-        description: "Failed to delete receipt. Please try again.",
-        variant: "destructive",
-      });
-    },
-  });
-
   // Filter receipts based on search term and filter type
   const filteredReceipts = receipts.filter((receipt) => {
     const searchLower = searchTerm.toLowerCase();
@@ -151,25 +127,6 @@ export default function ReceiptsPage() {
     navigate(`/receipts/${id}/edit`);
   };
 
-  const openDeleteDialog = (id: string) => {
-    setReceiptToDelete(id);
-    setPasswordDialogOpen(true);
-  };
-
-  const handleDeleteReceipt = () => {
-    if (!receiptToDelete) return;
-
-    if (password === "7007") {
-      deleteMutation.mutate(receiptToDelete);
-    } else {
-      toast({
-        title: "Incorrect Password",
-        description: "The password you entered is incorrect. Please try again.",
-        variant: "destructive",
-      });
-    }
-  };
-
   const handleDownloadPDF = (id: string) => {
     toast({
       title: "PDF Download",
@@ -184,9 +141,11 @@ export default function ReceiptsPage() {
           <h1 className="text-3xl font-serif font-bold">Receipts</h1>
           <p className="text-muted-foreground">Manage your client receipts</p>
         </div>
-        <Button onClick={handleCreateReceipt} className="mt-4 md:mt-0">
-          <Plus className="mr-2 h-4 w-4" /> Create Receipt
-        </Button>
+        {can("receipts:create") && (
+          <Button onClick={handleCreateReceipt} className="mt-4 md:mt-0">
+            <Plus className="mr-2 h-4 w-4" /> Create Receipt
+          </Button>
+        )}
       </div>
 
       <div className="bg-card card-premium rounded-lg p-6 mb-8">
@@ -241,8 +200,18 @@ export default function ReceiptsPage() {
               <TableBody>
                 {filteredReceipts.length > 0 ? (
                   filteredReceipts.map((receipt) => (
-                    <TableRow key={receipt._id}>
-                      <TableCell>{receipt.voucherId}</TableCell>
+                    <TableRow
+                      key={receipt._id}
+                      className={
+                        receipt.status === "cancelled" ? "opacity-60" : ""
+                      }
+                    >
+                      <TableCell>
+                        <VoucherLabel
+                          voucherId={receipt.voucherId}
+                          status={receipt.status}
+                        />
+                      </TableCell>
                       <TableCell className="font-medium">
                         {receipt.clientInfo.shopName}
                       </TableCell>
@@ -254,10 +223,10 @@ export default function ReceiptsPage() {
                         <StatusBadge status={getReceiptStatus(receipt)} />
                       </TableCell>
                       <TableCell className="text-right">
-                        {receipt.totals.grossWt.toFixed(2)}
+                        {formatGrams(receipt.totals.grossWt)}
                       </TableCell>
                       <TableCell className="text-right">
-                        {receipt.totals.finalWt.toFixed(2)}
+                        {formatGrams(receipt.totals.finalWt)}
                       </TableCell>
                       <TableCell className="text-right">
                         <div className="flex justify-end gap-2">
@@ -269,15 +238,19 @@ export default function ReceiptsPage() {
                           >
                             <Eye className="h-4 w-4" />
                           </Button>
-                          <Button
-                            variant="outline"
-                            size="icon"
-                            onClick={() => openDeleteDialog(receipt._id)}
-                            title="Delete Receipt"
-                            className="text-destructive hover:text-destructive-foreground hover:bg-destructive"
-                          >
-                            <Trash className="h-4 w-4" />
-                          </Button>
+                          {can("receipts:delete") &&
+                            !receipt.isFinalized &&
+                            receipt.status !== "cancelled" && (
+                              <Button
+                                variant="outline"
+                                size="icon"
+                                onClick={() => setReceiptToCancel(receipt)}
+                                title="Cancel Receipt"
+                                className="text-destructive hover:text-destructive-foreground hover:bg-destructive"
+                              >
+                                <Ban className="h-4 w-4" />
+                              </Button>
+                            )}
                         </div>
                       </TableCell>
                     </TableRow>
@@ -300,61 +273,14 @@ export default function ReceiptsPage() {
         </div>
       </div>
 
-      {/* Password Prompt Dialog */}
-      <Dialog
-        open={passwordDialogOpen}
-        onOpenChange={(open) => {
-          setPasswordDialogOpen(open);
-          if (!open) {
-            setPassword("");
-            setReceiptToDelete(null);
-          }
-        }}
-      >
-        <DialogContent>
-          <DialogHeader>
-            <DialogTitle>Confirm Deletion</DialogTitle>
-            <DialogDescription>
-              Please enter the admin password to delete this receipt.
-            </DialogDescription>
-          </DialogHeader>
-          <div className="py-4">
-            <Input
-              type="password"
-              placeholder="Enter password"
-              value={password}
-              onChange={(e) => setPassword(e.target.value)}
-              disabled={deleteMutation.isPending}
-            />
-          </div>
-          <DialogFooter>
-            <Button
-              variant="outline"
-              onClick={() => {
-                setPasswordDialogOpen(false);
-                setPassword("");
-              }}
-              disabled={deleteMutation.isPending}
-            >
-              Cancel
-            </Button>
-            <Button
-              variant="destructive"
-              onClick={handleDeleteReceipt}
-              disabled={deleteMutation.isPending || !password}
-            >
-              {deleteMutation.isPending ? (
-                <>
-                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                  Deleting...
-                </>
-              ) : (
-                "Confirm Delete"
-              )}
-            </Button>
-          </DialogFooter>
-        </DialogContent>
-      </Dialog>
+      <CancelReceiptDialog
+        receiptType="receipt"
+        receipt={receiptToCancel}
+        onClose={() => setReceiptToCancel(null)}
+        onCancelled={() =>
+          queryClient.invalidateQueries({ queryKey: ["receipts"] })
+        }
+      />
     </div>
   );
 }
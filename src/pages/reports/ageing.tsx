@@ -0,0 +1,405 @@
+import { Fragment, useMemo, useState } from "react";
+import { Link } from "react-router-dom";
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import {
+  ArrowDown,
+  ArrowUp,
+  ArrowUpDown,
+  ChevronDown,
+  ChevronRight,
+  Download,
+  FileSpreadsheet,
+  Loader2,
+} from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { AGEING_BUCKETS } from "@/lib/ageing";
+import { downloadAgeingCsv, downloadAgeingPDF } from "@/lib/ageing-export";
+import { METALS } from "@/lib/metal-balances";
+import { formatGrams } from "@/lib/receipt-calculations";
+import {
+  AgeingBucket,
+  AgeingItem,
+  AgeingRow,
+  reportServices,
+} from "@/services/api";
+
+type SortKey = "client" | "metal" | "balance" | "age" | AgeingBucket;
+
+const ALL_METALS = "all";
+
+const today = () => format(new Date(), "yyyy-MM-dd");
+
+const formatDay = (day: string) =>
+  format(new Date(`${day}T00:00`), "dd MMM yyyy");
+
+const sortValue = (row: AgeingRow, key: SortKey): string | number => {
+  if (key === "client") return row.clientName.toLowerCase();
+  if (key === "metal") return row.metal;
+  if (key === "balance") return row.balance;
+  if (key === "age") return row.ageDays;
+  return row.buckets[key];
+};
+
+// Receipts a client's balance is still owed on
+const itemLink = (item: AgeingItem) => {
+  if (!item.sourceId) return undefined;
+  if (item.sourceType === "receipt") return `/receipts/${item.sourceId}`;
+  if (item.sourceType === "adminReceipt") {
+    return `/admin-receipts/${item.sourceId}`;
+  }
+  return undefined;
+};
+
+interface SortableHeadProps {
+  sortKey: SortKey;
+  label: string;
+  sort: { key: SortKey; desc: boolean };
+  onSort: (key: SortKey) => void;
+  className?: string;
+}
+
+const SortableHead = ({
+  sortKey,
+  label,
+  sort,
+  onSort,
+  className,
+}: SortableHeadProps) => (
+  <TableHead className={className}>
+    <button
+      type="button"
+      className="inline-flex items-center gap-1 hover:text-foreground"
+      onClick={() => onSort(sortKey)}
+    >
+      {label}
+      {sort.key !== sortKey ? (
+        <ArrowUpDown className="h-3 w-3" />
+      ) : sort.desc ? (
+        <ArrowDown className="h-3 w-3" />
+      ) : (
+        <ArrowUp className="h-3 w-3" />
+      )}
+    </button>
+  </TableHead>
+);
+
+const AgeingReportPage = () => {
+  const [metal, setMetal] = useState(ALL_METALS);
+  const [asOf, setAsOf] = useState(today());
+  const [sort, setSort] = useState<{ key: SortKey; desc: boolean }>({
+    key: "age",
+    desc: true,
+  });
+  const [expanded, setExpanded] = useState<Record<string, boolean>>({});
+
+  const params = {
+    metal: metal === ALL_METALS ? undefined : metal,
+    asOf,
+  };
+  const { data, isLoading, isError, refetch } = useQuery({
+    queryKey: ["ageing-report", params],
+    queryFn: () => reportServices.getAgeingReport(params),
+    enabled: !!asOf,
+    placeholderData: keepPreviousData,
+  });
+
+  const rows = useMemo(() => {
+    const sorted = [...(data?.rows || [])].sort((a, b) => {
+      const left = sortValue(a, sort.key);
+      const right = sortValue(b, sort.key);
+      if (left === right) return 0;
+      return left < right ? -1 : 1;
+    });
+    return sort.desc ? sorted.reverse() : sorted;
+  }, [data, sort]);
+
+  const toggleSort = (key: SortKey) =>
+    setSort((prev) =>
+      prev.key === key
+        ? { key, desc: !prev.desc }
+        : { key, desc: key !== "client" && key !== "metal" }
+    );
+
+  const rowKey = (row: AgeingRow) => `${row.clientId}:${row.metal}`;
+
+  return (
+    <div className="container p-6 mx-auto space-y-6">
+      <div>
+        <h1 className="text-3xl font-serif font-bold">Ageing Report</h1>
+        <p className="text-muted-foreground">
+          What each client owes in metal, split by how long it has been owed.
+          Payments in metal settle the oldest receipts first.
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <div className="flex flex-col md:flex-row justify-between md:items-end gap-4">
+            <CardTitle>Outstanding Balances</CardTitle>
+            <div className="flex flex-wrap items-end gap-2">
+              <div className="space-y-1">
+                <Label>Metal</Label>
+                <Select value={metal} onValueChange={setMetal}>
+                  <SelectTrigger className="w-40">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL_METALS}>All Metals</SelectItem>
+                    {METALS.map((option) => (
+                      <SelectItem key={option} value={option}>
+                        {option}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="ageing-as-of">As of</Label>
+                <Input
+                  id="ageing-as-of"
+                  type="date"
+                  value={asOf}
+                  max={today()}
+                  onChange={(e) => setAsOf(e.target.value)}
+                />
+              </div>
+              <Button
+                variant="outline"
+                onClick={() => data && downloadAgeingCsv(data, params.metal)}
+                disabled={!data}
+              >
+                <FileSpreadsheet className="mr-2 h-4 w-4" /> CSV
+              </Button>
+              <Button
+                variant="outline"
+                onClick={() => data && downloadAgeingPDF(data, params.metal)}
+                disabled={!data}
+              >
+                <Download className="mr-2 h-4 w-4" /> PDF
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="text-center py-8">
+              <Loader2 className="h-8 w-8 animate-spin mx-auto text-primary" />
+              <p className="mt-2">Loading the ageing report...</p>
+            </div>
+          ) : isError ? (
+            <div className="text-center py-8 text-destructive">
+              <p className="text-lg font-medium">
+                Error loading the ageing report
+              </p>
+              <Button
+                variant="outline"
+                className="mt-4"
+                onClick={() => refetch()}
+              >
+                Retry
+              </Button>
+            </div>
+          ) : !data || rows.length === 0 ? (
+            <p className="py-12 text-center text-lg text-muted-foreground">
+              Nothing is outstanding
+            </p>
+          ) : (
+            <>
+              <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-4 gap-4 mb-6">
+                {data.totals.map((total) => (
+                  <div key={total.metal} className="rounded-md border p-4">
+                    <p className="text-sm text-muted-foreground">
+                      {total.metal} outstanding
+                    </p>
+                    <p className="text-2xl font-semibold">
+                      {formatGrams(total.balance)} g
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {AGEING_BUCKETS.map(
+                        (bucket) =>
+                          `${bucket.label}: ${formatGrams(
+                            total.buckets[bucket.key]
+                          )} g`
+                      ).join(" · ")}
+                    </p>
+                  </div>
+                ))}
+              </div>
+
+              <div className="rounded-md border overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-8" />
+                      <SortableHead
+                        sortKey="client"
+                        label="Client"
+                        sort={sort}
+                        onSort={toggleSort}
+                      />
+                      <SortableHead
+                        sortKey="metal"
+                        label="Metal"
+                        sort={sort}
+                        onSort={toggleSort}
+                      />
+                      {AGEING_BUCKETS.map((bucket) => (
+                        <SortableHead
+                          key={bucket.key}
+                          sortKey={bucket.key}
+                          label={bucket.label}
+                          sort={sort}
+                          onSort={toggleSort}
+                          className="text-right"
+                        />
+                      ))}
+                      <SortableHead
+                        sortKey="balance"
+                        label="Total"
+                        sort={sort}
+                        onSort={toggleSort}
+                        className="text-right"
+                      />
+                      <SortableHead
+                        sortKey="age"
+                        label="Oldest"
+                        sort={sort}
+                        onSort={toggleSort}
+                      />
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {rows.map((row) => {
+                      const key = rowKey(row);
+                      const isOpen = !!expanded[key];
+                      return (
+                        <Fragment key={key}>
+                          <TableRow
+                            className="cursor-pointer"
+                            onClick={() =>
+                              setExpanded((prev) => ({
+                                ...prev,
+                                [key]: !prev[key],
+                              }))
+                            }
+                          >
+                            <TableCell>
+                              {isOpen ? (
+                                <ChevronDown className="h-4 w-4" />
+                              ) : (
+                                <ChevronRight className="h-4 w-4" />
+                              )}
+                            </TableCell>
+                            <TableCell>
+                              <Link
+                                to={`/clients/${row.clientId}`}
+                                className="font-medium hover:underline"
+                                onClick={(e) => e.stopPropagation()}
+                              >
+                                {row.clientName}
+                              </Link>
+                              <p className="text-xs text-muted-foreground">
+                                {row.shopName}
+                              </p>
+                            </TableCell>
+                            <TableCell>{row.metal}</TableCell>
+                            {AGEING_BUCKETS.map((bucket) => (
+                              <TableCell
+                                key={bucket.key}
+                                className="text-right"
+                              >
+                                {row.buckets[bucket.key]
+                                  ? `${formatGrams(row.buckets[bucket.key])} g`
+                                  : "-"}
+                              </TableCell>
+                            ))}
+                            <TableCell className="text-right font-medium">
+                              {formatGrams(row.balance)} g
+                            </TableCell>
+                            <TableCell className="whitespace-nowrap">
+                              {formatDay(row.oldestDate)}
+                              <p className="text-xs text-muted-foreground">
+                                {row.ageDays} days
+                              </p>
+                            </TableCell>
+                          </TableRow>
+                          {isOpen &&
+                            row.items.map((item, index) => {
+                              const link = itemLink(item);
+                              return (
+                                <TableRow
+                                  key={`${key}:${index}`}
+                                  className="bg-muted/50 text-sm"
+                                >
+                                  <TableCell />
+                                  <TableCell colSpan={2}>
+                                    {link ? (
+                                      <Link
+                                        to={link}
+                                        className="hover:underline"
+                                      >
+                                        {item.voucherId || item.description}
+                                      </Link>
+                                    ) : (
+                                      item.voucherId || item.description
+                                    )}
+                                    {item.voucherId && (
+                                      <p className="text-xs text-muted-foreground">
+                                        {item.description}
+                                      </p>
+                                    )}
+                                  </TableCell>
+                                  {AGEING_BUCKETS.map((bucket) => (
+                                    <TableCell
+                                      key={bucket.key}
+                                      className="text-right"
+                                    >
+                                      {item.bucket === bucket.key
+                                        ? `${formatGrams(item.amount)} g`
+                                        : ""}
+                                    </TableCell>
+                                  ))}
+                                  <TableCell />
+                                  <TableCell className="whitespace-nowrap">
+                                    {formatDay(item.date)}
+                                    <p className="text-xs text-muted-foreground">
+                                      {item.ageDays} days
+                                    </p>
+                                  </TableCell>
+                                </TableRow>
+                              );
+                            })}
+                        </Fragment>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              </div>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default AgeingReportPage;
@@ -0,0 +1,256 @@
+import { useState } from "react";
+import {
+  keepPreviousData,
+  useMutation,
+  useQuery,
+  useQueryClient,
+} from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Loader2, RotateCcw, Search } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import {
+  Pagination,
+  PaginationContent,
+  PaginationItem,
+  PaginationNext,
+  PaginationPrevious,
+} from "@/components/ui/pagination";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { AUDIT_ENTITY_LABELS } from "@/lib/audit";
+import { TrashEntityType, TrashItem, trashServices } from "@/services/api";
+
+const ITEMS_PER_PAGE = 20;
+
+type TypeFilter = "all" | TrashEntityType;
+
+const TrashPage = () => {
+  const { toast } = useToast();
+  const { can } = useAuth();
+  const queryClient = useQueryClient();
+  const [searchTerm, setSearchTerm] = useState("");
+  const [typeFilter, setTypeFilter] = useState<TypeFilter>("all");
+  const [page, setPage] = useState(1);
+
+  const params = {
+    query: searchTerm || undefined,
+    entityType: typeFilter === "all" ? undefined : typeFilter,
+    page,
+    limit: ITEMS_PER_PAGE,
+  };
+
+  const { data, isLoading, isError, refetch } = useQuery({
+    queryKey: ["trash", params],
+    queryFn: () => trashServices.getTrash(params),
+    placeholderData: keepPreviousData,
+  });
+  const items = data?.data || [];
+  const totalPages = data?.pages || 1;
+
+  const restoreMutation = useMutation({
+    mutationFn: (item: TrashItem) => trashServices.restoreTrashItem(item._id),
+    onSuccess: (_, item) => {
+      toast({
+        title: "Success",
+        description: `${AUDIT_ENTITY_LABELS[item.entityType]} ${
+          item.label
+        } restored`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["trash"] });
+      queryClient.invalidateQueries({ queryKey: ["audit"] });
+      queryClient.invalidateQueries({ queryKey: ["receipts"] });
+      queryClient.invalidateQueries({ queryKey: ["adminReceipts"] });
+      queryClient.invalidateQueries({ queryKey: ["client-ledger"] });
+    },
+    // The API interceptor already shows the server's message
+    onError: (error) => console.error("Error restoring item:", error),
+  });
+
+  const canRestore = (item: TrashItem) =>
+    can(item.entityType === "client" ? "clients:delete" : "receipts:delete");
+
+  const formatTime = (dateString: string) =>
+    format(new Date(dateString), "dd MMM yyyy, HH:mm");
+
+  return (
+    <div className="container p-6 mx-auto">
+      <div className="mb-6">
+        <h1 className="text-3xl font-serif font-bold">Trash</h1>
+        <p className="text-muted-foreground">
+          Deleted clients and receipts. They can be restored for{" "}
+          {data?.retentionDays ?? 30} days and are then removed for good.
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Deleted Items</CardTitle>
+          <div className="flex flex-col lg:flex-row items-center gap-2 mt-4">
+            <div className="relative flex-1 w-full">
+              <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+              <Input
+                type="search"
+                placeholder="Search by voucher, client, user or reason..."
+                className="pl-8"
+                value={searchTerm}
+                onChange={(e) => {
+                  setSearchTerm(e.target.value);
+                  setPage(1);
+                }}
+              />
+            </div>
+            <Select
+              value={typeFilter}
+              onValueChange={(value: TypeFilter) => {
+                setTypeFilter(value);
+                setPage(1);
+              }}
+            >
+              <SelectTrigger className="w-full lg:w-44">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Records</SelectItem>
+                <SelectItem value="client">Clients</SelectItem>
+                <SelectItem value="receipt">Shop Receipts</SelectItem>
+                <SelectItem value="adminReceipt">Work Receipts</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="text-center py-8">
+              <Loader2 className="h-8 w-8 animate-spin mx-auto text-primary" />
+              <p className="mt-2">Loading trash...</p>
+            </div>
+          ) : isError ? (
+            <div className="text-center py-8 text-destructive">
+              <p className="text-lg font-medium">Error loading the trash</p>
+              <Button
+                variant="outline"
+                className="mt-4"
+                onClick={() => refetch()}
+              >
+                Retry
+              </Button>
+            </div>
+          ) : items.length > 0 ? (
+            <>
+              <div className="rounded-md border overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Deleted</TableHead>
+                      <TableHead>Record</TableHead>
+                      <TableHead>By</TableHead>
+                      <TableHead>Reason</TableHead>
+                      <TableHead>Removed For Good</TableHead>
+                      <TableHead className="text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {items.map((item) => (
+                      <TableRow key={item._id}>
+                        <TableCell className="whitespace-nowrap">
+                          {formatTime(item.createdAt)}
+                        </TableCell>
+                        <TableCell>
+                          <span className="text-muted-foreground">
+                            {AUDIT_ENTITY_LABELS[item.entityType]}{" "}
+                          </span>
+                          {item.label}
+                          {item.withClient && (
+                            <span className="block text-xs text-muted-foreground">
+                              Deleted with its client
+                            </span>
+                          )}
+                        </TableCell>
+                        <TableCell>{item.deletedByName || "-"}</TableCell>
+                        <TableCell className="max-w-xs truncate">
+                          {item.reason || "-"}
+                        </TableCell>
+                        <TableCell className="whitespace-nowrap">
+                          {format(new Date(item.purgeAt), "dd MMM yyyy")}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {canRestore(item) && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => restoreMutation.mutate(item)}
+                              disabled={restoreMutation.isPending}
+                            >
+                              <RotateCcw className="mr-2 h-4 w-4" /> Restore
+                            </Button>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+
+              {totalPages > 1 && (
+                <Pagination className="mt-4">
+                  <PaginationContent>
+                    <PaginationItem>
+                      <PaginationPrevious
+                        onClick={() => setPage((prev) => Math.max(prev - 1, 1))}
+                        className={
+                          page === 1
+                            ? "pointer-events-none opacity-50"
+                            : "cursor-pointer"
+                        }
+                      />
+                    </PaginationItem>
+                    <PaginationItem>
+                      <span className="px-4 text-sm text-muted-foreground">
+                        Page {page} of {totalPages}
+                      </span>
+                    </PaginationItem>
+                    <PaginationItem>
+                      <PaginationNext
+                        onClick={() =>
+                          setPage((prev) => Math.min(prev + 1, totalPages))
+                        }
+                        className={
+                          page === totalPages
+                            ? "pointer-events-none opacity-50"
+                            : "cursor-pointer"
+                        }
+                      />
+                    </PaginationItem>
+                  </PaginationContent>
+                </Pagination>
+              )}
+            </>
+          ) : (
+            <p className="py-12 text-center text-lg text-muted-foreground">
+              The trash is empty
+            </p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default TrashPage;
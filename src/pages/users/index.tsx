@@ -0,0 +1,306 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Edit, Loader2, Plus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { userServices, Role, User, UserInput } from "@/services/api";
+
+const ROLE_LABELS: Record<Role, string> = {
+  owner: "Owner",
+  accountant: "Accountant",
+  counter: "Counter Staff",
+  readonly: "Read Only",
+};
+
+const ROLE_DESCRIPTIONS: Record<Role, string> = {
+  owner: "Everything, including deleting records and managing users",
+  accountant: "Create and edit clients and receipts, adjust balances",
+  counter: "Create clients and new receipts",
+  readonly: "View only",
+};
+
+interface UserFormState {
+  username: string;
+  name: string;
+  role: Role;
+  active: boolean;
+  password: string;
+}
+
+const emptyForm: UserFormState = {
+  username: "",
+  name: "",
+  role: "counter",
+  active: true,
+  password: "",
+};
+
+export default function UsersPage() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { user: currentUser } = useAuth();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingUser, setEditingUser] = useState<User | null>(null);
+  const [form, setForm] = useState<UserFormState>(emptyForm);
+
+  const { data: users = [], isLoading, isError } = useQuery({
+    queryKey: ["users"],
+    queryFn: () => userServices.getUsers(),
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: (data: UserInput) =>
+      editingUser
+        ? userServices.updateUser(editingUser._id, data)
+        : userServices.createUser(data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["users"] });
+      toast({
+        title: "Success",
+        description: editingUser ? "User updated" : "User created",
+      });
+      setDialogOpen(false);
+    },
+    // The API interceptor already shows the server's message
+    onError: (error) => console.error("Error saving user:", error),
+  });
+
+  const openCreateDialog = () => {
+    setEditingUser(null);
+    setForm(emptyForm);
+    setDialogOpen(true);
+  };
+
+  const openEditDialog = (user: User) => {
+    setEditingUser(user);
+    setForm({
+      username: user.username,
+      name: user.name,
+      role: user.role,
+      active: user.active,
+      password: "",
+    });
+    setDialogOpen(true);
+  };
+
+  const handleSave = () => {
+    const data: UserInput = {
+      name: form.name,
+      role: form.role,
+    };
+    if (editingUser) {
+      data.active = form.active;
+      // Leaving the password empty keeps the current one
+      if (form.password) data.password = form.password;
+    } else {
+      data.username = form.username;
+      data.password = form.password;
+    }
+    saveMutation.mutate(data);
+  };
+
+  const formatDate = (date?: string) =>
+    date ? new Date(date).toLocaleString() : "Never";
+
+  return (
+    <div className="container py-6">
+      <div className="flex flex-col md:flex-row justify-between items-start md:items-center mb-8">
+        <div>
+          <h1 className="text-3xl font-serif font-bold">Users</h1>
+          <p className="text-muted-foreground">
+            Manage staff accounts and what each role may do
+          </p>
+        </div>
+        <Button onClick={openCreateDialog} className="mt-4 md:mt-0">
+          <Plus className="mr-2 h-4 w-4" /> Add User
+        </Button>
+      </div>
+
+      <div className="bg-card card-premium rounded-lg p-6 mb-8">
+        {isLoading ? (
+          <div className="flex justify-center items-center py-20">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+            <span className="ml-2 text-lg">Loading users...</span>
+          </div>
+        ) : isError ? (
+          <div className="text-center py-10 text-destructive">
+            <p>Failed to load users</p>
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Username</TableHead>
+                <TableHead>Name</TableHead>
+                <TableHead>Role</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Last Login</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {users.map((user) => (
+                <TableRow key={user._id}>
+                  <TableCell className="font-medium">
+                    {user.username}
+                    {user._id === currentUser?._id && (
+                      <span className="ml-2 text-xs text-muted-foreground">
+                        (you)
+                      </span>
+                    )}
+                  </TableCell>
+                  <TableCell>{user.name}</TableCell>
+                  <TableCell>{ROLE_LABELS[user.role] || user.role}</TableCell>
+                  <TableCell>
+                    <Badge variant={user.active ? "default" : "secondary"}>
+                      {user.active ? "Active" : "Disabled"}
+                    </Badge>
+                  </TableCell>
+                  <TableCell>{formatDate(user.lastLoginAt)}</TableCell>
+                  <TableCell className="text-right">
+                    <Button
+                      variant="outline"
+                      size="icon"
+                      onClick={() => openEditDialog(user)}
+                      title="Edit User"
+                    >
+                      <Edit className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </div>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingUser ? "Edit User" : "Add User"}</DialogTitle>
+            <DialogDescription>
+              {editingUser
+                ? "Changing the password or disabling the account logs the user out everywhere."
+                : "The user can log in as soon as the account is created."}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4 py-2">
+            <div className="space-y-1">
+              <Label htmlFor="username">Username</Label>
+              <Input
+                id="username"
+                value={form.username}
+                onChange={(e) =>
+                  setForm({ ...form, username: e.target.value })
+                }
+                disabled={!!editingUser}
+                autoComplete="off"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="name">Name</Label>
+              <Input
+                id="name"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label>Role</Label>
+              <Select
+                value={form.role}
+                onValueChange={(role: Role) => setForm({ ...form, role })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(ROLE_LABELS) as Role[]).map((role) => (
+                    <SelectItem key={role} value={role}>
+                      {ROLE_LABELS[role]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                {ROLE_DESCRIPTIONS[form.role]}
+              </p>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="password">
+                {editingUser ? "New Password" : "Password"}
+              </Label>
+              <Input
+                id="password"
+                type="password"
+                value={form.password}
+                onChange={(e) =>
+                  setForm({ ...form, password: e.target.value })
+                }
+                placeholder={
+                  editingUser ? "Leave empty to keep the current password" : ""
+                }
+                autoComplete="new-password"
+              />
+            </div>
+            {editingUser && (
+              <div className="flex items-center justify-between">
+                <Label htmlFor="active">Account active</Label>
+                <Switch
+                  id="active"
+                  checked={form.active}
+                  onCheckedChange={(active) => setForm({ ...form, active })}
+                />
+              </div>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setDialogOpen(false)}
+              disabled={saveMutation.isPending}
+            >
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={saveMutation.isPending}>
+              {saveMutation.isPending && (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              )}
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
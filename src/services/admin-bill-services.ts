@@ -0,0 +1,65 @@
+import { api } from "./api-config";
+import {
+  BillSearchParams,
+  ItemResponse,
+  PagedResponse,
+  WorkBill,
+} from "./api-types";
+
+/**
+ * Work Bill Services
+ */
+export const adminBillServices = {
+  // Get one page of Work Bills
+  getAdminBills: async (params: BillSearchParams = {}) => {
+    try {
+      const response = await api.get<PagedResponse<WorkBill>>("/work-bills", {
+        params,
+      });
+      return response.data;
+    } catch (error) {
+      console.error("Error fetching Work Bills:", error);
+      throw error;
+    }
+  },
+
+  // Get Work Bill by ID
+  getAdminBillById: async (id: string) => {
+    try {
+      const response = await api.get<ItemResponse<WorkBill>>(
+        `/work-bills/${id}`
+      );
+      return response.data;
+    } catch (error) {
+      console.error(`Error fetching Work Bill ${id}:`, error);
+      throw error;
+    }
+  },
+
+  // Bill a completed Work Receipt
+  createAdminBill: async (receiptId: string) => {
+    try {
+      const response = await api.post<ItemResponse<WorkBill>>("/work-bills", {
+        receiptId,
+      });
+      return response.data;
+    } catch (error) {
+      console.error(`Error billing Work Receipt ${receiptId}:`, error);
+      throw error;
+    }
+  },
+
+  // Void a Work Bill; its number stays on record
+  voidAdminBill: async (id: string, reason: string) => {
+    try {
+      const response = await api.post<ItemResponse<WorkBill>>(
+        `/work-bills/${id}/void`,
+        { reason }
+      );
+      return response.data;
+    } catch (error) {
+      console.error(`Error voiding Work Bill ${id}:`, error);
+      throw error;
+    }
+  },
+};
@@ -0,0 +1,181 @@
+import { api } from "./api-config";
+import {
+  MessageResponse,
+  ReceiptRevision,
+  ReceiptSaveResponse,
+  VoucherIdResponse,
+  WorkReceipt,
+  WorkReceiptInput,
+  WorkReceiptSearchParams,
+} from "./api-types";
+
+/**
+ * Work Receipt Services
+ */
+export const adminReceiptServices = {
+  // Get all Work Receipts, optionally only one client's
+  getAdminReceipts: async (clientId?: string) => {
+    try {
+      const response = await api.get<WorkReceipt[]>("/admin-receipts", {
+        params: clientId ? { clientId } : {},
+      });
+      return response.data;
+    } catch (error) {
+      console.error("Error fetching Work Receipts:", error);
+      throw error;
+    }
+  },
+
+  // Search Work Receipts
+  searchAdminReceipts: async (params: WorkReceiptSearchParams) => {
+    try {
+      const response = await api.get<WorkReceipt[]>("/admin-receipts/search", {
+        params,
+      });
+      return response.data;
+    } catch (error) {
+      console.error("Error searching Work Receipts:", error);
+      throw error;
+    }
+  },
+
+  // Get Work Receipt by ID
+  getAdminReceipt: async (id: string) => {
+    try {
+      const response = await api.get<WorkReceipt>(`/admin-receipts/${id}`);
+      return response.data;
+    } catch (error) {
+      console.error(`Error fetching Work Receipt ${id}:`, error);
+      throw error;
+    }
+  },
+
+  // Saved versions of a Work Receipt, oldest first
+  getAdminReceiptRevisions: async (id: string) => {
+    try {
+      const response = await api.get<ReceiptRevision<WorkReceipt>[]>(
+        `/admin-receipts/${id}/revisions`
+      );
+      return response.data;
+    } catch (error) {
+      console.error(`Error fetching versions of Work Receipt ${id}:`, error);
+      throw error;
+    }
+  },
+
+  // Create Work Receipt
+  createAdminReceipt: async (receiptData: WorkReceiptInput) => {
+    try {
+      const response = await api.post<WorkReceipt>(
+        "/admin-receipts",
+        receiptData
+      );
+      return response.data;
+    } catch (error) {
+      console.error("Error creating Work Receipt:", error);
+      throw error;
+    }
+  },
+
+  // Update Work Receipt
+  updateAdminReceipt: async (id: string, receiptData: WorkReceiptInput) => {
+    try {
+      const response = await api.put<WorkReceipt>(
+        `/admin-receipts/${id}`,
+        receiptData
+      );
+      return response.data;
+    } catch (error) {
+      console.error(`Error updating Work Receipt ${id}:`, error);
+      throw error;
+    }
+  },
+
+  // Create (no id) or update a Work Receipt and post it to the client's
+  // ledger in one request
+  saveAdminReceipt: async (
+    receiptData: WorkReceiptInput,
+    id?: string,
+    reason?: string
+  ) => {
+    try {
+      const response = await api.post<ReceiptSaveResponse<WorkReceipt>>(
+        "/admin-receipts/save",
+        { id, receipt: receiptData, reason }
+      );
+      return response.data;
+    } catch (error) {
+      console.error("Error saving Work Receipt:", error);
+      throw error;
+    }
+  },
+
+  // Delete Work Receipt
+  deleteAdminReceipt: async (id: string, reason?: string) => {
+    try {
+      const response = await api.delete<MessageResponse>(
+        `/admin-receipts/${id}`,
+        { params: { reason } }
+      );
+      return response.data;
+    } catch (error) {
+      console.error(`Error deleting Work Receipt ${id}:`, error);
+      throw error;
+    }
+  },
+
+  // Lock a complete Work Receipt against edits
+  finalizeAdminReceipt: async (id: string) => {
+    try {
+      const response = await api.post<WorkReceipt>(
+        `/admin-receipts/${id}/finalize`
+      );
+      return response.data;
+    } catch (error) {
+      console.error(`Error finalizing Work Receipt ${id}:`, error);
+      throw error;
+    }
+  },
+
+  // Unlock a finalized Work Receipt; the reason is required
+  reopenAdminReceipt: async (id: string, reason: string) => {
+    try {
+      const response = await api.post<WorkReceipt>(
+        `/admin-receipts/${id}/reopen`,
+        { reason }
+      );
+      return response.data;
+    } catch (error) {
+      console.error(`Error reopening Work Receipt ${id}:`, error);
+      throw error;
+    }
+  },
+
+  // Cancel a Work Receipt, reversing its balance effect; the reason is
+  // required
+  cancelAdminReceipt: async (id: string, reason: string) => {
+    try {
+      const response = await api.post<WorkReceipt>(
+        `/admin-receipts/${id}/cancel`,
+        { reason }
+      );
+      return response.data;
+    } catch (error) {
+      console.error(`Error cancelling Work Receipt ${id}:`, error);
+      throw error;
+    }
+  },
+
+  // Generate voucher ID
+  generateVoucherId: async () => {
+    try {
+      const response = await api.get<VoucherIdResponse>(
+        "/admin-receipts/generate-voucher-id"
+      );
+      return response.data;
+    } catch (error) {
+      console.error("Error generating Work Receipt voucher ID:", error);
+      throw error;
+    }
+  },
+};
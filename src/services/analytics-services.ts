@@ -1,10 +1,21 @@
-
 import { api } from './api-config';
+import {
+  ActivityFeed,
+  ActivityParams,
+  DashboardStats,
+  MetalTypeDistribution,
+  PeriodParams,
+  PeriodTrend,
+  SalesByDate,
+  YearlyComparison,
+} from './api-types';
 
 export const analyticsServices = {
-  getDashboardStats: async () => {
+  getDashboardStats: async (params: PeriodParams = {}) => {
     try {
-      const response = await api.get('/analytics/dashboard');
+      const response = await api.get<DashboardStats>('/analytics/dashboard', {
+        params,
+      });
       return response.data;
     } catch (error) {
       console.error('Error fetching dashboard stats:', error);
@@ -12,9 +23,11 @@ export const analyticsServices = {
     }
   },
   
-  getSalesByDate: async (startDate, endDate) => {
+  getSalesByDate: async (startDate: string, endDate: string) => {
     try {
-      const response = await api.get(`/analytics/sales?startDate=${startDate}&endDate=${endDate}`);
+      const response = await api.get<SalesByDate[]>('/analytics/sales', {
+        params: { startDate, endDate },
+      });
       return response.data;
     } catch (error) {
       console.error('Error fetching sales data:', error);
@@ -22,9 +35,12 @@ export const analyticsServices = {
     }
   },
   
-  getMetalTypeDistribution: async () => {
+  getMetalTypeDistribution: async (params: PeriodParams = {}) => {
     try {
-      const response = await api.get('/analytics/metal-types');
+      const response = await api.get<MetalTypeDistribution[]>(
+        '/analytics/metal-types',
+        { params }
+      );
       return response.data;
     } catch (error) {
       console.error('Error fetching metal type distribution:', error);
@@ -34,11 +50,37 @@ export const analyticsServices = {
   
   getYearlyComparison: async () => {
     try {
-      const response = await api.get('/analytics/yearly-comparison');
+      const response = await api.get<YearlyComparison>(
+        '/analytics/yearly-comparison'
+      );
       return response.data;
     } catch (error) {
       console.error('Error fetching yearly comparison:', error);
       throw error;
     }
+  },
+
+  getPeriodTrend: async (params: PeriodParams = {}) => {
+    try {
+      const response = await api.get<PeriodTrend>('/analytics/trend', {
+        params,
+      });
+      return response.data;
+    } catch (error) {
+      console.error('Error fetching period trend:', error);
+      throw error;
+    }
+  },
+
+  getActivity: async (params: ActivityParams = {}) => {
+    try {
+      const response = await api.get<ActivityFeed>('/analytics/activity', {
+        params,
+      });
+      return response.data;
+    } catch (error) {
+      console.error('Error fetching activity:', error);
+      throw error;
+    }
   }
 };
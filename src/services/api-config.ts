@@ -1,8 +1,21 @@
 import axios from "axios";
 import { toast } from "@/hooks/use-toast";
 
-// For local development, this would point to your local server
-export const API_URL = "https://backend-goldsmith.onrender.com/api";
+// Requests go through the Vite proxy to the local backend (see backend/).
+// Set VITE_API_URL to talk to a backend hosted elsewhere.
+export const API_URL = import.meta.env.VITE_API_URL || "/api";
+
+const TOKEN_KEY = "authToken";
+
+export const getAuthToken = () => localStorage.getItem(TOKEN_KEY);
+
+export const setAuthToken = (token: string | null) => {
+  if (token) {
+    localStorage.setItem(TOKEN_KEY, token);
+  } else {
+    localStorage.removeItem(TOKEN_KEY);
+  }
+};
 
 export const api = axios.create({
   baseURL: API_URL,
@@ -13,10 +26,30 @@ export const api = axios.create({
   timeout: 30000,
 });
 
+// Every request carries the session token issued at login
+api.interceptors.request.use((config) => {
+  const token = getAuthToken();
+  if (token) {
+    config.headers.Authorization = `Bearer ${token}`;
+  }
+  return config;
+});
+
 // Add interceptors for better error handling and loading states
 api.interceptors.response.use(
   (response) => response,
   (error) => {
+    // An expired or revoked session sends the user back to the login page;
+    // a failed login is reported by the login form itself
+    if (error.response?.status === 401) {
+      const hadSession = !!getAuthToken();
+      setAuthToken(null);
+      if (hadSession && window.location.pathname !== "/login") {
+        window.location.assign("/login");
+      }
+      return Promise.reject(error);
+    }
+
     console.error("API Error Details:", {
       message: error.message,
       code: error.code,
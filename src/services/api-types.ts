@@ -0,0 +1,769 @@
+// Shapes returned by the backend in backend/. Services are typed with these
+// so every page reads the same fields.
+
+export interface BalanceHistoryEntry {
+  date: string;
+  amount: number;
+  description?: string;
+}
+
+export interface Client {
+  _id: string;
+  shopName: string;
+  clientName: string;
+  phoneNumber: string;
+  address: string;
+  email?: string;
+  active: boolean;
+  // Total of the client's ledger entries per metal (Gold, Silver, ...), in
+  // grams; metals with nothing owed either way are left out
+  balances: Record<string, number>;
+  // Rupees owed, the total of the client's cash entries; negative is a credit
+  cashBalance?: number;
+  // Balance snapshots saved before the ledger existed
+  balanceHistory?: BalanceHistoryEntry[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type ClientInput = Partial<
+  Pick<
+    Client,
+    "shopName" | "clientName" | "phoneNumber" | "address" | "email" | "active"
+  >
+>;
+
+// Client ledger. Positive amounts are owed by the client, negative are credits.
+export type LedgerSource = "receipt" | "adminReceipt" | "opening" | "adjustment";
+
+export interface LedgerEntry {
+  _id: string;
+  clientId: string;
+  date: string;
+  amount: number;
+  // Missing on entries from before balances were kept per metal: gold
+  metal?: string;
+  sourceType: LedgerSource;
+  sourceId?: string;
+  voucherId?: string;
+  description: string;
+  createdBy?: string;
+  createdAt: string;
+}
+
+export interface LedgerResponse {
+  balances: Record<string, number>;
+  entries: LedgerEntry[];
+}
+
+export interface LedgerAdjustmentInput {
+  type?: "opening" | "adjustment";
+  amount: number;
+  // Gold unless given
+  metal?: string;
+  description: string;
+  date?: string;
+}
+
+export interface LedgerAdjustmentResponse {
+  entry: LedgerEntry;
+  balances: Record<string, number>;
+}
+
+// A receipt that deleting its client would take to the trash as well
+export interface ClientDeletionReceipt {
+  _id: string;
+  type: RevisionReceiptType;
+  voucherId: string;
+  status: string;
+  isFinalized: boolean;
+  // Number of the receipt's issued bill, if any
+  billNumber?: string;
+}
+
+export interface ClientDeletionImpact {
+  balances: Record<string, number>;
+  receipts: ClientDeletionReceipt[];
+  // Finalized or billed receipts and recorded payments that keep the client
+  // from being deleted
+  blockers: string[];
+  // Receipts or a balance: the delete has to cascade
+  requiresCascade: boolean;
+}
+
+// Users and sessions
+export type Role = "owner" | "accountant" | "counter" | "readonly";
+
+export type Permission =
+  | "clients:create"
+  | "clients:edit"
+  | "clients:delete"
+  | "receipts:create"
+  | "receipts:edit"
+  | "receipts:delete"
+  | "receipts:reopen"
+  | "ledger:adjust"
+  | "payments:record"
+  | "payments:void"
+  | "rates:manage"
+  | "audit:view"
+  | "users:manage";
+
+export interface User {
+  _id: string;
+  username: string;
+  name: string;
+  role: Role;
+  // Granted by the role on the server; the UI only uses them to hide actions
+  permissions: Permission[];
+  active: boolean;
+  lastLoginAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface UserInput {
+  username?: string;
+  name?: string;
+  role?: Role;
+  active?: boolean;
+  password?: string;
+}
+
+export interface LoginResponse {
+  token: string;
+  expiresAt: string;
+  user: User;
+}
+
+export interface SessionResponse {
+  user: User;
+  expiresAt: string;
+}
+
+// Shop receipts
+export interface ShopReceiptGivenItem {
+  _id?: string;
+  itemName: string;
+  tag?: string;
+  grossWt: number;
+  stoneWt: number;
+  meltingTouch: number;
+  netWt: number;
+  finalWt: number;
+  stoneAmt: number;
+  totalInvoiceAmount?: number;
+  date?: string;
+}
+
+export interface ShopReceiptReceivedItem {
+  id?: string;
+  _id?: string;
+  receivedGold: number;
+  melting: number;
+  finalWt: number;
+  date?: string;
+}
+
+export interface ShopReceiptTotals {
+  grossWt: number;
+  stoneWt: number;
+  netWt: number;
+  finalWt: number;
+  stoneAmt: number;
+  totalInvoiceAmount: number;
+}
+
+// A finalized receipt cannot be edited or deleted until it is reopened with a
+// reason. User fields hold user ids.
+export interface ReceiptLock {
+  isFinalized?: boolean;
+  finalizedAt?: string;
+  finalizedBy?: string;
+  reopenedAt?: string;
+  reopenedBy?: string;
+  reopenReason?: string;
+}
+
+// A cancelled receipt keeps its voucher number but no longer counts towards
+// the client's balance, and cannot change again
+export interface ReceiptCancellation {
+  cancelledAt?: string;
+  cancelledBy?: string;
+  cancelReason?: string;
+}
+
+export interface ShopReceipt extends ReceiptLock, ReceiptCancellation {
+  _id: string;
+  clientId: string;
+  clientInfo: {
+    clientName: string;
+    shopName: string;
+    phoneNumber: string;
+    address?: string;
+  };
+  metalType: string;
+  issueDate: string;
+  voucherId: string;
+  givenItems: ShopReceiptGivenItem[];
+  receivedItems: ShopReceiptReceivedItem[];
+  totals: ShopReceiptTotals;
+  previousBalance: number;
+  // Worked out by the backend from the payments applied to the receipt
+  paymentStatus: "Pending" | "Paid" | "Partial";
+  amountPaid?: number;
+  isCompleted: boolean;
+  status: "incomplete" | "complete" | "cancelled";
+  createdAt: string;
+  updatedAt: string;
+  // Legacy fields on receipts saved by the previously hosted backend
+  items?: ShopReceiptGivenItem[];
+  newBalance?: number;
+}
+
+// Totals are always recalculated by the backend from the given items
+export interface ShopReceiptInput {
+  clientId?: string;
+  clientInfo?: Partial<ShopReceipt["clientInfo"]>;
+  metalType?: string;
+  issueDate?: string;
+  status?: string;
+  givenItems?: Partial<ShopReceiptGivenItem>[];
+  receivedItems?: Partial<ShopReceiptReceivedItem>[];
+  previousBalance?: number;
+}
+
+// Work receipts (routes and pages call these "admin receipts")
+export interface WorkGivenItem {
+  id?: string;
+  _id?: string;
+  productName: string;
+  pureWeight: string | number;
+  purePercent: string | number;
+  melting: string | number;
+  total: number;
+  tag?: string;
+  date?: string;
+}
+
+export interface WorkReceivedItem {
+  id?: string;
+  _id?: string;
+  productName: string;
+  finalOrnamentsWt: string | number;
+  stoneWeight: string | number;
+  makingChargePercent: string | number;
+  subTotal: number;
+  total: number;
+  mc?: string | number;
+  date?: string;
+}
+
+export interface WorkGiven {
+  date: string;
+  items: WorkGivenItem[];
+  totalPureWeight: number;
+  total: number;
+}
+
+export interface WorkReceived {
+  date: string;
+  items: WorkReceivedItem[];
+  totalOrnamentsWt: number;
+  totalStoneWeight: number;
+  totalSubTotal: number;
+  total: number;
+}
+
+export interface ManualCalculations {
+  givenTotal: number;
+  receivedTotal: number;
+  operation: string;
+  result: number;
+}
+
+export interface WorkReceipt extends ReceiptLock, ReceiptCancellation {
+  _id: string;
+  clientId: string;
+  clientName: string;
+  voucherId: string;
+  // Metal the receipt posts to; gold when not given
+  metalType?: string;
+  status: "complete" | "incomplete" | "empty" | "cancelled";
+  given: WorkGiven;
+  received: WorkReceived;
+  manualCalculations: ManualCalculations;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Dates may be sent as Date objects; the backend normalizes them
+type WithDate<T> = Omit<Partial<T>, "date"> & { date?: string | Date };
+
+export interface WorkReceiptInput {
+  clientId?: string;
+  clientName?: string;
+  // Gold when not given
+  metalType?: string;
+  status?: string;
+  given?: WithDate<WorkGiven>;
+  received?: WithDate<WorkReceived>;
+  manualCalculations?: ManualCalculations;
+}
+
+export interface WorkReceiptSearchParams {
+  query?: string;
+  status?: string;
+}
+
+// Every saved state of a receipt, oldest first. `balanceEffect` is what that
+// version posted to the client's ledger, in grams.
+export type RevisionReceiptType = "receipt" | "adminReceipt";
+
+export interface ReceiptRevision<T> {
+  _id: string;
+  receiptType: RevisionReceiptType;
+  receiptId: string;
+  version: number;
+  snapshot: T;
+  balanceEffect: number;
+  userId?: string;
+  userName?: string;
+  reason?: string;
+  createdAt: string;
+}
+
+// Audit log: one entry per create, update or delete of a client or receipt,
+// per change to a client's balance, a payment or a metal rate, and per bill
+// voided
+export type AuditEntityType =
+  | "client"
+  | "receipt"
+  | "adminReceipt"
+  | "balance"
+  | "payment"
+  | "rate"
+  | "workBill"
+  | "clientBill";
+
+export type AuditAction = "create" | "update" | "delete" | "restore" | "purge";
+
+export interface AuditChange {
+  field: string;
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface AuditEntry {
+  _id: string;
+  entityType: AuditEntityType;
+  entityId: string;
+  label: string;
+  action: AuditAction;
+  userId?: string;
+  userName?: string;
+  reason?: string;
+  before?: Record<string, unknown>;
+  after?: Record<string, unknown>;
+  changes: AuditChange[];
+  createdAt: string;
+}
+
+export interface AuditSearchParams {
+  query?: string;
+  entityType?: AuditEntityType;
+  entityId?: string;
+  action?: AuditAction;
+  userId?: string;
+  startDate?: string;
+  endDate?: string;
+  page?: number;
+  limit?: number;
+}
+
+// Deleted clients and receipts wait in the trash until they are restored or
+// purged at `purgeAt`
+export type TrashEntityType = "client" | "receipt" | "adminReceipt";
+
+export interface TrashItem {
+  _id: string;
+  entityType: TrashEntityType;
+  entityId: string;
+  label: string;
+  clientId: string;
+  document: Record<string, unknown>;
+  deletedBy?: string;
+  deletedByName?: string;
+  reason?: string;
+  // A receipt that went with its client; restoring the client brings it back
+  withClient?: boolean;
+  purgeAt: string;
+  createdAt: string;
+}
+
+export interface TrashSearchParams {
+  query?: string;
+  entityType?: TrashEntityType;
+  page?: number;
+  limit?: number;
+}
+
+export interface TrashResponse extends PagedResponse<TrashItem> {
+  retentionDays: number;
+}
+
+// Cash side of a client's account, in rupees. Shop receipts charge it and
+// payments credit it; positive amounts are owed by the client.
+export type CashSource = "receipt" | "payment";
+
+export interface CashEntry {
+  _id: string;
+  clientId: string;
+  date: string;
+  amount: number;
+  sourceType: CashSource;
+  sourceId: string;
+  voucherId: string;
+  description: string;
+  createdBy?: string;
+  createdAt: string;
+}
+
+export interface CashLedgerResponse {
+  cashBalance: number;
+  entries: CashEntry[];
+}
+
+// Statement of account for a date range: one section per metal in grams and
+// one for cash in rupees. Debits add to what the client owes, credits take
+// off it.
+export interface StatementLine {
+  date: string;
+  voucherId?: string;
+  description: string;
+  sourceType: LedgerSource | CashSource;
+  debit: number;
+  credit: number;
+  balance: number;
+}
+
+export interface StatementSection {
+  // Gold, Silver, ... or "Cash"
+  metal: string;
+  unit: "g" | "₹";
+  opening: number;
+  lines: StatementLine[];
+  totalDebit: number;
+  totalCredit: number;
+  closing: number;
+}
+
+export interface StatementParams {
+  // yyyy-MM-dd, both included; the month so far when left out
+  from?: string;
+  to?: string;
+}
+
+export interface ClientStatement {
+  client: Pick<
+    Client,
+    "_id" | "clientName" | "shopName" | "phoneNumber" | "address"
+  >;
+  from: string;
+  to: string;
+  sections: StatementSection[];
+}
+
+export type PaymentMethod = "cash" | "upi" | "bank";
+
+export interface PaymentAllocation {
+  receiptId: string;
+  voucherId: string;
+  amount: number;
+}
+
+// Money received from a client; a void payment keeps its number
+export interface Payment {
+  _id: string;
+  paymentNumber: string;
+  clientId: string;
+  clientName: string;
+  date: string;
+  amount: number;
+  method: PaymentMethod;
+  reference?: string;
+  note?: string;
+  // The rest of the amount stays on the client's account as a credit
+  allocations: PaymentAllocation[];
+  status: "recorded" | "void";
+  voidedAt?: string;
+  voidedBy?: string;
+  voidReason?: string;
+  createdBy?: string;
+  createdAt: string;
+}
+
+export interface PaymentInput {
+  clientId: string;
+  amount: number;
+  method: PaymentMethod;
+  date?: string;
+  reference?: string;
+  note?: string;
+  allocations?: { receiptId: string; amount: number }[];
+}
+
+export interface PaymentResponse {
+  payment: Payment;
+  cashBalance: number;
+}
+
+export interface PaymentSearchParams {
+  query?: string;
+  clientId?: string;
+  status?: Payment["status"];
+  page?: number;
+  limit?: number;
+}
+
+// A shop receipt with something left to pay
+export interface OutstandingReceipt {
+  _id: string;
+  voucherId: string;
+  issueDate: string;
+  amountDue: number;
+  amountPaid: number;
+  outstanding: number;
+}
+
+// Metal rates in rupees per gram, entered by hand for each day. Entries are
+// never edited; a later entry for the same metal, purity and day wins.
+export interface MetalRate {
+  _id: string;
+  metal: string;
+  purity: number;
+  rate: number;
+  date: string;
+  createdBy?: string;
+  createdAt: string;
+}
+
+export interface RateInput {
+  date: string;
+  rates: { metal: string; purity: number; rate: number }[];
+}
+
+export interface RateSearchParams {
+  metal?: string;
+  from?: string;
+  to?: string;
+}
+
+// The rate in effect for each metal and purity on `date`
+export interface CurrentRates {
+  date: string;
+  rates: MetalRate[];
+}
+
+// Ageing of what clients owe in metal. Credits settle the oldest receipts
+// first; what is left is aged from the date of its receipt.
+export type AgeingBucket = "0-30" | "31-60" | "61-90" | "90+";
+
+export interface AgeingItem {
+  sourceType: LedgerSource;
+  sourceId?: string;
+  voucherId?: string;
+  description: string;
+  date: string;
+  // Grams still owed on it
+  amount: number;
+  ageDays: number;
+  bucket: AgeingBucket;
+}
+
+export interface AgeingRow {
+  clientId: string;
+  clientName: string;
+  shopName: string;
+  metal: string;
+  balance: number;
+  buckets: Record<AgeingBucket, number>;
+  oldestDate: string;
+  ageDays: number;
+  items: AgeingItem[];
+}
+
+export interface AgeingTotal {
+  metal: string;
+  balance: number;
+  buckets: Record<AgeingBucket, number>;
+}
+
+export interface AgeingParams {
+  metal?: string;
+  // yyyy-MM-dd; today when left out
+  asOf?: string;
+}
+
+export interface AgeingReport {
+  success: boolean;
+  asOf: string;
+  rows: AgeingRow[];
+  totals: AgeingTotal[];
+}
+
+// Bills are generated from completed receipts; a void bill keeps its number
+export type BillStatus = "issued" | "void";
+
+export interface BillSearchParams {
+  query?: string;
+  status?: BillStatus;
+  clientId?: string;
+  page?: number;
+  limit?: number;
+}
+
+// Work bills, generated from completed work receipts
+export interface WorkBillLine {
+  productName: string;
+  ornamentsWt: number;
+  stoneWeight: number;
+  netWeight: number;
+  makingChargePercent: number;
+  makingCharge: number;
+  total: number;
+}
+
+export interface WorkBillTotals {
+  ornamentsWt: number;
+  stoneWeight: number;
+  netWeight: number;
+  makingCharge: number;
+  total: number;
+}
+
+export interface WorkBill {
+  _id: string;
+  billNumber: string;
+  billDate: string;
+  receiptId: string;
+  voucherId: string;
+  clientId: string;
+  clientName: string;
+  givenTotal: number;
+  lines: WorkBillLine[];
+  totals: WorkBillTotals;
+  balance: number;
+  status: BillStatus;
+  voidedAt?: string;
+  voidReason?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Client (shop) bills, generated from completed shop receipts
+export interface ClientBillLine {
+  itemName: string;
+  grossWt: number;
+  stoneWt: number;
+  netWt: number;
+  meltingTouch: number;
+  finalWt: number;
+  stoneAmt: number;
+}
+
+export interface ClientBillTotals {
+  grossWt: number;
+  stoneWt: number;
+  netWt: number;
+  finalWt: number;
+  stoneAmt: number;
+}
+
+export interface ClientBill {
+  _id: string;
+  billNumber: string;
+  billDate: string;
+  receiptId: string;
+  voucherId: string;
+  clientId: string;
+  clientName: string;
+  shopName: string;
+  phoneNumber?: string;
+  metalType: string;
+  lines: ClientBillLine[];
+  totals: ClientBillTotals;
+  receivedFinalWt: number;
+  balance: number;
+  status: BillStatus;
+  voidedAt?: string;
+  voidReason?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Response envelopes
+export interface ClientListResponse {
+  clients: Client[];
+}
+
+export interface ListResponse<T> {
+  success: boolean;
+  count: number;
+  data: T[];
+}
+
+export interface PagedResponse<T> extends ListResponse<T> {
+  page: number;
+  pages: number;
+}
+
+export interface ItemResponse<T> {
+  success: boolean;
+  data: T;
+  message?: string;
+}
+
+export interface MessageResponse {
+  success?: boolean;
+  message: string;
+}
+
+// Returned by the save endpoints: the receipt and the client with the
+// balance the receipt's ledger entry left it at
+export interface ReceiptSaveResponse<T> {
+  success: boolean;
+  receipt: T;
+  client: Client;
+}
+
+// The number the next saved receipt would get. It is not reserved; the
+// server numbers a receipt when it is saved.
+export interface VoucherIdResponse {
+  voucherId: string;
+}
+
+// Analytics. The response shapes live in lib/analytics, which the backend
+// builds them with.
+export type {
+  ActivityFeed,
+  ActivityItem,
+  ActivityParams,
+  ActivityType,
+  DashboardPeriod,
+  DashboardStats,
+  DateRange,
+  MetalTypeDistribution,
+  MonthlyWeight,
+  PeriodParams,
+  PeriodRange,
+  PeriodTrend,
+  ReceiptKind,
+  ReceiptTally,
+  SalesByDate,
+  StatValue,
+  Tally,
+  Trend,
+  TrendPoint,
+  YearlyComparison,
+} from "../lib/analytics";
@@ -1,16 +1,48 @@
 
 import { clientServices } from './client-services';
 import { receiptServices } from './receipt-services';
+import { adminReceiptServices } from './admin-receipt-services';
+import { adminBillServices } from './admin-bill-services';
+import { clientBillServices } from './client-bill-services';
 import { analyticsServices } from './analytics-services';
+import { auditServices } from './audit-services';
+import { trashServices } from './trash-services';
+import { paymentServices } from './payment-services';
+import { rateServices } from './rate-services';
+import { reportServices } from './report-services';
+import { authServices, userServices } from './auth-services';
+
+export * from './api-types';
 
 export {
   clientServices,
   receiptServices,
-  analyticsServices
+  adminReceiptServices,
+  adminBillServices,
+  clientBillServices,
+  analyticsServices,
+  auditServices,
+  trashServices,
+  paymentServices,
+  rateServices,
+  reportServices,
+  authServices,
+  userServices
 };
 
 export default {
   clientServices,
   receiptServices,
+  adminReceiptServices,
+  adminBillServices,
+  clientBillServices,
   analyticsServices,
+  auditServices,
+  trashServices,
+  paymentServices,
+  rateServices,
+  reportServices,
+  authServices,
+  userServices,
 };
+
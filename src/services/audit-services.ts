@@ -0,0 +1,20 @@
+import { api } from "./api-config";
+import { AuditEntry, AuditSearchParams, PagedResponse } from "./api-types";
+
+/**
+ * Audit Log Services
+ */
+export const auditServices = {
+  // Get one page of the audit log
+  getAuditEntries: async (params: AuditSearchParams = {}) => {
+    try {
+      const response = await api.get<PagedResponse<AuditEntry>>("/audit", {
+        params,
+      });
+      return response.data;
+    } catch (error) {
+      console.error("Error fetching audit log:", error);
+      throw error;
+    }
+  },
+};
@@ -0,0 +1,101 @@
+import { api } from './api-config';
+import {
+  LoginResponse,
+  MessageResponse,
+  SessionResponse,
+  User,
+  UserInput,
+} from './api-types';
+
+/**
+ * Auth Services
+ */
+export const authServices = {
+  // Start a session; the caller stores the returned token
+  login: async (username: string, password: string) => {
+    try {
+      const response = await api.post<LoginResponse>('/auth/login', {
+        username,
+        password,
+      });
+      return response.data;
+    } catch (error) {
+      console.error('Error logging in:', error);
+      throw error;
+    }
+  },
+
+  // End the current session on the server
+  logout: async () => {
+    try {
+      const response = await api.post<MessageResponse>('/auth/logout');
+      return response.data;
+    } catch (error) {
+      console.error('Error logging out:', error);
+      throw error;
+    }
+  },
+
+  // Validate the stored token and get the logged in user
+  getSession: async () => {
+    try {
+      const response = await api.get<SessionResponse>('/auth/me');
+      return response.data;
+    } catch (error) {
+      console.error('Error fetching session:', error);
+      throw error;
+    }
+  },
+
+  // Change the logged in user's password
+  changePassword: async (currentPassword: string, newPassword: string) => {
+    try {
+      const response = await api.put<MessageResponse>('/auth/password', {
+        currentPassword,
+        newPassword,
+      });
+      return response.data;
+    } catch (error) {
+      console.error('Error changing password:', error);
+      throw error;
+    }
+  },
+};
+
+/**
+ * User Services
+ */
+export const userServices = {
+  // Get all users
+  getUsers: async () => {
+    try {
+      const response = await api.get<User[]>('/users');
+      return response.data;
+    } catch (error) {
+      console.error('Error fetching users:', error);
+      throw error;
+    }
+  },
+
+  // Create a user
+  createUser: async (userData: UserInput) => {
+    try {
+      const response = await api.post<User>('/users', userData);
+      return response.data;
+    } catch (error) {
+      console.error('Error creating user:', error);
+      throw error;
+    }
+  },
+
+  // Update a user's name, status or password
+  updateUser: async (id: string, userData: UserInput) => {
+    try {
+      const response = await api.put<User>(`/users/${id}`, userData);
+      return response.data;
+    } catch (error) {
+      console.error(`Error updating user ${id}:`, error);
+      throw error;
+    }
+  },
+};
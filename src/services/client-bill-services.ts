@@ -0,0 +1,67 @@
+import { api } from "./api-config";
+import {
+  BillSearchParams,
+  ClientBill,
+  ItemResponse,
+  PagedResponse,
+} from "./api-types";
+
+/**
+ * Client Bill Services
+ */
+export const clientBillServices = {
+  // Get one page of Client Bills
+  getClientBills: async (params: BillSearchParams = {}) => {
+    try {
+      const response = await api.get<PagedResponse<ClientBill>>(
+        "/client-bills",
+        { params }
+      );
+      return response.data;
+    } catch (error) {
+      console.error("Error fetching Client Bills:", error);
+      throw error;
+    }
+  },
+
+  // Get Client Bill by ID
+  getClientBillById: async (id: string) => {
+    try {
+      const response = await api.get<ItemResponse<ClientBill>>(
+        `/client-bills/${id}`
+      );
+      return response.data;
+    } catch (error) {
+      console.error(`Error fetching Client Bill ${id}:`, error);
+      throw error;
+    }
+  },
+
+  // Bill a completed shop receipt
+  createClientBill: async (receiptId: string) => {
+    try {
+      const response = await api.post<ItemResponse<ClientBill>>(
+        "/client-bills",
+        { receiptId }
+      );
+      return response.data;
+    } catch (error) {
+      console.error(`Error billing receipt ${receiptId}:`, error);
+      throw error;
+    }
+  },
+
+  // Void a Client Bill; its number stays on record
+  voidClientBill: async (id: string, reason: string) => {
+    try {
+      const response = await api.post<ItemResponse<ClientBill>>(
+        `/client-bills/${id}/void`,
+        { reason }
+      );
+      return response.data;
+    } catch (error) {
+      console.error(`Error voiding Client Bill ${id}:`, error);
+      throw error;
+    }
+  },
+};
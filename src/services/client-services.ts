@@ -1,11 +1,23 @@
-
 import { api } from './api-config';
+import {
+  CashLedgerResponse,
+  Client,
+  ClientDeletionImpact,
+  ClientInput,
+  ClientListResponse,
+  ClientStatement,
+  LedgerAdjustmentInput,
+  LedgerAdjustmentResponse,
+  LedgerResponse,
+  MessageResponse,
+  StatementParams,
+} from './api-types';
 
 export const clientServices = {
   // Get all clients
   getClients: async (params = {}) => {
     try {
-      const response = await api.get('/clients', { params });
+      const response = await api.get<ClientListResponse>('/clients', { params });
       return response.data;
     } catch (error) {
       console.error('Error fetching clients:', error);
@@ -14,9 +26,9 @@ export const clientServices = {
   },
   
   // Get client by ID
-  getClient: async (id) => {
+  getClient: async (id: string) => {
     try {
-      const response = await api.get(`/clients/${id}`);
+      const response = await api.get<Client>(`/clients/${id}`);
       return response.data;
     } catch (error) {
       console.error(`Error fetching client ${id}:`, error);
@@ -25,9 +37,9 @@ export const clientServices = {
   },
   
   // Create new client
-  createClient: async (clientData) => {
+  createClient: async (clientData: ClientInput) => {
     try {
-      const response = await api.post('/clients', clientData);
+      const response = await api.post<Client>('/clients', clientData);
       return response.data;
     } catch (error) {
       console.error('Error creating client:', error);
@@ -36,9 +48,9 @@ export const clientServices = {
   },
   
   // Update client
-  updateClient: async (id, clientData) => {
+  updateClient: async (id: string, clientData: ClientInput) => {
     try {
-      const response = await api.put(`/clients/${id}`, clientData);
+      const response = await api.put<Client>(`/clients/${id}`, clientData);
       return response.data;
     } catch (error) {
       console.error(`Error updating client ${id}:`, error);
@@ -46,10 +58,77 @@ export const clientServices = {
     }
   },
   
-  // Delete client
-  deleteClient: async (id) => {
+  // Ledger entries and the balance they add up to
+  getLedger: async (id: string) => {
+    try {
+      const response = await api.get<LedgerResponse>(`/clients/${id}/ledger`);
+      return response.data;
+    } catch (error) {
+      console.error(`Error fetching ledger for client ${id}:`, error);
+      throw error;
+    }
+  },
+
+  // Cash entries and the cash balance they add up to
+  getCashLedger: async (id: string) => {
+    try {
+      const response = await api.get<CashLedgerResponse>(
+        `/clients/${id}/cash-ledger`
+      );
+      return response.data;
+    } catch (error) {
+      console.error(`Error fetching cash ledger for client ${id}:`, error);
+      throw error;
+    }
+  },
+
+  // Statement of account for a date range, per metal and for cash
+  getStatement: async (id: string, params: StatementParams = {}) => {
+    try {
+      const response = await api.get<ClientStatement>(
+        `/clients/${id}/statement`,
+        { params }
+      );
+      return response.data;
+    } catch (error) {
+      console.error(`Error fetching statement for client ${id}:`, error);
+      throw error;
+    }
+  },
+
+  // Post an opening balance or manual adjustment
+  postLedgerAdjustment: async (id: string, data: LedgerAdjustmentInput) => {
+    try {
+      const response = await api.post<LedgerAdjustmentResponse>(
+        `/clients/${id}/ledger`,
+        data
+      );
+      return response.data;
+    } catch (error) {
+      console.error(`Error posting ledger entry for client ${id}:`, error);
+      throw error;
+    }
+  },
+
+  // Receipts and balance that deleting the client would affect
+  getDeletionImpact: async (id: string) => {
+    try {
+      const response = await api.get<ClientDeletionImpact>(
+        `/clients/${id}/deletion-impact`
+      );
+      return response.data;
+    } catch (error) {
+      console.error(`Error fetching deletion impact for client ${id}:`, error);
+      throw error;
+    }
+  },
+
+  // Move client to the trash; cascade takes its receipts along
+  deleteClient: async (id: string, cascade = false) => {
     try {
-      const response = await api.delete(`/clients/${id}`);
+      const response = await api.delete<MessageResponse>(`/clients/${id}`, {
+        params: { cascade: cascade || undefined },
+      });
       return response.data;
     } catch (error) {
       console.error(`Error deleting client ${id}:`, error);
@@ -58,9 +137,11 @@ export const clientServices = {
   },
   
   // Search clients
-  searchClients: async (query) => {
+  searchClients: async (query: string) => {
     try {
-      const response = await api.get(`/clients/search?query=${query}`);
+      const response = await api.get<Client[]>('/clients/search', {
+        params: { query },
+      });
       return response.data;
     } catch (error) {
       console.error('Error searching clients:', error);
@@ -0,0 +1,70 @@
+import { api } from "./api-config";
+import {
+  ItemResponse,
+  OutstandingReceipt,
+  PagedResponse,
+  Payment,
+  PaymentInput,
+  PaymentResponse,
+  PaymentSearchParams,
+} from "./api-types";
+
+/**
+ * Payment Services
+ */
+export const paymentServices = {
+  // Get one page of payments, newest first
+  getPayments: async (params: PaymentSearchParams = {}) => {
+    try {
+      const response = await api.get<PagedResponse<Payment>>("/payments", {
+        params,
+      });
+      return response.data;
+    } catch (error) {
+      console.error("Error fetching payments:", error);
+      throw error;
+    }
+  },
+
+  // A client's shop receipts that still have something to pay
+  getOutstandingReceipts: async (clientId: string) => {
+    try {
+      const response = await api.get<ItemResponse<OutstandingReceipt[]>>(
+        "/payments/outstanding",
+        { params: { clientId } }
+      );
+      return response.data.data;
+    } catch (error) {
+      console.error(
+        `Error fetching outstanding receipts for client ${clientId}:`,
+        error
+      );
+      throw error;
+    }
+  },
+
+  // Record money received; the receipts it is applied to are updated too
+  recordPayment: async (data: PaymentInput) => {
+    try {
+      const response = await api.post<PaymentResponse>("/payments", data);
+      return response.data;
+    } catch (error) {
+      console.error("Error recording payment:", error);
+      throw error;
+    }
+  },
+
+  // Void a payment, debiting the amount back to the client
+  voidPayment: async (id: string, reason: string) => {
+    try {
+      const response = await api.post<PaymentResponse>(
+        `/payments/${id}/void`,
+        { reason }
+      );
+      return response.data;
+    } catch (error) {
+      console.error(`Error voiding payment ${id}:`, error);
+      throw error;
+    }
+  },
+};
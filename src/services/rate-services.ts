@@ -0,0 +1,54 @@
+import { api } from "./api-config";
+import {
+  CurrentRates,
+  ItemResponse,
+  MetalRate,
+  RateInput,
+  RateSearchParams,
+} from "./api-types";
+
+/**
+ * Metal Rate Services
+ */
+export const rateServices = {
+  // Rate history, oldest first
+  getRates: async (params: RateSearchParams = {}) => {
+    try {
+      const response = await api.get<ItemResponse<MetalRate[]>>("/rates", {
+        params,
+      });
+      return response.data.data;
+    } catch (error) {
+      console.error("Error fetching metal rates:", error);
+      throw error;
+    }
+  },
+
+  // The rates in effect on a day (today when not given)
+  getCurrentRates: async (date?: string) => {
+    try {
+      const response = await api.get<ItemResponse<CurrentRates>>(
+        "/rates/current",
+        { params: date ? { date } : {} }
+      );
+      return response.data.data;
+    } catch (error) {
+      console.error("Error fetching current metal rates:", error);
+      throw error;
+    }
+  },
+
+  // Enter a day's rates; they are added to the history
+  setRates: async (data: RateInput) => {
+    try {
+      const response = await api.post<ItemResponse<MetalRate[]>>(
+        "/rates",
+        data
+      );
+      return response.data.data;
+    } catch (error) {
+      console.error("Error saving metal rates:", error);
+      throw error;
+    }
+  },
+};
@@ -1,10 +1,22 @@
 import { api } from "./api-config";
+import {
+  ItemResponse,
+  ListResponse,
+  MessageResponse,
+  ReceiptRevision,
+  ReceiptSaveResponse,
+  ShopReceipt,
+  ShopReceiptInput,
+  VoucherIdResponse,
+} from "./api-types";
 
 export const receiptServices = {
   // Get all receipts
   getReceipts: async (params = {}) => {
     try {
-      const response = await api.get("/receipts", { params });
+      const response = await api.get<ListResponse<ShopReceipt>>("/receipts", {
+        params,
+      });
       return response.data;
     } catch (error) {
       console.error("Error fetching receipts:", error);
@@ -13,9 +25,9 @@ export const receiptServices = {
   },
 
   // Get receipt by ID
-  getReceipt: async (id) => {
+  getReceipt: async (id: string) => {
     try {
-      const response = await api.get(`/receipts/${id}`);
+      const response = await api.get<ItemResponse<ShopReceipt>>(`/receipts/${id}`);
       return response.data;
     } catch (error) {
       console.error(`Error fetching receipt ${id}:`, error);
@@ -23,12 +35,28 @@ export const receiptServices = {
     }
   },
 
+  // Saved versions of a receipt, oldest first
+  getReceiptRevisions: async (id: string) => {
+    try {
+      const response = await api.get<ListResponse<ReceiptRevision<ShopReceipt>>>(
+        `/receipts/${id}/revisions`
+      );
+      return response.data;
+    } catch (error) {
+      console.error(`Error fetching versions of receipt ${id}:`, error);
+      throw error;
+    }
+  },
+
   // Get receipts by client ID
-  getClientReceipts: async (clientId, params = {}) => {
+  getClientReceipts: async (clientId: string, params = {}) => {
     try {
-      const response = await api.get(`/receipts/client/${clientId}`, {
-        params,
-      });
+      const response = await api.get<ListResponse<ShopReceipt>>(
+        `/receipts/client/${clientId}`,
+        {
+          params,
+        }
+      );
       return response.data;
     } catch (error) {
       console.error(`Error fetching receipts for client ${clientId}:`, error);
@@ -37,7 +65,7 @@ export const receiptServices = {
   },
 
   // Create new receipt
-  createReceipt: async (receiptData) => {
+  createReceipt: async (receiptData: ShopReceiptInput) => {
     try {
       console.log(
         "Sending receipt data to server:",
@@ -46,11 +74,15 @@ export const receiptServices = {
 
       // Ensure data format exactly matches the expected MongoDB structure
       // We're keeping the strings as strings and not converting numbers to allow the backend to handle any necessary coercions
-      const response = await api.post("/receipts", receiptData, {
-        headers: {
-          "Content-Type": "application/json",
-        },
-      });
+      const response = await api.post<ItemResponse<ShopReceipt>>(
+        "/receipts",
+        receiptData,
+        {
+          headers: {
+            "Content-Type": "application/json",
+          },
+        }
+      );
 
       console.log("Receipt creation response:", response.data);
       return response.data;
@@ -61,9 +93,12 @@ export const receiptServices = {
   },
 
   // Update receipt
-  updateReceipt: async (id, receiptData) => {
+  updateReceipt: async (id: string, receiptData: ShopReceiptInput) => {
     try {
-      const response = await api.put(`/receipts/${id}`, receiptData);
+      const response = await api.put<ItemResponse<ShopReceipt>>(
+        `/receipts/${id}`,
+        receiptData
+      );
       return response.data;
     } catch (error) {
       console.error(`Error updating receipt ${id}:`, error);
@@ -71,10 +106,31 @@ export const receiptServices = {
     }
   },
 
+  // Create (no id) or update a receipt and post it to the client's ledger
+  // in one request
+  saveReceipt: async (
+    receiptData: ShopReceiptInput,
+    id?: string,
+    reason?: string
+  ) => {
+    try {
+      const response = await api.post<ReceiptSaveResponse<ShopReceipt>>(
+        "/receipts/save",
+        { id, receipt: receiptData, reason }
+      );
+      return response.data;
+    } catch (error) {
+      console.error("Error saving receipt:", error);
+      throw error;
+    }
+  },
+
   // Delete receipt
-  deleteReceipt: async (id) => {
+  deleteReceipt: async (id: string, reason?: string) => {
     try {
-      const response = await api.delete(`/receipts/${id}`);
+      const response = await api.delete<MessageResponse>(`/receipts/${id}`, {
+        params: { reason },
+      });
       return response.data;
     } catch (error) {
       console.error(`Error deleting receipt ${id}:`, error);
@@ -82,10 +138,53 @@ export const receiptServices = {
     }
   },
 
+  // Lock a complete receipt against edits
+  finalizeReceipt: async (id: string) => {
+    try {
+      const response = await api.post<ItemResponse<ShopReceipt>>(
+        `/receipts/${id}/finalize`
+      );
+      return response.data;
+    } catch (error) {
+      console.error(`Error finalizing receipt ${id}:`, error);
+      throw error;
+    }
+  },
+
+  // Unlock a finalized receipt; the reason is required
+  reopenReceipt: async (id: string, reason: string) => {
+    try {
+      const response = await api.post<ItemResponse<ShopReceipt>>(
+        `/receipts/${id}/reopen`,
+        { reason }
+      );
+      return response.data;
+    } catch (error) {
+      console.error(`Error reopening receipt ${id}:`, error);
+      throw error;
+    }
+  },
+
+  // Cancel a receipt, reversing its balance effect; the reason is required
+  cancelReceipt: async (id: string, reason: string) => {
+    try {
+      const response = await api.post<ItemResponse<ShopReceipt>>(
+        `/receipts/${id}/cancel`,
+        { reason }
+      );
+      return response.data;
+    } catch (error) {
+      console.error(`Error cancelling receipt ${id}:`, error);
+      throw error;
+    }
+  },
+
   // Generate unique voucher ID
   generateVoucherId: async () => {
     try {
-      const response = await api.get("/receipts/generate-voucher-id");
+      const response = await api.get<VoucherIdResponse>(
+        "/receipts/generate-voucher-id"
+      );
       return response.data;
     } catch (error) {
       console.error("Error generating voucher ID:", error);
@@ -94,9 +193,12 @@ export const receiptServices = {
   },
 
   // Search receipts
-  searchReceipts: async (query) => {
+  searchReceipts: async (query: string) => {
     try {
-      const response = await api.get(`/receipts/search?query=${query}`);
+      const response = await api.get<ListResponse<ShopReceipt>>(
+        "/receipts/search",
+        { params: { query } }
+      );
       return response.data;
     } catch (error) {
       console.error("Error searching receipts:", error);
@@ -0,0 +1,20 @@
+import { api } from "./api-config";
+import { AgeingParams, AgeingReport } from "./api-types";
+
+/**
+ * Report Services
+ */
+export const reportServices = {
+  // What each client owes per metal, split by age
+  getAgeingReport: async (params: AgeingParams = {}) => {
+    try {
+      const response = await api.get<AgeingReport>("/reports/ageing", {
+        params,
+      });
+      return response.data;
+    } catch (error) {
+      console.error("Error fetching ageing report:", error);
+      throw error;
+    }
+  },
+};
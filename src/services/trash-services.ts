@@ -0,0 +1,35 @@
+import { api } from "./api-config";
+import {
+  ItemResponse,
+  TrashResponse,
+  TrashSearchParams,
+} from "./api-types";
+
+/**
+ * Trash Services
+ */
+export const trashServices = {
+  // Get one page of deleted clients and receipts
+  getTrash: async (params: TrashSearchParams = {}) => {
+    try {
+      const response = await api.get<TrashResponse>("/trash", { params });
+      return response.data;
+    } catch (error) {
+      console.error("Error fetching trash:", error);
+      throw error;
+    }
+  },
+
+  // Put a deleted client or receipt back; a receipt posts to the balance again
+  restoreTrashItem: async (id: string) => {
+    try {
+      const response = await api.post<ItemResponse<Record<string, unknown>>>(
+        `/trash/${id}/restore`
+      );
+      return response.data;
+    } catch (error) {
+      console.error(`Error restoring trash item ${id}:`, error);
+      throw error;
+    }
+  },
+};